@@ -1,6 +1,13 @@
 import { useEffect, useState, useRef, useMemo, useCallback } from "react";
 import ChatView from "./components/ChatView";
 import ProjectOnboardingView from "./components/ProjectOnboardingView";
+import PairingView from "./components/PairingView";
+import DevicesView from "./components/DevicesView";
+import { apiFetch, getToken, UNAUTHORIZED_EVENT } from "./auth";
+import { mux, type GlobalMessage } from "./mux";
+import { addTurn, formatCost } from "./usage";
+import { todoProgress } from "../shared/tool-call-display";
+import type { SearchHit, TodoItem, UsageTotals } from "./types/stream";
 
 type Project = {
   key: string;
@@ -8,6 +15,7 @@ type Project = {
   name: string;
   lastActivity: string;
   sessionCount: number;
+  usage?: UsageTotals;
 };
 
 type ChatAgentData = {
@@ -31,17 +39,38 @@ type Session = {
   modified: string;
   status: "running" | "stopped";
   agentId?: string;
-  agentStatus?: "idle" | "thinking" | "done" | "error" | "nudge";
+  agentStatus?: "idle" | "thinking" | "done" | "error" | "nudge" | "queued_for_slot";
   unreadCount: number;
   hasUnread?: boolean;
   latestNotification?: string | null;
+  usage?: UsageTotals | null;
+  parentId?: string | null;
+  subAgents?: number;     // Task tool sub-agents running in the current turn
+  todos?: TodoItem[];     // Claude's latest TodoWrite plan
 };
 
+/** Puts each fork right under its parent, keeping the given order among siblings. */
+function nestForks(sessions: Session[]): Array<{ session: Session; depth: number }> {
+  const ids = new Set(sessions.map((s) => s.id));
+  const children = new Map<string, Session[]>();
+  for (const s of sessions) {
+    if (s.parentId && ids.has(s.parentId)) children.set(s.parentId, [...(children.get(s.parentId) ?? []), s]);
+  }
+  const nested: Array<{ session: Session; depth: number }> = [];
+  const visit = (session: Session, depth: number) => {
+    nested.push({ session, depth });
+    for (const child of children.get(session.id) ?? []) visit(child, depth + 1);
+  };
+  for (const s of sessions) if (!s.parentId || !ids.has(s.parentId)) visit(s, 0);
+  return nested;
+}
+
 function SessionAvatar({ session, initials, liveStatus, isActive }: { session: Session; initials: string; liveStatus?: string; isActive?: boolean }) {
   const isThinking = (liveStatus || session.agentStatus) === "thinking";
   const isWarm = session.status === "running";
   const hasNotification = !!session.latestNotification;
   const hasUnread = session.hasUnread;
+  const progress = session.todos?.length ? todoProgress(session.todos) : null;
 
   return (
     <div className="relative flex-shrink-0 mr-3">
@@ -67,11 +96,66 @@ function SessionAvatar({ session, initials, liveStatus, isActive }: { session: S
       }`}>
         {initials}
       </div>
+
+      {/* Todo progress */}
+      {progress && (
+        <div
+          className={`absolute -bottom-1 -right-1.5 rounded-full px-1 text-[9px] font-semibold leading-[14px] shadow-sm ${
+            progress.done === progress.total ? 'bg-[#27C93F] text-white' : 'bg-white text-gray-500 border border-black/[0.06]'
+          }`}
+          title={`${progress.done}/${progress.total} done`}
+        >
+          {progress.done}/{progress.total}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const HIT_KIND_LABELS: Record<SearchHit["kind"], string> = {
+  user_message: "You",
+  assistant_message: "Claude",
+  thought: "Thinking",
+  tool_call: "Tool",
+};
+
+/** A message search result; /api/search wraps the matched terms in \u0002…\u0003. */
+function SearchHitRow({ hit, onOpen }: { hit: SearchHit; onOpen: () => void }) {
+  const date = new Date(hit.timestamp);
+  return (
+    <div
+      onClick={onOpen}
+      className="cursor-pointer hover:bg-black/[0.03] active:bg-black/[0.05] rounded-xl mx-1 px-3 py-1.5 transition-all duration-200"
+    >
+      <div className="flex justify-between items-baseline text-[11px] text-gray-400">
+        <span className="truncate">{HIT_KIND_LABELS[hit.kind]} · {hit.projectPath.split("/").pop() || hit.projectKey}</span>
+        <span className="flex-shrink-0 ml-2">{date.toLocaleDateString([], { month: "short", day: "numeric" })}</span>
+      </div>
+      <div className="text-[13px] lg:text-[12px] text-gray-600 line-clamp-2 break-words">
+        {hit.snippet.split("\u0002").map((part, i) => {
+          if (i === 0) return part;
+          const [match, rest] = part.split("\u0003");
+          return <span key={i}><mark className="bg-yellow-100 text-gray-900 rounded-sm">{match}</mark>{rest}</span>;
+        })}
+      </div>
     </div>
   );
 }
 
 export default function App() {
+  const [paired, setPaired] = useState(() => !!getToken());
+
+  useEffect(() => {
+    const onUnauthorized = () => setPaired(false);
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+  }, []);
+
+  if (!paired) return <PairingView onPaired={() => setPaired(true)} />;
+  return <Workspace />;
+}
+
+function Workspace() {
   console.log("[App] Rendering...");
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
@@ -79,37 +163,104 @@ export default function App() {
   const [agents, setAgents] = useState<ChatAgentData[]>([]);
   const [activeAgentIds, setActiveAgentIds] = useState<string[]>([]);
   const [onboardingProject, setOnboardingProject] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
   const [spawning, setSpawning] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [messageHits, setMessageHits] = useState<SearchHit[]>([]);
+  const [focus, setFocus] = useState<{ sessionId: string; itemId: string } | null>(null);
   const [viewStack, setViewStack] = useState<string[]>(["projects"]); // 'projects' | 'messages' | 'chat'
   const [agentStatuses, setAgentStatuses] = useState<Record<string, string>>({});
   const [sidebarVisible, setSidebarVisible] = useState(true);
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [heartbeatAlert, setHeartbeatAlert] = useState<string | null>(null);
+  const selectedProjectRef = useRef<Project | null>(null);
+  selectedProjectRef.current = selectedProject;
 
+  // The sidebar is push-driven: a full fetch on (re)connect, then global /ws events
   useEffect(() => {
-    fetch("/api/projects").then((r) => r.json()).then(setProjects).catch(() => {});
-    fetch("/api/agents").then((r) => r.json()).then(setAgents).catch(() => {});
-
-    pollRef.current = setInterval(() => {
-      // Poll active agents to keep global state fresh
-      fetch("/api/agents").then((r) => r.json()).then(setAgents).catch(() => {});
-      
-      // If we have a project open, refresh its sessions
-      if (selectedProject) {
-        fetch(`/api/projects/${encodeURIComponent(selectedProject.key)}/sessions`)
-          .then((r) => r.json())
-          .then(setSessions)
-          .catch(() => {});
+    const refreshAgents = () => {
+      apiFetch("/api/agents").then((r) => r.json()).then(setAgents).catch(() => {});
+    };
+    const refreshSessions = () => {
+      const project = selectedProjectRef.current;
+      if (!project) return;
+      apiFetch(`/api/projects/${encodeURIComponent(project.key)}/sessions`)
+        .then((r) => r.json())
+        .then(setSessions)
+        .catch(() => {});
+    };
+    const refreshAll = () => {
+      apiFetch("/api/projects").then((r) => r.json()).then(setProjects).catch(() => {});
+      refreshAgents();
+      refreshSessions();
+    };
+
+    const handleGlobal = (msg: GlobalMessage) => {
+      if (msg.type === "status_change") {
+        const agentStatus = msg.status === "busy" ? "thinking" : msg.status === "queued_for_slot" ? "queued_for_slot" : "idle";
+        setAgentStatuses((prev) => ({ ...prev, [msg.sessionId]: agentStatus }));
+        setSessions((prev) => prev.map((s) => s.id === msg.sessionId
+          ? { ...s, agentStatus, status: msg.status === "sleeping" ? "stopped" : msg.status === "queued_for_slot" ? s.status : "running" }
+          : s));
+        if (msg.status === "sleeping") {
+          setAgents((prev) => prev.filter((a) => a.id !== msg.sessionId));
+        } else if (msg.status !== "queued_for_slot") {
+          setAgents((prev) => {
+            if (!prev.some((a) => a.id === msg.sessionId)) refreshAgents(); // woke up
+            return prev;
+          });
+        }
+      } else if (msg.type === "session_renamed") {
+        handleSessionRenamed(msg.sessionId, msg.title);
+      } else if (msg.type === "session_created") {
+        refreshAgents();
+        if (selectedProjectRef.current?.path === msg.projectPath) refreshSessions();
+      } else if (msg.type === "notification") {
+        setSessions((prev) => prev.map((s) => s.id === msg.sessionId
+          ? { ...s, latestNotification: msg.subject, hasUnread: true }
+          : s));
+      } else if (msg.type === "heartbeat_alert") {
+        setHeartbeatAlert(msg.subject);
+      } else if (msg.type === "todo_update") {
+        setSessions((prev) => prev.map((s) => s.id === msg.sessionId ? { ...s, todos: msg.todos } : s));
+      } else if (msg.type === "subagents_change") {
+        setSessions((prev) => prev.map((s) => s.id === msg.sessionId ? { ...s, subAgents: msg.running } : s));
+      } else if (msg.type === "turn_complete") {
+        setSessions((prev) => prev.map((s) => s.id === msg.sessionId ? { ...s, usage: msg.usage } : s));
+        setProjects((prev) => prev.map((p) => p.path === msg.projectPath ? { ...p, usage: addTurn(p.usage, msg.turn) } : p));
       }
-    }, 10000);
+    };
+
+    refreshAll();
+    const offGlobal = mux.onGlobal(handleGlobal);
+    const offConnection = mux.onConnection((open) => { if (open) refreshAll(); });
+    return () => {
+      offGlobal();
+      offConnection();
+    };
+  }, []);
 
-    return () => { if (pollRef.current) clearInterval(pollRef.current); };
-  }, [selectedProject]);
+  // Full-text search over message contents, scoped to the open project
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (q.length < 2) {
+      setMessageHits([]);
+      return;
+    }
+    const params = new URLSearchParams({ q, limit: "20" });
+    if (selectedProject) params.set("project", selectedProject.key);
+    const timer = setTimeout(() => {
+      apiFetch(`/api/search?${params}`)
+        .then((r) => r.json())
+        .then((hits) => { if (Array.isArray(hits)) setMessageHits(hits); })
+        .catch(() => {});
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [searchQuery, selectedProject]);
 
   function openProject(project: Project) {
     setSelectedProject(project);
     setSessions([]);
-    fetch(`/api/projects/${encodeURIComponent(project.key)}/sessions`)
+    apiFetch(`/api/projects/${encodeURIComponent(project.key)}/sessions`)
       .then((r) => r.json())
       .then(setSessions)
       .catch(() => {});
@@ -119,6 +270,7 @@ export default function App() {
 
   function goBack() {
     setOnboardingProject(false);
+    setShowDevices(false);
     setViewStack((prev) => {
       const next = [...prev];
       if (next.length > 1) {
@@ -141,7 +293,7 @@ export default function App() {
 
     setSpawning(true);
     try {
-      const res = await fetch("/api/agents", {
+      const res = await apiFetch("/api/agents", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -169,7 +321,7 @@ export default function App() {
 
       // Refresh sessions immediately to show "Warm" state
       if (selectedProject) {
-        fetch(`/api/projects/${encodeURIComponent(selectedProject.key)}/sessions`)
+        apiFetch(`/api/projects/${encodeURIComponent(selectedProject.key)}/sessions`)
           .then((r) => r.json())
           .then(setSessions);
       }
@@ -183,21 +335,21 @@ export default function App() {
   }, [selectedProject, projects, activeAgentIds.length]);
 
   const killAgent = useCallback(async (agent: ChatAgentData) => {
-    await fetch(`/api/agents/${agent.id}`, { method: "DELETE" }).catch(() => {});
+    await apiFetch(`/api/agents/${agent.id}`, { method: "DELETE" }).catch(() => {});
     setAgents((prev) => prev.filter((a) => a.id !== agent.id));
     setActiveAgentIds((prev) => prev.filter((id) => id !== agent.id));
   }, []);
 
   const hibernateAgent = useCallback((agentId: string) => {
     // Fire-and-forget: tell the server to hibernate the engine session
-    fetch(`/api/sessions/${agentId}/hibernate`, { method: "POST" }).catch(() => {});
+    apiFetch(`/api/sessions/${agentId}/hibernate`, { method: "POST" }).catch(() => {});
     // Remove from stage and agents list immediately
     setActiveAgentIds((prev) => prev.filter((id) => id !== agentId));
     setAgents((prev) => prev.filter((a) => a.id !== agentId));
   }, []);
 
   const stopAgent = useCallback(async (agentId: string) => {
-    await fetch(`/api/agents/${agentId}`, { method: "DELETE" }).catch(() => {});
+    await apiFetch(`/api/agents/${agentId}`, { method: "DELETE" }).catch(() => {});
   }, []);
 
   const switchAgentModel = useCallback(async (agentId: string, model: string) => {
@@ -205,11 +357,11 @@ export default function App() {
     if (!agent) return;
 
     // 1. Kill the old one
-    await fetch(`/api/agents/${agent.id}`, { method: "DELETE" }).catch(() => {});
+    await apiFetch(`/api/agents/${agent.id}`, { method: "DELETE" }).catch(() => {});
     
     // 2. Spawn a new one with same sessionId and new model
     try {
-      const res = await fetch("/api/agents", {
+      const res = await apiFetch("/api/agents", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -232,7 +384,7 @@ export default function App() {
     if (alias === null) return;
     
     try {
-      await fetch(`/api/projects/${encodeURIComponent(project.key)}/rename`, {
+      await apiFetch(`/api/projects/${encodeURIComponent(project.key)}/rename`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ alias }),
@@ -248,7 +400,7 @@ export default function App() {
     if (alias === null) return;
     
     try {
-      await fetch(`/api/sessions/${encodeURIComponent(session.id)}/rename`, {
+      await apiFetch(`/api/sessions/${encodeURIComponent(session.id)}/rename`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ alias }),
@@ -264,16 +416,27 @@ export default function App() {
     setViewStack(["projects", "messages", "chat"]);
   };
 
+  const openDevices = () => {
+    setOnboardingProject(false);
+    setShowDevices(true);
+    setViewStack(["projects", "messages", "chat"]);
+  };
+
+  const closeDevices = () => {
+    setShowDevices(false);
+    if (activeAgentIds.length === 0) setViewStack(["projects"]);
+  };
+
   const completeOnboarding = async (dirPath: string) => {
     try {
-      const res = await fetch("/api/projects", {
+      const res = await apiFetch("/api/projects", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ path: dirPath }),
       });
       const { agent } = await res.json();
 
-      const projectsRes = await fetch("/api/projects");
+      const projectsRes = await apiFetch("/api/projects");
       const newProjects = await projectsRes.json();
       setProjects(newProjects);
 
@@ -289,6 +452,7 @@ export default function App() {
 
   const toggleAgentOnStage = (agentId: string, split: boolean = false) => {
     setOnboardingProject(false);
+    setShowDevices(false);
     if (split) {
       if (activeAgentIds.includes(agentId)) return;
       if (activeAgentIds.length < 4) {
@@ -355,6 +519,16 @@ export default function App() {
             <div className="flex items-center justify-between w-full">
               <h1 className="text-[20px] font-semibold text-gray-900 px-1">Projects</h1>
               <div className="flex items-center gap-1">
+                <button
+                  onClick={(e) => { e.stopPropagation(); openDevices(); }}
+                  className="w-8 h-8 rounded-full flex items-center justify-center text-[#3478F6] hover:bg-black/[0.05] active:scale-95 transition-all"
+                  title="Devices"
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                    <rect x="5" y="2" width="14" height="20" rx="2" ry="2"/>
+                    <path d="M12 18h.01"/>
+                  </svg>
+                </button>
                 <button
                   onClick={(e) => { e.stopPropagation(); handleCreateProject(); }}
                   className="w-8 h-8 rounded-full flex items-center justify-center text-[#3478F6] hover:bg-black/[0.05] active:scale-95 transition-all"
@@ -402,6 +576,13 @@ export default function App() {
           )}
         </div>
 
+        {heartbeatAlert && (
+          <div className="mx-4 mb-2 px-3 py-2 rounded-lg bg-amber-50 text-[13px] text-amber-900 flex items-start gap-2">
+            <span className="flex-1"><span className="font-semibold">Heartbeat:</span> {heartbeatAlert}</span>
+            <button onClick={() => setHeartbeatAlert(null)} className="text-amber-700/60 hover:text-amber-900" title="Dismiss">✕</button>
+          </div>
+        )}
+
                 {/* Dynamic List Content */}
                 <div className="flex-1 overflow-y-auto px-2 pb-32">
                   {currentScene === 'projects' ? (
@@ -429,6 +610,7 @@ export default function App() {
                                 <div className="flex items-center gap-2">
                                   <div className="text-[13px] lg:text-[12px] text-gray-500 truncate">
                                     {project.sessionCount} sessions
+                                    {project.usage && project.usage.turns > 0 && ` · ${formatCost(project.usage.costUsd)}`}
                                   </div>
                                 </div>
                               </div>
@@ -443,15 +625,15 @@ export default function App() {
                     /* Scene 2: Unified Messages List */
                     <div className="space-y-0.5">
                       {/* Sort logic: Running agents first, then by date */}
-                      {[...sessions]
+                      {nestForks([...sessions]
                         .filter(s => (s.title || s.id).toLowerCase().includes(searchQuery.toLowerCase()))
                         .sort((a, b) => {
                           const aRunning = agents.some(ag => ag.id === a.id) ? 1 : 0;
                           const bRunning = agents.some(ag => ag.id === b.id) ? 1 : 0;
                           if (aRunning !== bRunning) return bRunning - aRunning;
                           return new Date(b.modified).getTime() - new Date(a.modified).getTime();
-                        })
-                        .map((session, idx, arr) => {
+                        }))
+                        .map(({ session, depth }) => {
                           const isWarm = agents.some(ag => ag.id === session.id);
 
                           const initials = (session.title || "?").substring(0, 2).toUpperCase();
@@ -466,6 +648,7 @@ export default function App() {
                             <div key={session.id}>
                               <div
                                 onClick={() => startAgent(session.id, false, session.projectPath)}
+                                style={depth > 0 ? { paddingLeft: depth * 16 } : undefined}
                                 className={`flex items-center cursor-pointer group transition-all duration-300 py-2 lg:py-1.5 ${
                                   isSelected
                                     ? "bg-black/[0.06] rounded-xl mx-1"
@@ -486,10 +669,14 @@ export default function App() {
                                       {session.hasUnread && (
                                         <span className="inline-block w-2 h-2 rounded-full bg-[#007AFF] flex-shrink-0" />
                                       )}
+                                      {depth > 0 && <span className="text-gray-300 flex-shrink-0" title="Fork">↳</span>}
                                       {session.title ?? session.id.slice(0, 8)}
                                     </span>
                                     <div className="relative flex-shrink-0 ml-2 h-full flex items-center min-w-[40px] justify-end">
                                       <span className={`text-[12px] lg:text-[11px] font-medium transition-opacity duration-200 group-hover:opacity-0 text-gray-400`}>
+                                        {session.usage && session.usage.turns > 0 && (
+                                          <span className="text-gray-300 mr-1.5" title={`${session.usage.turns} turns`}>{formatCost(session.usage.costUsd)}</span>
+                                        )}
                                         {timestampStr}
                                       </span>
                                       <div className="absolute right-0 flex flex-row gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200 py-1 items-center justify-center h-full">
@@ -527,7 +714,9 @@ export default function App() {
                                   {(session.agentStatus === 'thinking' || session.latestNotification || session.preview) && (
                                     <div className={`text-[13px] lg:text-[12px] truncate text-gray-500`}>
                                       {session.agentStatus === 'thinking'
-                                        ? 'Typing...'
+                                        ? session.subAgents
+                                          ? `${session.subAgents} sub-agent${session.subAgents === 1 ? '' : 's'} running`
+                                          : 'Typing...'
                                         : session.latestNotification
                                           ? session.latestNotification
                                           : session.preview}
@@ -540,6 +729,21 @@ export default function App() {
                         })}
                     </div>
                   )}
+                  {messageHits.length > 0 && (
+                    <div className="mt-4 space-y-0.5">
+                      <div className="px-4 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">Messages</div>
+                      {messageHits.map((hit) => (
+                        <SearchHitRow
+                          key={`${hit.sessionId}/${hit.itemId}`}
+                          hit={hit}
+                          onOpen={() => {
+                            setFocus({ sessionId: hit.sessionId, itemId: hit.itemId });
+                            startAgent(hit.sessionId, false, hit.projectPath || undefined);
+                          }}
+                        />
+                      ))}
+                    </div>
+                  )}
                 </div>
         {/* Floating Search & Compose Dock */}
         <div className="absolute bottom-0 left-0 right-0 px-6 pb-[calc(env(safe-area-inset-bottom)+1rem)] lg:px-10 z-20 pointer-events-none">
@@ -586,7 +790,9 @@ export default function App() {
             </svg>
           </button>
         )}
-        {onboardingProject ? (
+        {showDevices ? (
+          <DevicesView onClose={closeDevices} />
+        ) : onboardingProject ? (
           <ProjectOnboardingView 
             onComplete={completeOnboarding}
             onCancel={() => {
@@ -649,8 +855,10 @@ export default function App() {
                       onUnreadReset={() => handleUnreadReset(id)}
                       onStatusChange={handleStatusChange}
                       onModelSwitch={switchAgentModel}
+                      onFork={(forkId) => startAgent(forkId, false, agent?.projectPath)}
                       currentModel={agent?.model || "sonnet"}
                       isTiled={activeAgentIds.length > 1}
+                      focusItemId={focus?.sessionId === id ? focus.itemId : undefined}
                     />
                   </div>
                 </div>
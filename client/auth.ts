@@ -0,0 +1,37 @@
+const TOKEN_KEY = "aimessage.token";
+
+export const UNAUTHORIZED_EVENT = "aimessage:unauthorized";
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setToken(token: string): void {
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+export function clearToken(): void {
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/**
+ * fetch() with the device token attached. A 401 means the token was
+ * revoked (or never valid), so it's dropped and the app returns to pairing.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  const res = await fetch(input, { ...init, headers });
+  if (res.status === 401) {
+    clearToken();
+    window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  }
+  return res;
+}
+
+// Browsers can't set headers on WebSocket upgrades, so the token rides in the query
+export function wsUrl(path: string): string {
+  const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${location.host}${path}?token=${encodeURIComponent(getToken() ?? "")}`;
+}
@@ -1,22 +1,29 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useLayoutEffect, useRef, useState, useCallback } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { StreamItem, ChatWsServerMessage, ChatWsClientMessage, ImageAttachment } from "../types/stream";
+import { apiFetch } from "../auth";
+import { mux } from "../mux";
+import { formatCost, formatDuration, formatTokens } from "../usage";
+import { getToolLabel, mergeToolCall, todoProgress } from "../../shared/tool-call-display";
+import { TodoList, ToolResultView, type SubAgentItem } from "./ToolResultView";
+import type { StreamItem, ChatWsServerMessage, ChatWsClientMessage, ImageAttachment, PermissionResponseDecision, QueuedInput, SlashCommandInfo, TodoItem, Turn } from "../types/stream";
 
-type ContextClearMarker = { kind: "context_clear"; id: string; timestamp: string };
 type PlanModeMarker = { kind: "plan_mode"; id: string; timestamp: string };
-type DisplayItem = StreamItem | ContextClearMarker | PlanModeMarker;
+type TurnFooterMarker = { kind: "turn_footer"; id: string; timestamp: string; turn: Turn };
+type DisplayItem = StreamItem | PlanModeMarker | TurnFooterMarker;
 
-type AgentStatus = "idle" | "thinking" | "done" | "error" | "connecting" | "nudge";
+type AgentStatus = "idle" | "thinking" | "done" | "error" | "connecting" | "nudge" | "queued_for_slot";
 
 type MessageGroup =
   | {
-      kind: "user" | "agent" | "system" | "tool" | "thought" | "error" | "notification";
+      kind: "user" | "agent" | "system" | "tool" | "thought" | "error" | "notification" | "permission";
       items: StreamItem[];
       timestamp: string;
     }
-  | { kind: "context_clear"; id: string; timestamp: string }
-  | { kind: "plan_mode"; id: string; timestamp: string };
+  | { kind: "context_clear"; id: string; timestamp: string; summary?: string }
+  | { kind: "branch"; id: string; branch: number; fromItemId: string }
+  | { kind: "plan_mode"; id: string; timestamp: string }
+  | { kind: "turn_footer"; id: string; turn: Turn };
 
 type PendingImage = ImageAttachment & { preview: string };
 
@@ -33,8 +40,8 @@ const DESTRUCTIVE_BASH_PATTERNS = [
 ];
 
 function classifyTool(name: string, input: unknown): "trace" | "promoted" {
-  if (["Edit", "Write", "NotebookEdit"].includes(name)) return "promoted";
-  if (name === "Agent" || name === "TaskCreate" || name === "TaskUpdate") return "promoted";
+  if (["Edit", "MultiEdit", "Write", "NotebookEdit", "TodoWrite"].includes(name)) return "promoted";
+  if (["Agent", "Task", "TaskCreate", "TaskUpdate"].includes(name)) return "promoted";
   if (TRACE_TOOLS.has(name)) return "trace";
   if (name === "Bash") {
     const cmd = typeof input === "object" && input !== null && "command" in input
@@ -50,14 +57,86 @@ function classifyTool(name: string, input: unknown): "trace" | "promoted" {
   return "trace";
 }
 
+// Server writes 'running' then 'completed' for each tool call, 'pending' then
+// 'allowed'/'denied' for each permission request — keep the last occurrence
+// (a completed tool call takes its name and input from the running one)
+function dedupeHistory(items: StreamItem[]): StreamItem[] {
+  const seenIds = new Set<string>();
+  const deduped: StreamItem[] = [];
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    if ((item.kind === "tool_call" || item.kind === "permission_request") && item.id) {
+      const key = `${item.kind}:${item.id}`;
+      if (seenIds.has(key)) {
+        if (item.kind === "tool_call") {
+          const idx = deduped.findIndex(d => d.kind === "tool_call" && d.id === item.id);
+          deduped[idx] = mergeToolCall(item, deduped[idx] as typeof item);
+        }
+        continue; // skip earlier duplicate
+      }
+      seenIds.add(key);
+    }
+    deduped.unshift(item);
+  }
+  return deduped;
+}
+
+// A sub-agent's items render inside the Task tool_call that spawned it,
+// not in the main transcript
+function splitSubAgentItems(items: DisplayItem[]): { main: DisplayItem[]; byParent: Map<string, SubAgentItem[]> } {
+  const main: DisplayItem[] = [];
+  const byParent = new Map<string, SubAgentItem[]>();
+  for (const item of items) {
+    if ("parentToolUseId" in item && item.parentToolUseId) {
+      byParent.set(item.parentToolUseId, [...(byParent.get(item.parentToolUseId) ?? []), item]);
+    } else {
+      main.push(item);
+    }
+  }
+  return { main, byParent };
+}
+
+// A turn's footer goes after its response, just before the next user message
+// (queued inputs answered back to back share the spot)
+function withTurnFooters(items: DisplayItem[], turns: Map<string, Turn>): DisplayItem[] {
+  if (turns.size === 0) return items;
+  const out: DisplayItem[] = [];
+  let pending: Turn[] = [];
+  let answered = false;
+  const flush = () => {
+    for (const turn of pending) out.push({ kind: "turn_footer", id: `turn-${turn.inputId}`, timestamp: turn.endedAt, turn });
+    pending = [];
+    answered = false;
+  };
+  for (const item of items) {
+    if (item.kind === "user_message") {
+      if (answered) flush();
+      const turn = turns.get(item.id);
+      if (turn) pending.push(turn);
+    } else if (item.kind !== "context_cleared" && item.kind !== "context_compacted" && item.kind !== "branch_started" && item.kind !== "plan_mode") {
+      answered = true;
+    }
+    out.push(item);
+  }
+  flush();
+  return out;
+}
+
 function groupMessages(items: DisplayItem[]): MessageGroup[] {
   const groups: MessageGroup[] = [];
   let currentGroup: Extract<MessageGroup, { items: StreamItem[] }> | null = null;
 
-  items.filter(item => item.kind !== "thought").forEach((item) => {
-    if (item.kind === "context_clear") {
+  // Thoughts only show while they stream in
+  items.filter(item => item.kind !== "thought" || item.status === "loading").forEach((item) => {
+    if (item.kind === "context_cleared" || item.kind === "context_compacted") {
+      currentGroup = null;
+      groups.push({ kind: "context_clear", id: item.id, timestamp: item.timestamp, ...(item.kind === "context_compacted" ? { summary: item.summary } : {}) });
+      return;
+    }
+
+    if (item.kind === "branch_started") {
       currentGroup = null;
-      groups.push({ kind: "context_clear", id: item.id, timestamp: item.timestamp });
+      groups.push({ kind: "branch", id: item.id, branch: item.branch, fromItemId: item.fromItemId });
       return;
     }
 
@@ -67,12 +146,19 @@ function groupMessages(items: DisplayItem[]): MessageGroup[] {
       return;
     }
 
+    if (item.kind === "turn_footer") {
+      currentGroup = null;
+      groups.push({ kind: "turn_footer", id: item.id, turn: item.turn });
+      return;
+    }
+
     let kind: Extract<MessageGroup, { items: StreamItem[] }>["kind"] = "agent";
     if (item.kind === "user_message") kind = "user";
     else if (item.kind === "system") kind = "system";
     else if (item.kind === "tool_call") kind = "tool";
     else if (item.kind === "error") kind = "error";
     else if (item.kind === "notification") kind = "notification";
+    else if (item.kind === "permission_request") kind = "permission";
 
     if (item.kind === "assistant_message" || item.kind === "text_delta" || item.kind === "thought") kind = "agent";
 
@@ -111,8 +197,8 @@ function ToolPillIcon({ type, pulse }: { type: 'batch' | 'edit' | 'agent' | 'bas
 }
 
 function getPillType(toolName: string): 'batch' | 'edit' | 'agent' | 'bash' | 'mcp' {
-  if (['Edit', 'Write', 'NotebookEdit'].includes(toolName)) return 'edit';
-  if (['Agent', 'TaskCreate', 'TaskUpdate'].includes(toolName)) return 'agent';
+  if (['Edit', 'MultiEdit', 'Write', 'NotebookEdit'].includes(toolName)) return 'edit';
+  if (['Agent', 'Task', 'TaskCreate', 'TaskUpdate'].includes(toolName)) return 'agent';
   if (toolName === 'Bash') return 'bash';
   if (toolName.startsWith('mcp_') || toolName.startsWith('mcp__')) return 'mcp';
   return 'batch';
@@ -200,36 +286,39 @@ function TracePill({ items }: { items: Extract<StreamItem, { kind: "tool_call" }
       </button>
       {expanded && (
         <div className="mt-1 rounded-lg border border-black/[0.04] overflow-hidden w-full">
-          {items.map((item, i) => (
-            <div key={item.id || i} className="flex items-center gap-3 px-3 py-1 text-[11px] border-b border-black/[0.02] last:border-b-0">
-              <span className="text-gray-400 font-medium w-12 flex-shrink-0">{item.name}</span>
-              <span className="text-gray-300 truncate flex-1 font-mono">
-                {item.name === "Read" && typeof item.input === "object" && item.input !== null && "file_path" in item.input
-                  ? String((item.input as any).file_path).split("/").pop()
-                  : item.name === "Grep" && typeof item.input === "object" && item.input !== null && "pattern" in item.input
-                  ? `"${(item.input as any).pattern}"`
-                  : item.name === "Glob" && typeof item.input === "object" && item.input !== null && "pattern" in item.input
-                  ? (item.input as any).pattern
-                  : ""}
-              </span>
-              <span className={`text-[10px] flex-shrink-0 ${item.status === "running" ? "text-amber-400" : item.status === "failed" ? "text-red-400" : "text-gray-300"}`}>
-                {item.status === "running" ? "..." : item.status === "failed" ? "failed" : "done"}
-              </span>
-            </div>
-          ))}
+          {items.map((item, i) => <TraceRow key={item.id || i} item={item} />)}
         </div>
       )}
     </div>
   );
 }
 
-function PromotedPill({ item }: { item: Extract<StreamItem, { kind: "tool_call" }> }) {
-  const [expanded, setExpanded] = useState(false);
+function TraceRow({ item }: { item: Extract<StreamItem, { kind: "tool_call" }> }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="border-b border-black/[0.02] last:border-b-0">
+      <button onClick={() => setOpen(v => !v)} className="flex w-full items-center gap-3 px-3 py-1 text-[11px] text-left cursor-pointer">
+        <span className="text-gray-400 font-medium w-12 flex-shrink-0">{item.name}</span>
+        <span className="text-gray-300 truncate flex-1 font-mono">
+          {getToolLabel(item.name, item.input).replace(/^[^:]+: /, "")}
+        </span>
+        <span className={`text-[10px] flex-shrink-0 ${item.status === "running" ? "text-amber-400" : item.status === "failed" ? "text-red-400" : "text-gray-300"}`}>
+          {item.status === "running" ? "..." : item.status === "failed" ? "failed" : "done"}
+        </span>
+      </button>
+      {open && <div className="px-3 pb-2"><ToolResultView item={item} /></div>}
+    </div>
+  );
+}
+
+function PromotedPill({ item, subItems }: { item: Extract<StreamItem, { kind: "tool_call" }>; subItems?: SubAgentItem[] }) {
+  // A todo list is worth reading without a click
+  const [expanded, setExpanded] = useState(item.name === "TodoWrite");
   const isRunning = item.status === "running";
   const pillType = getPillType(item.name);
 
   // Build summary text
-  let summary = item.name.replace(/_/g, " ");
+  let summary: string;
   if (item.name === "Edit" && typeof item.input === "object" && item.input !== null && "file_path" in item.input) {
     const file = String((item.input as any).file_path).split("/").pop();
     summary = `Edited ${file}`;
@@ -239,11 +328,11 @@ function PromotedPill({ item }: { item: Extract<StreamItem, { kind: "tool_call"
   } else if (item.name === "Bash" && typeof item.input === "object" && item.input !== null && "command" in item.input) {
     const cmd = String((item.input as any).command);
     summary = cmd.length > 50 ? cmd.substring(0, 47) + "..." : cmd;
-  } else if (item.name === "Agent" && typeof item.input === "object" && item.input !== null && "description" in item.input) {
-    summary = `Agent: ${(item.input as any).description}`;
-  } else if (/^mcp__/.test(item.name)) {
-    summary = item.name.replace(/^mcp__[^_]+__/, "").replace(/_/g, " ");
+  } else {
+    summary = getToolLabel(item.name, item.input);
   }
+  const subTools = subItems?.filter(i => i.kind === "tool_call").length ?? 0;
+  if (subTools > 0) summary += ` · ${subTools} tool${subTools === 1 ? "" : "s"}`;
 
   return (
     <div className={expanded ? "w-full" : ""}>
@@ -257,25 +346,172 @@ function PromotedPill({ item }: { item: Extract<StreamItem, { kind: "tool_call"
         </span>
       </button>
       {expanded && (
-        <div className="mt-1 px-3 pb-2 space-y-2 w-full">
-          <div className="text-[9px] font-bold text-gray-300 uppercase tracking-widest">Input</div>
-          <pre className="text-[11px] text-gray-600 font-mono bg-gray-50 p-2 rounded border border-black/[0.02] overflow-x-auto">
-            {JSON.stringify(item.input, null, 2)}
-          </pre>
-          {item.result !== undefined && (
-            <>
-              <div className="text-[9px] font-bold text-gray-300 uppercase tracking-widest mt-2">Result</div>
-              <pre className="text-[11px] text-gray-600 font-mono bg-gray-50 p-2 rounded border border-black/[0.02] overflow-x-auto max-h-40 overflow-y-auto">
-                {typeof item.result === "string" ? item.result : JSON.stringify(item.result, null, 2)}
-              </pre>
-            </>
-          )}
+        <div className="mt-1 px-3 pb-2 w-full">
+          <ToolResultView item={item} subItems={subItems} />
         </div>
       )}
     </div>
   );
 }
 
+function PermissionCard({ item, onRespond }: {
+  item: Extract<StreamItem, { kind: "permission_request" }>;
+  onRespond: (decision: PermissionResponseDecision, message?: string) => void;
+}) {
+  const [denying, setDenying] = useState(false);
+  const [reason, setReason] = useState("");
+  const pillType = getPillType(item.toolName);
+
+  let outcome = "";
+  if (item.status === "allowed") outcome = item.scope === "session" ? "Allowed for this session" : "Allowed once";
+  else if (item.status === "denied") outcome = item.message ? `Denied: ${item.message}` : "Denied";
+
+  return (
+    <div className="w-full max-w-2xl rounded-xl border border-amber-300/50 bg-amber-50/60 px-3 py-2">
+      <div className="flex items-center gap-1.5 text-[12px] font-medium text-amber-700">
+        <ToolPillIcon type={pillType} pulse={item.status === "pending"} />
+        <span>{item.status === "pending" ? `Claude wants to use ${item.toolName}` : item.toolName}</span>
+      </div>
+      <pre className="mt-1.5 text-[11px] text-gray-600 font-mono bg-white/70 p-2 rounded border border-black/[0.02] overflow-x-auto max-h-40 overflow-y-auto">
+        {JSON.stringify(item.input, null, 2)}
+      </pre>
+      {item.status === "pending" ? (
+        denying ? (
+          <form
+            className="mt-2 flex items-center gap-1.5"
+            onSubmit={(e) => { e.preventDefault(); onRespond("deny", reason.trim() || undefined); }}
+          >
+            <input
+              autoFocus
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Tell Claude why (optional)"
+              className="flex-1 h-7 rounded-full border border-black/10 bg-white px-3 text-[12px] outline-none"
+            />
+            <button type="submit" className="h-7 rounded-full bg-red-500 px-3 text-[12px] font-medium text-white">Deny</button>
+            <button type="button" onClick={() => setDenying(false)} className="h-7 rounded-full px-2 text-[12px] text-gray-500">Cancel</button>
+          </form>
+        ) : (
+          <div className="mt-2 flex flex-wrap items-center gap-1.5">
+            <button onClick={() => onRespond("allow_once")} className="h-7 rounded-full bg-[#007AFF] px-3 text-[12px] font-medium text-white">Allow once</button>
+            <button onClick={() => onRespond("allow_session")} className="h-7 rounded-full bg-gray-100 px-3 text-[12px] font-medium text-gray-700">Allow for session</button>
+            <button onClick={() => setDenying(true)} className="h-7 rounded-full bg-gray-100 px-3 text-[12px] font-medium text-red-600">Deny…</button>
+          </div>
+        )
+      ) : (
+        <div className={`mt-1.5 text-[11px] font-medium ${item.status === "denied" ? "text-red-600" : "text-green-700"}`}>{outcome}</div>
+      )}
+    </div>
+  );
+}
+
+// Inputs waiting behind the current turn; they join the transcript when sent
+function QueuePanel({ queue, onChange }: {
+  queue: QueuedInput[];
+  onChange: (msg: ChatWsClientMessage) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const move = (index: number, delta: number) => {
+    const ids = queue.map((q) => q.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + delta, 0, id);
+    onChange({ type: "queue_reorder", inputIds: ids });
+  };
+
+  const saveEdit = (inputId: string) => {
+    const text = draft.trim();
+    if (text) onChange({ type: "queue_edit", inputId, text });
+    setEditingId(null);
+  };
+
+  const button = "h-6 rounded-full px-2 text-[11px] font-medium text-gray-500 hover:bg-gray-200/70 disabled:opacity-30";
+
+  return (
+    <div className="mb-2 space-y-1">
+      <div className="text-[11px] font-medium text-gray-400">Queued ({queue.length})</div>
+      {queue.map((q, i) => (
+        <div key={q.id} className="flex items-center gap-1 rounded-lg bg-gray-50 pl-2.5 pr-1 py-1 text-[12px] text-gray-700">
+          {editingId === q.id ? (
+            <input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") { e.preventDefault(); saveEdit(q.id); }
+                else if (e.key === "Escape") setEditingId(null);
+              }}
+              onBlur={() => setEditingId(null)}
+              className="flex-1 h-6 rounded border border-black/10 bg-white px-2 outline-none"
+            />
+          ) : (
+            <span className="flex-1 truncate" title={q.text}>
+              {q.source && <span className="text-gray-400">{q.source} · </span>}
+              {q.text}
+              {q.attachments > 0 && <span className="text-gray-400"> +{q.attachments}</span>}
+            </span>
+          )}
+          <button type="button" onClick={() => move(i, -1)} disabled={i === 0} title="Move up" className={button}>↑</button>
+          <button type="button" onClick={() => move(i, 1)} disabled={i === queue.length - 1} title="Move down" className={button}>↓</button>
+          <button type="button" onClick={() => { setEditingId(q.id); setDraft(q.text); }} className={button}>Edit</button>
+          <button type="button" onClick={() => onChange({ type: "queue_send_now", inputId: q.id })} title="Stop the current reply and send this next" className={`${button} text-[#007AFF]`}>Send now</button>
+          <button type="button" onClick={() => onChange({ type: "queue_delete", inputId: q.id })} title="Remove from queue" className={`${button} text-red-500`}>✕</button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Claude's current plan (TodoWrite), collapsed to the step it's on
+function TodoPanel({ todos }: { todos: TodoItem[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const { done, total } = todoProgress(todos);
+  const current = todos.find((t) => t.status === "in_progress");
+
+  return (
+    <div className="mb-2">
+      <button type="button" onClick={() => setExpanded((v) => !v)} className="flex w-full items-center gap-2 text-[11px] font-medium text-gray-400">
+        <span>Plan · {done}/{total} done</span>
+        <div className="h-1 flex-1 overflow-hidden rounded-full bg-gray-100">
+          <div className="h-full rounded-full bg-[#27C93F] transition-all duration-500" style={{ width: `${(done / total) * 100}%` }} />
+        </div>
+        <span>{expanded ? "Hide" : "Show"}</span>
+      </button>
+      {expanded
+        ? <div className="mt-1.5 rounded-lg bg-gray-50 px-2.5 py-1.5"><TodoList todos={todos} /></div>
+        : current && <div className="mt-1 truncate text-[12px] text-gray-700">{current.activeForm || current.content}</div>}
+    </div>
+  );
+}
+
+// Slash commands matching what's typed so far; Tab or Enter completes the highlighted one
+function CommandMenu({ suggestions, selected, onPick }: {
+  suggestions: SlashCommandInfo[];
+  selected: number;
+  onPick: (command: SlashCommandInfo) => void;
+}) {
+  return (
+    <div className="mb-2 rounded-xl border border-black/5 bg-white py-1 shadow-sm">
+      {suggestions.map((c, i) => (
+        <button
+          key={c.name}
+          type="button"
+          onMouseDown={(e) => { e.preventDefault(); onPick(c); }}
+          className={`flex w-full items-baseline gap-2 px-3 py-1 text-left text-[13px] ${i === selected ? "bg-[#007AFF]/10" : "hover:bg-gray-50"}`}
+        >
+          <span className="font-medium text-gray-800">/{c.name}</span>
+          {c.args.length > 0 && (
+            <span className="text-[12px] text-gray-400">{c.args.map((a) => (a.required ? `<${a.name}>` : `[${a.name}]`)).join(" ")}</span>
+          )}
+          <span className="flex-1 truncate text-[12px] text-gray-500">{c.description}</span>
+          {c.source !== "builtin" && <span className="text-[10px] uppercase tracking-wide text-gray-300">{c.source}</span>}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 function CodeBlock({ language, children }: { language: string; children: string }) {
   const [copied, setCopied] = useState(false);
 
@@ -308,24 +544,158 @@ function CodeBlock({ language, children }: { language: string; children: string
   );
 }
 
-function MessageBubble({ item, group, index, total }: { item: StreamItem; group: Extract<MessageGroup, { items: StreamItem[] }>; index: number; total: number }) {
-  if (group.kind === "user") {
-    const text = (item as any).text || "";
+function TurnFooter({ turn }: { turn: Turn }) {
+  const parts = [
+    turn.model,
+    `${formatTokens(turn.inputTokens + turn.cacheReadTokens + turn.cacheWriteTokens)} in · ${formatTokens(turn.outputTokens)} out`,
+    formatCost(turn.costUsd),
+    ...(turn.toolCount > 0 ? [`${turn.toolCount} tool${turn.toolCount === 1 ? "" : "s"}`] : []),
+    formatDuration(turn.durationMs),
+    ...(turn.outcome !== "success" ? [turn.outcome] : []),
+  ];
 
+  return (
+    <div
+      className={`text-[10px] font-medium tracking-wide ${turn.outcome === "success" ? "text-gray-300" : "text-red-300"}`}
+      title={turn.cacheReadTokens > 0 ? `${formatTokens(turn.cacheReadTokens)} input tokens read from cache` : undefined}
+    >
+      {parts.join(" · ")}
+    </div>
+  );
+}
+
+/** Hover action under a message; only journaled messages can be forked from. */
+function ForkButton({ item, onFork }: { item: StreamItem; onFork?: (itemId: string) => void }) {
+  if (!onFork || (item.kind !== "user_message" && item.kind !== "assistant_message")) return null;
+  return (
+    <button
+      onClick={() => onFork(item.id)}
+      className="mt-0.5 text-[11px] text-gray-300 hover:text-gray-500 opacity-0 group-hover/msg:opacity-100 transition-opacity"
+      title={item.kind === "user_message" ? "New session from just before this message" : "New session from the end of this turn"}
+    >
+      Fork from here
+    </button>
+  );
+}
+
+/** A sent message; editing resends it in a new branch from that point. */
+function UserBubble({ item, onFork, onEdit }: { item: StreamItem; onFork?: (itemId: string) => void; onEdit?: (itemId: string, text: string) => void }) {
+  const text = (item as any).text || "";
+  // Heartbeat alerts, scheduled prompts and the like: not typed by the user
+  const source = item.kind === "user_message" ? item.source : undefined;
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null) {
+    const resend = () => {
+      if (draft.trim() && draft !== text) onEdit?.(item.id, draft);
+      setDraft(null);
+    };
     return (
-      <div className="flex justify-start">
-        <div className="bg-gray-100 rounded-lg px-4 py-2 max-w-2xl">
-          <p className="text-[15px] leading-[1.5] text-gray-900 font-normal whitespace-pre-wrap break-words font-sans antialiased">{text}</p>
+      <div className="flex flex-col items-start">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); resend(); }
+            else if (e.key === "Escape") setDraft(null);
+          }}
+          rows={Math.min(8, draft.split("\n").length + 1)}
+          autoFocus
+          className="w-full max-w-2xl bg-gray-100 rounded-lg px-4 py-2 text-[15px] leading-[1.5] text-gray-900 font-sans outline-none ring-1 ring-[#007AFF]/40 resize-none"
+        />
+        <div className="mt-1 flex gap-3 text-[11px]">
+          <button onClick={resend} className="text-[#007AFF] font-medium">Resend</button>
+          <button onClick={() => setDraft(null)} className="text-gray-400 hover:text-gray-600">Cancel</button>
+          <span className="text-gray-300">Later messages move to an earlier branch</span>
         </div>
       </div>
     );
   }
 
+  return (
+    <div className="flex flex-col items-start group/msg">
+      <div className="bg-gray-100 rounded-lg px-4 py-2 max-w-2xl">
+        {source && <p className="text-[11px] text-gray-400">{source}</p>}
+        <p className="text-[15px] leading-[1.5] text-gray-900 font-normal whitespace-pre-wrap break-words font-sans antialiased">{text}</p>
+      </div>
+      <div className="flex gap-3">
+        {onEdit && item.kind === "user_message" && (
+          <button
+            onClick={() => setDraft(text)}
+            className="mt-0.5 text-[11px] text-gray-300 hover:text-gray-500 opacity-0 group-hover/msg:opacity-100 transition-opacity"
+          >
+            Edit
+          </button>
+        )}
+        <ForkButton item={item} onFork={onFork} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Divider where an edited message was resent. Opens what the previous
+ * branch had from that message on.
+ */
+function BranchDivider({ sessionId, branch, fromItemId }: { sessionId: string; branch: number; fromItemId: string }) {
+  const [earlier, setEarlier] = useState<StreamItem[] | null>(null);
+  const [open, setOpen] = useState(false);
+
+  const toggle = async () => {
+    setOpen((o) => !o);
+    if (earlier) return;
+    try {
+      const res = await apiFetch(`/api/sessions/${encodeURIComponent(sessionId)}/branches/${branch - 1}`);
+      const { items } = (await res.json()) as { items: StreamItem[] };
+      const from = items.findIndex((i) => i.id === fromItemId);
+      setEarlier(items.slice(Math.max(0, from)));
+    } catch {
+      setEarlier([]);
+    }
+  };
+
+  return (
+    <div className="py-4 px-2">
+      <button onClick={toggle} className="w-full flex items-center gap-3">
+        <div className="h-px flex-1 bg-black/10" />
+        <span className="text-[11px] text-gray-400 font-medium whitespace-nowrap tracking-wide">
+          Edited · {open ? "hide" : "show"} earlier version
+        </span>
+        <div className="h-px flex-1 bg-black/10" />
+      </button>
+      {open && (
+        <div className="mt-2 mx-auto max-w-[80%] rounded-xl bg-gray-50 px-3 py-2 space-y-1.5 text-[12px] text-gray-500">
+          {earlier === null ? "Loading…" : earlier.length === 0 ? "Nothing to show" : earlier
+            .filter((i) => i.kind === "user_message" || i.kind === "assistant_message")
+            .map((i) => (
+              <p key={i.id} className="whitespace-pre-wrap break-words">
+                <span className="font-medium text-gray-600">{i.kind === "user_message" ? "You" : "Claude"}:</span> {(i as { text: string }).text}
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MessageBubble({ item, group, index, total, onFork, onEdit }: { item: StreamItem; group: Extract<MessageGroup, { items: StreamItem[] }>; index: number; total: number; onFork?: (itemId: string) => void; onEdit?: (itemId: string, text: string) => void }) {
+  if (group.kind === "user") {
+    return <UserBubble item={item} onFork={onFork} onEdit={onEdit} />;
+  }
+
   if (group.kind === "agent") {
     const text = (item as any).text || "";
 
+    if (item.kind === "thought") {
+      return (
+        <div className="w-full max-w-2xl text-[13px] leading-[1.6] text-gray-400 italic whitespace-pre-wrap line-clamp-4">
+          {text}
+        </div>
+      );
+    }
+
     return (
-      <div className="flex flex-col items-start w-full">
+      <div className="flex flex-col items-start w-full group/msg">
         <div className="w-full max-w-full overflow-x-hidden">
           <ReactMarkdown
             remarkPlugins={[remarkGfm]}
@@ -360,6 +730,7 @@ function MessageBubble({ item, group, index, total }: { item: StreamItem; group:
             {text}
           </ReactMarkdown>
         </div>
+        <ForkButton item={item} onFork={onFork} />
       </div>
     );
   }
@@ -373,14 +744,21 @@ type Props = {
   onUnreadReset?: () => void;
   onStatusChange?: (sessionId: string, status: string) => void;
   onModelSwitch?: (model: string) => void;
+  onFork?: (forkId: string) => void;     // open a session just forked from this one
   currentModel?: string;
   isTiled?: boolean;
+  focusItemId?: string;                  // open scrolled to this item, e.g. a search hit
 };
 
-export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStatusChange, onModelSwitch, currentModel, isTiled }: Props) {
+export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStatusChange, onModelSwitch, onFork, currentModel, isTiled, focusItemId }: Props) {
   console.log(`[ChatView] Mounting for agent ${agentId}`);
   const [items, setItems] = useState<DisplayItem[]>([]);
   const [status, setStatus] = useState<AgentStatus>("connecting");
+  const [slotPosition, setSlotPosition] = useState<number | null>(null); // place in line for a session slot
+  const [queue, setQueue] = useState<QueuedInput[]>([]);
+  const [todos, setTodos] = useState<TodoItem[]>([]);
+  const [commands, setCommands] = useState<SlashCommandInfo[]>([]);
+  const [commandIndex, setCommandIndex] = useState(0);
   const [input, setInput] = useState("");
   const [logs, setLogs] = useState<string[]>([]);
   const [debugMode, setDebugMode] = useState<boolean>(() => {
@@ -388,16 +766,20 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
   });
   const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [firstTurn, setFirstTurn] = useState(0); // oldest loaded turn; > 0 means more above
+  const [turns, setTurns] = useState<Map<string, Turn>>(new Map()); // by inputId
 
-  const wsRef = useRef<WebSocket | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const isAtBottom = useRef(true);
+  const loadingOlderRef = useRef(false);
+  const prependAnchorRef = useRef<number | null>(null); // scrollHeight before older items were prepended
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Text buffering for phrase-cluster streaming
-  const textBufferRef = useRef<string>("");
+  // Partial messages by block id, ahead of what's rendered; flushed in phrase clusters
+  const streamedRef = useRef<Map<string, { block: "text" | "thinking"; text: string }>>(new Map());
+  const unflushedRef = useRef(0); // chars streamed since the last flush
   const flushTimerRef = useRef<number | null>(null);
 
   const [isRecording, setIsRecording] = useState(false);
@@ -431,6 +813,14 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
     const { scrollTop, scrollHeight, clientHeight } = scrollRef.current;
     // If we're within 50px of the bottom, consider it "at bottom"
     isAtBottom.current = scrollHeight - scrollTop - clientHeight < 50;
+    if (scrollTop < 200) loadOlder();
+  };
+
+  const loadOlder = () => {
+    if (firstTurn <= 0 || loadingOlderRef.current) return;
+    if (mux.send(agentId, { type: "load_older", beforeTurn: firstTurn })) {
+      loadingOlderRef.current = true;
+    }
   };
 
   async function startRecording() {
@@ -453,7 +843,7 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
         const formData = new FormData();
         formData.append("audio", audioBlob);
         try {
-          const res = await fetch("/api/transcribe", { method: "POST", body: formData });
+          const res = await apiFetch("/api/transcribe", { method: "POST", body: formData });
           const { text } = await res.json();
           if (text) setInput(prev => prev + (prev ? " " : "") + text);
         } catch (err) { console.error("Transcription failed:", err); }
@@ -488,6 +878,38 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
     }
   }, [items]);
 
+  // Keep the viewport on the same message when older history is prepended
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (el && prependAnchorRef.current !== null) {
+      el.scrollTop += el.scrollHeight - prependAnchorRef.current;
+      prependAnchorRef.current = null;
+    }
+  }, [items]);
+
+  // Scroll to focusItemId once it's loaded, paging in older turns until it is.
+  // Finished thoughts and sub-agent steps aren't drawn on their own, so the
+  // next item that is stands in for them
+  const focusedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusItemId || focusedRef.current === focusItemId || items.length === 0) return;
+    const from = items.findIndex(i => i.id === focusItemId);
+    if (from === -1) {
+      if (firstTurn > 0) loadOlder();
+      else focusedRef.current = focusItemId; // not in this branch of the session
+      return;
+    }
+    const root = scrollRef.current;
+    const el = items.slice(from)
+      .map(i => root?.querySelector<HTMLElement>(`[data-item-ids~="${CSS.escape(i.id)}"]`))
+      .find(Boolean);
+    if (!el) return;
+    focusedRef.current = focusItemId;
+    isAtBottom.current = false;
+    el.scrollIntoView({ block: "center" });
+    el.animate([{ backgroundColor: "rgba(250, 204, 21, 0.3)" }, { backgroundColor: "transparent" }], { duration: 2000, easing: "ease-out" });
+  }, [focusItemId, items, firstTurn]);
+
   const connectedAgentIdRef = useRef<string | null>(null);
   const callbacksRef = useRef({ onTitleUpdate, onUnreadReset, onStatusChange });
 
@@ -499,132 +921,165 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
     if (connectedAgentIdRef.current === agentId) return;
     connectedAgentIdRef.current = agentId;
 
-    const protocol = location.protocol === "https:" ? "wss:" : "ws:";
-    const ws = new WebSocket(`${protocol}//${location.host}/ws/chat/${agentId}`);
-    wsRef.current = ws;
+    streamedRef.current.clear();
 
-    // Flush buffered text to items state as one chunk
+    // Render what has streamed so far: text as a text_delta holding the whole
+    // block, thinking as a loading thought. The final item replaces it by id
     const flushBuffer = () => {
-      const buffered = textBufferRef.current;
-      if (!buffered) return;
-      console.log(`[TextBuffer] FLUSH: "${buffered.substring(0, 50)}..." (${buffered.length} chars)`);
-      textBufferRef.current = "";
       if (flushTimerRef.current !== null) {
         clearTimeout(flushTimerRef.current);
         flushTimerRef.current = null;
       }
+      if (unflushedRef.current === 0) return;
+      unflushedRef.current = 0;
+      const streamed = [...streamedRef.current];
+      const timestamp = new Date().toISOString();
       setItems((prev) => {
-        const last = prev[prev.length - 1];
-        if (last && last.kind === "assistant_message" && last.id === "streaming") {
-          const next = [...prev];
-          next[next.length - 1] = { ...last, text: (last.text || "") + buffered };
-          return next;
+        let next = prev;
+        for (const [id, { block, text }] of streamed) {
+          const idx = next.findIndex(i => i.id === id);
+          const existing = next[idx];
+          const streaming = existing?.kind === "text_delta" || existing?.kind === "thought" && existing.status === "loading";
+          // Already final, or nothing new since the last flush
+          if (existing && (!streaming || (existing as { text: string }).text === text)) continue;
+          const item: StreamItem = block === "thinking"
+            ? { kind: "thought", text, id, timestamp, status: "loading" }
+            : { kind: "text_delta", text, id, timestamp, block, offset: 0 };
+          next = idx === -1 ? [...next, item] : next.map((i, n) => n === idx ? item : i);
+        }
+        return next;
+      });
+    };
+
+    const applyStreamItem = (item: StreamItem) => {
+      // Apply deltas at their offset, so one seen twice (a catch-up after
+      // a reconnect) doesn't repeat text; release them in phrase clusters
+      if (item.kind === "text_delta") {
+        // Journaled by older versions; the final message follows anyway
+        if (item.offset === undefined) return;
+        const streamed = streamedRef.current.get(item.id)?.text ?? "";
+        // Missed the start; the final item fills it in
+        if (item.offset > streamed.length) return;
+        streamedRef.current.set(item.id, { block: item.block ?? "text", text: streamed.slice(0, item.offset) + item.text });
+        unflushedRef.current += item.text.length;
+        if (unflushedRef.current > 30) {
+          // Enough new text — flush immediately
+          flushBuffer();
         } else {
-          return [...prev, {
-            kind: "assistant_message" as const,
-            text: buffered,
-            id: "streaming",
-            timestamp: new Date().toISOString()
-          }];
+          // Schedule a flush in 150ms if not already scheduled
+          if (flushTimerRef.current === null) {
+            flushTimerRef.current = window.setTimeout(() => {
+              flushTimerRef.current = null;
+              flushBuffer();
+            }, 150);
+          }
+        }
+        return;
+      }
+
+      // The final item has the complete text; nothing more streams for its block
+      if (item.kind === "assistant_message" || item.kind === "thought") {
+        streamedRef.current.delete(item.id);
+      }
+
+      setItems((prev) => {
+        // An edit was resent: what followed the edited message is now an earlier branch
+        if (item.kind === "branch_started") {
+          const from = prev.findIndex(i => i.id === item.fromItemId);
+          return [...prev.slice(0, Math.max(0, from)), item];
+        }
+
+        // A streamed block becomes its final message in place
+        if (item.kind === "assistant_message" || item.kind === "thought") {
+          const streamedIdx = prev.findIndex(i => i.id === item.id);
+          if (streamedIdx !== -1) return prev.map((i, n) => n === streamedIdx ? item : i);
         }
+
+        // If it's a tool call that already exists, update it. Otherwise append.
+        if (item.kind === "tool_call") {
+          const existingIdx = prev.findIndex(i => i.kind === "tool_call" && i.id === item.id);
+          if (existingIdx !== -1) {
+            const next = [...prev];
+            next[existingIdx] = mergeToolCall(prev[existingIdx] as typeof item, item);
+            return next;
+          }
+        }
+
+        // Same for permission requests once they're answered
+        if (item.kind === "permission_request") {
+          const existingIdx = prev.findIndex(i => i.kind === "permission_request" && i.id === item.id);
+          if (existingIdx !== -1) {
+            const next = [...prev];
+            next[existingIdx] = item;
+            return next;
+          }
+        }
+        return [...prev, item];
       });
     };
 
-    ws.onopen = () => {
-      setStatus("idle");
-      addLog("CONNECTED");
+    const handleConnection = (open: boolean) => {
+      setStatus(open ? "idle" : "error");
+      addLog(open ? "CONNECTED" : "CLOSED");
     };
-    ws.onmessage = (e) => {
-      addLog(`RECV: ${e.data.substring(0, 50)}...`);
+    const handleMessage = (msg: ChatWsServerMessage) => {
+      addLog(`RECV: ${msg.type}`);
       try {
-        const msg = JSON.parse(e.data) as ChatWsServerMessage;
         if (msg.type === "history_snapshot") {
           console.log(`[WS] Received history_snapshot with ${msg.items.length} items`);
-          // Deduplicate tool_calls by ID — keep the last occurrence
-          // (server writes 'running' then 'completed' for each tool call)
-          const seenToolIds = new Set<string>();
-          const deduped: typeof msg.items = [];
-          for (let i = msg.items.length - 1; i >= 0; i--) {
-            const item = msg.items[i];
-            if (item.kind === "tool_call" && item.id) {
-              if (seenToolIds.has(item.id)) continue; // skip earlier duplicate
-              seenToolIds.add(item.id);
-            }
-            deduped.unshift(item);
-          }
+          streamedRef.current.clear();
+          const deduped = dedupeHistory(msg.items);
           console.log(`[WS] After dedup: ${deduped.length} items`);
           setItems(deduped);
+          setFirstTurn(msg.firstTurn);
+          loadingOlderRef.current = false;
+        } else if (msg.type === "history_page") {
+          // Older turns, fetched by scrolling up
+          prependAnchorRef.current = scrollRef.current?.scrollHeight ?? null;
+          setItems((prev) => [...dedupeHistory(msg.items), ...prev]);
+          setFirstTurn(msg.firstTurn);
+          loadingOlderRef.current = false;
+        } else if (msg.type === "history_replay") {
+          // Reconnected with a known seq — only the items missed while away
+          console.log(`[WS] Received history_replay with ${msg.items.length} items`);
+          msg.items.forEach(applyStreamItem);
         } else if (msg.type === "stream_item") {
-          const item = msg.item;
-
-          // Buffer text deltas — release in phrase clusters
-          if (item.kind === "text_delta") {
-            textBufferRef.current += item.text;
-            if (textBufferRef.current.length > 30) {
-              // Buffer is big enough — flush immediately
-              flushBuffer();
-            } else {
-              // Schedule a flush in 150ms if not already scheduled
-              if (flushTimerRef.current === null) {
-                flushTimerRef.current = window.setTimeout(() => {
-                  flushTimerRef.current = null;
-                  flushBuffer();
-                }, 150);
-              }
-            }
-            return;
-          }
-
-          // When assistant_message arrives, discard buffer first (it has the complete text)
-          if (item.kind === "assistant_message") {
-            if (flushTimerRef.current !== null) {
-              clearTimeout(flushTimerRef.current);
-              flushTimerRef.current = null;
-            }
-            textBufferRef.current = "";
-          }
-
-          setItems((prev) => {
-            // Convert streaming block to final message when assistant_message arrives
-            if (item.kind === "assistant_message") {
-              const filtered = prev.filter(i => i.id !== "streaming");
-              return [...filtered, item];
-            }
-
-            // If it's a tool call that already exists, update it. Otherwise append.
-            if (item.kind === "tool_call") {
-              const existingIdx = prev.findIndex(i => i.kind === "tool_call" && i.id === item.id);
-              if (existingIdx !== -1) {
-                const next = [...prev];
-                next[existingIdx] = item;
-                return next;
-              }
-            }
-            return [...prev, item];
-          });
+          applyStreamItem(msg.item);
         } else if (msg.type === "agent_status") {
           const newStatus = msg.status as AgentStatus;
           console.log(`[StatusChange] ${agentId} → ${newStatus}`);
           setStatus(newStatus);
+          setSlotPosition(newStatus === "queued_for_slot" ? msg.position ?? null : null);
           callbacksRef.current.onStatusChange?.(agentId, newStatus);
-          // On idle, flush any remaining buffered text
+          // On idle, flush any remaining streamed text; a block cut off
+          // by an interrupt never gets its final item, so stop tracking it
           if (newStatus === "idle" || newStatus === "done") {
             flushBuffer();
+            streamedRef.current.clear();
           }
+        } else if (msg.type === "queue_update") {
+          setQueue(msg.queue);
+        } else if (msg.type === "todo_update") {
+          setTodos(msg.todos);
+        } else if (msg.type === "turn_complete") {
+          const { turn } = msg;
+          if (turn.inputId) setTurns((prev) => new Map(prev).set(turn.inputId!, turn));
         } else if (msg.type === "chat_title_update") {
           callbacksRef.current.onTitleUpdate?.(msg.title);
         } else if (msg.type === "unread_cleared") {
           callbacksRef.current.onUnreadReset?.();
-        } else if (msg.type === "context_cleared") {
+        } else if (msg.type === "command_error") {
+          addLog(`/${msg.command} FAILED`);
           setItems((prev) => [
             ...prev,
-            {
-              kind: "context_clear" as const,
-              id: `ctx-clear-${Date.now()}`,
-              timestamp: new Date().toISOString(),
-            },
+            { kind: "system" as const, text: `/${msg.command}: ${msg.error}`, id: `cmd-error-${Date.now()}`, timestamp: new Date().toISOString() },
+          ]);
+        } else if (msg.type === "edit_error") {
+          addLog(`EDIT ${msg.itemId} FAILED`);
+          setItems((prev) => [
+            ...prev,
+            { kind: "system" as const, text: `Edit failed: ${msg.error}`, id: `edit-error-${Date.now()}`, timestamp: new Date().toISOString() },
           ]);
-          setStatus("idle");
         } else if (msg.type === "plan_mode_entered") {
           setItems((prev) => [
             ...prev,
@@ -637,16 +1092,31 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
         }
       } catch { /* ignore */ }
     };
-    ws.onclose = () => {
-      setStatus("error");
-      addLog("CLOSED");
-      if (connectedAgentIdRef.current === agentId) {
-        connectedAgentIdRef.current = null;
-      }
-    };
+
+    // Built-in, user and project slash commands, for autocomplete
+    apiFetch(`/api/commands?sessionId=${encodeURIComponent(agentId)}`)
+      .then((r) => r.json())
+      .then((list: SlashCommandInfo[]) => setCommands(list))
+      .catch(() => {});
+
+    // Footers for turns already on disk; live ones arrive as turn_complete
+    apiFetch(`/api/sessions/${encodeURIComponent(agentId)}/turns`)
+      .then((r) => r.json())
+      .then((list: Turn[]) => setTurns((prev) => {
+        const next = new Map(prev);
+        for (const turn of list) if (turn.inputId && !next.has(turn.inputId)) next.set(turn.inputId, turn);
+        return next;
+      }))
+      .catch(() => {});
+
+    // One shared /ws per client; this pane subscribes to its session
+    const offConnection = mux.onConnection(handleConnection);
+    const unsubscribe = mux.subscribe(agentId, handleMessage);
+    if (mux.isOpen) handleConnection(true);
 
     return () => {
-      ws.close();
+      unsubscribe();
+      offConnection();
       if (connectedAgentIdRef.current === agentId) {
         connectedAgentIdRef.current = null;
       }
@@ -659,7 +1129,7 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
   }, [agentId]);
 
   const stopGeneration = useCallback(async () => {
-    await fetch(`/api/agents/${agentId}`, { method: "DELETE" }).catch(() => {});
+    await apiFetch(`/api/agents/${agentId}`, { method: "DELETE" }).catch(() => {});
   }, [agentId]);
 
   // Upload a File object to /api/upload and return a PendingImage
@@ -667,7 +1137,7 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
     const formData = new FormData();
     formData.append("file", file);
     try {
-      const res = await fetch("/api/upload", { method: "POST", body: formData });
+      const res = await apiFetch("/api/upload", { method: "POST", body: formData });
       if (!res.ok) throw new Error(`Upload failed: ${res.status}`);
       const { base64, mediaType, filename } = await res.json() as { base64: string; mediaType: string; filename: string };
       const preview = `data:${mediaType};base64,${base64}`;
@@ -740,32 +1210,90 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
     const hasImages = pendingImages.length > 0;
 
     // Allow sending with just images, but require at least text or images
-    if ((!text && !hasImages) || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      addLog("SEND BLOCKED");
-      return;
-    }
+    if (!text && !hasImages) return;
 
-    addLog("SENDING...");
     const msg: ChatWsClientMessage = {
       type: "user_input",
       text,
       ...(hasImages ? { images: pendingImages.map(({ base64, mediaType, filename }) => ({ base64, mediaType, filename })) } : {})
     };
-    wsRef.current.send(JSON.stringify(msg));
+    if (!mux.send(agentId, msg)) {
+      addLog("SEND BLOCKED");
+      return;
+    }
+    addLog("SENT");
     setInput("");
     setPendingImages([]);
     if (textareaRef.current) textareaRef.current.style.height = 'auto';
     isAtBottom.current = true; // Force scroll to bottom on send
   };
 
+  const changeQueue = (msg: ChatWsClientMessage) => {
+    if (!mux.send(agentId, msg)) addLog("QUEUE CHANGE BLOCKED");
+  };
+
+  const editMessage = (itemId: string, text: string) => {
+    const msg: ChatWsClientMessage = { type: "edit_message", itemId, text };
+    if (!mux.send(agentId, msg)) addLog("EDIT BLOCKED");
+  };
+
+  const forkAt = async (itemId: string) => {
+    try {
+      const res = await apiFetch(`/api/sessions/${encodeURIComponent(agentId)}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || `Fork failed: ${res.status}`);
+      onFork?.(body.id);
+    } catch (err) {
+      setItems((prev) => [
+        ...prev,
+        { kind: "system" as const, text: `Fork failed: ${err instanceof Error ? err.message : String(err)}`, id: `fork-error-${Date.now()}`, timestamp: new Date().toISOString() },
+      ]);
+    }
+  };
+
+  const respondToPermission = (requestId: string, decision: PermissionResponseDecision, message?: string) => {
+    const msg: ChatWsClientMessage = { type: "permission_response", requestId, decision, ...(message ? { message } : {}) };
+    if (!mux.send(agentId, msg)) addLog("PERMISSION RESPONSE BLOCKED");
+  };
+
+  // While only "/name" is typed, offer the commands it could be
+  const commandQuery = /^\/[\w:-]*$/.test(input) ? input.slice(1) : null;
+  const commandSuggestions = commandQuery === null ? [] : commands.filter((c) => c.name.startsWith(commandQuery)).slice(0, 8);
+  const selectedCommand = commandSuggestions[Math.min(commandIndex, commandSuggestions.length - 1)];
+
+  const pickCommand = (command: SlashCommandInfo) => {
+    setInput(`/${command.name}${command.args.length > 0 ? " " : ""}`);
+    setCommandIndex(0);
+    textareaRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (selectedCommand) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setCommandIndex((i) => (Math.min(i, commandSuggestions.length - 1) + step + commandSuggestions.length) % commandSuggestions.length);
+        return;
+      }
+      // A complete name is sent as is; anything shorter is completed first
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && selectedCommand.name !== commandQuery)) {
+        e.preventDefault();
+        pickCommand(selectedCommand);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       send();
     }
   };
 
-  const messageGroups = groupMessages(items);
+  const { main: mainItems, byParent: subAgentItems } = splitSubAgentItems(items);
+  const messageGroups = groupMessages(withTurnFooters(mainItems, turns));
 
   return (
     <div
@@ -818,6 +1346,11 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
         className="flex-1 overflow-y-auto py-6 pb-32 touch-pan-y overscroll-contain"
       >
         <div className="max-w-[720px] mx-auto w-full px-6">
+        {firstTurn > 0 && (
+          <button onClick={loadOlder} className="block mx-auto mb-4 text-[12px] font-medium text-gray-400 hover:text-gray-600">
+            Load earlier messages
+          </button>
+        )}
         {messageGroups.map((group, gIdx) => {
           // Calculate vertical spacing based on group transitions
           const prevGroup = gIdx > 0 ? messageGroups[gIdx - 1] : null;
@@ -825,8 +1358,10 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
           if (prevGroup) {
             const prevKind = prevGroup.kind;
             const currKind = group.kind;
-            if (prevKind === "context_clear" || prevKind === "plan_mode" || prevKind === "notification") {
+            if (prevKind === "context_clear" || prevKind === "branch" || prevKind === "plan_mode" || prevKind === "notification" || currKind === "turn_footer") {
               topMargin = ""; // these have their own padding
+            } else if (prevKind === "turn_footer") {
+              topMargin = "mt-6"; // footer closes the turn: treat as a sender switch
             } else if (prevKind === currKind && (currKind === "user" || currKind === "agent")) {
               topMargin = "mt-1"; // same sender consecutive: 4px
             } else if ((prevKind === "user" && currKind === "agent") || (prevKind === "agent" && currKind === "user")) {
@@ -843,13 +1378,27 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
           }
 
           if (group.kind === "context_clear") {
-            return (
-              <div key={group.id} className={`flex items-center gap-3 py-4 px-2 ${topMargin}`}>
+            const divider = (
+              <div className="flex items-center gap-3">
                 <div className="h-px flex-1 bg-black/10" />
-                <span className="text-[11px] text-gray-400 font-medium whitespace-nowrap tracking-wide">Context cleared</span>
+                <span className="text-[11px] text-gray-400 font-medium whitespace-nowrap tracking-wide">
+                  {group.summary ? "Context compacted" : "Context cleared"}
+                </span>
                 <div className="h-px flex-1 bg-black/10" />
               </div>
             );
+            if (!group.summary) {
+              return <div key={group.id} className={`py-4 px-2 ${topMargin}`}>{divider}</div>;
+            }
+            return (
+              <details key={group.id} className={`py-4 px-2 ${topMargin}`}>
+                <summary className="list-none cursor-pointer">{divider}</summary>
+                <div className="mt-2 mx-auto max-w-[80%] rounded-xl bg-gray-50 px-3 py-2 text-[12px] text-gray-500 whitespace-pre-wrap">{group.summary}</div>
+              </details>
+            );
+          }
+          if (group.kind === "branch") {
+            return <BranchDivider key={group.id} sessionId={agentId} branch={group.branch} fromItemId={group.fromItemId} />;
           }
           if (group.kind === "plan_mode") {
             return (
@@ -860,6 +1409,13 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
               </div>
             );
           }
+          if (group.kind === "turn_footer") {
+            return (
+              <div key={group.id} className="mt-1">
+                <TurnFooter turn={group.turn} />
+              </div>
+            );
+          }
           if (group.kind === "notification") {
             const notifItem = group.items[0] as Extract<StreamItem, { kind: "notification" }>;
             return (
@@ -870,6 +1426,14 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
               </div>
             );
           }
+          if (group.kind === "permission") {
+            const permItem = group.items[0] as Extract<StreamItem, { kind: "permission_request" }>;
+            return (
+              <div key={permItem.id} className={topMargin}>
+                <PermissionCard item={permItem} onRespond={(decision, message) => respondToPermission(permItem.id, decision, message)} />
+              </div>
+            );
+          }
           if (group.kind === "tool") {
             // Standalone tool groups (e.g. right after a user message with no preceding agent text)
             const toolItems = group.items as Extract<StreamItem, { kind: "tool_call" }>[];
@@ -877,10 +1441,10 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
             const promotedItems = toolItems.filter(i => classifyTool(i.name, i.input) === "promoted");
 
             return (
-              <div key={gIdx} className={`flex flex-wrap items-start gap-1.5 ${topMargin}`}>
+              <div key={gIdx} className={`flex flex-wrap items-start gap-1.5 ${topMargin}`} data-item-ids={toolItems.map(i => i.id).join(" ")}>
                 {traceItems.length > 0 && <TracePill items={traceItems} />}
                 {promotedItems.map((item, iIdx) => (
-                  <PromotedPill key={item.id || iIdx} item={item} />
+                  <PromotedPill key={item.id || iIdx} item={item} subItems={subAgentItems.get(item.id)} />
                 ))}
               </div>
             );
@@ -893,12 +1457,19 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
                 if (item.kind === "tool_call") return null;
 
                 return (
-                  <MessageBubble key={iIdx} item={item} group={group as Extract<MessageGroup, { items: StreamItem[] }>} index={iIdx} total={group.items.length} />
+                  <div key={iIdx} data-item-ids={item.id}>
+                    <MessageBubble item={item} group={group as Extract<MessageGroup, { items: StreamItem[] }>} index={iIdx} total={group.items.length} onFork={forkAt} onEdit={editMessage} />
+                  </div>
                 );
               })}
             </div>
           );
         })}
+        {status === "queued_for_slot" && (
+          <div className="mt-4 text-center text-[12px] text-gray-400">
+            Waiting for a free session slot{slotPosition ? ` · #${slotPosition} in line` : ""}
+          </div>
+        )}
         <div ref={bottomRef} />
         </div>
       </div>
@@ -920,6 +1491,10 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
       >
         <div className="max-w-[720px] mx-auto px-4 mb-3">
           <div className="bg-white/80 backdrop-blur-xl rounded-2xl shadow-[0_2px_20px_rgba(0,0,0,0.06)] p-3">
+            {todos.length > 0 && <TodoPanel todos={todos} />}
+            {queue.length > 0 && <QueuePanel queue={queue} onChange={changeQueue} />}
+            {selectedCommand && <CommandMenu suggestions={commandSuggestions} selected={commandSuggestions.indexOf(selectedCommand)} onPick={pickCommand} />}
+
             {/* Pending image thumbnails strip */}
             {pendingImages.length > 0 && (
               <div className="mb-2">
@@ -952,7 +1527,7 @@ export default function ChatView({ agentId, onTitleUpdate, onUnreadReset, onStat
               ref={textareaRef}
               rows={1}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={(e) => { setInput(e.target.value); setCommandIndex(0); }}
               onKeyDown={handleKeyDown}
               onPaste={handlePaste}
               placeholder={isTranscribing ? "Transcribing..." : "Message"}
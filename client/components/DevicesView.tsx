@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch, clearToken, UNAUTHORIZED_EVENT } from "../auth";
+
+type Device = {
+  id: string;
+  name: string;
+  scope: "user" | "admin";
+  createdAt: string;
+  lastSeenAt?: string;
+  current: boolean;
+};
+
+type Props = {
+  onClose: () => void;
+};
+
+export default function DevicesView({ onClose }: Props) {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [pairing, setPairing] = useState<{ code: string; scope: string; expiresAt: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    apiFetch("/api/auth/devices").then((r) => r.json()).then(setDevices).catch(() => {});
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const isAdmin = devices.find((d) => d.current)?.scope === "admin";
+
+  async function revoke(device: Device) {
+    const prompt = device.current
+      ? "Sign this device out?"
+      : `Revoke "${device.name}"? It will be disconnected immediately.`;
+    if (!confirm(prompt)) return;
+    const res = await apiFetch(`/api/auth/devices/${device.id}`, { method: "DELETE" });
+    if (device.current && res.ok) {
+      clearToken();
+      window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+      return;
+    }
+    if (!res.ok) setError((await res.json()).error || "Revoke failed");
+    load();
+  }
+
+  async function createCode(scope: "user" | "admin") {
+    setError(null);
+    const res = await apiFetch("/api/auth/pairing-codes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scope }),
+    });
+    const data = await res.json();
+    if (!res.ok) { setError(data.error || "Could not create a pairing code"); return; }
+    setPairing(data);
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-white min-h-0">
+      {/* Header */}
+      <div className="h-20 lg:h-16 flex-shrink-0 border-b border-black/[0.05] flex items-center px-4 justify-between pt-6 lg:pt-0 bg-white/80 backdrop-blur-md sticky top-0 z-30">
+        <button onClick={onClose} className="flex items-center gap-1 text-[#3478F6] px-4 ml-[-16px] active:opacity-50 transition-opacity">
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m15 18-6-6 6-6"/>
+          </svg>
+          <span className="text-[17px] font-medium">Done</span>
+        </button>
+        <div className="flex flex-col items-center flex-1 min-w-0 px-2">
+          <span className="text-[13px] lg:text-[14px] font-bold text-gray-900 truncate">Devices</span>
+        </div>
+        <div className="min-w-[60px]" />
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 min-h-0 max-w-[720px] w-full mx-auto">
+        <div className="space-y-0.5">
+          {devices.map((device) => (
+            <div key={device.id} className="flex items-center rounded-xl px-3 py-2 hover:bg-black/[0.03]">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-[15px] font-semibold text-gray-900 truncate">{device.name}</span>
+                  {device.scope === "admin" && <span className="text-[10px] font-bold uppercase tracking-widest text-gray-400">Admin</span>}
+                  {device.current && <span className="text-[10px] font-bold uppercase tracking-widest text-[#007AFF]">This device</span>}
+                </div>
+                <div className="text-[12px] text-gray-400">
+                  Paired {new Date(device.createdAt).toLocaleDateString()}
+                  {device.lastSeenAt && ` · Last seen ${new Date(device.lastSeenAt).toLocaleString()}`}
+                </div>
+              </div>
+              {(isAdmin || device.current) && (
+                <button
+                  onClick={() => revoke(device)}
+                  className="text-[13px] font-medium text-red-500 px-2 py-1 rounded-lg hover:bg-red-50 active:opacity-50"
+                >
+                  {device.current ? "Sign out" : "Revoke"}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-[13px] text-red-500 mt-4 px-3">{error}</p>}
+
+        {isAdmin && (
+          <div className="mt-6 px-3">
+            {pairing ? (
+              <div className="rounded-xl bg-gray-50 px-4 py-3">
+                <div className="text-[11px] font-bold text-gray-400 uppercase tracking-widest mb-1">
+                  {pairing.scope === "admin" ? "Admin pairing code" : "Pairing code"}
+                </div>
+                <div className="text-[24px] font-mono tracking-widest text-gray-900">{pairing.code}</div>
+                <div className="text-[12px] text-gray-400 mt-1">
+                  Enter it on the new device before {new Date(pairing.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <button onClick={() => createCode("user")} className="h-8 rounded-full bg-[#007AFF] px-4 text-[13px] font-medium text-white">Pair new device</button>
+                <button onClick={() => createCode("admin")} className="h-8 rounded-full bg-gray-100 px-4 text-[13px] font-medium text-gray-700">Pair admin device</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
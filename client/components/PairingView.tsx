@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef } from "react";
+import { setToken } from "../auth";
+
+type Props = {
+  onPaired: () => void;
+};
+
+function defaultDeviceName(): string {
+  const ua = navigator.userAgent;
+  if (/iPhone/.test(ua)) return "iPhone";
+  if (/iPad/.test(ua)) return "iPad";
+  if (/Android/.test(ua)) return "Android";
+  if (/Macintosh/.test(ua)) return "Mac";
+  return "Browser";
+}
+
+export default function PairingView({ onPaired }: Props) {
+  const [code, setCode] = useState("");
+  const [name, setName] = useState(defaultDeviceName);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim() || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/pair", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: code.trim(), name: name.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Pairing failed");
+      setToken(data.token);
+      onPaired();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 flex flex-col items-center justify-center bg-white px-8">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm flex flex-col items-start">
+        <span className="text-[11px] font-bold text-gray-400 uppercase tracking-widest mb-2">aiMessage</span>
+        <p className="text-[18px] leading-relaxed text-gray-900 font-sans mb-1">Pair this device.</p>
+        <p className="text-[14px] leading-relaxed text-gray-500 font-sans mb-6">
+          Enter the pairing code printed in the server console, or one generated from Devices on a paired device.
+        </p>
+
+        <input
+          ref={inputRef}
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="XXXX-XXXX"
+          autoCapitalize="characters"
+          autoComplete="one-time-code"
+          disabled={submitting}
+          className="w-full h-11 rounded-[22px] border border-gray-200 px-4 text-[17px] tracking-widest font-mono text-gray-900 placeholder-gray-300 focus:outline-none mb-2"
+        />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Device name"
+          disabled={submitting}
+          className="w-full h-11 rounded-[22px] border border-gray-200 px-4 text-[15px] text-gray-900 placeholder-gray-400 focus:outline-none mb-4"
+        />
+
+        {error && <p className="text-[13px] text-red-500 mb-3">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!code.trim() || submitting}
+          className="w-full h-11 rounded-[22px] bg-[#007AFF] text-white text-[15px] font-medium shadow-md shadow-[#007AFF]/20 active:scale-[0.98] transition-transform disabled:opacity-40"
+        >
+          {submitting ? "Pairing…" : "Pair"}
+        </button>
+      </form>
+    </div>
+  );
+}
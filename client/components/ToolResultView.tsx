@@ -0,0 +1,192 @@
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { getToolLabel, getToolView, highlightLine, type DiffRow, type HighlightToken, type ToolView } from "../../shared/tool-call-display";
+import type { StreamItem } from "../types/stream";
+
+type ToolCallItem = Extract<StreamItem, { kind: "tool_call" }>;
+
+/** What a sub-agent (Task tool call) adds to the stream, linked by parentToolUseId. */
+export type SubAgentItem = Extract<StreamItem, { kind: "assistant_message" | "thought" | "tool_call" }>;
+
+const TOKEN_CLASSES: Record<NonNullable<HighlightToken["token"]>, string> = {
+  keyword: "text-purple-600",
+  string: "text-green-700",
+  comment: "text-gray-400 italic",
+  number: "text-blue-600",
+};
+
+// Long outputs start collapsed to this many lines
+const SHELL_PREVIEW_LINES = 12;
+
+function Highlighted({ text, language }: { text: string; language: string }) {
+  return (
+    <>
+      {highlightLine(text, language).map((t, i) =>
+        t.token ? <span key={i} className={TOKEN_CLASSES[t.token]}>{t.text}</span> : t.text
+      )}
+    </>
+  );
+}
+
+function DiffHalf({ side, row, language }: { side: "left" | "right"; row: DiffRow; language: string }) {
+  const line = row[side];
+  const tint = !line ? "bg-gray-50"
+    : row.change === "same" ? ""
+    : side === "left" ? "bg-red-50" : "bg-green-50";
+  return (
+    <>
+      <td className={`w-8 pr-2 text-right text-gray-300 select-none align-top ${tint}`}>{line?.n}</td>
+      <td className={`w-1/2 pr-3 whitespace-pre-wrap break-all align-top ${tint}`}>
+        {line && <Highlighted text={line.text} language={language} />}
+      </td>
+    </>
+  );
+}
+
+function DiffView({ view }: { view: Extract<ToolView, { type: "diff" }> }) {
+  return (
+    <div className="rounded border border-black/[0.04] overflow-hidden">
+      <div className="px-2 py-1 text-[10px] text-gray-400 font-mono bg-gray-50 border-b border-black/[0.04]">{view.path}</div>
+      <div className="max-h-80 overflow-auto">
+        <table className="w-full text-[11px] font-mono text-gray-700 border-collapse">
+          {view.hunks.map((rows, h) => (
+            <tbody key={h} className="border-t border-dashed border-black/[0.06] first:border-t-0">
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  <DiffHalf side="left" row={row} language={view.language} />
+                  <DiffHalf side="right" row={row} language={view.language} />
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function FileView({ view }: { view: Extract<ToolView, { type: "file" }> }) {
+  return (
+    <div className="rounded border border-black/[0.04] overflow-hidden">
+      <div className="px-2 py-1 text-[10px] text-gray-400 font-mono bg-gray-50 border-b border-black/[0.04]">
+        {view.path}{view.lines.length > 0 && ` · lines ${view.lines[0].n}–${view.lines[view.lines.length - 1].n}`}
+      </div>
+      <pre className="max-h-80 overflow-auto text-[11px] font-mono text-gray-700 py-1">
+        {view.lines.map(line => (
+          <div key={line.n} className="flex">
+            <span className="w-10 flex-shrink-0 pr-3 text-right text-gray-300 select-none">{line.n}</span>
+            <span className="whitespace-pre"><Highlighted text={line.text} language={view.language} /></span>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+function ShellView({ view }: { view: Extract<ToolView, { type: "shell" }> }) {
+  const lines = view.output.split("\n");
+  const long = lines.length > SHELL_PREVIEW_LINES;
+  const [showAll, setShowAll] = useState(false);
+  const shown = long && !showAll ? lines.slice(0, SHELL_PREVIEW_LINES).join("\n") : view.output;
+
+  return (
+    <div className="rounded border border-black/[0.04] overflow-hidden bg-gray-900 text-gray-100">
+      <div className="flex items-center gap-2 px-2 py-1 text-[11px] font-mono border-b border-white/10">
+        <span className="text-gray-500">$</span>
+        <span className="flex-1 truncate">{view.command}</span>
+        {view.exitCode === null
+          ? <span className="text-[10px] text-amber-300">running</span>
+          : <span className={`text-[10px] rounded px-1 ${view.exitCode === 0 ? "bg-green-900 text-green-300" : "bg-red-900 text-red-300"}`}>exit {view.exitCode}</span>}
+      </div>
+      {view.description && <div className="px-2 pt-1 text-[10px] text-gray-500">{view.description}</div>}
+      {view.output && (
+        <pre className="px-2 py-1 text-[11px] font-mono whitespace-pre-wrap break-all max-h-80 overflow-y-auto">{shown}</pre>
+      )}
+      {long && (
+        <button onClick={() => setShowAll(v => !v)} className="w-full px-2 py-0.5 text-left text-[10px] text-gray-400 hover:text-gray-200 border-t border-white/10">
+          {showAll ? "Show less" : `Show all ${lines.length} lines`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function TodoList({ todos }: { todos: Extract<ToolView, { type: "todos" }>["todos"] }) {
+  return (
+    <ul className="space-y-0.5 text-[12px]">
+      {todos.map((todo, i) => (
+        <li key={i} className="flex items-start gap-2">
+          <span className={`mt-[3px] h-3 w-3 flex-shrink-0 rounded-sm border ${
+            todo.status === "completed" ? "bg-green-500 border-green-500"
+            : todo.status === "in_progress" ? "border-blue-500 bg-blue-100 animate-pulse"
+            : "border-gray-300"
+          }`} />
+          <span className={todo.status === "completed" ? "text-gray-400 line-through" : todo.status === "in_progress" ? "text-gray-800 font-medium" : "text-gray-600"}>
+            {todo.status === "in_progress" && todo.activeForm ? todo.activeForm : todo.content}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SubAgentToolRow({ item }: { item: ToolCallItem }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div>
+      <button onClick={() => setOpen(v => !v)} className="flex w-full items-center gap-2 text-[11px] text-left cursor-pointer">
+        <span className="text-gray-400 font-medium">{item.name}</span>
+        <span className="text-gray-300 truncate flex-1 font-mono">{getToolLabel(item.name, item.input).replace(/^[^:]+: /, "")}</span>
+        <span className={`text-[10px] flex-shrink-0 ${item.status === "running" ? "text-amber-400" : item.status === "failed" ? "text-red-400" : "text-gray-300"}`}>
+          {item.status === "running" ? "..." : item.status === "failed" ? "failed" : "done"}
+        </span>
+      </button>
+      {open && <div className="mt-1"><ToolResultView item={item} /></div>}
+    </div>
+  );
+}
+
+function AgentView({ view, status, subItems }: { view: Extract<ToolView, { type: "agent" }>; status: ToolCallItem["status"]; subItems: SubAgentItem[] }) {
+  const running = status === "running";
+  return (
+    <div className="rounded border border-black/[0.04] overflow-hidden">
+      <div className="flex items-center gap-2 px-2 py-1 text-[10px] text-gray-400 bg-gray-50 border-b border-black/[0.04]">
+        <span className="flex-1">{view.agentType}{view.description && ` · ${view.description}`}</span>
+        <span className={running ? "text-amber-500" : status === "failed" ? "text-red-400" : "text-gray-300"}>
+          {running ? "running" : status === "failed" ? "failed" : "done"}
+        </span>
+      </div>
+      <div className="pl-3 pr-2 py-2 ml-2 my-1 border-l-2 border-gray-200 space-y-2 max-h-96 overflow-y-auto">
+        <div className="text-[11px] text-gray-500 whitespace-pre-wrap">{view.prompt}</div>
+        {subItems.map(sub =>
+          sub.kind === "tool_call" ? <SubAgentToolRow key={sub.id} item={sub} />
+          // The sub-agent's last message comes back again as the report
+          : sub.kind === "assistant_message" && sub.text !== view.report ? <div key={sub.id} className="text-[12px] text-gray-700 whitespace-pre-wrap">{sub.text}</div>
+          : null
+        )}
+        {view.report !== undefined
+          ? <div className="prose prose-sm max-w-none text-[12px] text-gray-800"><ReactMarkdown remarkPlugins={[remarkGfm]}>{view.report}</ReactMarkdown></div>
+          : running && <div className="text-[11px] text-amber-500">Working...</div>}
+      </div>
+    </div>
+  );
+}
+
+/** The expanded body of a tool pill, drawn from the shared tool renderer registry. */
+export function ToolResultView({ item, subItems = [] }: { item: ToolCallItem; subItems?: SubAgentItem[] }) {
+  const view = getToolView(item);
+  switch (view.type) {
+    case "diff": return <DiffView view={view} />;
+    case "file": return <FileView view={view} />;
+    case "shell": return <ShellView view={view} />;
+    case "todos": return <TodoList todos={view.todos} />;
+    case "agent": return <AgentView view={view} status={item.status} subItems={subItems} />;
+    case "text":
+      return (
+        <pre className="text-[11px] text-gray-600 font-mono bg-gray-50 p-2 rounded border border-black/[0.02] overflow-x-auto max-h-40 overflow-y-auto">
+          {view.text}
+        </pre>
+      );
+  }
+}
@@ -0,0 +1,144 @@
+import { clearToken, wsUrl, UNAUTHORIZED_EVENT } from "./auth";
+import type { ChatWsClientMessage, ChatWsServerMessage, MuxWsClientMessage, MuxWsServerMessage } from "./types/stream";
+
+export type GlobalMessage = Exclude<MuxWsServerMessage, { type: "session" }>;
+
+type SessionHandler = (msg: ChatWsServerMessage) => void;
+type GlobalHandler = (msg: GlobalMessage) => void;
+type ConnectionHandler = (open: boolean) => void;
+
+const MAX_RETRY_MS = 10000;
+
+/**
+ * The client's single /ws connection. Chat panes subscribe per session,
+ * the sidebar listens for global events; subscriptions are replayed after
+ * a reconnect with the last seq each pane saw, so the server only sends
+ * what was missed (a history_replay) instead of a fresh history_snapshot.
+ */
+class MuxSocket {
+  private ws: WebSocket | null = null;
+  private sessionHandlers = new Map<string, Set<SessionHandler>>();
+  private lastSeq = new Map<string, number>();
+  private globalHandlers = new Set<GlobalHandler>();
+  private connectionHandlers = new Set<ConnectionHandler>();
+  private retryMs = 1000;
+  private retryTimer: number | null = null;
+
+  get isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  subscribe(sessionId: string, handler: SessionHandler): () => void {
+    let handlers = this.sessionHandlers.get(sessionId);
+    if (!handlers) {
+      handlers = new Set();
+      this.sessionHandlers.set(sessionId, handlers);
+      this.sendRaw({ type: "subscribe", sessionId });
+    }
+    handlers.add(handler);
+    this.ensureConnected();
+
+    return () => {
+      handlers!.delete(handler);
+      if (handlers!.size === 0) {
+        this.sessionHandlers.delete(sessionId);
+        this.lastSeq.delete(sessionId);
+        this.sendRaw({ type: "unsubscribe", sessionId });
+      }
+      this.disconnectIfUnused();
+    };
+  }
+
+  onGlobal(handler: GlobalHandler): () => void {
+    this.globalHandlers.add(handler);
+    this.ensureConnected();
+    return () => {
+      this.globalHandlers.delete(handler);
+      this.disconnectIfUnused();
+    };
+  }
+
+  onConnection(handler: ConnectionHandler): () => void {
+    this.connectionHandlers.add(handler);
+    return () => this.connectionHandlers.delete(handler);
+  }
+
+  /** Sends a message to one session; false when the socket isn't open. */
+  send(sessionId: string, message: ChatWsClientMessage): boolean {
+    return this.sendRaw({ type: "session", sessionId, message });
+  }
+
+  private sendRaw(msg: MuxWsClientMessage): boolean {
+    if (!this.isOpen) return false;
+    this.ws!.send(JSON.stringify(msg));
+    return true;
+  }
+
+  private ensureConnected(): void {
+    if (this.ws || this.retryTimer !== null) return;
+
+    const ws = new WebSocket(wsUrl("/ws"));
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.retryMs = 1000;
+      for (const sessionId of this.sessionHandlers.keys()) {
+        this.sendRaw({ type: "subscribe", sessionId, sinceSeq: this.lastSeq.get(sessionId) });
+      }
+      this.connectionHandlers.forEach(h => h(true));
+    };
+
+    ws.onmessage = (e) => {
+      let msg: MuxWsServerMessage;
+      try { msg = JSON.parse(e.data); } catch { return; }
+      if (msg.type === "session") {
+        this.trackSeq(msg.sessionId, msg.message);
+        this.sessionHandlers.get(msg.sessionId)?.forEach(h => h(msg.message));
+      } else {
+        this.globalHandlers.forEach(h => h(msg as GlobalMessage));
+      }
+    };
+
+    ws.onclose = (e) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.connectionHandlers.forEach(h => h(false));
+
+      if (e.code === 4401) {
+        // This device was revoked while connected
+        clearToken();
+        window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+        return;
+      }
+      if (this.sessionHandlers.size === 0 && this.globalHandlers.size === 0) return;
+
+      this.retryTimer = window.setTimeout(() => {
+        this.retryTimer = null;
+        this.ensureConnected();
+      }, this.retryMs);
+      this.retryMs = Math.min(this.retryMs * 2, MAX_RETRY_MS);
+    };
+  }
+
+  private trackSeq(sessionId: string, msg: ChatWsServerMessage): void {
+    if (!this.sessionHandlers.has(sessionId)) return;
+    if (msg.type === "history_snapshot" || msg.type === "history_replay") {
+      this.lastSeq.set(sessionId, msg.seq);
+    } else if (msg.type === "stream_item" && msg.seq !== undefined) {
+      this.lastSeq.set(sessionId, msg.seq);
+    }
+  }
+
+  private disconnectIfUnused(): void {
+    if (this.sessionHandlers.size > 0 || this.globalHandlers.size > 0) return;
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+}
+
+export const mux = new MuxSocket();
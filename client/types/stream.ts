@@ -1,3 +1,7 @@
+import type { TodoItem } from "../../shared/tool-call-display";
+
+export type { TodoItem };
+
 export interface ImageAttachment {
   base64: string;
   mediaType: string;
@@ -11,24 +15,142 @@ export interface FileAttachment {
 }
 
 export type StreamItem =
-  | { kind: "user_message"; text: string; id: string; timestamp: string; images?: ImageAttachment[]; files?: FileAttachment[] }
-  | { kind: "assistant_message"; text: string; id: string; timestamp: string }
-  | { kind: "text_delta"; text: string; id: string; timestamp: string }
-  | { kind: "thought"; text: string; id: string; timestamp: string; status: "loading" | "ready" }
-  | { kind: "tool_call"; name: string; input: unknown; result?: unknown; status: "running" | "completed" | "failed"; id: string; timestamp: string }
+  | { kind: "user_message"; text: string; id: string; timestamp: string; source?: "system" | "command" | "scheduled" | "heartbeat"; images?: ImageAttachment[]; files?: FileAttachment[] }
+  // A sub-agent's items carry the id of the Task tool_call that spawned it
+  | { kind: "assistant_message"; text: string; id: string; timestamp: string; parentToolUseId?: string }
+  // A partial-message delta, never journaled: `text` continues block `id` at
+  // `offset`. The block's final assistant_message or thought reuses the id.
+  // Journals from before partials were split off hold ones without block/offset
+  | { kind: "text_delta"; text: string; id: string; timestamp: string; block?: "text" | "thinking"; offset?: number }
+  | { kind: "thought"; text: string; id: string; timestamp: string; status: "loading" | "ready"; parentToolUseId?: string }
+  | { kind: "tool_call"; name: string; input: unknown; result?: unknown; status: "running" | "completed" | "failed"; id: string; timestamp: string; parentToolUseId?: string }
   | { kind: "error"; text: string; id: string; timestamp: string }
   | { kind: "system"; text: string; id: string; timestamp: string }
-  | { kind: "notification"; subject: string; id: string; timestamp: string };
+  | { kind: "notification"; subject: string; id: string; timestamp: string }
+  // a fresh Claude conversation starts here; compacted ones begin from `summary`
+  | { kind: "context_cleared"; id: string; timestamp: string }
+  | { kind: "context_compacted"; summary: string; id: string; timestamp: string }
+  // an edited user message was resent; items from `fromSeq` up to here belong to branch - 1
+  | { kind: "branch_started"; branch: number; fromSeq: number; fromItemId: string; id: string; timestamp: string }
+  | { kind: "permission_request"; toolName: string; input: unknown; status: "pending" | "allowed" | "denied"; scope?: "once" | "session" | "rule"; message?: string; id: string; timestamp: string };
+
+// One user input from submission to Claude's result frame, with the usage
+// Claude reported for it. Persisted per session in turns.jsonl.
+export type Turn = {
+  inputId: string | null;      // in.jsonl entry (and user_message id) that started it
+  startedAt: string;
+  endedAt: string;
+  model: string;
+  durationMs: number;          // Claude's duration_ms, or wall-clock when not reported
+  numTurns: number;            // model round trips within the turn
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  toolCount: number;
+  outcome: "success" | "error" | "interrupted";
+};
+
+// An input waiting in in.jsonl behind the current turn. It is only echoed as
+// a user_message once it is sent to Claude.
+export type QueuedInput = {
+  id: string;
+  text: string;
+  timestamp: string;
+  source?: "system" | "command" | "scheduled" | "heartbeat";
+  attachments: number;         // images + files
+};
+
+// A slash command as /api/commands lists it for autocomplete
+export type SlashCommandArg = { name: string; description?: string; required?: boolean };
+export type SlashCommandInfo = {
+  name: string;                // typed as /name
+  description: string;
+  args: SlashCommandArg[];
+  source: "builtin" | "user" | "project";   // user: ~/.aimessage/commands, project: .claude/commands
+};
+
+// A message /api/search found. itemId is the stream item's id, so the
+// session can be opened scrolled to it.
+export type SearchableKind = "user_message" | "assistant_message" | "thought" | "tool_call";
+export type SearchHit = {
+  sessionId: string;
+  projectKey: string;
+  projectPath: string;
+  itemId: string;
+  kind: SearchableKind;
+  timestamp: string;
+  snippet: string;             // matched terms wrapped in \u0002…\u0003
+  source: "journal" | "vault"; // vault: a Claude log the engine never ran
+};
+
+// Running sums over a session's (or project's) turns
+export type UsageTotals = {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+};
 
 export type ChatWsServerMessage =
-  | { type: "history_snapshot"; items: StreamItem[] }
-  | { type: "stream_item"; item: StreamItem }
-  | { type: "agent_status"; status: "idle" | "thinking" | "done" | "error" }
+  // seq is the highest sequence number covered, for resuming with sinceSeq;
+  // firstTurn > 0 means older turns can be fetched with load_older
+  | { type: "history_snapshot"; items: StreamItem[]; seq: number; firstTurn: number }
+  | { type: "history_replay"; items: StreamItem[]; seq: number }
+  | { type: "history_page"; items: StreamItem[]; firstTurn: number }
+  | { type: "stream_item"; item: StreamItem; seq?: number }
+  // queued_for_slot: waiting for a free concurrent slot, `position` 1-based in line
+  | { type: "agent_status"; status: "idle" | "thinking" | "done" | "error" | "queued_for_slot"; position?: number }
+  | { type: "turn_complete"; turn: Turn }
+  | { type: "queue_update"; queue: QueuedInput[] }
+  // Claude's latest TodoWrite plan for the session (empty once cleared)
+  | { type: "todo_update"; todos: TodoItem[] }
   | { type: "chat_title_update"; title: string }
   | { type: "session_renamed"; sessionId: string; title: string }
   | { type: "unread_cleared" }
-  | { type: "context_cleared" }
-  | { type: "plan_mode_entered" };
+  | { type: "plan_mode_entered" }
+  | { type: "command_error"; command: string; error: string }
+  | { type: "edit_error"; itemId: string; error: string };
+
+export type PermissionResponseDecision = "allow_once" | "allow_session" | "deny";
 
 export type ChatWsClientMessage =
-  | { type: "user_input"; text: string; images?: ImageAttachment[]; files?: FileAttachment[] };
+  | { type: "user_input"; text: string; images?: ImageAttachment[]; files?: FileAttachment[] }
+  | { type: "permission_response"; requestId: string; decision: PermissionResponseDecision; message?: string }
+  | { type: "load_older"; beforeTurn: number }
+  | { type: "queue_edit"; inputId: string; text: string }
+  | { type: "queue_delete"; inputId: string }
+  | { type: "queue_reorder"; inputIds: string[] }
+  // moves the input to the front and interrupts the current turn
+  | { type: "queue_send_now"; inputId: string }
+  // resends an earlier user_message with new text, in a new branch
+  | { type: "edit_message"; itemId: string; text: string };
+
+// ── Multiplexed /ws ─────────────────────────────────────
+// One socket per client: per-session traffic is wrapped in a "session"
+// envelope carrying the same messages as /ws/chat/{sessionId}; everything
+// else is a global event for the sidebar.
+
+export type SessionStatus = "busy" | "idle" | "sleeping" | "queued_for_slot";
+
+export type MuxWsClientMessage =
+  | { type: "subscribe"; sessionId: string; sinceSeq?: number } // sinceSeq > 0 replays only newer items
+  | { type: "unsubscribe"; sessionId: string }
+  | { type: "session"; sessionId: string; message: ChatWsClientMessage };
+
+export type MuxWsServerMessage =
+  | { type: "session"; sessionId: string; message: ChatWsServerMessage }
+  | { type: "status_change"; sessionId: string; status: SessionStatus; position?: number }
+  | { type: "session_renamed"; sessionId: string; title: string }
+  | { type: "session_created"; sessionId: string; projectPath: string; model: string }
+  | { type: "notification"; sessionId: string; subject: string }
+  // Heartbeat found something; sessionId is the session it woke, if any
+  | { type: "heartbeat_alert"; project: string | null; sessionId: string | null; subject: string }
+  | { type: "subagents_change"; sessionId: string; running: number }
+  | { type: "todo_update"; sessionId: string; todos: TodoItem[] }
+  // usage is the session's running total including this turn
+  | { type: "turn_complete"; sessionId: string; projectPath: string; turn: Turn; usage: UsageTotals }
+  | { type: "error"; sessionId?: string; error: string };
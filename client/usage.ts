@@ -0,0 +1,32 @@
+import type { Turn, UsageTotals } from "./types/stream";
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+/** Adds one turn's usage to a running total (null = no turns yet). */
+export function addTurn(totals: UsageTotals | null | undefined, turn: Turn): UsageTotals {
+  const base = totals ?? { turns: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0 };
+  return {
+    turns: base.turns + 1,
+    inputTokens: base.inputTokens + turn.inputTokens,
+    outputTokens: base.outputTokens + turn.outputTokens,
+    cacheReadTokens: base.cacheReadTokens + turn.cacheReadTokens,
+    cacheWriteTokens: base.cacheWriteTokens + turn.cacheWriteTokens,
+    costUsd: base.costUsd + turn.costUsd,
+  };
+}
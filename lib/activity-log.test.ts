@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { ActivitySummarizer, insertActivity, queryActivity } from "./activity-log.js";
+import { executeOneShot } from "./claude-one-shot.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+vi.mock("./claude-one-shot.js", () => ({ executeOneShot: vi.fn(async () => "Fixed the flaky login test.") }));
+
+const item = (kind: string, text: string, extra = {}) => JSON.stringify({ type: "stream_item", item: { kind, text, ...extra } });
+
+/** Just what the summarizer uses of the engine: status events, metadata and out.jsonl. */
+class FakeEngine extends EventEmitter {
+  meta: Record<string, any> = { projectPath: "/work/atlas", lastSummarizedLine: 0 };
+  history: string[] = [];
+  getState = vi.fn(async () => this.meta);
+  readOutputHistory = vi.fn(async () => this.history);
+  updateSessionMetadata = vi.fn(async (_id: string, patch: Record<string, any>) => {
+    Object.assign(this.meta, patch);
+  });
+
+  status(sessionId: string, status: string): void {
+    this.emit("status_change", { sessionId, status });
+  }
+}
+
+describe("ActivitySummarizer", () => {
+  let engine: FakeEngine;
+  let summarizer: ActivitySummarizer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(executeOneShot).mockClear();
+    engine = new FakeEngine();
+    summarizer = new ActivitySummarizer();
+    summarizer.attach(engine as unknown as TmuxSessionEngine);
+  });
+
+  afterEach(() => {
+    summarizer.detach();
+    vi.useRealTimers();
+  });
+
+  it("summarizes once after two idle minutes, restarting the wait when the session goes busy again", async () => {
+    engine.history = [item("user_message", "fix the login test"), item("assistant_message", "Done, it was a race.")];
+
+    engine.status("s-debounce", "busy");
+    engine.status("s-debounce", "idle");
+    await vi.advanceTimersByTimeAsync(90_000);
+    engine.status("s-debounce", "busy");
+    engine.status("s-debounce", "idle");
+    await vi.advanceTimersByTimeAsync(90_000);
+    expect(executeOneShot).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(executeOneShot).toHaveBeenCalledTimes(1);
+    expect(queryActivity({ project: "-work-atlas" }).filter(e => e.session === "s-debounce")).toMatchObject([
+      { type: "message", summary: "Fixed the flaky login test." },
+    ]);
+  });
+
+  it("only reads out.jsonl past lastSummarizedLine, then moves it to the end", async () => {
+    engine.meta.lastSummarizedLine = 2;
+    engine.history = [
+      item("user_message", "an old question"),
+      item("assistant_message", "an old answer"),
+      JSON.stringify({ type: "assistant", message: {} }),
+      item("user_message", "a new question"),
+      item("assistant_message", "a new answer"),
+    ];
+
+    engine.status("s-offset", "busy");
+    engine.status("s-offset", "idle");
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    const { prompt } = vi.mocked(executeOneShot).mock.calls[0][0];
+    expect(prompt).toContain("USER: a new question\nASSISTANT: a new answer");
+    expect(prompt).not.toContain("old");
+    expect(engine.meta.lastSummarizedLine).toBe(5);
+  });
+
+  it("files a turn started by the scheduler as scheduled", async () => {
+    engine.history = [item("user_message", "nightly dependency check", { source: "scheduled" }), item("assistant_message", "All up to date.")];
+
+    engine.status("s-scheduled", "busy");
+    engine.status("s-scheduled", "idle");
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(queryActivity({ type: "scheduled" }).map(e => e.session)).toContain("s-scheduled");
+  });
+
+  it("skips the one-shot when nothing new was said, but still advances the offset", async () => {
+    engine.meta.lastSummarizedLine = 1;
+    engine.history = [item("user_message", "already summarized"), JSON.stringify({ type: "result" })];
+
+    engine.status("s-quiet", "busy");
+    engine.status("s-quiet", "idle");
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(executeOneShot).not.toHaveBeenCalled();
+    expect(engine.updateSessionMetadata).toHaveBeenCalledWith("s-quiet", { lastSummarizedLine: 2 });
+  });
+
+  it("ignores idle without a busy turn before it, and forgets timers on detach", async () => {
+    engine.history = [item("user_message", "hello there friend")];
+    engine.status("s-detach", "idle");
+    engine.status("s-detach", "busy");
+    engine.status("s-detach", "idle");
+    summarizer.detach();
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(executeOneShot).not.toHaveBeenCalled();
+  });
+});
+
+describe("queryActivity", () => {
+  it("filters by project, type and since, newest first, within the limit", () => {
+    const base = Date.parse("2026-01-10T12:00:00Z");
+    insertActivity({ type: "heartbeat", project: "q-proj", session: null, summary: "first", ts: base });
+    insertActivity({ type: "message", project: "q-proj", session: "q1", summary: "second", ts: base + 1000 });
+    insertActivity({ type: "message", project: "q-proj", session: "q2", summary: "third", ts: base + 2000 });
+
+    expect(queryActivity({ project: "q-proj" }).map(e => e.summary)).toEqual(["third", "second", "first"]);
+    expect(queryActivity({ project: "q-proj", type: "heartbeat" }).map(e => e.summary)).toEqual(["first"]);
+    expect(queryActivity({ project: "q-proj", since: base + 1000 }).map(e => e.summary)).toEqual(["third", "second"]);
+    expect(queryActivity({ project: "q-proj", limit: 1 }).map(e => e.summary)).toEqual(["third"]);
+  });
+});
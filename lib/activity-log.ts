@@ -0,0 +1,191 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+import { executeOneShot } from "./claude-one-shot.js";
+import { toProjectKey } from "../session-discovery.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+export const ACTIVITY_TYPES = ["message", "heartbeat", "scheduled", "background", "system"] as const;
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+
+export type ActivityEntry = {
+  id: number;
+  ts: number;           // unix ms
+  type: ActivityType;
+  project: string | null;
+  session: string | null;
+  summary: string;
+};
+
+export type ActivityQuery = {
+  project?: string;
+  type?: ActivityType;
+  since?: number;       // unix ms, inclusive
+  limit?: number;
+};
+
+const ACTIVITY_DB = join(os.homedir(), ".aimessage", "activity.db");
+
+const SUMMARY_DEBOUNCE_MS = 2 * 60 * 1000;
+const SUMMARY_TAIL_CHARS = 4000;
+
+const SUMMARY_PROMPT = `Summarize what was accomplished in this conversation in 1-2 lines.
+Just the outcome. No filler. No "the user asked..." framing.`;
+
+let db: Database.Database | null = null;
+let insertStmt: Database.Statement | null = null;
+
+/**
+ * Opens ~/.aimessage/activity.db on first use and creates the schema.
+ */
+function getDb(): Database.Database {
+  if (db) return db;
+  mkdirSync(join(os.homedir(), ".aimessage"), { recursive: true });
+  db = new Database(ACTIVITY_DB);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS activity (
+      id      INTEGER PRIMARY KEY,
+      ts      INTEGER NOT NULL,
+      type    TEXT NOT NULL,
+      project TEXT,
+      session TEXT,
+      summary TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_ts         ON activity(ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_type_ts    ON activity(type, ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_project_ts ON activity(project, ts DESC);
+  `);
+  insertStmt = db.prepare("INSERT INTO activity (ts, type, project, session, summary) VALUES (?, ?, ?, ?, ?)");
+  return db;
+}
+
+export function insertActivity(entry: Omit<ActivityEntry, "id" | "ts"> & { ts?: number }): void {
+  getDb();
+  insertStmt!.run(entry.ts ?? Date.now(), entry.type, entry.project, entry.session, entry.summary);
+}
+
+export function queryActivity(query: ActivityQuery = {}): ActivityEntry[] {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (query.project) { clauses.push("project = ?"); params.push(query.project); }
+  if (query.type) { clauses.push("type = ?"); params.push(query.type); }
+  if (query.since !== undefined) { clauses.push("ts >= ?"); params.push(query.since); }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const limit = Math.min(Math.max(query.limit ?? 100, 1), 1000);
+
+  const rows = getDb()
+    .prepare(`SELECT id, ts, type, project, session, summary FROM activity ${where} ORDER BY ts DESC LIMIT ${limit}`)
+    .all(...params);
+  return rows as ActivityEntry[];
+}
+
+/**
+ * Summarizes sessions into the activity log.
+ *
+ * Listens for busy → idle transitions on the engine. After two minutes of
+ * continuous idle, the portion of out.jsonl since metadata.lastSummarizedLine
+ * is condensed by a haiku one-shot and inserted as a single activity row.
+ * Going busy again within the window resets the timer, so chatty
+ * back-and-forth produces one entry instead of many.
+ */
+export class ActivitySummarizer {
+  private engine: TmuxSessionEngine | null = null;
+  private lastStatus = new Map<string, string>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  private onStatusChange = ({ sessionId, status }: { sessionId: string; status: string }) => {
+    const previous = this.lastStatus.get(sessionId);
+    this.lastStatus.set(sessionId, status);
+
+    if (status === "busy") {
+      this.clearTimer(sessionId);
+      return;
+    }
+
+    if (previous === "busy" && status === "idle") {
+      this.clearTimer(sessionId);
+      const timer = setTimeout(() => {
+        this.timers.delete(sessionId);
+        this.summarize(sessionId).catch(err => {
+          console.error(`[Activity] Summarize failed for ${sessionId}:`, err);
+        });
+      }, SUMMARY_DEBOUNCE_MS);
+      timer.unref();
+      this.timers.set(sessionId, timer);
+    }
+  };
+
+  attach(engine: TmuxSessionEngine): void {
+    this.detach();
+    this.engine = engine;
+    engine.on("status_change", this.onStatusChange);
+  }
+
+  detach(): void {
+    if (this.engine) this.engine.off("status_change", this.onStatusChange);
+    this.engine = null;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.lastStatus.clear();
+  }
+
+  private clearTimer(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  private async summarize(sessionId: string): Promise<void> {
+    const engine = this.engine;
+    if (!engine) return;
+
+    const meta = await engine.getState(sessionId);
+    if (!meta) return;
+
+    const history = await engine.readOutputHistory(sessionId);
+    const from = Math.min(meta.lastSummarizedLine ?? 0, history.length);
+
+    const lines: string[] = [];
+    let scheduled = false;
+    for (const line of history.slice(from)) {
+      try {
+        const frame = JSON.parse(line);
+        if (frame.type !== "stream_item") continue;
+        const { kind, text } = frame.item;
+        if (kind === "user_message" && frame.item.source === "scheduled") scheduled = true;
+        if (kind === "user_message" && text) lines.push(`USER: ${text}`);
+        else if (kind === "assistant_message" && text) lines.push(`ASSISTANT: ${text}`);
+      } catch { /* skip unparseable */ }
+    }
+
+    if (lines.length === 0) {
+      await engine.updateSessionMetadata(sessionId, { lastSummarizedLine: history.length });
+      return;
+    }
+
+    const conversationTail = lines.join("\n").slice(-SUMMARY_TAIL_CHARS);
+    const summary = await executeOneShot({
+      model: "haiku",
+      sterile: true,
+      prompt: `${SUMMARY_PROMPT}\n\n${conversationTail}`
+    });
+
+    const cleaned = summary.trim();
+    if (cleaned) {
+      insertActivity({
+        type: scheduled ? "scheduled" : "message",
+        project: meta.projectPath ? toProjectKey(meta.projectPath) : null,
+        session: sessionId,
+        summary: cleaned
+      });
+      console.log(`[Activity] ${sessionId}: ${cleaned}`);
+    }
+
+    await engine.updateSessionMetadata(sessionId, { lastSummarizedLine: history.length });
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createPairingCode, pairDevice, authenticate, listDevices, revokeDevice, hasScope } from "./auth.js";
+
+const DEVICES_FILE = path.join(os.homedir(), ".aimessage", "devices.json");
+
+describe("device auth", () => {
+  it("exchanges a pairing code for a token exactly once", () => {
+    const { code } = createPairingCode("user");
+    const { token, device } = pairDevice(code.toLowerCase(), "Phone");
+
+    expect(device).toMatchObject({ name: "Phone", scope: "user" });
+    expect(authenticate(token)?.id).toBe(device.id);
+    expect(() => pairDevice(code, "Replay")).toThrow(/Invalid or expired/);
+  });
+
+  it("never exposes token hashes", () => {
+    const { token } = pairDevice(createPairingCode().code, "Laptop");
+    expect(JSON.stringify(listDevices())).not.toContain("tokenHash");
+    expect(JSON.stringify(authenticate(token))).not.toContain("tokenHash");
+  });
+
+  it("rejects unknown and revoked tokens", () => {
+    const { token, device } = pairDevice(createPairingCode().code, "Tablet");
+
+    expect(authenticate(null)).toBeNull();
+    expect(authenticate("aim_not-a-token")).toBeNull();
+    expect(revokeDevice(device.id)).toBe(true);
+    expect(authenticate(token)).toBeNull();
+    expect(revokeDevice(device.id)).toBe(false);
+  });
+
+  it("only grants the admin scope to admin devices", () => {
+    const admin = pairDevice(createPairingCode("admin").code, "Desk").device;
+    const user = pairDevice(createPairingCode("user").code, "Phone").device;
+
+    expect(hasScope(admin, "admin")).toBe(true);
+    expect(hasScope(user, "user")).toBe(true);
+    expect(hasScope(user, "admin")).toBe(false);
+  });
+
+  it("turns away a client after repeated wrong guesses without voiding anyone's codes", () => {
+    const { code } = createPairingCode("admin");
+    for (let i = 0; i < 5; i++) {
+      expect(() => pairDevice("WRONG-CODE", "Attacker", "10.0.0.9")).toThrow(/Invalid or expired/);
+    }
+    expect(() => pairDevice(createPairingCode().code, "Attacker", "10.0.0.9")).toThrow(/Too many failed/);
+    expect(pairDevice(code, "Owner", "10.0.0.2").device.scope).toBe("admin");
+  });
+
+  it("keeps devices in memory, reading devices.json again only to pair or revoke", () => {
+    const { token } = pairDevice(createPairingCode().code, "Watch");
+    expect(authenticate(token)?.name).toBe("Watch");
+    fs.writeFileSync(DEVICES_FILE, JSON.stringify({ devices: [] }));
+
+    expect(authenticate(token)?.name).toBe("Watch");
+    pairDevice(createPairingCode().code, "Kiosk");
+    expect(authenticate(token)).toBeNull();
+    expect(listDevices().map(d => d.name)).toEqual(["Kiosk"]);
+  });
+});
@@ -0,0 +1,190 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+import * as crypto from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+/**
+ * "user" drives agents; "admin" can also pair devices and reach
+ * destructive routes (/api/test/*, /api/emergency-stop).
+ */
+export type AuthScope = "user" | "admin";
+
+export type Device = {
+  id: string;
+  name: string;
+  scope: AuthScope;
+  tokenHash: string;          // sha256 of the bearer token; the token itself is never stored
+  createdAt: string;
+  lastSeenAt?: string;
+};
+
+export type PublicDevice = Omit<Device, "tokenHash">;
+
+type DeviceFile = { devices: Device[] };
+
+type PairingCode = { scope: AuthScope; expiresAt: number };
+
+const AIMESSAGE_DIR = join(os.homedir(), ".aimessage");
+const DEVICES_FILE = join(AIMESSAGE_DIR, "devices.json");
+
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_FAILED_PAIRINGS = 5;              // wrong codes per client before it has to wait
+const FAILED_PAIRING_WINDOW_MS = 10 * 60 * 1000;
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000;
+
+// Pairing codes are deliberately memory-only: a restart voids them
+const pairingCodes = new Map<string, PairingCode>();
+// Wrong guesses per client; one client guessing never locks out another
+const failedPairings = new Map<string, { count: number; resetAt: number }>();
+
+// devices.json, read once and then kept in step by pairDevice/revokeDevice
+let devices: DeviceFile | null = null;
+
+function loadDevices(): DeviceFile {
+  try {
+    if (existsSync(DEVICES_FILE)) {
+      const data = JSON.parse(readFileSync(DEVICES_FILE, "utf-8"));
+      return { devices: Array.isArray(data.devices) ? data.devices : [] };
+    }
+  } catch (err) {
+    console.error("[Auth] Failed to load devices:", err);
+  }
+  return { devices: [] };
+}
+
+function saveDevices(file: DeviceFile): void {
+  mkdirSync(AIMESSAGE_DIR, { recursive: true });
+  writeFileSync(DEVICES_FILE, JSON.stringify(file, null, 2), { mode: 0o600 });
+  devices = file;
+}
+
+function cachedDevices(): DeviceFile {
+  return devices ??= loadDevices();
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toPublic({ tokenHash, ...device }: Device): PublicDevice {
+  return device;
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+// ── Pairing ─────────────────────────────────────────────
+
+/**
+ * Issues a one-time code that a new device exchanges for a token.
+ * Formatted XXXX-XXXX from an alphabet without look-alike characters.
+ */
+export function createPairingCode(scope: AuthScope = "user"): { code: string; scope: AuthScope; expiresAt: number } {
+  const alphabet = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+  const raw = Array.from({ length: 8 }, () => alphabet[crypto.randomInt(alphabet.length)]).join("");
+  const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+  pairingCodes.set(raw, { scope, expiresAt });
+  return { code: `${raw.slice(0, 4)}-${raw.slice(4)}`, scope, expiresAt };
+}
+
+/**
+ * Exchanges a pairing code for a new device token. The token is only
+ * ever returned here; the device list keeps just its hash.
+ *
+ * `client` identifies who is guessing (the server passes the remote
+ * address). After MAX_FAILED_PAIRINGS wrong codes that client is turned
+ * away until the window ends; codes and other clients are unaffected.
+ */
+export function pairDevice(code: string, name: string, client = "local"): { token: string; device: PublicDevice } {
+  const now = Date.now();
+  for (const [other, entry] of failedPairings) {
+    if (entry.resetAt <= now) failedPairings.delete(other);
+  }
+  const failures = failedPairings.get(client);
+  if (failures && failures.count >= MAX_FAILED_PAIRINGS) {
+    throw new Error("Too many failed pairing attempts, try again later");
+  }
+
+  const key = normalizeCode(code);
+  const pairing = pairingCodes.get(key);
+  pairingCodes.delete(key);
+
+  if (!pairing || pairing.expiresAt < now) {
+    const count = (failures?.count ?? 0) + 1;
+    failedPairings.set(client, { count, resetAt: failures?.resetAt ?? now + FAILED_PAIRING_WINDOW_MS });
+    if (count === MAX_FAILED_PAIRINGS) console.warn(`[Auth] ${count} failed pairing attempts from ${client}, blocking it for now`);
+    throw new Error("Invalid or expired pairing code");
+  }
+  failedPairings.delete(client);
+
+  const token = `aim_${crypto.randomBytes(32).toString("base64url")}`;
+  const device: Device = {
+    id: crypto.randomBytes(6).toString("hex"),
+    name: name.trim().slice(0, 80) || "Unnamed device",
+    scope: pairing.scope,
+    tokenHash: hashToken(token),
+    createdAt: new Date().toISOString(),
+  };
+
+  // Re-read so edits made to devices.json by hand are not clobbered
+  const file = loadDevices();
+  file.devices.push(device);
+  saveDevices(file);
+  console.log(`[Auth] Paired device "${device.name}" (${device.id}, scope=${device.scope})`);
+  return { token, device: toPublic(device) };
+}
+
+// ── Tokens ──────────────────────────────────────────────
+
+/**
+ * Resolves a bearer token to its device, or null when unknown/revoked.
+ */
+export function authenticate(token: string | null): PublicDevice | null {
+  if (!token) return null;
+  const hash = hashToken(token);
+  const file = cachedDevices();
+  const device = file.devices.find(d => d.tokenHash === hash);
+  if (!device) return null;
+
+  const now = Date.now();
+  if (!device.lastSeenAt || now - Date.parse(device.lastSeenAt) > LAST_SEEN_WRITE_INTERVAL_MS) {
+    device.lastSeenAt = new Date(now).toISOString();
+    saveDevices(file);
+  }
+  return toPublic(device);
+}
+
+/**
+ * Reads the token from `Authorization: Bearer`. WebSocket upgrades may
+ * pass `?token=` instead, since browsers can't set headers on them.
+ */
+export function tokenFromRequest(req: IncomingMessage, allowQuery = false): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7).trim();
+  if (allowQuery && req.url) {
+    return new URL(req.url, "http://localhost").searchParams.get("token");
+  }
+  return null;
+}
+
+export function hasScope(device: PublicDevice, scope: AuthScope): boolean {
+  return scope === "user" || device.scope === "admin";
+}
+
+// ── Devices (backs /api/auth/devices) ───────────────────
+
+export function listDevices(): PublicDevice[] {
+  return cachedDevices().devices.map(toPublic);
+}
+
+export function revokeDevice(id: string): boolean {
+  const file = loadDevices();
+  const before = file.devices.length;
+  file.devices = file.devices.filter(d => d.id !== id);
+  if (file.devices.length === before) return false;
+  saveDevices(file);
+  console.log(`[Auth] Revoked device ${id}`);
+  return true;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { checkBudget, describeExceeded, periodBounds, validateBudget } from "./budgets.js";
+import type { Turn } from "../shared/stream-types.js";
+
+// Local time throughout, as budget periods are evaluated
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi);
+
+const turn = (endedAt: Date, costUsd: number, inputTokens = 0, outputTokens = 0): Turn => ({
+  inputId: null,
+  startedAt: endedAt.toISOString(),
+  endedAt: endedAt.toISOString(),
+  model: "sonnet",
+  durationMs: 0,
+  numTurns: 1,
+  inputTokens,
+  outputTokens,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  costUsd,
+  toolCount: 0,
+  outcome: "success",
+});
+
+describe("validateBudget", () => {
+  it("keeps the limits given and drops empty or null ones", () => {
+    expect(validateBudget({ daily: { costUsd: 5 }, weekly: { tokens: 1_000_000, costUsd: null } })).toEqual({
+      daily: { costUsd: 5 },
+      weekly: { tokens: 1_000_000 },
+    });
+    expect(validateBudget({ daily: {}, weekly: null })).toEqual({});
+    expect(validateBudget({ daily: { tokens: 0 } })).toEqual({ daily: { tokens: 0 } });
+  });
+
+  it("rejects unknown periods and limits, and bad amounts", () => {
+    expect(() => validateBudget(null)).toThrow(/must be an object/);
+    expect(() => validateBudget({ monthly: { costUsd: 5 } })).toThrow(/Unknown budget period "monthly"/);
+    expect(() => validateBudget({ daily: 5 })).toThrow(/daily must be an object/);
+    expect(() => validateBudget({ daily: { dollars: 5 } })).toThrow(/Unknown daily limit "dollars"/);
+    expect(() => validateBudget({ daily: { costUsd: -1 } })).toThrow(/non-negative/);
+    expect(() => validateBudget({ weekly: { tokens: "100" } })).toThrow(/non-negative/);
+    expect(() => validateBudget({ weekly: { tokens: Infinity } })).toThrow(/non-negative/);
+  });
+});
+
+describe("periodBounds", () => {
+  it("spans a calendar day, rolling over at midnight and across month ends", () => {
+    expect(periodBounds("daily", at(2026, 3, 4, 23, 59))).toEqual({ start: at(2026, 3, 4).getTime(), end: at(2026, 3, 5).getTime() });
+    expect(periodBounds("daily", at(2026, 3, 5)).start).toBe(at(2026, 3, 5).getTime());
+    expect(periodBounds("daily", at(2026, 1, 31, 12))).toEqual({ start: at(2026, 1, 31).getTime(), end: at(2026, 2, 1).getTime() });
+  });
+
+  it("starts weeks on Monday, with Sunday closing the week before", () => {
+    // 2026-03-02 is a Monday
+    expect(periodBounds("weekly", at(2026, 3, 2))).toEqual({ start: at(2026, 3, 2).getTime(), end: at(2026, 3, 9).getTime() });
+    expect(periodBounds("weekly", at(2026, 3, 8, 23, 59)).start).toBe(at(2026, 3, 2).getTime());
+    expect(periodBounds("weekly", at(2026, 3, 9)).start).toBe(at(2026, 3, 9).getTime());
+    // A week that straddles a month and a year end
+    expect(periodBounds("weekly", at(2027, 1, 1, 9))).toEqual({ start: at(2026, 12, 28).getTime(), end: at(2027, 1, 4).getTime() });
+  });
+});
+
+describe("checkBudget", () => {
+  const now = at(2026, 3, 4, 15);   // a Wednesday
+
+  it("returns null without a budget or while under every limit", () => {
+    const turns = [turn(at(2026, 3, 4, 9), 1.5)];
+    expect(checkBudget(undefined, turns, "session", now)).toBeNull();
+    expect(checkBudget({ daily: { costUsd: 2 } }, turns, "session", now)).toBeNull();
+  });
+
+  it("only counts turns inside the period, and counts a limit reached at equality", () => {
+    const turns = [
+      turn(at(2026, 3, 3, 22), 10),            // yesterday: outside today, inside this week
+      turn(at(2026, 3, 4, 9), 1.5, 300, 200),
+      turn(at(2026, 3, 4, 11), 0.5, 100, 400),
+    ];
+
+    expect(checkBudget({ daily: { costUsd: 2 } }, turns, "project", now)).toEqual({
+      scope: "project", period: "daily", limit: "costUsd", used: 2, max: 2, resetsAt: at(2026, 3, 5).getTime(),
+    });
+    expect(checkBudget({ daily: { tokens: 1001 } }, turns, "session", now)).toBeNull();
+    expect(checkBudget({ daily: { costUsd: 5 }, weekly: { costUsd: 12 } }, turns, "session", now)).toMatchObject({
+      period: "weekly", used: 12, resetsAt: at(2026, 3, 9).getTime(),
+    });
+    // A cap of 0 holds everything, even before any spend
+    expect(checkBudget({ daily: { tokens: 0 } }, [], "session", now)).toMatchObject({ limit: "tokens", used: 0 });
+  });
+
+  it("describes the limit that was hit", () => {
+    const exceeded = checkBudget({ daily: { tokens: 500 } }, [turn(at(2026, 3, 4, 9), 0, 400, 150)], "session", now)!;
+    expect(describeExceeded(exceeded)).toBe("Session daily budget reached (550 tokens of 500 tokens)");
+  });
+});
@@ -0,0 +1,91 @@
+import type { Turn } from "../shared/stream-types.js";
+
+export type BudgetPeriod = "daily" | "weekly";
+
+/** Caps for one period; either may be left out. Tokens are input + output. */
+export type BudgetLimits = {
+  costUsd?: number;
+  tokens?: number;
+};
+
+/** A project's or session's spend limits, per calendar day and ISO week (local time). */
+export type Budget = Partial<Record<BudgetPeriod, BudgetLimits>>;
+
+export type BudgetScope = "project" | "session";
+
+export type BudgetExceeded = {
+  scope: BudgetScope;
+  period: BudgetPeriod;
+  limit: keyof BudgetLimits;
+  used: number;
+  max: number;
+  resetsAt: number;   // unix ms when the period rolls over
+};
+
+const PERIODS: BudgetPeriod[] = ["daily", "weekly"];
+
+export function validateBudget(input: unknown): Budget {
+  if (typeof input !== "object" || input === null) throw new Error("Budget must be an object");
+  const result: Budget = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!PERIODS.includes(key as BudgetPeriod)) throw new Error(`Unknown budget period "${key}"`);
+    if (value === null || value === undefined) continue;
+    if (typeof value !== "object") throw new Error(`${key} must be an object`);
+    const limits: BudgetLimits = {};
+    for (const [limit, max] of Object.entries(value)) {
+      if (limit !== "costUsd" && limit !== "tokens") throw new Error(`Unknown ${key} limit "${limit}"`);
+      if (max === null || max === undefined) continue;
+      if (typeof max !== "number" || !Number.isFinite(max) || max < 0) throw new Error(`${key}.${limit} must be a non-negative number`);
+      limits[limit] = max;
+    }
+    if (Object.keys(limits).length > 0) result[key as BudgetPeriod] = limits;
+  }
+  return result;
+}
+
+/** Start and end (unix ms) of the period containing `now`. Weeks start on Monday. */
+export function periodBounds(period: BudgetPeriod, now = new Date()): { start: number; end: number } {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (period === "weekly") start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  const end = new Date(start);
+  end.setDate(end.getDate() + (period === "weekly" ? 7 : 1));
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+/** Cost and tokens of the turns that ended inside [since, ∞). */
+export function spendSince(turns: Turn[], since: number): { costUsd: number; tokens: number } {
+  let costUsd = 0;
+  let tokens = 0;
+  for (const turn of turns) {
+    if (new Date(turn.endedAt).getTime() < since) continue;
+    costUsd += turn.costUsd;
+    tokens += turn.inputTokens + turn.outputTokens;
+  }
+  return { costUsd, tokens };
+}
+
+/**
+ * The first limit of `budget` that `turns` have reached, or null. A limit
+ * counts as reached at equality, so a cap of 0 holds every input.
+ */
+export function checkBudget(budget: Budget | undefined, turns: Turn[], scope: BudgetScope, now = new Date()): BudgetExceeded | null {
+  if (!budget) return null;
+  for (const period of PERIODS) {
+    const limits = budget[period];
+    if (!limits) continue;
+    const { start, end } = periodBounds(period, now);
+    const spent = spendSince(turns, start);
+    for (const limit of ["costUsd", "tokens"] as const) {
+      const max = limits[limit];
+      if (max !== undefined && spent[limit] >= max) {
+        return { scope, period, limit, used: spent[limit], max, resetsAt: end };
+      }
+    }
+  }
+  return null;
+}
+
+export function describeExceeded(exceeded: BudgetExceeded): string {
+  const fmt = (n: number) => (exceeded.limit === "costUsd" ? `$${n.toFixed(2)}` : `${Math.round(n)} tokens`);
+  return `${exceeded.scope === "project" ? "Project" : "Session"} ${exceeded.period} budget reached (${fmt(exceeded.used)} of ${fmt(exceeded.max)})`;
+}
@@ -53,7 +53,7 @@ async function _executeOneShot(options: OneShotOptions): Promise<string> {
   }
 
   return new Promise((resolve, reject) => {
-    const proc = spawn("claude", args, {
+    const proc = spawn(process.env.AIMESSAGE_CLAUDE_BIN || "claude", args, {
       cwd: sterile ? os.tmpdir() : process.cwd(),
       env: {
         ...process.env,
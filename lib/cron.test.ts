@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { nextCronTime, parseCron } from "./cron.js";
+
+// Local time throughout, as the scheduler evaluates it
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi);
+
+describe("parseCron", () => {
+  it("expands wildcards, ranges, lists and steps", () => {
+    const schedule = parseCron("*/15 8-18/2 1,15 * 1-5");
+    expect([...schedule.minute.values]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hour.values]).toEqual([8, 10, 12, 14, 16, 18]);
+    expect([...schedule.dayOfMonth.values]).toEqual([1, 15]);
+    expect(schedule.month.wildcard).toBe(true);
+    expect(schedule.month.values.size).toBe(12);
+    expect([...schedule.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+    // A single value with a step runs to the end of the range
+    expect([...parseCron("50/5 * * * *").minute.values]).toEqual([50, 55]);
+  });
+
+  it("treats day-of-week 7 as Sunday", () => {
+    expect(parseCron("0 9 * * 7").dayOfWeek.values.has(0)).toBe(true);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/allowed 0-59/);
+    expect(() => parseCron("* * 0 * *")).toThrow(/allowed 1-31/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCron("5-1 * * * *")).toThrow(/Invalid cron value/);
+    expect(() => parseCron("a * * * *")).toThrow(/Invalid cron value/);
+  });
+});
+
+describe("nextCronTime", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(nextCronTime("30 9 * * *", at(2026, 3, 2, 9, 0))).toEqual(at(2026, 3, 2, 9, 30));
+    expect(nextCronTime("30 9 * * *", at(2026, 3, 2, 9, 30))).toEqual(at(2026, 3, 3, 9, 30));
+    expect(nextCronTime("* * * * *", new Date(2026, 2, 2, 9, 0, 45))).toEqual(at(2026, 3, 2, 9, 1));
+  });
+
+  it("rolls over hours, days, months and years", () => {
+    expect(nextCronTime("0 0 1 1 *", at(2026, 6, 15, 12))).toEqual(at(2027, 1, 1));
+    expect(nextCronTime("0 9 31 * *", at(2026, 4, 1))).toEqual(at(2026, 5, 31, 9));
+    expect(nextCronTime("0 0 29 2 *", at(2026, 1, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2026-03-02 is a Monday: the 15th or any Friday, whichever comes first
+    expect(nextCronTime("0 9 15 * 5", at(2026, 3, 2))).toEqual(at(2026, 3, 6, 9));
+    expect(nextCronTime("0 9 15 * 5", at(2026, 3, 13, 10))).toEqual(at(2026, 3, 15, 9));
+    // Weekdays only
+    expect(nextCronTime("0 9 * * 1-5", at(2026, 3, 6, 10))).toEqual(at(2026, 3, 9, 9));
+  });
+
+  it("throws for an expression that never fires", () => {
+    expect(() => nextCronTime("0 0 31 2 *", at(2026, 1, 1))).toThrow(/never fires/);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Minimal five-field cron parser (minute hour day-of-month month day-of-week).
+ *
+ * Supports `*`, numbers, ranges (`1-5`), lists (`0,30`) and steps (`*\/15`, `8-18/2`).
+ * Day-of-week accepts 0-7 with both 0 and 7 meaning Sunday. As in classic cron,
+ * when both day-of-month and day-of-week are restricted a day matches if
+ * EITHER field matches. All times are evaluated in the server's local zone.
+ */
+
+type CronField = { values: Set<number>; wildcard: boolean };
+
+export type CronSchedule = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],  // minute
+  [0, 23],  // hour
+  [1, 31],  // day of month
+  [1, 12],  // month
+  [0, 7],   // day of week
+];
+
+function parseField(raw: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      [start, end] = rangePart.split("-").map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron value "${part}" (allowed ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return { values, wildcard: raw === "*" };
+}
+
+export function parseCron(expr: string): CronSchedule {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}: "${expr}"`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((p, i) => parseField(p, ...FIELD_RANGES[i]));
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.dayOfMonth.values.has(date.getDate());
+  const dow = schedule.dayOfWeek.values.has(date.getDay());
+  if (schedule.dayOfMonth.wildcard) return dow;
+  if (schedule.dayOfWeek.wildcard) return dom;
+  return dom || dow;
+}
+
+/**
+ * Returns the first time strictly after `after` that matches the expression.
+ * Throws if nothing matches within five years (e.g. "0 0 31 2 *").
+ */
+export function nextCronTime(expr: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expr === "string" ? parseCron(expr) : expr;
+  const d = new Date(after.getTime());
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (d.getTime() <= limit) {
+    if (!schedule.month.values.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hour.values.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minute.values.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  throw new Error(`Cron expression never fires: "${typeof expr === "string" ? expr : "<parsed>"}"`);
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { EMBEDDING_DIMS, chunkText, embed, similarity, tokenize } from "./embeddings.js";
+
+describe("embeddings", () => {
+  it("drops stopwords and folds word forms together", () => {
+    expect(tokenize("What did we decide about the auth flows?")).toEqual(["decid", "auth", "flow"]);
+    expect(tokenize("Deciding, decided, decides")).toEqual(["decid", "decid", "decid"]);
+    expect(tokenize("classes pass")).toEqual(["class", "pass"]);
+  });
+
+  it("ranks texts about the same thing above unrelated ones", () => {
+    const query = embed("what did we decide about the auth flow?");
+    const decision = similarity(query, embed("We decided the login flow should use OAuth tokens for auth, refreshed by the server."));
+    const unrelated = similarity(query, embed("Fixed the CSS grid layout on mobile Safari."));
+    expect(decision).toBeGreaterThan(0.3);
+    expect(unrelated).toBeLessThan(0.1);
+
+    // Trigrams carry related word forms the stemmer misses
+    expect(similarity(embed("deciding on caching"), embed("the decision to cache responses")))
+      .toBeGreaterThan(similarity(embed("deciding on caching"), embed("rename the sidebar button")) + 0.2);
+  });
+
+  it("returns unit vectors, or zeros for text without words", () => {
+    const vector = embed("Tail out.jsonl from the last offset");
+    expect(vector).toHaveLength(EMBEDDING_DIMS);
+    expect(similarity(vector, vector)).toBeCloseTo(1, 5);
+    expect(embed("Tail out.jsonl from the last offset")).toEqual(vector);
+    expect(similarity(embed("the and of"), vector)).toBe(0);
+  });
+
+  it("chunks at paragraph breaks, and at spaces inside long paragraphs", () => {
+    expect(chunkText("first\n\nsecond", 100)).toEqual(["first\n\nsecond"]);
+    expect(chunkText("first paragraph\n\nsecond paragraph", 20)).toEqual(["first paragraph", "second paragraph"]);
+    const chunks = chunkText("word ".repeat(30), 40);
+    expect(chunks.every(c => c.length <= 40)).toBe(true);
+    expect(chunks.join(" ").split(" ")).toHaveLength(30);
+    expect(chunkText("  \n\n ")).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Local text embeddings — no model download, no network.
+ *
+ * A hashed bag of features: stemmed words, word pairs and the character
+ * trigrams of each word, folded into EMBEDDING_DIMS signed buckets and
+ * normalized. Word pairs keep some phrasing; trigrams let "decided",
+ * "decision" and "deciding" land near each other. Texts that talk about the
+ * same things score close; it doesn't know synonyms a model would.
+ */
+
+export const EMBEDDING_DIMS = 1024;
+
+// Longer texts are split so one vector doesn't average a whole essay
+export const MAX_CHUNK_CHARS = 1200;
+
+const WORD_WEIGHT = 1;
+const PAIR_WEIGHT = 0.6;
+const TRIGRAM_WEIGHT = 0.5;   // shared out among a word's trigrams
+
+const STOPWORDS = new Set(
+  ("a about above after again all also am an and any are as at be because been before being below between both but by can " +
+   "could did do does doing done down during each few for from further get got had has have having he her here hers him his " +
+   "how i if in into is it its itself just let me more most my no nor not now of off on once only or other our ours out over " +
+   "own same she should so some such than that the their them then there these they this those through to too under until " +
+   "up us very was we were what when where which while who whom why will with would you your yours").split(" ")
+);
+
+// Checked in order; the first that fits wins, if it leaves 3+ letters
+const SUFFIXES: Array<[string, string]> = [["ies", "y"], ["ing", ""], ["ed", ""], ["es", ""], ["s", ""], ["e", ""]];
+
+function stem(word: string): string {
+  if (word.endsWith("ss")) return word;
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) return word.slice(0, -suffix.length) + replacement;
+  }
+  return word;
+}
+
+/** Lowercased, stemmed words, without stopwords or single letters. */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(w => w.length > 1 && !STOPWORDS.has(w))
+    .map(stem);
+}
+
+// FNV-1a
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** A unit vector for `text`; all zeros when it has no words to go on. */
+export function embed(text: string): Float32Array {
+  const weights = new Map<string, number>();
+  const add = (feature: string, weight: number) => weights.set(feature, (weights.get(feature) ?? 0) + weight);
+
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`p:${words[i - 1]} ${word}`, PAIR_WEIGHT);
+    const padded = `<${word}>`;
+    const trigrams = padded.length - 2;
+    for (let j = 0; j < trigrams; j++) add(`t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT / Math.sqrt(trigrams));
+  });
+
+  const vector = new Float32Array(EMBEDDING_DIMS);
+  for (const [feature, weight] of weights) {
+    const h = hash(feature);
+    // Repeats count for less and less: a long text shouldn't drown out a short one
+    vector[h % EMBEDDING_DIMS] += (h & 0x80000000 ? -1 : 1) * Math.log1p(weight);
+  }
+
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+/** Cosine similarity of two vectors from embed(), in [-1, 1]. */
+export function similarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Splits text into pieces of at most `max` characters, at paragraph breaks
+ * where it can and at spaces where it must.
+ */
+export function chunkText(text: string, max = MAX_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  const push = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = "";
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > max) push();
+    if (paragraph.length <= max) {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+      continue;
+    }
+    push();
+    let rest = paragraph;
+    while (rest.length > max) {
+      const cut = rest.lastIndexOf(" ", max);
+      const at = cut > max / 2 ? cut : max;
+      chunks.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    current = rest;
+  }
+  push();
+  return chunks;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_GOVERNANCE, limitsFor, validateGovernancePolicy } from "./governance.js";
+
+describe("validateGovernancePolicy", () => {
+  it("applies a partial update on top of the base policy", () => {
+    const policy = validateGovernancePolicy({ maxConcurrentSessions: 2, idleReapMs: 60_000 });
+    expect(policy).toEqual({ ...DEFAULT_GOVERNANCE, maxConcurrentSessions: 2, idleReapMs: 60_000 });
+
+    const next = validateGovernancePolicy({ maxHostSessions: 4 }, policy);
+    expect(next).toMatchObject({ maxConcurrentSessions: 2, idleReapMs: 60_000, maxHostSessions: 4 });
+    // The base is left as it was
+    expect(policy.maxHostSessions).toBe(DEFAULT_GOVERNANCE.maxHostSessions);
+  });
+
+  it("replaces every project override when projects is given, dropping empty ones", () => {
+    const base = validateGovernancePolicy({ projects: { "-work-old": { idleReapMs: 5000 } } });
+    const policy = validateGovernancePolicy({ projects: { "-work-new": { sessionTtlMs: 60_000 }, "-work-empty": {} } }, base);
+    expect(policy.projects).toEqual({ "-work-new": { sessionTtlMs: 60_000 } });
+  });
+
+  it("rejects unknown keys, limits a project can't override, and bad values", () => {
+    expect(() => validateGovernancePolicy(null)).toThrow(/must be an object/);
+    expect(() => validateGovernancePolicy({ maxSessions: 3 })).toThrow(/Unknown governance setting "maxSessions"/);
+    expect(() => validateGovernancePolicy({ projects: { "-work-app": { maxConcurrentSessions: 1 } } })).toThrow(/cannot be set per project/);
+    expect(() => validateGovernancePolicy({ projects: { "-work-app": 5 } })).toThrow(/projects.-work-app must be an object/);
+    expect(() => validateGovernancePolicy({ idleReapMs: 0 })).toThrow(/positive integer/);
+    expect(() => validateGovernancePolicy({ idleReapMs: 1.5 })).toThrow(/positive integer/);
+    expect(() => validateGovernancePolicy({ projects: { "-work-app": { sessionTtlMs: "1h" } } })).toThrow(/projects.-work-app.sessionTtlMs must be a positive integer/);
+  });
+
+  it("keeps the reaper interval at a second or more", () => {
+    expect(() => validateGovernancePolicy({ reaperIntervalMs: 999 })).toThrow(/reaperIntervalMs must be at least 1000/);
+    expect(validateGovernancePolicy({ reaperIntervalMs: 1000 }).reaperIntervalMs).toBe(1000);
+  });
+});
+
+describe("limitsFor", () => {
+  const policy = validateGovernancePolicy({
+    idleReapMs: 10 * 60 * 1000,
+    projects: { "-work-long": { idleReapMs: 60 * 60 * 1000, sessionTtlMs: 24 * 60 * 60 * 1000 } },
+  });
+
+  it("lets a project's overrides beat the engine-wide limits", () => {
+    expect(limitsFor(policy, "-work-long")).toEqual({
+      maxConcurrentSessions: DEFAULT_GOVERNANCE.maxConcurrentSessions,
+      maxHostSessions: DEFAULT_GOVERNANCE.maxHostSessions,
+      orphanBusyTimeoutMs: DEFAULT_GOVERNANCE.orphanBusyTimeoutMs,
+      idleReapMs: 60 * 60 * 1000,
+      sessionTtlMs: 24 * 60 * 60 * 1000,
+      reaperIntervalMs: DEFAULT_GOVERNANCE.reaperIntervalMs,
+    });
+  });
+
+  it("falls back to the engine-wide limits for other projects and no project", () => {
+    expect(limitsFor(policy, "-work-other").idleReapMs).toBe(10 * 60 * 1000);
+    expect(limitsFor(policy, undefined)).not.toHaveProperty("projects");
+    expect(limitsFor(policy, undefined).sessionTtlMs).toBe(DEFAULT_GOVERNANCE.sessionTtlMs);
+  });
+});
@@ -0,0 +1,94 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+
+/** Engine-wide limits the reaper and ensureAwake() enforce. */
+export type GovernanceLimits = {
+  maxConcurrentSessions: number;    // sessions with an open input channel
+  maxHostSessions: number;          // hosts kept alive, awake or sleeping
+  orphanBusyTimeoutMs: number;      // interrupt a busy session nobody is watching
+  idleReapMs: number;               // destroy an idle session after this much inactivity
+  sessionTtlMs: number;             // destroy an idle, unwatched session this long after creation
+  reaperIntervalMs: number;
+};
+
+/** The limits a project may override; the rest are shared by every session. */
+export type ProjectGovernance = Partial<Pick<GovernanceLimits, "orphanBusyTimeoutMs" | "idleReapMs" | "sessionTtlMs">>;
+
+export type GovernancePolicy = GovernanceLimits & {
+  projects: Record<string, ProjectGovernance>;   // keyed by project key
+};
+
+export const DEFAULT_GOVERNANCE: GovernancePolicy = {
+  maxConcurrentSessions: 5,
+  maxHostSessions: 10,
+  orphanBusyTimeoutMs: 60 * 60 * 1000,
+  idleReapMs: 10 * 60 * 1000,
+  sessionTtlMs: 4 * 60 * 60 * 1000,
+  reaperIntervalMs: 30 * 1000,
+  projects: {},
+};
+
+const GOVERNANCE_FILE = join(os.homedir(), ".aimessage", "governance.json");
+
+const LIMIT_KEYS = Object.keys(DEFAULT_GOVERNANCE).filter(k => k !== "projects") as (keyof GovernanceLimits)[];
+const PROJECT_KEYS: (keyof ProjectGovernance)[] = ["orphanBusyTimeoutMs", "idleReapMs", "sessionTtlMs"];
+const MIN_REAPER_INTERVAL_MS = 1000;
+
+function checkLimit(name: string, value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) throw new Error(`${name} must be a positive integer`);
+  if (name.endsWith("reaperIntervalMs") && value < MIN_REAPER_INTERVAL_MS) throw new Error(`${name} must be at least ${MIN_REAPER_INTERVAL_MS}`);
+  return value;
+}
+
+/**
+ * Applies a (partial) policy update on top of `base`. Given limits replace
+ * the current ones; a given `projects` map replaces all project overrides.
+ */
+export function validateGovernancePolicy(input: unknown, base: GovernancePolicy = DEFAULT_GOVERNANCE): GovernancePolicy {
+  if (typeof input !== "object" || input === null) throw new Error("Governance policy must be an object");
+  const result: GovernancePolicy = { ...base, projects: { ...base.projects } };
+  for (const [key, value] of Object.entries(input)) {
+    if (key === "projects") {
+      if (typeof value !== "object" || value === null) throw new Error("projects must be an object");
+      result.projects = {};
+      for (const [projectKey, overrides] of Object.entries(value)) {
+        if (typeof overrides !== "object" || overrides === null) throw new Error(`projects.${projectKey} must be an object`);
+        const project: ProjectGovernance = {};
+        for (const [limit, max] of Object.entries(overrides)) {
+          if (!PROJECT_KEYS.includes(limit as keyof ProjectGovernance)) throw new Error(`${limit} cannot be set per project`);
+          project[limit as keyof ProjectGovernance] = checkLimit(`projects.${projectKey}.${limit}`, max);
+        }
+        if (Object.keys(project).length > 0) result.projects[projectKey] = project;
+      }
+    } else if (LIMIT_KEYS.includes(key as keyof GovernanceLimits)) {
+      result[key as keyof GovernanceLimits] = checkLimit(key, value);
+    } else {
+      throw new Error(`Unknown governance setting "${key}"`);
+    }
+  }
+  return result;
+}
+
+/** The policy from ~/.aimessage/governance.json, falling back to the defaults. */
+export function loadGovernancePolicy(): GovernancePolicy {
+  try {
+    if (existsSync(GOVERNANCE_FILE)) {
+      return validateGovernancePolicy(JSON.parse(readFileSync(GOVERNANCE_FILE, "utf-8")));
+    }
+  } catch (err) {
+    console.error("[Governance] Failed to load policy, using defaults:", err);
+  }
+  return DEFAULT_GOVERNANCE;
+}
+
+export function saveGovernancePolicy(policy: GovernancePolicy): void {
+  mkdirSync(join(os.homedir(), ".aimessage"), { recursive: true });
+  writeFileSync(GOVERNANCE_FILE, JSON.stringify(policy, null, 2));
+}
+
+/** The limits for one project: its overrides on top of the engine-wide policy. */
+export function limitsFor(policy: GovernancePolicy, projectKey: string | undefined): GovernanceLimits {
+  const { projects, ...limits } = policy;
+  return { ...limits, ...(projectKey ? projects[projectKey] : undefined) };
+}
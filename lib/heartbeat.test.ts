@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Heartbeat, isWithinActiveHours, loadHeartbeatConfig, type HeartbeatAlert, type HeartbeatConfig } from "./heartbeat.js";
+import { queryActivity } from "./activity-log.js";
+import { executeOneShot } from "./claude-one-shot.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+vi.mock("./claude-one-shot.js", () => ({ executeOneShot: vi.fn(async () => "HEARTBEAT_OK") }));
+
+const AIMESSAGE_DIR = path.join(os.homedir(), ".aimessage");
+
+function writeConfig(config: Partial<HeartbeatConfig>): void {
+  fs.mkdirSync(AIMESSAGE_DIR, { recursive: true });
+  fs.writeFileSync(path.join(AIMESSAGE_DIR, "heartbeat.json"), JSON.stringify({
+    enabled: true,
+    intervalMinutes: 30,
+    activeHours: { start: "07:00", end: "23:00" },
+    projects: {},
+    ...config,
+  }));
+}
+
+const at = (hhmm: string) => new Date(`2026-03-02T${hhmm}:00`);
+
+describe("isWithinActiveHours", () => {
+  it("includes the start and excludes the end", () => {
+    const hours = { start: "07:00", end: "23:00" };
+    expect(isWithinActiveHours(hours, at("06:59"))).toBe(false);
+    expect(isWithinActiveHours(hours, at("07:00"))).toBe(true);
+    expect(isWithinActiveHours(hours, at("22:59"))).toBe(true);
+    expect(isWithinActiveHours(hours, at("23:00"))).toBe(false);
+  });
+
+  it("handles windows that wrap midnight, and treats start == end as always on", () => {
+    const hours = { start: "22:00", end: "02:00" };
+    expect(isWithinActiveHours(hours, at("23:30"))).toBe(true);
+    expect(isWithinActiveHours(hours, at("01:59"))).toBe(true);
+    expect(isWithinActiveHours(hours, at("02:00"))).toBe(false);
+    expect(isWithinActiveHours(hours, at("12:00"))).toBe(false);
+    expect(isWithinActiveHours({ start: "00:00", end: "00:00" }, at("04:00"))).toBe(true);
+  });
+});
+
+describe("Heartbeat", () => {
+  // Just what a run uses of the engine; only "s-wake" exists
+  const engine = {
+    getState: vi.fn(async (id: string) => (id === "s-wake" ? { projectPath: "/work/hb" } : null)),
+    notify: vi.fn(async () => {}),
+    submit: vi.fn(async () => "input-1"),
+  };
+  const heartbeat = new Heartbeat(() => engine as unknown as TmuxSessionEngine);
+  const alerts: HeartbeatAlert[] = [];
+  heartbeat.on("alert", (alert: HeartbeatAlert) => alerts.push(alert));
+
+  beforeEach(() => {
+    vi.mocked(executeOneShot).mockReset().mockResolvedValue("HEARTBEAT_OK");
+    engine.notify.mockClear();
+    engine.submit.mockClear();
+    alerts.length = 0;
+  });
+
+  it("does not run while disabled, before nextRunAt or outside active hours", async () => {
+    writeConfig({ enabled: false });
+    await heartbeat.tick(at("12:00"));
+    writeConfig({ nextRunAt: at("12:30").getTime() });
+    await heartbeat.tick(at("12:00"));
+    writeConfig({ activeHours: { start: "07:00", end: "09:00" } });
+    await heartbeat.tick(at("12:00"));
+
+    expect(executeOneShot).not.toHaveBeenCalled();
+  });
+
+  it("runs once per enabled project and pushes nextRunAt out by the interval", async () => {
+    writeConfig({
+      intervalMinutes: 15,
+      projects: { "-work-hb-a": { enabled: true }, "-work-hb-b": { enabled: true }, "-work-hb-off": { enabled: false } },
+    });
+    const before = Date.now();
+    await heartbeat.tick(at("12:00"));
+
+    expect(executeOneShot).toHaveBeenCalledTimes(2);
+    expect(loadHeartbeatConfig().nextRunAt).toBeGreaterThanOrEqual(before + 15 * 60 * 1000);
+    for (const project of ["-work-hb-a", "-work-hb-b"]) {
+      expect(queryActivity({ type: "heartbeat", project }).map(e => e.summary)).toEqual(["checked, nothing to report"]);
+    }
+    expect(queryActivity({ type: "heartbeat", project: "-work-hb-off" })).toEqual([]);
+  });
+
+  it("stays quiet on HEARTBEAT_OK, and wakes the session as a heartbeat input otherwise", async () => {
+    writeConfig({ projects: { "-work-hb-wake": { enabled: true, wakeSessionId: "s-wake" } } });
+    await heartbeat.tick(at("12:00"));
+    expect(engine.submit).not.toHaveBeenCalled();
+    expect(alerts).toEqual([]);
+
+    vi.mocked(executeOneShot).mockResolvedValue("The deploy from 10:00 ended with an error and nobody followed up.");
+    writeConfig({ projects: { "-work-hb-wake": { enabled: true, wakeSessionId: "s-wake" } } });
+    await heartbeat.tick(at("12:30"));
+
+    expect(engine.submit).toHaveBeenCalledWith(
+      "s-wake", "heartbeat", "[heartbeat] The deploy from 10:00 ended with an error and nobody followed up.",
+      undefined, undefined, "heartbeat"
+    );
+    expect(engine.notify).toHaveBeenCalledWith("s-wake", "The deploy from 10:00 ended with an error and nobody followed up.");
+    expect(alerts).toEqual([{ project: "-work-hb-wake", sessionId: "s-wake", subject: "The deploy from 10:00 ended with an error and nobody followed up." }]);
+    expect(queryActivity({ type: "heartbeat", project: "-work-hb-wake" })[0]).toMatchObject({
+      session: "s-wake",
+      summary: "The deploy from 10:00 ended with an error and nobody followed up.",
+    });
+    const { prompt } = vi.mocked(executeOneShot).mock.calls[0][0];
+    expect(prompt).not.toContain("Max");
+  });
+
+  it("records an alert without waking anything when the project names no session", async () => {
+    vi.mocked(executeOneShot).mockResolvedValue("Two background agents have been stuck since the morning.");
+    writeConfig({ projects: { "-work-hb-nowake": { enabled: true } } });
+    await heartbeat.tick(at("12:00"));
+
+    expect(engine.submit).not.toHaveBeenCalled();
+    expect(queryActivity({ type: "heartbeat", project: "-work-hb-nowake" })[0]).toMatchObject({
+      session: null,
+      summary: "Two background agents have been stuck since the morning.",
+    });
+    expect(alerts).toEqual([{ project: "-work-hb-nowake", sessionId: null, subject: "Two background agents have been stuck since the morning." }]);
+  });
+
+  it("never wakes a session that no longer exists, but still raises the alert", async () => {
+    vi.mocked(executeOneShot).mockResolvedValue("The nightly export has not run since Monday.");
+    writeConfig({ projects: { "-work-hb-stale": { enabled: true, wakeSessionId: "s-deleted" } } });
+    await heartbeat.tick(at("12:00"));
+
+    expect(engine.getState).toHaveBeenCalledWith("s-deleted");
+    expect(engine.notify).not.toHaveBeenCalled();
+    expect(engine.submit).not.toHaveBeenCalled();
+    expect(alerts).toEqual([{ project: "-work-hb-stale", sessionId: null, subject: "The nightly export has not run since Monday." }]);
+  });
+});
+
+describe("loadHeartbeatConfig", () => {
+  it("fills in a partial activeHours from the defaults", () => {
+    writeConfig({ activeHours: { start: "09:00" } as HeartbeatConfig["activeHours"] });
+    expect(loadHeartbeatConfig().activeHours).toEqual({ start: "09:00", end: "23:00" });
+    writeConfig({ activeHours: null as unknown as HeartbeatConfig["activeHours"] });
+    expect(loadHeartbeatConfig().activeHours).toEqual({ start: "07:00", end: "23:00" });
+  });
+});
@@ -0,0 +1,211 @@
+import { EventEmitter } from "node:events";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+import { executeOneShot } from "./claude-one-shot.js";
+import { insertActivity, queryActivity } from "./activity-log.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+export type HeartbeatProjectConfig = {
+  enabled: boolean;
+  wakeSessionId?: string;   // session to submit the alert into when attention is needed
+};
+
+export type HeartbeatConfig = {
+  enabled: boolean;
+  intervalMinutes: number;
+  activeHours: { start: string; end: string };  // "HH:MM", local time; may wrap midnight
+  projects: Record<string, HeartbeatProjectConfig>;  // keyed by claude project key
+  nextRunAt?: number;       // unix ms, persisted after every run
+};
+
+/** Emitted as "alert" whenever a run finds something that needs attention. */
+export type HeartbeatAlert = {
+  project: string | null;
+  sessionId: string | null; // the wake session it went to, if any
+  subject: string;
+};
+
+const AIMESSAGE_DIR = join(os.homedir(), ".aimessage");
+const HEARTBEAT_CONFIG = join(AIMESSAGE_DIR, "heartbeat.json");
+const HEARTBEAT_PROMPT = join(AIMESSAGE_DIR, "heartbeat-prompt.md");
+
+const HEARTBEAT_TICK_MS = 60 * 1000;
+const HEARTBEAT_OK = "HEARTBEAT_OK";
+
+const DEFAULT_CONFIG: HeartbeatConfig = {
+  enabled: false,
+  intervalMinutes: 30,
+  activeHours: { start: "07:00", end: "23:00" },
+  projects: {},
+};
+
+const DEFAULT_INSTRUCTIONS = "Check if any work from today looks unfinished, stalled, or ended with an error.";
+
+export function loadHeartbeatConfig(): HeartbeatConfig {
+  try {
+    if (existsSync(HEARTBEAT_CONFIG)) {
+      const data = JSON.parse(readFileSync(HEARTBEAT_CONFIG, "utf-8"));
+      // A hand-edited activeHours may lack a field; fill it in rather than throw on every tick
+      const hours = typeof data.activeHours === "object" && data.activeHours ? data.activeHours : {};
+      const activeHours = {
+        start: typeof hours.start === "string" ? hours.start : DEFAULT_CONFIG.activeHours.start,
+        end: typeof hours.end === "string" ? hours.end : DEFAULT_CONFIG.activeHours.end,
+      };
+      return { ...DEFAULT_CONFIG, ...data, activeHours };
+    }
+  } catch (err) {
+    console.error("[Heartbeat] Failed to load config:", err);
+  }
+  return { ...DEFAULT_CONFIG };
+}
+
+function saveHeartbeatConfig(config: HeartbeatConfig): void {
+  try {
+    mkdirSync(AIMESSAGE_DIR, { recursive: true });
+    writeFileSync(HEARTBEAT_CONFIG, JSON.stringify(config, null, 2));
+  } catch (err) {
+    console.error("[Heartbeat] Failed to save config:", err);
+  }
+}
+
+function loadInstructions(): string {
+  try {
+    if (existsSync(HEARTBEAT_PROMPT)) {
+      const text = readFileSync(HEARTBEAT_PROMPT, "utf-8").trim();
+      if (text) return text;
+    }
+  } catch { /* fall through to default */ }
+  return DEFAULT_INSTRUCTIONS;
+}
+
+function minutesOfDay(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+/**
+ * True if `now` falls inside the configured active window.
+ * Windows that wrap midnight (e.g. 22:00 - 02:00) are supported.
+ */
+export function isWithinActiveHours(activeHours: HeartbeatConfig["activeHours"], now = new Date()): boolean {
+  const start = minutesOfDay(activeHours.start);
+  const end = minutesOfDay(activeHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return true;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Heartbeat — a 60-second timer that periodically asks a haiku one-shot
+ * whether anything in today's activity log needs attention.
+ *
+ * Each run is scoped per enabled project (or globally when no projects are
+ * configured) and always leaves an activity row, even "nothing to report",
+ * so there is a visible trace that the system is alive. When the one-shot
+ * flags something it is emitted as an "alert". When the project also
+ * names a wakeSessionId that still exists, the session gets a notification
+ * and the alert is submitted into it with type 'heartbeat', so it is never
+ * mistaken for something the user typed.
+ */
+export class Heartbeat extends EventEmitter {
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private getEngine: () => TmuxSessionEngine) {
+    super();
+  }
+
+  start(): void {
+    if (this.interval) return;
+    if (!existsSync(HEARTBEAT_CONFIG)) saveHeartbeatConfig(DEFAULT_CONFIG);
+    this.interval = setInterval(() => {
+      this.tick().catch(err => console.error("[Heartbeat] Tick failed:", err));
+    }, HEARTBEAT_TICK_MS);
+    this.interval.unref();
+  }
+
+  stop(): void {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    if (this.running) return; // previous run still waiting on a one-shot
+    const config = loadHeartbeatConfig();
+    if (!config.enabled) return;
+    if (config.nextRunAt && now.getTime() < config.nextRunAt) return;
+    if (!isWithinActiveHours(config.activeHours, now)) return;
+
+    this.running = true;
+    try {
+      const enabledProjects = Object.entries(config.projects).filter(([, p]) => p.enabled);
+      if (enabledProjects.length === 0) {
+        await this.runForProject(null, undefined, now);
+      } else {
+        for (const [projectKey, projectConfig] of enabledProjects) {
+          await this.runForProject(projectKey, projectConfig.wakeSessionId, now);
+        }
+      }
+    } finally {
+      this.running = false;
+      // Re-read so edits made while the one-shots ran are not clobbered
+      const latest = loadHeartbeatConfig();
+      latest.nextRunAt = Date.now() + latest.intervalMinutes * 60 * 1000;
+      saveHeartbeatConfig(latest);
+    }
+  }
+
+  private async runForProject(project: string | null, wakeSessionId: string | undefined, now: Date): Promise<void> {
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const todaysActivity = queryActivity({ since: startOfDay.getTime(), project: project ?? undefined, limit: 100 })
+      .reverse()
+      .map(e => `${new Date(e.ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} [${e.type}] ${e.summary}`)
+      .join("\n");
+
+    let summary: string;
+    let wokeSession: string | null = null;
+    try {
+      const result = (await executeOneShot({
+        model: "haiku",
+        sterile: true,
+        prompt: `You are keeping an eye on ongoing work for the user. Current time: ${now.toString()}.
+
+Here is what happened today:
+${todaysActivity || "(no activity yet)"}
+
+${loadInstructions()}
+
+If nothing needs attention, reply exactly: ${HEARTBEAT_OK}
+Otherwise, state what needs attention and why, in 2-3 sentences.`
+      })).trim();
+
+      if (!result || result.includes(HEARTBEAT_OK)) {
+        summary = "checked, nothing to report";
+      } else {
+        summary = result;
+        console.log(`[Heartbeat] Attention needed${project ? ` in ${project}` : ""}: ${result}`);
+        const engine = this.getEngine();
+        // submit() would quietly create a session for an id that is gone
+        if (wakeSessionId && !(await engine.getState(wakeSessionId))) {
+          console.warn(`[Heartbeat] Wake session ${wakeSessionId} no longer exists, not waking it`);
+        } else if (wakeSessionId) {
+          await engine.notify(wakeSessionId, result);
+          await engine.submit(wakeSessionId, "heartbeat", `[heartbeat] ${result}`, undefined, undefined, "heartbeat");
+          wokeSession = wakeSessionId;
+          console.log(`[Heartbeat] Woke session ${wakeSessionId}`);
+        }
+        this.emit("alert", { project, sessionId: wokeSession, subject: result } satisfies HeartbeatAlert);
+      }
+    } catch (err) {
+      summary = `heartbeat failed: ${err instanceof Error ? err.message : String(err)}`;
+      console.error(`[Heartbeat] One-shot failed${project ? ` for ${project}` : ""}:`, err);
+    }
+
+    insertActivity({ type: "heartbeat", project, session: wokeSession, summary });
+  }
+}
@@ -0,0 +1,118 @@
+export type PermissionMode = "bypass" | "ask";
+
+/**
+ * Per-project tool rules, in Claude's own settings syntax:
+ *   "Read"            — every Read call
+ *   "Bash(rm *)"      — Bash whose command matches the glob
+ *   "Bash(npm test:*)" — Claude-style prefix form, same as "npm test*"
+ */
+export type PermissionRules = {
+  allow: string[];
+  ask: string[];
+  deny: string[];
+};
+
+export type PermissionDecision = "allow" | "ask" | "deny";
+
+export const EMPTY_RULES: PermissionRules = { allow: [], ask: [], deny: [] };
+
+// The input field a rule pattern is matched against, per tool
+const PRIMARY_FIELD: Record<string, string> = {
+  Bash: "command",
+  Read: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  Write: "file_path",
+  NotebookEdit: "notebook_path",
+  Glob: "pattern",
+  Grep: "pattern",
+  WebFetch: "url",
+  WebSearch: "query",
+};
+
+function parseRule(rule: string): { tool: string; pattern: string | null } | null {
+  const match = rule.trim().match(/^([\w-]+)(?:\((.*)\))?$/s);
+  if (!match) return null;
+  return { tool: match[1], pattern: match[2] ?? null };
+}
+
+/**
+ * How a rule's pattern is compared with the call:
+ *   "glob"  — * matches anything; for deny and ask, where matching more is the safe side
+ *   "allow" — a Bash * stops at anything that starts another command, so
+ *             "Bash(git status*)" doesn't allow "git status; curl … | sh"
+ *   "exact" — the whole subject, for session grants of one exact command
+ */
+type MatchMode = "glob" | "allow" | "exact";
+
+// A * in an allow rule never spans these: ; & && | || ` $( or a newline
+const CHAINED_COMMAND = /[;&|`\n]|\$\(/.source;
+
+function globToRegExp(pattern: string, wildcard = ".*"): RegExp {
+  const normalized = pattern.replace(/:\*$/, "*");
+  const escaped = normalized.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, () => wildcard);
+  return new RegExp(`^${escaped}$`, "s");
+}
+
+function subjectOf(toolName: string, input: unknown): string {
+  const field = PRIMARY_FIELD[toolName];
+  if (field && typeof input === "object" && input !== null && field in input) {
+    return String((input as Record<string, unknown>)[field]);
+  }
+  return JSON.stringify(input ?? {});
+}
+
+export function validateRules(rules: Partial<PermissionRules>): PermissionRules {
+  const result: PermissionRules = { allow: [], ask: [], deny: [] };
+  for (const key of ["allow", "ask", "deny"] as const) {
+    const list = rules[key] ?? [];
+    if (!Array.isArray(list)) throw new Error(`${key} must be an array of rules`);
+    for (const rule of list) {
+      if (typeof rule !== "string" || !parseRule(rule)) throw new Error(`Invalid rule "${rule}"`);
+      result[key].push(rule.trim());
+    }
+  }
+  return result;
+}
+
+export function matchesRule(rule: string, toolName: string, input: unknown, mode: MatchMode = "glob"): boolean {
+  const parsed = parseRule(rule);
+  if (!parsed || parsed.tool !== toolName) return false;
+  if (parsed.pattern === null) return true;
+  const subject = subjectOf(toolName, input);
+  if (mode === "exact") return parsed.pattern === subject;
+  if (parsed.pattern === "*") return true;
+  const wildcard = mode === "allow" && toolName === "Bash" ? `(?:(?!${CHAINED_COMMAND}).)*` : ".*";
+  return globToRegExp(parsed.pattern, wildcard).test(subject);
+}
+
+/**
+ * Decides a tool call against project rules plus any "allow for session"
+ * grants. Deny beats ask beats allow; anything unmatched asks. Session
+ * grants only match the exact call they were given for.
+ */
+export function evaluatePermission(
+  rules: PermissionRules,
+  sessionAllow: string[],
+  toolName: string,
+  input: unknown
+): { decision: PermissionDecision; rule?: string } {
+  const find = (list: string[], mode?: MatchMode) => list.find(rule => matchesRule(rule, toolName, input, mode));
+
+  const deny = find(rules.deny);
+  if (deny) return { decision: "deny", rule: deny };
+  const ask = find(rules.ask);
+  if (ask) return { decision: "ask", rule: ask };
+  const allow = find(rules.allow, "allow") ?? find(sessionAllow, "exact");
+  if (allow) return { decision: "allow", rule: allow };
+  return { decision: "ask" };
+}
+
+/**
+ * The rule recorded when a call is allowed for the rest of the session.
+ * Bash is pinned to the exact command; other tools are allowed wholesale.
+ */
+export function sessionRuleFor(toolName: string, input: unknown): string {
+  if (toolName === "Bash") return `Bash(${subjectOf(toolName, input)})`;
+  return toolName;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { RecallIndex } from "./recall.js";
+import { insertActivity } from "./activity-log.js";
+import { newSessionId } from "../src/engine-v2/fake-claude/harness.js";
+import type { HostTool } from "../src/engine-v2/HostTools.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+const SESSIONS_DIR = path.join(os.homedir(), ".aimessage", "sessions");
+
+const frame = (item: Record<string, unknown>) => JSON.stringify({ type: "stream_item", item: { timestamp: "2026-03-01T10:00:00.000Z", ...item } }) + "\n";
+
+function writeSession(projectPath: string, items: Array<Record<string, unknown>>): string {
+  const sessionId = newSessionId();
+  const dir = path.join(SESSIONS_DIR, sessionId);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "metadata.json"), JSON.stringify({ projectPath }));
+  fs.writeFileSync(path.join(dir, "out.jsonl"), items.map(frame).join(""));
+  return sessionId;
+}
+
+/** Just what the index uses of the engine: turn_complete and the host tool registry. */
+class FakeEngine extends EventEmitter {
+  tools = new Map<string, HostTool>();
+  registerTool(tool: HostTool): void { this.tools.set(tool.name, tool); }
+  unregisterTool(name: string): void { this.tools.delete(name); }
+}
+
+describe("RecallIndex", () => {
+  const index = new RecallIndex();
+
+  it("finds earlier messages by meaning, within the project", () => {
+    const decided = writeSession("/work/recall-app", [
+      { kind: "user_message", id: "u1", text: "What should the login flow use for auth?" },
+      { kind: "assistant_message", id: "a1", text: "We decided the login flow uses OAuth tokens, refreshed by the server." },
+      { kind: "user_message", id: "u2", text: "ok go" },
+      { kind: "assistant_message", id: "a2", text: "A sub-agent's notes about OAuth token refresh in the login flow", parentToolUseId: "toolu_1" },
+    ]);
+    const unrelated = writeSession("/work/recall-app", [
+      { kind: "assistant_message", id: "a1", text: "Fixed the CSS grid layout on mobile Safari." },
+    ]);
+    const elsewhere = writeSession("/work/other-app", [
+      { kind: "assistant_message", id: "a1", text: "The login flow there uses OAuth tokens for auth as well." },
+    ]);
+    for (const id of [decided, unrelated, elsewhere]) index.indexSession(id);
+
+    const hits = index.recall({ q: "what did we decide about the auth flow", project: "-work-recall-app" });
+    // Left out: u2 too short to say anything, a2 a sub-agent's working, the
+    // unrelated session off topic and the other project out of scope
+    expect(hits.map(h => h.itemId).sort()).toEqual(["a1", "u1"]);
+    expect(hits.every(h => h.sessionId === decided && h.projectKey === "-work-recall-app")).toBe(true);
+
+    expect(index.recall({ q: "login flow auth", project: "-work-recall-app", excludeSession: decided })).toEqual([]);
+    expect(index.recall({ q: "login flow auth", since: Date.parse("2026-04-01") })).toEqual([]);
+    expect(index.recall({ q: "the and of" })).toEqual([]);
+  });
+
+  it("embeds each journal line once, and only new ones on the next pass", () => {
+    const sessionId = writeSession("/work/recall-incremental", [
+      { kind: "user_message", id: "u1", text: "Move the nightly backups to object storage" },
+    ]);
+    index.indexSession(sessionId);
+    index.indexSession(sessionId);
+    fs.appendFileSync(path.join(SESSIONS_DIR, sessionId, "out.jsonl"), frame({ kind: "assistant_message", id: "a1", text: "Nightly backups now go to object storage." }));
+    index.indexSession(sessionId);
+
+    const hits = index.recall({ q: "nightly backups object storage", project: "-work-recall-incremental" });
+    expect(hits.map(h => h.itemId).sort()).toEqual(["a1", "u1"]);
+  });
+
+  it("picks up the activity log's session summaries", () => {
+    insertActivity({ type: "message", project: "-work-recall-summaries", session: "s-sum", summary: "Switched the queue worker from polling to Postgres LISTEN/NOTIFY" });
+    insertActivity({ type: "heartbeat", project: "-work-recall-summaries", session: null, summary: "Checked the queue worker polling interval" });
+    index.indexSummaries();
+    index.indexSummaries();
+
+    const hits = index.recall({ q: "queue worker polling", project: "-work-recall-summaries" });
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ kind: "summary", sessionId: "s-sum", itemId: null });
+  });
+
+  it("indexes completed turns in the background and answers the recall host tool", async () => {
+    const engine = new FakeEngine();
+    index.attach(engine as unknown as TmuxSessionEngine);
+    const tool = engine.tools.get("recall")!;
+    expect(tool).toBeDefined();
+
+    const sessionId = writeSession("/work/recall-tool", [
+      { kind: "assistant_message", id: "a1", text: "We chose SQLite over a flat file for the activity log so filters are indexed reads." },
+    ]);
+    engine.emit("turn_complete", { sessionId });
+    await vi.waitFor(() => expect(index.recall({ q: "sqlite activity log", project: "-work-recall-tool" })).toHaveLength(1));
+
+    const answer = await tool.run({ sessionId: "asker", projectPath: "/work/recall-tool" }, { query: "why sqlite for the activity log?" });
+    expect(answer).toContain("We chose SQLite over a flat file");
+    expect(answer).toContain(`session ${sessionId.slice(0, 8)}`);
+    // The session asking never sees itself, and other projects stay out
+    expect(await tool.run({ sessionId, projectPath: "/work/recall-tool" }, { query: "why sqlite for the activity log?" }))
+      .toBe("Nothing relevant in this project's earlier conversations.");
+    expect(await tool.run({ sessionId: "asker", projectPath: "/work/somewhere-else" }, { query: "why sqlite for the activity log?" }))
+      .toBe("Nothing relevant in this project's earlier conversations.");
+
+    index.detach();
+    expect(engine.tools.has("recall")).toBe(false);
+  });
+});
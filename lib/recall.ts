@@ -0,0 +1,298 @@
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+import { isNoise } from "../shared/filter-config.js";
+import { toProjectKey } from "../session-discovery.js";
+import { queryActivity } from "./activity-log.js";
+import { chunkText, embed, similarity, tokenize } from "./embeddings.js";
+import { readNewLines } from "./search-index.js";
+import type { StreamItem } from "../shared/stream-types.js";
+import type { HostTool } from "../src/engine-v2/HostTools.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+export type RecallKind = "summary" | "user_message" | "assistant_message";
+
+export type RecallHit = {
+  sessionId: string | null;
+  projectKey: string;
+  kind: RecallKind;
+  itemId: string | null;  // null for summaries
+  timestamp: string;
+  text: string;
+  score: number;          // cosine similarity to the query
+};
+
+export type RecallQuery = {
+  q: string;
+  project?: string;          // project key
+  excludeSession?: string;   // e.g. the session asking
+  since?: number;            // unix ms, inclusive
+  limit?: number;
+};
+
+const RECALL_DB = join(os.homedir(), ".aimessage", "recall.db");
+const SESSIONS_DIR = join(os.homedir(), ".aimessage", "sessions");
+
+// The sources row tracking how far the activity log has been read, by entry id
+const ACTIVITY_SOURCE = "activity";
+// Below this a hit shares little more than common words with the query
+const MIN_SCORE = 0.15;
+// "ok, go ahead" carries nothing worth recalling
+const MIN_WORDS = 3;
+// How much of one journal a background tick embeds before yielding to requests
+const BATCH_BYTES = 256 * 1024;
+
+let db: Database.Database | null = null;
+let insertStmt: Database.Statement | null = null;
+
+/**
+ * Opens ~/.aimessage/recall.db on first use and creates the schema: text
+ * chunks with their embedding, and how far each source has been read.
+ */
+function getDb(): Database.Database {
+  if (db) return db;
+  mkdirSync(join(os.homedir(), ".aimessage"), { recursive: true });
+  db = new Database(RECALL_DB);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chunks (
+      id      INTEGER PRIMARY KEY,
+      project TEXT NOT NULL,
+      session TEXT,
+      kind    TEXT NOT NULL,
+      item_id TEXT,
+      ts      INTEGER NOT NULL,
+      text    TEXT NOT NULL,
+      vector  BLOB NOT NULL,
+      source  TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_project_ts ON chunks(project, ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_source     ON chunks(source);
+    CREATE TABLE IF NOT EXISTS sources (
+      path   TEXT PRIMARY KEY,
+      offset INTEGER NOT NULL
+    );
+  `);
+  insertStmt = db.prepare("INSERT INTO chunks (project, session, kind, item_id, ts, text, vector, source) VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+  return db;
+}
+
+function insertChunks(project: string, session: string | null, kind: RecallKind, itemId: string | null, ts: number, text: string, source: string): void {
+  for (const chunk of chunkText(text)) {
+    const vector = embed(chunk);
+    insertStmt!.run(project, session, kind, itemId, ts, chunk, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), source);
+  }
+}
+
+function setOffset(source: string, offset: number): void {
+  getDb().prepare("INSERT INTO sources (path, offset) VALUES (?, ?) ON CONFLICT(path) DO UPDATE SET offset = excluded.offset").run(source, offset);
+}
+
+function getOffset(source: string): number {
+  const row = getDb().prepare("SELECT offset FROM sources WHERE path = ?").get(source) as { offset: number } | undefined;
+  return row?.offset ?? 0;
+}
+
+const KIND_LABELS: Record<RecallKind, string> = { summary: "summary", user_message: "user", assistant_message: "assistant" };
+
+function formatHit(hit: RecallHit): string {
+  const where = hit.sessionId ? ` · session ${hit.sessionId.slice(0, 8)}` : "";
+  return `[${hit.timestamp.slice(0, 10)} · ${KIND_LABELS[hit.kind]}${where}]\n${hit.text}`;
+}
+
+/**
+ * RecallIndex — semantic recall over past conversations: each session's
+ * user and assistant messages, and the activity log's turn summaries,
+ * embedded locally (lib/embeddings.ts) and ranked by similarity.
+ *
+ * A completed turn queues its session; sessions are indexed a batch per
+ * tick in the background, never in the transform watcher's path or a
+ * query's. Sessions reach it as the `recall` host tool, scoped to their own
+ * project; /api/recall serves the UI.
+ */
+export class RecallIndex {
+  private engine: TmuxSessionEngine | null = null;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  private onTurnComplete = ({ sessionId }: { sessionId: string }) => {
+    this.pending.add(sessionId);
+    this.schedule();
+  };
+
+  readonly tool: HostTool = {
+    name: "recall",
+    description:
+      "Search this project's other conversations for earlier context: decisions, explanations, approaches already tried. " +
+      "Use it when the user refers to past work (\"what did we decide about…\", \"like last time\"). " +
+      "Returns the closest past messages and session summaries, with dates.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "What to look for, in plain words" },
+        since: { type: "string", description: "Only conversations from this date on (YYYY-MM-DD)" },
+      },
+      required: ["query"],
+    },
+    run: async ({ sessionId, projectPath }, input) => {
+      if (!projectPath) return "This session has no project to recall from.";
+      const since = typeof input.since === "string" ? new Date(input.since).getTime() : NaN;
+      const hits = this.recall({
+        q: String(input.query ?? ""),
+        project: toProjectKey(projectPath),
+        excludeSession: sessionId,
+        since: Number.isNaN(since) ? undefined : since,
+        limit: 6,
+      });
+      if (hits.length === 0) return "Nothing relevant in this project's earlier conversations.";
+      return hits.map(formatHit).join("\n\n");
+    },
+  };
+
+  attach(engine: TmuxSessionEngine): void {
+    this.detach();
+    this.engine = engine;
+    engine.on("turn_complete", this.onTurnComplete);
+    engine.registerTool(this.tool);
+    // Catch up on whatever was written while the server was down
+    if (existsSync(SESSIONS_DIR)) for (const id of readdirSync(SESSIONS_DIR)) this.pending.add(id);
+    this.schedule();
+  }
+
+  detach(): void {
+    if (this.engine) {
+      this.engine.off("turn_complete", this.onTurnComplete);
+      this.engine.unregisterTool(this.tool.name);
+    }
+    this.engine = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(): void {
+    if (this.timer || this.pending.size === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const [sessionId] = this.pending;
+      this.pending.delete(sessionId);
+      try {
+        // A journal with more to read goes to the back of the queue
+        if (this.indexSession(sessionId, BATCH_BYTES)) this.pending.add(sessionId);
+        // Summaries are written a while after a session goes idle
+        if (this.pending.size === 0) this.indexSummaries();
+      } catch (err) {
+        console.error(`[Recall] Indexing failed for ${sessionId}:`, err);
+      }
+      this.schedule();
+    }, 0);
+    this.timer.unref();
+  }
+
+  /** Embeds a session's messages appended since the last pass; true when there is more past `maxBytes`. */
+  indexSession(sessionId: string, maxBytes = Infinity): boolean {
+    const dir = join(SESSIONS_DIR, sessionId);
+    let projectPath: string | undefined;
+    try {
+      projectPath = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8")).projectPath;
+    } catch {
+      return false;
+    }
+    const outPath = join(dir, "out.jsonl");
+    if (!projectPath || !existsSync(outPath)) return false;
+
+    const database = getDb();
+    const from = getOffset(outPath);
+    let update = readNewLines(outPath, from, maxBytes);
+    let replaced = false;
+    if (!update) {
+      replaced = true;
+      update = readNewLines(outPath, 0, maxBytes);
+      if (!update) return false;
+    }
+    if (!replaced && update.end === from) return false;
+
+    const project = toProjectKey(projectPath);
+    database.transaction((lines: string[]) => {
+      if (replaced) database.prepare("DELETE FROM chunks WHERE source = ?").run(outPath);
+      for (const line of lines) {
+        let item: StreamItem;
+        try {
+          const frame = JSON.parse(line);
+          if (frame.type !== "stream_item") continue;
+          item = frame.item;
+        } catch {
+          continue;
+        }
+        if (item.kind !== "user_message" && item.kind !== "assistant_message") continue;
+        // A sub-agent's working; what it found comes back in the Task result
+        if ((item.kind === "assistant_message" && item.parentToolUseId) || isNoise(item.text) || tokenize(item.text).length < MIN_WORDS) continue;
+        insertChunks(project, sessionId, item.kind, item.id, Date.parse(item.timestamp) || Date.now(), item.text, outPath);
+      }
+      setOffset(outPath, update.end);
+    })(update.lines);
+    return update.more;
+  }
+
+  /** Embeds the activity log's session summaries written since the last pass. */
+  indexSummaries(): void {
+    const database = getDb();
+    const lastId = getOffset(ACTIVITY_SOURCE);
+    const latest = database.prepare("SELECT MAX(ts) AS ts FROM chunks WHERE source = ?").get(ACTIVITY_SOURCE) as { ts: number | null };
+    const entries = queryActivity({ since: latest.ts ?? undefined, limit: 1000 }).filter(e => e.id > lastId);
+    if (entries.length === 0) return;
+
+    database.transaction(() => {
+      for (const entry of entries) {
+        if (!entry.project || (entry.type !== "message" && entry.type !== "scheduled")) continue;
+        insertChunks(entry.project, entry.session, "summary", null, entry.ts, entry.summary, ACTIVITY_SOURCE);
+      }
+      setOffset(ACTIVITY_SOURCE, Math.max(...entries.map(e => e.id)));
+    })();
+  }
+
+  /** The chunks closest in meaning to `q`, best first, one per message. */
+  recall(query: RecallQuery): RecallHit[] {
+    if (tokenize(query.q).length === 0) return [];
+
+    const clauses: string[] = [];
+    const params: Array<string | number> = [];
+    if (query.project) { clauses.push("project = ?"); params.push(query.project); }
+    if (query.excludeSession) { clauses.push("(session IS NULL OR session != ?)"); params.push(query.excludeSession); }
+    if (query.since !== undefined) { clauses.push("ts >= ?"); params.push(query.since); }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const limit = Math.min(Math.max(query.limit ?? 10, 1), 50);
+
+    const rows = getDb()
+      .prepare(`SELECT project, session, kind, item_id, ts, text, vector FROM chunks ${where}`)
+      .all(...params) as Array<{ project: string; session: string | null; kind: RecallKind; item_id: string | null; ts: number; text: string; vector: Buffer }>;
+
+    const target = embed(query.q);
+    const scored = rows
+      .map(row => {
+        // Copied: a Float32Array view needs 4-byte alignment the blob may not have
+        const bytes = new Uint8Array(row.vector);
+        return { row, score: similarity(target, new Float32Array(bytes.buffer, 0, bytes.byteLength / 4)) };
+      })
+      .filter(r => r.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score);
+
+    const hits: RecallHit[] = [];
+    const seen = new Set<string>();
+    for (const { row, score } of scored) {
+      const key = row.item_id ? `${row.session}/${row.item_id}` : row.text;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      hits.push({
+        sessionId: row.session,
+        projectKey: row.project,
+        kind: row.kind,
+        itemId: row.item_id,
+        timestamp: new Date(row.ts).toISOString(),
+        text: row.text,
+        score: Math.round(score * 1000) / 1000,
+      });
+      if (hits.length === limit) break;
+    }
+    return hits;
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Scheduler, createJob, deleteJob, listJobs, updateJob, type ScheduledJob } from "./scheduler.js";
+import { queryActivity } from "./activity-log.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+const SCHEDULE_FILE = path.join(os.homedir(), ".aimessage", "schedule.json");
+const HOUR = 60 * 60 * 1000;
+
+/** Jobs as they'd be on disk after the server slept through their slot. */
+function writeJobs(jobs: Array<Partial<ScheduledJob> & { id: string }>): void {
+  const full = jobs.map(job => ({ cron: "0 9 * * *", prompt: "check the build", sessionId: "s-target", enabled: true, missedRunPolicy: "skip", ...job }));
+  fs.mkdirSync(path.dirname(SCHEDULE_FILE), { recursive: true });
+  fs.writeFileSync(SCHEDULE_FILE, JSON.stringify({ jobs: full }));
+}
+
+const job = (id: string) => listJobs().find(j => j.id === id)!;
+
+function fakeEngine() {
+  return {
+    getState: vi.fn(async (sessionId: string) => (sessionId === "s-missing" ? null : { sessionId })),
+    create: vi.fn(async () => {}),
+    submit: vi.fn(async () => "input-id"),
+  };
+}
+
+beforeEach(() => {
+  writeJobs([]);
+});
+
+describe("schedule CRUD", () => {
+  it("creates jobs with defaults and the next slot, and rejects bad ones", () => {
+    const created = createJob({ id: "nightly", cron: "0 3 * * *", prompt: "run the nightly checks", projectPath: "/work/app" } as any);
+    expect(created).toMatchObject({ id: "nightly", enabled: true, missedRunPolicy: "skip" });
+    expect(created.nextRunAt).toBeGreaterThan(Date.now());
+    expect(listJobs()).toHaveLength(1);
+
+    expect(() => createJob({ id: "nightly", cron: "0 3 * * *", prompt: "again", projectPath: "/work/app" } as any)).toThrow(/already exists/);
+    expect(() => createJob({ cron: "0 3 * *", prompt: "p", projectPath: "/w" } as any)).toThrow(/5 fields/);
+    expect(() => createJob({ cron: "0 3 * * *", prompt: " ", projectPath: "/w" } as any)).toThrow(/prompt/);
+    expect(() => createJob({ cron: "0 3 * * *", prompt: "p" } as any)).toThrow(/sessionId or projectPath/);
+    expect(() => createJob({ cron: "0 3 * * *", prompt: "p", projectPath: "/w", missedRunPolicy: "later" } as any)).toThrow(/missedRunPolicy/);
+  });
+
+  it("recomputes nextRunAt when a job is re-enabled, so it doesn't fire for the slot it slept through", async () => {
+    writeJobs([{ id: "paused", enabled: false, nextRunAt: Date.now() - 5 * HOUR }]);
+
+    const resumed = updateJob("paused", { enabled: true });
+    expect(resumed.nextRunAt).toBeGreaterThan(Date.now());
+
+    const engine = fakeEngine();
+    await new Scheduler(() => engine as unknown as TmuxSessionEngine).tick();
+    expect(engine.submit).not.toHaveBeenCalled();
+  });
+
+  it("recomputes nextRunAt when the cron changes, and only then", () => {
+    writeJobs([{ id: "edit", nextRunAt: 1234 }]);
+    expect(updateJob("edit", { prompt: "a new prompt" }).nextRunAt).toBe(1234);
+
+    const moved = updateJob("edit", { cron: "*/5 * * * *" });
+    expect(moved.nextRunAt).toBeGreaterThan(Date.now());
+    expect(moved.nextRunAt! - Date.now()).toBeLessThanOrEqual(5 * 60 * 1000);
+  });
+
+  it("ignores server-owned fields in a request, so a client can't make a job due", async () => {
+    const past = Date.now() - HOUR;
+    const created = createJob({ id: "owned", cron: "0 3 * * *", prompt: "p", projectPath: "/w", nextRunAt: past, lastRunAt: past, lastSessionId: "s-fake" } as any);
+    expect(created.nextRunAt).toBeGreaterThan(Date.now());
+    expect(created).not.toHaveProperty("lastRunAt");
+    expect(created).not.toHaveProperty("lastSessionId");
+
+    const updated = updateJob("owned", { prompt: "still p", nextRunAt: past, lastSessionId: "s-fake" } as any);
+    expect(updated.nextRunAt).toBe(created.nextRunAt);
+    expect(updated).not.toHaveProperty("lastSessionId");
+
+    const engine = fakeEngine();
+    await new Scheduler(() => engine as unknown as TmuxSessionEngine).tick();
+    expect(engine.submit).not.toHaveBeenCalled();
+  });
+
+  it("deletes jobs", () => {
+    writeJobs([{ id: "gone" }]);
+    expect(deleteJob("gone")).toBe(true);
+    expect(deleteJob("gone")).toBe(false);
+    expect(() => updateJob("gone", { prompt: "x" })).toThrow(/not found/);
+  });
+});
+
+describe("Scheduler", () => {
+  it("handles runs missed while the server was down by each job's policy", async () => {
+    const due = Date.now() - 3 * HOUR;
+    writeJobs([
+      { id: "catch", missedRunPolicy: "catch_up", nextRunAt: due },
+      { id: "skip", missedRunPolicy: "skip", nextRunAt: due },
+      { id: "off", enabled: false, missedRunPolicy: "catch_up", nextRunAt: due },
+    ]);
+    const engine = fakeEngine();
+    const scheduler = new Scheduler(() => engine as unknown as TmuxSessionEngine);
+    await scheduler.start();
+    scheduler.stop();
+
+    expect(engine.submit).toHaveBeenCalledTimes(1);
+    expect(engine.submit).toHaveBeenCalledWith("s-target", "scheduler", "check the build", undefined, undefined, "scheduled");
+    expect(job("catch").lastRunAt).toBeDefined();
+    expect(job("catch").nextRunAt).toBeGreaterThan(Date.now());
+    expect(job("skip").lastRunAt).toBeUndefined();
+    expect(job("skip").nextRunAt).toBeGreaterThan(Date.now());
+    expect(job("off").nextRunAt).toBe(due);
+  });
+
+  it("fires due jobs on the tick, starting a session for project jobs", async () => {
+    const now = new Date();
+    writeJobs([
+      { id: "into-session", nextRunAt: now.getTime() - 1000 },
+      { id: "fresh", sessionId: undefined, projectPath: "/work/fresh", model: "haiku", nextRunAt: now.getTime() - 1000 },
+      { id: "later", nextRunAt: now.getTime() + HOUR },
+      { id: "unscheduled", nextRunAt: undefined },
+    ]);
+    const engine = fakeEngine();
+    await new Scheduler(() => engine as unknown as TmuxSessionEngine).tick(now);
+
+    expect(engine.submit).toHaveBeenCalledTimes(2);
+    expect(engine.create).toHaveBeenCalledWith(job("fresh").lastSessionId, "/work/fresh", "haiku");
+    expect(job("into-session").lastSessionId).toBe("s-target");
+    expect(job("later").lastRunAt).toBeUndefined();
+    expect(job("unscheduled").nextRunAt).toBeGreaterThan(now.getTime());
+  });
+
+  it("logs a failed run to the activity log and still moves on to the next slot", async () => {
+    const now = new Date();
+    writeJobs([{ id: "orphan", sessionId: "s-missing", nextRunAt: now.getTime() - 1000 }]);
+    const engine = fakeEngine();
+    await new Scheduler(() => engine as unknown as TmuxSessionEngine).tick(now);
+
+    expect(engine.submit).not.toHaveBeenCalled();
+    expect(job("orphan").nextRunAt).toBeGreaterThan(now.getTime());
+    expect(queryActivity({ type: "system" }).map(e => e.summary)).toContain('Scheduled job "orphan" failed: Session s-missing does not exist');
+  });
+});
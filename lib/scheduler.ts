@@ -0,0 +1,227 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+import * as crypto from "node:crypto";
+import { nextCronTime, parseCron } from "./cron.js";
+import { insertActivity } from "./activity-log.js";
+import { toProjectKey } from "../session-discovery.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+export type MissedRunPolicy = "catch_up" | "skip";
+
+export type ScheduledJob = {
+  id: string;
+  cron: string;               // five-field cron, server local time
+  prompt: string;
+  sessionId?: string;         // submit into this existing session...
+  projectPath?: string;       // ...or start a fresh session in this project
+  model?: string;             // model for fresh sessions (default sonnet)
+  enabled: boolean;
+  missedRunPolicy: MissedRunPolicy;
+  nextRunAt?: number;         // unix ms
+  lastRunAt?: number;         // unix ms
+  lastSessionId?: string;     // session the last run was delivered to
+};
+
+export type ScheduledJobInput = Omit<ScheduledJob, "id" | "nextRunAt" | "lastRunAt" | "lastSessionId"> & { id?: string };
+
+type ScheduleFile = { jobs: ScheduledJob[] };
+
+// What /api/schedules may set; nextRunAt and the run bookkeeping stay server-owned
+const EDITABLE_FIELDS = ["cron", "prompt", "sessionId", "projectPath", "model", "enabled", "missedRunPolicy"] as const;
+
+const AIMESSAGE_DIR = join(os.homedir(), ".aimessage");
+const SCHEDULE_FILE = join(AIMESSAGE_DIR, "schedule.json");
+
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+function loadSchedule(): ScheduleFile {
+  try {
+    if (existsSync(SCHEDULE_FILE)) {
+      const data = JSON.parse(readFileSync(SCHEDULE_FILE, "utf-8"));
+      return { jobs: Array.isArray(data.jobs) ? data.jobs : [] };
+    }
+  } catch (err) {
+    console.error("[Scheduler] Failed to load schedule:", err);
+  }
+  return { jobs: [] };
+}
+
+function saveSchedule(schedule: ScheduleFile): void {
+  mkdirSync(AIMESSAGE_DIR, { recursive: true });
+  writeFileSync(SCHEDULE_FILE, JSON.stringify(schedule, null, 2));
+}
+
+function pickEditable(input: Partial<ScheduledJobInput>): Partial<ScheduledJobInput> {
+  const picked: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (input[field] !== undefined) picked[field] = input[field];
+  }
+  return picked as Partial<ScheduledJobInput>;
+}
+
+function validateJob(job: Partial<ScheduledJob>): void {
+  if (!job.cron) throw new Error("cron is required");
+  parseCron(job.cron);
+  if (!job.prompt || !job.prompt.trim()) throw new Error("prompt is required");
+  if (!job.sessionId && !job.projectPath) throw new Error("Either sessionId or projectPath is required");
+  if (job.missedRunPolicy && job.missedRunPolicy !== "catch_up" && job.missedRunPolicy !== "skip") {
+    throw new Error(`Invalid missedRunPolicy "${job.missedRunPolicy}"`);
+  }
+}
+
+// ── CRUD (backs /api/schedules) ─────────────────────────
+
+export function listJobs(): ScheduledJob[] {
+  return loadSchedule().jobs;
+}
+
+export function createJob(input: ScheduledJobInput): ScheduledJob {
+  const schedule = loadSchedule();
+  const id = input.id || crypto.randomBytes(4).toString("hex");
+  if (schedule.jobs.some(j => j.id === id)) throw new Error(`Job "${id}" already exists`);
+
+  const job: ScheduledJob = {
+    ...pickEditable(input) as Omit<ScheduledJobInput, "id">,
+    id,
+    enabled: input.enabled ?? true,
+    missedRunPolicy: input.missedRunPolicy ?? "skip",
+  };
+  validateJob(job);
+  job.nextRunAt = nextCronTime(job.cron).getTime();
+
+  schedule.jobs.push(job);
+  saveSchedule(schedule);
+  return job;
+}
+
+export function updateJob(id: string, patch: Partial<ScheduledJobInput>): ScheduledJob {
+  const schedule = loadSchedule();
+  const idx = schedule.jobs.findIndex(j => j.id === id);
+  if (idx === -1) throw new Error(`Job "${id}" not found`);
+
+  const current = schedule.jobs[idx];
+  const updated: ScheduledJob = { ...current, ...pickEditable(patch), id };
+  validateJob(updated);
+  // A job switched back on would otherwise fire at once for the slot it slept through
+  if (updated.cron !== current.cron || updated.enabled !== current.enabled) {
+    updated.nextRunAt = nextCronTime(updated.cron).getTime();
+  }
+
+  schedule.jobs[idx] = updated;
+  saveSchedule(schedule);
+  return updated;
+}
+
+export function deleteJob(id: string): boolean {
+  const schedule = loadSchedule();
+  const remaining = schedule.jobs.filter(j => j.id !== id);
+  if (remaining.length === schedule.jobs.length) return false;
+  saveSchedule({ jobs: remaining });
+  return true;
+}
+
+/**
+ * Re-reads schedule.json and patches a single job, so run bookkeeping
+ * never clobbers edits made through the API while a job was firing.
+ */
+function patchJobState(id: string, patch: Partial<ScheduledJob>): void {
+  const schedule = loadSchedule();
+  const job = schedule.jobs.find(j => j.id === id);
+  if (!job) return;
+  Object.assign(job, patch);
+  saveSchedule(schedule);
+}
+
+/**
+ * Scheduler — fires cron jobs from ~/.aimessage/schedule.json.
+ *
+ * A due job either submits its prompt into an existing session or creates
+ * a fresh session in its project first. Inputs are journaled with
+ * type 'scheduled' so in.jsonl and the UI can tell them from typed messages.
+ *
+ * On boot, runs that came due while the server was down are handled per job:
+ * 'catch_up' fires once immediately, 'skip' just advances to the next slot.
+ */
+export class Scheduler {
+  private interval: NodeJS.Timeout | null = null;
+  private running = new Set<string>();
+
+  constructor(private getEngine: () => TmuxSessionEngine) {}
+
+  /**
+   * Handles missed runs, then starts the minute tick. Call after
+   * engine.reconcile() so target sessions are reattached first.
+   */
+  async start(): Promise<void> {
+    if (this.interval) return;
+    await this.catchUpMissedRuns();
+    this.interval = setInterval(() => {
+      this.tick().catch(err => console.error("[Scheduler] Tick failed:", err));
+    }, SCHEDULER_TICK_MS);
+    this.interval.unref();
+  }
+
+  stop(): void {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  private async catchUpMissedRuns(now = new Date()): Promise<void> {
+    for (const job of listJobs()) {
+      if (!job.enabled) continue;
+      if (job.nextRunAt === undefined || job.nextRunAt > now.getTime()) continue;
+
+      if (job.missedRunPolicy === "catch_up") {
+        console.log(`[Scheduler] Catching up missed run of "${job.id}" (was due ${new Date(job.nextRunAt).toISOString()})`);
+        await this.runJob(job, now);
+      } else {
+        console.log(`[Scheduler] Skipping missed run of "${job.id}" (was due ${new Date(job.nextRunAt).toISOString()})`);
+        patchJobState(job.id, { nextRunAt: nextCronTime(job.cron, now).getTime() });
+      }
+    }
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    for (const job of listJobs()) {
+      if (!job.enabled || this.running.has(job.id)) continue;
+
+      if (job.nextRunAt === undefined) {
+        patchJobState(job.id, { nextRunAt: nextCronTime(job.cron, now).getTime() });
+        continue;
+      }
+      if (job.nextRunAt <= now.getTime()) {
+        await this.runJob(job, now);
+      }
+    }
+  }
+
+  private async runJob(job: ScheduledJob, now: Date): Promise<void> {
+    this.running.add(job.id);
+    const engine = this.getEngine();
+    try {
+      let sessionId = job.sessionId;
+      if (sessionId) {
+        if (!(await engine.getState(sessionId))) throw new Error(`Session ${sessionId} does not exist`);
+      } else {
+        sessionId = crypto.randomUUID();
+        await engine.create(sessionId, job.projectPath!.replace(/^~/, os.homedir()), job.model || "sonnet");
+      }
+
+      await engine.submit(sessionId, "scheduler", job.prompt, undefined, undefined, "scheduled");
+      console.log(`[Scheduler] Fired "${job.id}" into session ${sessionId}`);
+      patchJobState(job.id, { lastRunAt: now.getTime(), lastSessionId: sessionId });
+    } catch (err) {
+      console.error(`[Scheduler] Job "${job.id}" failed:`, err);
+      insertActivity({
+        type: "system",
+        project: job.projectPath ? toProjectKey(job.projectPath) : null,
+        session: job.sessionId ?? null,
+        summary: `Scheduled job "${job.id}" failed: ${err instanceof Error ? err.message : String(err)}`
+      });
+    } finally {
+      patchJobState(job.id, { nextRunAt: nextCronTime(job.cron, now).getTime() });
+      this.running.delete(job.id);
+    }
+  }
+}
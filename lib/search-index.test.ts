@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { SearchIndex, readNewLines, toMatchExpression } from "./search-index.js";
+import { JournalManager } from "../src/engine-v2/JournalManager.js";
+import { newSessionId } from "../src/engine-v2/fake-claude/harness.js";
+
+const SESSIONS_DIR = path.join(os.homedir(), ".aimessage", "sessions");
+const CLAUDE_PROJECTS = path.join(os.homedir(), ".claude", "projects");
+
+const frame = (item: Record<string, unknown>) => JSON.stringify({ type: "stream_item", item: { timestamp: "2026-03-01T10:00:00.000Z", ...item } }) + "\n";
+
+/** An engine session on disk: metadata plus the journal lines given. */
+function writeSession(items: Array<Record<string, unknown>>, meta: Record<string, unknown> = {}): string {
+  const sessionId = newSessionId();
+  const dir = path.join(SESSIONS_DIR, sessionId);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "metadata.json"), JSON.stringify({ projectPath: "/work/search-app", ...meta }));
+  fs.writeFileSync(path.join(dir, "out.jsonl"), items.map(frame).join(""));
+  return sessionId;
+}
+
+function writeVaultLog(projectPath: string, claudeSessionId: string, entries: unknown[]): void {
+  const dir = path.join(CLAUDE_PROJECTS, projectPath.replace(/\//g, "-"));
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${claudeSessionId}.jsonl`), entries.map(e => JSON.stringify(e)).join("\n") + "\n");
+}
+
+describe("readNewLines", () => {
+  it("returns complete lines past an offset and keeps a partial one for later", () => {
+    const file = path.join(os.tmpdir(), `lines-${newSessionId()}.jsonl`);
+    fs.writeFileSync(file, "one\ntwo\nthr");
+    const first = readNewLines(file, 0)!;
+    expect(first).toEqual({ lines: ["one", "two"], end: 8, more: false });
+
+    fs.appendFileSync(file, "ee\n");
+    expect(readNewLines(file, first.end)!.lines).toEqual(["three"]);
+
+    fs.writeFileSync(file, "new\n");
+    expect(readNewLines(file, first.end)).toBeNull();
+    fs.rmSync(file);
+  });
+
+  it("stops after about maxBytes and says there is more", () => {
+    const file = path.join(os.tmpdir(), `lines-${newSessionId()}.jsonl`);
+    fs.writeFileSync(file, "aaaa\nbbbb\ncccc\ndddd\n");
+    const batch = readNewLines(file, 0, 10)!;
+    expect(batch).toEqual({ lines: ["aaaa", "bbbb"], end: 10, more: true });
+    expect(readNewLines(file, batch.end, 10)).toEqual({ lines: ["cccc", "dddd"], end: 20, more: false });
+    fs.rmSync(file);
+  });
+});
+
+describe("toMatchExpression", () => {
+  it("quotes every word and prefix-matches the last", () => {
+    expect(toMatchExpression("auth flo")).toBe('"auth" "flo"*');
+    expect(toMatchExpression('drop "table" -- ;')).toBe('"drop" "table"*');
+    expect(toMatchExpression("  ?! ")).toBeNull();
+  });
+});
+
+describe("SearchIndex", () => {
+  const index = new SearchIndex();
+
+  it("indexes journals in the background, never while searching", async () => {
+    const sessionId = writeSession([
+      { kind: "user_message", id: "u1", text: "why does the websocket reconnect loop spin?" },
+      { kind: "thought", id: "t1", text: "Probably the backoff resets on every attempt" },
+      { kind: "tool_call", id: "tc1", name: "Bash", input: { command: "grep -rn backoff src" } },
+      { kind: "tool_call", id: "tc1", result: "src/mux.ts:40: backoff = 0" },
+      { kind: "assistant_message", id: "a1", text: "The backoff was reset after each failed reconnect." },
+      { kind: "agent_status", id: "s1", text: "backoff" },
+    ]);
+
+    expect(index.search({ q: "backoff" })).toEqual([]);
+    await index.refresh();
+
+    const hits = index.search({ q: "backoff" }).filter(h => h.sessionId === sessionId);
+    expect(hits.map(h => h.itemId).sort()).toEqual(["a1", "t1", "tc1"]);
+    expect(hits.every(h => h.source === "journal" && h.projectKey === "-work-search-app")).toBe(true);
+    expect(hits.find(h => h.itemId === "a1")!.snippet).toContain("\u0002backoff\u0003");
+    expect(index.search({ q: "backoff", kind: "thought" }).map(h => h.itemId)).toEqual(["t1"]);
+    expect(index.search({ q: "backoff", project: "-elsewhere" })).toEqual([]);
+    // Search as you type: the last word matches as a prefix
+    expect(index.search({ q: "websocket reconn" }).map(h => h.itemId)).toEqual(["u1"]);
+  });
+
+  it("only reads what a journal gained since the last pass", async () => {
+    const sessionId = writeSession([{ kind: "user_message", id: "u1", text: "rename the quokka module" }]);
+    await index.refresh();
+    fs.appendFileSync(path.join(SESSIONS_DIR, sessionId, "out.jsonl"), frame({ kind: "assistant_message", id: "a1", text: "Renamed quokka to wombat." }));
+    await index.refresh();
+
+    expect(index.search({ q: "quokka" }).map(h => h.itemId).sort()).toEqual(["a1", "u1"]);
+  });
+
+  it("works through a long journal in batches", async () => {
+    const filler = "lorem ipsum dolor sit amet ".repeat(40);
+    const items = Array.from({ length: 2000 }, (_, i) => ({ kind: "assistant_message", id: `a${i}`, text: `${filler} marker${i}` }));
+    const sessionId = writeSession(items);
+    expect(fs.statSync(path.join(SESSIONS_DIR, sessionId, "out.jsonl")).size).toBeGreaterThan(2 * 1024 * 1024);
+
+    // One call reads one batch of it...
+    expect(index.indexSession(sessionId, 512 * 1024)).toBe(true);
+    expect(index.search({ q: "marker0" })).toHaveLength(1);
+    expect(index.search({ q: "marker1999" })).toEqual([]);
+
+    // ...and the background queue finishes the rest
+    await index.refresh();
+    expect(index.search({ q: "marker1999" })).toHaveLength(1);
+  });
+
+  it("indexes vault logs no engine session covers, with the ids hydration gives them", async () => {
+    const projectPath = "/work/vault-app";
+    const owned = newSessionId();
+    writeSession([], { projectPath, claudeSessionId: owned });
+    writeVaultLog(projectPath, owned, [{ uuid: "o1", type: "user", cwd: projectPath, message: { content: "zanzibar from a journal session" } }]);
+
+    const claudeSessionId = newSessionId();
+    writeVaultLog(projectPath, claudeSessionId, [
+      { uuid: "v1", type: "user", cwd: projectPath, message: { content: "how is the zanzibar cache invalidated?" } },
+      { uuid: "v2", type: "assistant", cwd: projectPath, message: { content: [
+        { type: "thinking", thinking: "zanzibar keys expire" },
+        { type: "tool_use", id: "toolu_1", name: "Read", input: { file_path: "zanzibar.ts" } },
+        { type: "text", text: "The zanzibar cache expires after a minute." },
+      ] } },
+      { uuid: "v3", type: "user", cwd: projectPath, message: { content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "export const zanzibarTtl = 60" }] } },
+      { uuid: "side", isSidechain: true, type: "assistant", cwd: projectPath, message: { content: [{ type: "text", text: "zanzibar sidechain" }] } },
+    ]);
+
+    await index.refresh();
+    const hits = index.search({ q: "zanzibar", project: "-work-vault-app" });
+    expect(hits.every(h => h.sessionId === claudeSessionId && h.source === "vault" && h.projectPath === projectPath)).toBe(true);
+    expect(hits.map(h => `${h.kind}:${h.itemId}`).sort()).toEqual([
+      "assistant_message:v2", "thought:v2-thought", "tool_call:toolu_1", "user_message:v1",
+    ]);
+
+    // Jump to message: opening the hit hydrates the session, which must hold an item with each hit's id
+    const journal = new JournalManager(claudeSessionId);
+    await journal.ensureStorage();
+    expect(await journal.hydrate(projectPath)).toBe(true);
+    const { items } = await journal.readHistoryWindow(10);
+    const ids = new Set(items.map((i: any) => i.id));
+    for (const hit of hits) expect(ids).toContain(hit.itemId);
+  });
+
+  it("drops a vault log's rows once an engine session adopts it", async () => {
+    const projectPath = "/work/adopted-app";
+    const claudeSessionId = newSessionId();
+    writeVaultLog(projectPath, claudeSessionId, [{ uuid: "v1", type: "user", cwd: projectPath, message: { content: "where does the capybara config live?" } }]);
+    await index.refresh();
+    expect(index.search({ q: "capybara" }).map(h => h.source)).toEqual(["vault"]);
+
+    const sessionId = writeSession([{ kind: "user_message", id: "v1", text: "where does the capybara config live?" }], { projectPath, claudeSessionId });
+    await index.refresh();
+    expect(index.search({ q: "capybara" }).map(h => `${h.source}:${h.sessionId}`)).toEqual([`journal:${sessionId}`]);
+  });
+
+  it("reindexes a journal that was replaced", async () => {
+    const sessionId = writeSession([
+      { kind: "user_message", id: "u1", text: "the platypus question, padded out to be long enough" },
+      { kind: "assistant_message", id: "a1", text: "the platypus answer" },
+    ]);
+    await index.refresh();
+    fs.writeFileSync(path.join(SESSIONS_DIR, sessionId, "out.jsonl"), frame({ kind: "user_message", id: "u9", text: "platypus" }));
+    await index.refresh();
+
+    expect(index.search({ q: "platypus" }).map(h => h.itemId)).toEqual(["u9"]);
+  });
+});
@@ -0,0 +1,417 @@
+import Database from "better-sqlite3";
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, readSync, statSync } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, join } from "node:path";
+import * as os from "node:os";
+import { isNoise } from "../shared/filter-config.js";
+import { toProjectKey } from "../session-discovery.js";
+import type { SearchHit, SearchableKind, StreamItem } from "../shared/stream-types.js";
+import type { TmuxSessionEngine } from "../src/engine-v2/TmuxSessionEngine.js";
+
+export const SEARCHABLE_KINDS: readonly SearchableKind[] = ["user_message", "assistant_message", "thought", "tool_call"];
+
+export type SearchQuery = {
+  q: string;
+  project?: string;     // project key
+  kind?: SearchableKind;
+  since?: number;       // unix ms, inclusive
+  limit?: number;
+};
+
+/** One indexed piece of a conversation, before it gets its place in the table. */
+type Indexed = { kind: SearchableKind; itemId: string; ts: number; text: string };
+
+const SEARCH_DB = join(os.homedir(), ".aimessage", "search.db");
+const SESSIONS_DIR = join(os.homedir(), ".aimessage", "sessions");
+const CLAUDE_PROJECTS = join(os.homedir(), ".claude", "projects");
+
+// A huge tool result stays findable by its start without bloating the index
+const MAX_INDEXED_CHARS = 20000;
+// Read a log in slices, so a first pass over a long history stays small in memory
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+// How much of one log a background tick indexes before yielding to requests
+const BATCH_BYTES = 512 * 1024;
+// Vault logs grow outside the engine (the claude CLI in a terminal); look for new lines this often
+const RESCAN_INTERVAL_MS = 60 * 1000;
+
+let db: Database.Database | null = null;
+let insertStmt: Database.Statement | null = null;
+
+/**
+ * Opens ~/.aimessage/search.db on first use and creates the schema:
+ * an FTS5 table of message texts, and how far each log has been read.
+ */
+function getDb(): Database.Database {
+  if (db) return db;
+  mkdirSync(join(os.homedir(), ".aimessage"), { recursive: true });
+  db = new Database(SEARCH_DB);
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages USING fts5(
+      text,
+      kind UNINDEXED,
+      session UNINDEXED,
+      project UNINDEXED,
+      project_path UNINDEXED,
+      item_id UNINDEXED,
+      ts UNINDEXED,
+      origin UNINDEXED,
+      source UNINDEXED,
+      tokenize = 'porter unicode61'
+    );
+    CREATE TABLE IF NOT EXISTS sources (
+      path   TEXT PRIMARY KEY,
+      offset INTEGER NOT NULL
+    );
+  `);
+  insertStmt = db.prepare("INSERT INTO messages (text, kind, session, project, project_path, item_id, ts, origin, source) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)");
+  return db;
+}
+
+function getOffset(path: string): number {
+  const row = getDb().prepare("SELECT offset FROM sources WHERE path = ?").get(path) as { offset: number } | undefined;
+  return row?.offset ?? 0;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * What a journal item contributes to the index, or null for kinds that
+ * aren't searched. A tool call is found by its name and input; its result
+ * arrives as a later item with the same id and no name.
+ */
+export function searchableText(item: StreamItem): string | null {
+  switch (item.kind) {
+    case "user_message":
+    case "assistant_message":
+    case "thought":
+      return item.text || null;
+    case "tool_call":
+      return [item.name && `${item.name} ${stringify(item.input)}`, stringify(item.result)].filter(Boolean).join("\n") || null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * A Claude vault log entry as the items hydration makes of it, ids included,
+ * so a hit opens the hydrated session at the right message.
+ */
+function vaultEntryItems(entry: any): Indexed[] {
+  const ts = Date.parse(entry.timestamp) || 0;
+  const content = entry.message?.content;
+  const blocks: any[] = typeof content === "string" ? [{ type: "text", text: content }] : Array.isArray(content) ? content : [];
+  const items: Indexed[] = [];
+
+  if (entry.type === "user") {
+    const text = blocks.map(b => b.type === "text" ? b.text || "" : "").join("");
+    if (text && !isNoise(text)) items.push({ kind: "user_message", itemId: entry.uuid, ts, text });
+    for (const b of blocks) {
+      if (b.type === "tool_result" && b.tool_use_id) {
+        const result = Array.isArray(b.content) ? b.content.map((c: any) => c.text || "").join("\n") : stringify(b.content);
+        if (result) items.push({ kind: "tool_call", itemId: b.tool_use_id, ts, text: result });
+      }
+    }
+  } else if (entry.type === "assistant") {
+    for (const b of blocks) {
+      if (b.type === "text" && b.text && !isNoise(b.text)) items.push({ kind: "assistant_message", itemId: entry.uuid, ts, text: b.text });
+      else if (b.type === "thinking" && b.thinking) items.push({ kind: "thought", itemId: `${entry.uuid}-thought`, ts, text: b.thinking });
+      else if (b.type === "tool_use" && b.id) items.push({ kind: "tool_call", itemId: b.id, ts, text: `${b.name} ${stringify(b.input)}` });
+    }
+  }
+  return items;
+}
+
+/**
+ * Complete lines appended to a file since byte `from`, stopping once about
+ * `maxBytes` are read; a trailing partial line waits for the next call.
+ * `more` says whether complete lines are left past `end`. Null when the
+ * file shrank, i.e. it was replaced and has to be read again from the start.
+ */
+export function readNewLines(path: string, from: number, maxBytes = Infinity): { lines: string[]; end: number; more: boolean } | null {
+  const size = statSync(path).size;
+  if (size < from) return null;
+  const lines: string[] = [];
+  let end = from;
+  const fd = openSync(path, "r");
+  try {
+    while (end < size && end - from < maxBytes) {
+      const buffer = Buffer.alloc(Math.min(READ_CHUNK_BYTES, maxBytes, size - end));
+      const read = readSync(fd, buffer, 0, buffer.length, end);
+      const lastNewline = buffer.subarray(0, read).lastIndexOf(0x0a);
+      if (lastNewline === -1) {
+        // A line longer than a chunk: read it whole
+        if (read === size - end) break;
+        const rest = Buffer.alloc(size - end);
+        const all = readSync(fd, rest, 0, rest.length, end);
+        const nl = rest.subarray(0, all).indexOf(0x0a);
+        if (nl === -1) break;
+        lines.push(rest.subarray(0, nl).toString("utf-8"));
+        end += nl + 1;
+        continue;
+      }
+      lines.push(...buffer.subarray(0, lastNewline).toString("utf-8").split("\n"));
+      end += lastNewline + 1;
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return { lines: lines.filter(l => l.trim()), end, more: end < size && end - from >= maxBytes };
+}
+
+/** Free text → an FTS5 query: every word must match, the last as a prefix (search as you type). */
+export function toMatchExpression(q: string): string | null {
+  const words = q.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  if (words.length === 0) return null;
+  return words.map((w, i) => `"${w}"${i === words.length - 1 ? "*" : ""}`).join(" ");
+}
+
+/** A log waiting to be indexed; the queue holds each path at most once. */
+type Source =
+  | { origin: "journal"; path: string; sessionId: string }
+  | { origin: "vault"; path: string; projectKey: string };
+
+/**
+ * SearchIndex — full-text search over every session's journal and the
+ * Claude vault logs in ~/.claude/projects.
+ *
+ * Logs only ever grow, so each is indexed from the byte offset the last
+ * pass stopped at. Indexing happens in the background, BATCH_BYTES of one
+ * log per tick, never on a search: a session is queued when its turn
+ * completes, and a rescan every RESCAN_INTERVAL_MS queues whatever else
+ * grew. Vault logs of sessions the engine runs are skipped: their journals
+ * hold the same conversation.
+ */
+export class SearchIndex {
+  private engine: TmuxSessionEngine | null = null;
+  private queue = new Map<string, Source>();
+  private draining: Promise<void> | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+  // Claude session ids whose vault logs an engine session's journal covers
+  private engineOwned = new Set<string>();
+  // The project path a vault log's entries carry, remembered across its batches
+  private vaultCwds = new Map<string, string>();
+
+  private onTurnComplete = ({ sessionId }: { sessionId: string }) => {
+    this.enqueue({ origin: "journal", path: join(SESSIONS_DIR, sessionId, "out.jsonl"), sessionId });
+    this.drain();
+  };
+
+  attach(engine: TmuxSessionEngine): void {
+    this.detach();
+    this.engine = engine;
+    engine.on("turn_complete", this.onTurnComplete);
+    // Catch up on whatever was written while the server was down, then keep up with the vault
+    this.refresh().catch(err => console.error("[Search] Initial indexing failed:", err));
+    this.rescanTimer = setInterval(() => {
+      this.refresh().catch(err => console.error("[Search] Rescan failed:", err));
+    }, RESCAN_INTERVAL_MS);
+    this.rescanTimer.unref();
+  }
+
+  detach(): void {
+    if (this.engine) this.engine.off("turn_complete", this.onTurnComplete);
+    this.engine = null;
+    if (this.rescanTimer) clearInterval(this.rescanTimer);
+    this.rescanTimer = null;
+    this.queue.clear();
+  }
+
+  /** Queues every journal and vault log that grew since it was indexed, and resolves once they are. */
+  async refresh(): Promise<void> {
+    const sessionIds = await readdir(SESSIONS_DIR).catch(() => [] as string[]);
+    const owned: string[] = [];
+    for (const id of sessionIds) {
+      owned.push(id);
+      const meta = await readFile(join(SESSIONS_DIR, id, "metadata.json"), "utf-8").then(JSON.parse).catch(() => null);
+      if (meta?.claudeSessionId) owned.push(meta.claudeSessionId);
+      await this.enqueueIfGrown({ origin: "journal", path: join(SESSIONS_DIR, id, "out.jsonl"), sessionId: id });
+    }
+    this.claim(owned);
+
+    const projects = await readdir(CLAUDE_PROJECTS, { withFileTypes: true }).catch(() => []);
+    for (const project of projects) {
+      if (!project.isDirectory()) continue;
+      const dir = join(CLAUDE_PROJECTS, project.name);
+      for (const file of await readdir(dir).catch(() => [] as string[])) {
+        if (!file.endsWith(".jsonl") || this.engineOwned.has(basename(file, ".jsonl"))) continue;
+        await this.enqueueIfGrown({ origin: "vault", path: join(dir, file), projectKey: project.name });
+      }
+    }
+    await this.drain();
+  }
+
+  /**
+   * Marks Claude session ids as covered by engine journals. A vault log
+   * indexed before its session was adopted leaves rows behind; they are
+   * dropped, or search would show each message twice.
+   */
+  private claim(ids: string[]): void {
+    const fresh = [...new Set(ids)].filter(id => !this.engineOwned.has(id));
+    if (fresh.length === 0) return;
+    for (const id of fresh) this.engineOwned.add(id);
+    const database = getDb();
+    for (let i = 0; i < fresh.length; i += 500) {
+      const chunk = fresh.slice(i, i + 500);
+      database.prepare(`DELETE FROM messages WHERE origin = 'vault' AND session IN (${chunk.map(() => "?").join(", ")})`).run(...chunk);
+    }
+  }
+
+  private enqueue(source: Source): void {
+    this.queue.set(source.path, source);
+  }
+
+  private async enqueueIfGrown(source: Source): Promise<void> {
+    const size = await stat(source.path).then(s => s.size, () => null);
+    if (size !== null && size !== getOffset(source.path)) this.enqueue(source);
+  }
+
+  /** Works through the queue one batch per tick; resolves when it is empty. */
+  private drain(): Promise<void> {
+    if (this.queue.size === 0) return this.draining ?? Promise.resolve();
+    this.draining ??= (async () => {
+      try {
+        while (this.queue.size > 0) {
+          await new Promise(resolve => setImmediate(resolve));
+          const [source] = this.queue.values();
+          if (!source) break;
+          this.queue.delete(source.path);
+          try {
+            // A log with more to read goes to the back of the queue
+            if (this.indexBatch(source)) this.enqueue(source);
+          } catch (err) {
+            console.error(`[Search] Indexing failed for ${source.path}:`, err);
+          }
+        }
+      } finally {
+        // Cleared before the promise settles, so a later drain() never gets one that's done
+        this.draining = null;
+      }
+    })();
+    return this.draining;
+  }
+
+  private indexBatch(source: Source): boolean {
+    // Adopted by an engine session since it was queued
+    if (source.origin === "vault" && this.engineOwned.has(basename(source.path, ".jsonl"))) return false;
+    return source.origin === "journal"
+      ? this.indexSession(source.sessionId, BATCH_BYTES)
+      : this.indexVaultLog(source.path, source.projectKey, BATCH_BYTES);
+  }
+
+  /** Indexes a session's new journal lines; true when there is more past `maxBytes`. */
+  indexSession(sessionId: string, maxBytes = Infinity): boolean {
+    const dir = join(SESSIONS_DIR, sessionId);
+    let meta: { projectPath?: string; claudeSessionId?: string };
+    try {
+      meta = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8"));
+    } catch {
+      return false;
+    }
+    this.claim(meta.claudeSessionId ? [sessionId, meta.claudeSessionId] : [sessionId]);
+    const projectPath = meta.projectPath ?? "";
+    return this.indexLog(join(dir, "out.jsonl"), "journal", sessionId, projectPath ? toProjectKey(projectPath) : "", projectPath, maxBytes, (line) => {
+      const frame = JSON.parse(line);
+      if (frame.type !== "stream_item") return [];
+      const item = frame.item as StreamItem;
+      const text = searchableText(item);
+      if (text === null || isNoise(text)) return [];
+      return [{ kind: item.kind as SearchableKind, itemId: item.id, ts: Date.parse(item.timestamp) || 0, text }];
+    });
+  }
+
+  private indexVaultLog(path: string, projectKey: string, maxBytes: number): boolean {
+    return this.indexLog(path, "vault", basename(path, ".jsonl"), projectKey, () => this.vaultCwds.get(path) ?? "", maxBytes, (line) => {
+      const entry = JSON.parse(line);
+      if (typeof entry.cwd === "string") this.vaultCwds.set(path, entry.cwd);
+      // A sub-agent's conversation; its report comes back as the Task result
+      if (entry.isSidechain === true || !entry.uuid) return [];
+      return vaultEntryItems(entry);
+    });
+  }
+
+  private indexLog(
+    path: string,
+    origin: SearchHit["source"],
+    sessionId: string,
+    projectKey: string,
+    projectPath: string | (() => string),
+    maxBytes: number,
+    parse: (line: string) => Indexed[]
+  ): boolean {
+    if (!existsSync(path)) return false;
+    const database = getDb();
+    const from = getOffset(path);
+    let update = readNewLines(path, from, maxBytes);
+    let replaced = false;
+    if (!update) {
+      replaced = true;
+      update = readNewLines(path, 0, maxBytes);
+      if (!update) return false;
+    }
+    if (!replaced && update.end === from) return false;
+
+    database.transaction((lines: string[]) => {
+      if (replaced) database.prepare("DELETE FROM messages WHERE source = ?").run(path);
+      for (const line of lines) {
+        let items: Indexed[];
+        try {
+          items = parse(line);
+        } catch {
+          continue; // unparseable line
+        }
+        const where = typeof projectPath === "function" ? projectPath() : projectPath;
+        for (const item of items) {
+          insertStmt!.run(item.text.slice(0, MAX_INDEXED_CHARS), item.kind, sessionId, projectKey, where, item.itemId, item.ts, origin, path);
+        }
+      }
+      database.prepare("INSERT INTO sources (path, offset) VALUES (?, ?) ON CONFLICT(path) DO UPDATE SET offset = excluded.offset").run(path, update.end);
+    })(update.lines);
+    return update.more;
+  }
+
+  /** Best matches first, one hit per message. */
+  search(query: SearchQuery): SearchHit[] {
+    const match = toMatchExpression(query.q);
+    if (!match) return [];
+
+    const clauses = ["messages MATCH ?"];
+    const params: Array<string | number> = [match];
+    if (query.project) { clauses.push("project = ?"); params.push(query.project); }
+    if (query.kind) { clauses.push("kind = ?"); params.push(query.kind); }
+    if (query.since !== undefined) { clauses.push("ts >= ?"); params.push(query.since); }
+    const limit = Math.min(Math.max(query.limit ?? 50, 1), 200);
+
+    // Matched terms are wrapped in STX/ETX, which can't occur in the text, for the client to highlight
+    const rows = getDb()
+      .prepare(`
+        SELECT session, project, project_path, kind, item_id, ts, origin,
+               snippet(messages, 0, char(2), char(3), '…', 16) AS snippet
+        FROM messages WHERE ${clauses.join(" AND ")}
+        ORDER BY rank LIMIT ${limit * 2}
+      `)
+      .all(...params) as Array<{ session: string; project: string; project_path: string; kind: SearchableKind; item_id: string; ts: number; origin: SearchHit["source"]; snippet: string }>;
+
+    const hits: SearchHit[] = [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const key = `${row.session}/${row.item_id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      hits.push({
+        sessionId: row.session,
+        projectKey: row.project,
+        projectPath: row.project_path,
+        itemId: row.item_id,
+        kind: row.kind,
+        timestamp: new Date(row.ts).toISOString(),
+        snippet: row.snippet,
+        source: row.origin,
+      });
+      if (hits.length === limit) break;
+    }
+    return hits;
+  }
+}
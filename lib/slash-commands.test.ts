@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { SlashCommandRegistry, parseInvocation, parsePromptCommand, renderPrompt, runCommand } from "./slash-commands.js";
+
+function writeCommand(dir: string, file: string, source: string): void {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), source);
+}
+
+describe("slash commands", () => {
+  it("only treats a leading /name as a command", () => {
+    expect(parseInvocation("/review  src/app.ts  quickly ")).toEqual({ name: "review", rawArgs: "src/app.ts  quickly" });
+    expect(parseInvocation("/git:pr")).toEqual({ name: "git:pr", rawArgs: "" });
+    expect(parseInvocation("/tmp/out.log is empty")).toBeNull();
+    expect(parseInvocation("please /clear")).toBeNull();
+  });
+
+  it("fills prompt templates the way Claude's command files do", () => {
+    expect(renderPrompt("Review $1 with focus on $2", "app.ts security")).toBe("Review app.ts with focus on security");
+    expect(renderPrompt("Fix issue #$ARGUMENTS", "42 now")).toBe("Fix issue #42 now");
+    expect(renderPrompt("Plan first.", "the migration")).toBe("Plan first.\n\nthe migration");
+    expect(renderPrompt("Plan first.", "")).toBe("Plan first.");
+  });
+
+  it("reads frontmatter and argument hints from command files", () => {
+    const command = parsePromptCommand("pr", "---\ndescription: \"Open a PR\"\nargument-hint: <branch> [reviewer]\n---\nOpen a PR from $1 for $2.\n");
+    expect(command).toEqual({
+      name: "pr",
+      description: "Open a PR",
+      args: [{ name: "branch", required: true }, { name: "reviewer", required: false }],
+      prompt: "Open a PR from $1 for $2.",
+    });
+    expect(parsePromptCommand("plain", "Summarize the diff.\nBe brief.").description).toBe("Summarize the diff.");
+  });
+
+  it("layers built-in, project and user commands, project over user", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "slash-commands-"));
+    const userDir = path.join(root, "user");
+    const project = path.join(root, "project");
+    writeCommand(userDir, "review.md", "User review");
+    writeCommand(userDir, "clear.md", "Never used");
+    writeCommand(path.join(project, ".claude", "commands"), "review.md", "Project review");
+    writeCommand(path.join(project, ".claude", "commands"), "git/pr.md", "Open a PR");
+
+    const registry = new SlashCommandRegistry(userDir);
+    registry.register({ name: "clear", description: "Start over", args: [], run: async () => {} });
+
+    expect(registry.describe(project).map(c => `${c.source}:${c.name}`)).toEqual(["builtin:clear", "project:git:pr", "project:review"]);
+    expect(registry.resolve("review")?.prompt).toBe("User review");
+    expect(registry.resolve("review", project)?.prompt).toBe("Project review");
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("runs the action, then the prompt, then the client effect", async () => {
+    const calls: string[] = [];
+    const ctx = {
+      sessionId: "s1",
+      submit: async (text: string) => { calls.push(`submit ${text}`); },
+      send: (msg: { type: string }) => { calls.push(`send ${msg.type}`); },
+    };
+    await runCommand({
+      name: "plan",
+      description: "",
+      args: [{ name: "task", required: true }],
+      run: async (_, args) => { calls.push(`run ${args.task}`); },
+      prompt: "Plan it.",
+      effect: { type: "plan_mode_entered" },
+    }, "the big refactor", ctx);
+
+    expect(calls).toEqual(["run the big refactor", "submit Plan it.\n\nthe big refactor", "send plan_mode_entered"]);
+    await expect(runCommand({ name: "pr", description: "", args: [{ name: "branch", required: true }] }, "", ctx)).rejects.toThrow(/needs <branch>/);
+  });
+});
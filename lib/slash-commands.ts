@@ -0,0 +1,148 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import * as os from "node:os";
+import type { ChatWsServerMessage, SlashCommandArg, SlashCommandInfo } from "../shared/stream-types.js";
+
+/** What a running command can do to the session it was typed in. */
+export type SlashCommandContext = {
+  sessionId: string;
+  submit: (text: string) => Promise<unknown>;    // queue text for Claude, like typed input
+  send: (msg: ChatWsServerMessage) => void;      // reply to the client that typed it
+};
+
+/**
+ * A command typed as `/name args…`. Whatever it declares runs in order: the
+ * engine action, then the prompt (sent to Claude after substitution), then
+ * the client-side effect.
+ */
+export type SlashCommand = {
+  name: string;                    // without the slash; "dir:name" for nested command files
+  description: string;
+  args: SlashCommandArg[];         // positional, the last one takes the rest of the line
+  run?: (ctx: SlashCommandContext, args: Record<string, string>) => Promise<void>;
+  prompt?: string;                 // $ARGUMENTS = everything after the name, $1…$9 = words
+  effect?: ChatWsServerMessage;    // sent back to the client once handled
+};
+
+type RegisteredCommand = SlashCommand & { source: SlashCommandInfo["source"] };
+
+const USER_COMMANDS_DIR = join(os.homedir(), ".aimessage", "commands");
+const NAME_PATTERN = /^[\w-]+(:[\w-]+)*$/;
+
+/** `/name rest of line` → its parts, or null if the text isn't a command. */
+export function parseInvocation(text: string): { name: string; rawArgs: string } | null {
+  const match = text.trim().match(/^\/([\w:-]+)(?:\s+([\s\S]*))?$/);
+  return match ? { name: match[1], rawArgs: (match[2] ?? "").trim() } : null;
+}
+
+/** Maps the words after the name onto the declared args; missing required ones throw. */
+export function bindArgs(command: SlashCommand, rawArgs: string): Record<string, string> {
+  const words = rawArgs ? rawArgs.split(/\s+/) : [];
+  const args: Record<string, string> = {};
+  command.args.forEach((arg, i) => {
+    const value = i === command.args.length - 1 ? words.slice(i).join(" ") : words[i] ?? "";
+    if (value) args[arg.name] = value;
+    else if (arg.required) throw new Error(`/${command.name} needs <${arg.name}>`);
+  });
+  return args;
+}
+
+/** Fills in the placeholders; a template without any gets the arguments appended. */
+export function renderPrompt(template: string, rawArgs: string): string {
+  if (!/\$(ARGUMENTS|[1-9])/.test(template)) return rawArgs ? `${template.trim()}\n\n${rawArgs}` : template.trim();
+  const words = rawArgs ? rawArgs.split(/\s+/) : [];
+  return template
+    .replace(/\$ARGUMENTS/g, rawArgs)
+    .replace(/\$([1-9])/g, (_, n) => words[Number(n) - 1] ?? "")
+    .trim();
+}
+
+/** "[pr-number] <title>" → optional pr-number, required title. */
+function parseArgumentHint(hint: string): SlashCommandArg[] {
+  return [...hint.matchAll(/([<[])([^\]>]+)[\]>]/g)].map(m => ({ name: m[2].trim(), required: m[1] === "<" }));
+}
+
+/**
+ * One Markdown prompt command in Claude's format: optional frontmatter
+ * (`description`, `argument-hint`), then the prompt template.
+ */
+export function parsePromptCommand(name: string, source: string): SlashCommand {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  const fields: Record<string, string> = {};
+  for (const line of (match?.[1] ?? "").split(/\r?\n/)) {
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (field) fields[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+  const prompt = (match ? match[2] : source).trim();
+  const firstLine = prompt.split("\n").find(l => l.trim())?.trim() ?? "";
+  return {
+    name,
+    description: fields.description || (firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine),
+    args: parseArgumentHint(fields["argument-hint"] ?? ""),
+    prompt,
+  };
+}
+
+/** Every *.md under `dir`; subdirectories namespace the name ("git/pr.md" → "git:pr"). */
+function loadPromptCommands(dir: string, prefix = ""): SlashCommand[] {
+  if (!existsSync(dir)) return [];
+  const commands: SlashCommand[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    try {
+      if (entry.isDirectory()) {
+        commands.push(...loadPromptCommands(join(dir, entry.name), `${prefix}${entry.name}:`));
+      } else if (entry.name.endsWith(".md")) {
+        const name = prefix + entry.name.slice(0, -3);
+        if (NAME_PATTERN.test(name)) commands.push(parsePromptCommand(name, readFileSync(join(dir, entry.name), "utf-8")));
+      }
+    } catch (err) {
+      console.error(`[Commands] Failed to load ${join(dir, entry.name)}:`, err);
+    }
+  }
+  return commands;
+}
+
+/**
+ * SlashCommandRegistry — built-in commands plus the prompt commands in
+ * ~/.aimessage/commands and the project's .claude/commands.
+ *
+ * Command files are read on every lookup, so edits apply to the next use.
+ * A built-in can't be shadowed; a project command wins over a user one.
+ */
+export class SlashCommandRegistry {
+  private builtins = new Map<string, RegisteredCommand>();
+
+  constructor(private userDir = USER_COMMANDS_DIR) {}
+
+  register(command: SlashCommand): void {
+    if (!NAME_PATTERN.test(command.name)) throw new Error(`Invalid command name "${command.name}"`);
+    this.builtins.set(command.name, { ...command, source: "builtin" });
+  }
+
+  list(projectPath?: string): RegisteredCommand[] {
+    const byName = new Map<string, RegisteredCommand>();
+    const add = (commands: SlashCommand[], source: RegisteredCommand["source"]) => {
+      for (const command of commands) if (!byName.has(command.name)) byName.set(command.name, { ...command, source });
+    };
+    add([...this.builtins.values()], "builtin");
+    if (projectPath) add(loadPromptCommands(join(projectPath, ".claude", "commands")), "project");
+    add(loadPromptCommands(this.userDir), "user");
+    return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  resolve(name: string, projectPath?: string): RegisteredCommand | undefined {
+    return this.builtins.get(name) ?? this.list(projectPath).find(c => c.name === name);
+  }
+
+  /** What /api/commands shows for autocomplete. */
+  describe(projectPath?: string): SlashCommandInfo[] {
+    return this.list(projectPath).map(({ name, description, args, source }) => ({ name, description, args, source }));
+  }
+}
+
+export async function runCommand(command: SlashCommand, rawArgs: string, ctx: SlashCommandContext): Promise<void> {
+  const args = bindArgs(command, rawArgs);
+  if (command.run) await command.run(ctx, args);
+  if (command.prompt) await ctx.submit(renderPrompt(command.prompt, rawArgs));
+  if (command.effect) ctx.send(command.effect);
+}
@@ -3,11 +3,13 @@ import WebSocket from 'ws';
 async function verify() {
   const baseUrl = 'http://127.0.0.1:7777';
   const wsBaseUrl = 'ws://127.0.0.1:7777';
+  // Device token from a paired device (see README → Authentication)
+  const token = process.env.AIMESSAGE_TOKEN ?? '';
   
   console.log("1. Checking server health (POST /api/agents)...");
   const res = await fetch(`${baseUrl}/api/agents`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
     body: JSON.stringify({ projectPath: process.cwd() })
   });
   
@@ -20,7 +22,7 @@ async function verify() {
   console.log(`   Agent created: ${agent.id}`);
   
   console.log(`2. Connecting to WebSocket (/ws/chat/${agent.id})...`);
-  const ws = new WebSocket(`${wsBaseUrl}/ws/chat/${agent.id}`);
+  const ws = new WebSocket(`${wsBaseUrl}/ws/chat/${agent.id}?token=${encodeURIComponent(token)}`);
   
   return new Promise((resolve, reject) => {
     const timeout = setTimeout(() => {
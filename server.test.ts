@@ -0,0 +1,207 @@
+/**
+ * HTTP and socket routes, against a real server.ts in a child process.
+ * Engine behaviour has its own suite in src/engine-v2/engine.test.ts.
+ *
+ * The server shares this file's throwaway home, so tests seed its
+ * databases and session folders directly.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { insertActivity } from './lib/activity-log.js';
+import { RecallIndex } from './lib/recall.js';
+import { SearchIndex } from './lib/search-index.js';
+import { TestServer, createTestProject, newSessionId } from './src/engine-v2/fake-claude/harness.js';
+
+const SESSIONS_DIR = path.join(os.homedir(), '.aimessage', 'sessions');
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await TestServer.start();
+});
+
+afterAll(async () => {
+  await server?.stop();
+});
+
+function writeSession(projectPath: string, items: Array<Record<string, unknown>>): string {
+  const sessionId = newSessionId();
+  const dir = path.join(SESSIONS_DIR, sessionId);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'metadata.json'), JSON.stringify({ projectPath }));
+  const frames = items.map(item => JSON.stringify({ type: 'stream_item', item: { timestamp: '2026-03-01T10:00:00.000Z', ...item } }));
+  fs.writeFileSync(path.join(dir, 'out.jsonl'), frames.join('\n') + '\n');
+  return sessionId;
+}
+
+describe('/api/activity', () => {
+  beforeAll(() => {
+    insertActivity({ type: 'heartbeat', project: 'route-atlas', session: null, summary: 'checked the deploy', ts: Date.parse('2026-03-01T09:00:00Z') });
+    insertActivity({ type: 'message', project: 'route-atlas', session: 's1', summary: 'fixed the login bug', ts: Date.parse('2026-03-02T09:00:00Z') });
+    insertActivity({ type: 'message', project: 'route-atlas', session: 's2', summary: 'renamed a button', ts: Date.parse('2026-03-03T09:00:00Z') });
+  });
+
+  it('lists entries newest first, filtered by project, type and since', async () => {
+    const all = await (await server.api('/api/activity?project=route-atlas')).json();
+    expect(all.map((e: any) => e.summary)).toEqual(['renamed a button', 'fixed the login bug', 'checked the deploy']);
+
+    const messages = await (await server.api('/api/activity?project=route-atlas&type=message')).json();
+    expect(messages.map((e: any) => e.summary)).toEqual(['renamed a button', 'fixed the login bug']);
+
+    const recent = await (await server.api('/api/activity?project=route-atlas&since=2026-03-02&limit=1')).json();
+    expect(recent.map((e: any) => e.summary)).toEqual(['renamed a button']);
+  });
+
+  it('rejects an unparseable since, an unknown type and a non-numeric limit', async () => {
+    for (const query of ['since=yesterday-ish', 'type=bogus', 'limit=ten']) {
+      const res = await server.api(`/api/activity?${query}`);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBeTruthy();
+    }
+  });
+
+  it('needs a device token', async () => {
+    expect((await fetch(`${server.url}/api/activity`)).status).toBe(401);
+  });
+});
+
+describe('/api/search', () => {
+  let sessionId: string;
+
+  beforeAll(() => {
+    sessionId = writeSession('/work/route-search', [
+      { kind: 'user_message', id: 'u1', text: 'where is the heliotrope config loaded?' },
+      { kind: 'assistant_message', id: 'a1', text: 'In server.ts, before the heliotrope watcher starts.' },
+    ]);
+    new SearchIndex().indexSession(sessionId);
+  });
+
+  it('returns hits with the session and item to jump to', async () => {
+    const res = await server.api('/api/search?q=heliotrope&project=-work-route-search&kind=assistant_message');
+    expect(res.status).toBe(200);
+    const hits = await res.json();
+    expect(hits).toMatchObject([{ sessionId, itemId: 'a1', kind: 'assistant_message', source: 'journal' }]);
+    expect(hits[0].snippet).toContain('\u0002heliotrope\u0003');
+  });
+
+  it('rejects an unknown kind, an unparseable since and a non-numeric limit', async () => {
+    for (const query of ['kind=agent_status', 'since=soonish', 'limit=all']) {
+      const res = await server.api(`/api/search?q=heliotrope&${query}`);
+      expect(res.status).toBe(400);
+    }
+  });
+});
+
+describe('/api/recall', () => {
+  let sessionId: string;
+
+  beforeAll(() => {
+    sessionId = writeSession('/work/route-recall', [
+      { kind: 'assistant_message', id: 'a1', text: 'We settled on exponential backoff with jitter for websocket reconnects.' },
+    ]);
+    new RecallIndex().indexSession(sessionId);
+  });
+
+  it('returns the closest past messages for a project', async () => {
+    const res = await server.api('/api/recall?q=websocket+reconnect+backoff&project=-work-route-recall');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject([{ sessionId, itemId: 'a1', kind: 'assistant_message' }]);
+
+    const excluded = await server.api(`/api/recall?q=websocket+reconnect+backoff&project=-work-route-recall&exclude=${sessionId}`);
+    expect(await excluded.json()).toEqual([]);
+  });
+
+  it('rejects an unparseable since and a non-numeric limit', async () => {
+    for (const query of ['since=last-tuesday', 'limit=few']) {
+      const res = await server.api(`/api/recall?q=backoff&${query}`);
+      expect(res.status).toBe(400);
+    }
+  });
+});
+
+describe('/api/schedules', () => {
+  it('creates, lists, updates and deletes jobs', async () => {
+    const body = { id: 'route-nightly', cron: '0 3 * * *', prompt: 'run the nightly checks', projectPath: '/work/route-schedules' };
+    const created = await server.api('/api/schedules', { method: 'POST', body: JSON.stringify(body) });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ id: 'route-nightly', enabled: true, missedRunPolicy: 'skip' });
+
+    const listed = await (await server.api('/api/schedules')).json();
+    expect(listed.map((j: any) => j.id)).toContain('route-nightly');
+
+    const paused = await server.api('/api/schedules/route-nightly', { method: 'PUT', body: JSON.stringify({ enabled: false }) });
+    expect(await paused.json()).toMatchObject({ enabled: false });
+    const resumed = await (await server.api('/api/schedules/route-nightly', { method: 'PUT', body: JSON.stringify({ enabled: true }) })).json();
+    expect(resumed.nextRunAt).toBeGreaterThan(Date.now());
+
+    expect((await server.api('/api/schedules/route-nightly', { method: 'DELETE' })).status).toBe(200);
+    expect((await server.api('/api/schedules/route-nightly', { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('rejects invalid jobs and updates', async () => {
+    const bad = await server.api('/api/schedules', { method: 'POST', body: JSON.stringify({ cron: 'every day', prompt: 'p', projectPath: '/w' }) });
+    expect(bad.status).toBe(400);
+    expect((await bad.json()).error).toMatch(/5 fields/);
+
+    const missing = await server.api('/api/schedules/no-such-job', { method: 'PUT', body: JSON.stringify({ enabled: false }) });
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toMatch(/not found/);
+  });
+});
+
+describe('/api/governance', () => {
+  it('applies an update on top of governance.json as it is now, and the engine runs with it', async () => {
+    const file = path.join(os.homedir(), '.aimessage', 'governance.json');
+    fs.writeFileSync(file, JSON.stringify({ reaperIntervalMs: 5000 }));
+
+    const updated = await server.api('/api/governance', { method: 'PUT', body: JSON.stringify({ maxHostSessions: 7 }) });
+    expect(await updated.json()).toMatchObject({ reaperIntervalMs: 5000, maxHostSessions: 7 });
+    expect(await (await server.api('/api/governance')).json()).toMatchObject({ reaperIntervalMs: 5000, maxHostSessions: 7 });
+
+    const bad = await server.api('/api/governance', { method: 'PUT', body: JSON.stringify({ reaperIntervalMs: 10 }) });
+    expect(bad.status).toBe(400);
+    fs.rmSync(file);
+  });
+});
+
+describe('/ws', () => {
+  /** A mux socket that keeps every message it receives. */
+  async function connect(): Promise<{ ws: WebSocket; received: any[] }> {
+    const ws = new WebSocket(`ws://127.0.0.1:${server.port}/ws?token=${server.token}`);
+    const received: any[] = [];
+    ws.on('message', (raw) => received.push(JSON.parse(raw.toString())));
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+    return { ws, received };
+  }
+
+  it('answers malformed frames with errors instead of crashing', async () => {
+    const { ws, received } = await connect();
+    const frames = ['null', '[]', '"text"', '{"type":"subscribe"}', '{"type":"subscribe","sessionId":42}', '{"type":"session","sessionId":"x"}', '{"type":"session","sessionId":"x","message":null}'];
+    for (const frame of frames) ws.send(frame);
+
+    await vi.waitFor(() => expect(received.filter(m => m.type === 'error')).toHaveLength(frames.length));
+    expect(server.alive).toBe(true);
+    expect((await server.api('/api/status')).status).toBe(200);
+
+    // The socket itself still works
+    const projectPath = createTestProject();
+    const sessionId = writeSession(projectPath, [{ kind: 'user_message', id: 'u1', text: 'hello' }]);
+    ws.send(JSON.stringify({ type: 'subscribe', sessionId }));
+    await vi.waitFor(() => expect(received).toContainEqual(expect.objectContaining({ type: 'session', sessionId, message: expect.objectContaining({ type: 'history_snapshot' }) })));
+    ws.close();
+    await server.api(`/api/test/destroy-session/${sessionId}`, { method: 'POST' });
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('refuses a connection without a device token', async () => {
+    const ws = new WebSocket(`ws://127.0.0.1:${server.port}/ws`);
+    const error = await new Promise<Error>((resolve) => ws.once('error', resolve));
+    expect(error.message).toContain('401');
+  });
+});
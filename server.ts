@@ -33,11 +33,59 @@ console.warn = (...args) => {
   originalWarn(...args);
 };
 
-import { listProjects, listSessions, renameProject, renameSession, createProjectFolder } from "./session-discovery.js";
+import { listProjects, listSessions, renameProject, renameSession, getSessionTitle, createProjectFolder, getProjectPermissions, setProjectPermissions, getProjectBudget, setProjectBudget } from "./session-discovery.js";
+import { validateRules, type PermissionMode } from "./lib/permissions.js";
+import { validateBudget } from "./lib/budgets.js";
+import { loadGovernancePolicy, validateGovernancePolicy } from "./lib/governance.js";
 import { TmuxSessionEngine } from "./src/engine-v2/TmuxSessionEngine.js";
+import type { BackendKind } from "./src/engine-v2/SessionBackend.js";
 let engine = new TmuxSessionEngine();
 
-import type { ChatWsClientMessage } from "./shared/stream-types.js";
+import { ACTIVITY_TYPES, ActivitySummarizer, queryActivity } from "./lib/activity-log.js";
+import type { ActivityType } from "./lib/activity-log.js";
+const activitySummarizer = new ActivitySummarizer();
+activitySummarizer.attach(engine);
+
+import { SEARCHABLE_KINDS, SearchIndex } from "./lib/search-index.js";
+const searchIndex = new SearchIndex();
+searchIndex.attach(engine);
+
+import { RecallIndex } from "./lib/recall.js";
+const recallIndex = new RecallIndex();
+recallIndex.attach(engine);
+
+import { Heartbeat, type HeartbeatAlert } from "./lib/heartbeat.js";
+const heartbeat = new Heartbeat(() => engine);
+
+import { Scheduler, listJobs, createJob, updateJob, deleteJob } from "./lib/scheduler.js";
+const scheduler = new Scheduler(() => engine);
+
+import { SlashCommandRegistry, parseInvocation, runCommand } from "./lib/slash-commands.js";
+const commands = new SlashCommandRegistry();
+commands.register({
+  name: "clear",
+  description: "Start a fresh Claude conversation; the transcript stays",
+  args: [],
+  run: ({ sessionId }) => engine.clearContext(sessionId),
+});
+commands.register({
+  name: "compact",
+  description: "Have Claude summarize the conversation and continue from the summary",
+  args: [],
+  run: ({ sessionId }) => engine.compactContext(sessionId),
+});
+commands.register({
+  name: "plan",
+  description: "Plan first: no edits or commands until you approve",
+  args: [{ name: "task", description: "What to plan" }],
+  prompt: "Enter planning mode. Think through the problem step by step and present a complete plan. Do not take any actions — no file edits, no shell commands, no tool use — until the user explicitly tells you to proceed. Present the plan clearly so it can be reviewed and approved.",
+  effect: { type: "plan_mode_entered" },
+});
+
+import type { ChatWsClientMessage, ChatWsServerMessage, MuxWsClientMessage, MuxWsServerMessage, SearchableKind, SessionStatus, TodoItem, Turn, UsageTotals } from "./shared/stream-types.js";
+
+import { authenticate, tokenFromRequest, hasScope, pairDevice, createPairingCode, listDevices, revokeDevice } from "./lib/auth.js";
+import type { AuthScope, PublicDevice } from "./lib/auth.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 const DIST = join(__dirname, "dist");
@@ -87,9 +135,126 @@ function cleanupUploads(uploadsDir: string): void {
   }
 }
 
+/** A `since` query parameter: unix ms or any Date-parsable string (e.g. 2026-02-28); NaN when it's neither. */
+function parseSince(since: string | null): number | undefined {
+  if (!since) return undefined;
+  return /^\d+$/.test(since) ? Number(since) : new Date(since).getTime();
+}
+
+// ---------------------------------------------------------------------------
+// Auth — every /api/* route needs a device token except pairing itself;
+// routes that can kill sessions wholesale need the admin scope
+// ---------------------------------------------------------------------------
+function requiredScope(method: string | undefined, urlPath: string): AuthScope | null {
+  if (urlPath === "/api/auth/pair" && method === "POST") return null;
+  if (urlPath.startsWith("/api/test/")) return "admin";
+  if (urlPath === "/api/emergency-stop") return "admin";
+  if (urlPath === "/api/governance" && method === "PUT") return "admin";
+  if (urlPath === "/api/auth/pairing-codes") return "admin";
+  return "user";
+}
+
+/**
+ * Who is guessing pairing codes. `tailscale serve` proxies from loopback,
+ * so only then is X-Forwarded-For used, and only its last entry: the hop
+ * the proxy appended. Earlier entries are whatever the client sent.
+ */
+function pairingClient(req: IncomingMessage): string {
+  const remote = req.socket.remoteAddress ?? "unknown";
+  const forwarded = req.headers["x-forwarded-for"];
+  const isLoopback = remote === "127.0.0.1" || remote === "::1" || remote === "::ffff:127.0.0.1";
+  if (isLoopback && typeof forwarded === "string" && forwarded.trim()) return forwarded.split(",").at(-1)!.trim();
+  return remote;
+}
+
+// Open chat sockets per device, so a revoked device is cut off immediately
+const deviceSockets = new Map<string, Set<import("ws").WebSocket>>();
+
 const server = createServer(async (req, res) => {
   console.log(`[Request] ${req.method} ${req.url}`);
 
+  let device: PublicDevice | null = null;
+  if (req.url?.startsWith("/api/")) {
+    const scope = requiredScope(req.method, req.url.split("?")[0]);
+    if (scope) {
+      device = authenticate(tokenFromRequest(req));
+      if (!device) {
+        res.writeHead(401, { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" });
+        res.end(JSON.stringify({ error: "Authentication required" }));
+        return;
+      }
+      if (!hasScope(device, scope)) {
+        res.writeHead(403, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: `This device lacks the ${scope} scope` }));
+        return;
+      }
+    }
+  }
+
+  if (req.url === "/api/auth/pair" && req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const { code, name } = JSON.parse(body) as { code: string; name?: string };
+        if (!code) throw new Error("code is required");
+        const paired = pairDevice(code, name || req.headers["user-agent"] || "", pairingClient(req));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(paired));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url === "/api/auth/me" && req.method === "GET") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(device));
+    return;
+  }
+
+  if (req.url === "/api/auth/devices" && req.method === "GET") {
+    const devices = listDevices().map(d => ({ ...d, current: d.id === device?.id }));
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(devices));
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/auth\/devices\/([^/]+)$/) && req.method === "DELETE") {
+    const id = req.url.match(/^\/api\/auth\/devices\/([^/]+)$/)![1];
+    // Any device may sign itself out; revoking others takes admin
+    if (id !== device!.id && !hasScope(device!, "admin")) {
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Only admin devices can revoke other devices" }));
+      return;
+    }
+    const revoked = revokeDevice(id);
+    for (const ws of deviceSockets.get(id) ?? []) ws.close(4401, "Device revoked");
+    deviceSockets.delete(id);
+    res.writeHead(revoked ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: revoked }));
+    return;
+  }
+
+  if (req.url === "/api/auth/pairing-codes" && req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const { scope = "user" } = (body ? JSON.parse(body) : {}) as { scope?: AuthScope };
+        if (scope !== "user" && scope !== "admin") throw new Error(`Invalid scope "${scope}"`);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(createPairingCode(scope)));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
   if (req.url === "/api/transcribe" && req.method === "POST") {
     const chunks: Buffer[] = [];
     req.on("data", (chunk) => chunks.push(chunk));
@@ -299,6 +464,7 @@ const server = createServer(async (req, res) => {
       try {
         const { alias } = JSON.parse(body);
         renameSession(decodeURIComponent(id), alias);
+        broadcast({ type: "session_renamed", sessionId: decodeURIComponent(id), title: alias });
         res.writeHead(200);
         res.end(JSON.stringify({ success: true }));
       } catch (err) {
@@ -309,6 +475,166 @@ const server = createServer(async (req, res) => {
     return;
   }
 
+  if (req.url?.match(/^\/api\/projects\/([^/]+)\/permissions$/) && req.method === "GET") {
+    const key = decodeURIComponent(req.url.match(/^\/api\/projects\/([^/]+)\/permissions$/)![1]);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(getProjectPermissions(key)));
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/projects\/([^/]+)\/permissions$/) && req.method === "PUT") {
+    const key = decodeURIComponent(req.url.match(/^\/api\/projects\/([^/]+)\/permissions$/)![1]);
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const rules = validateRules(JSON.parse(body));
+        setProjectPermissions(key, rules);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(rules));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/permissions$/) && req.method === "PUT") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/permissions$/)![1]);
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      try {
+        const { mode } = JSON.parse(body) as { mode: PermissionMode };
+        if (mode !== "bypass" && mode !== "ask") throw new Error(`Invalid permission mode "${mode}"`);
+        await engine.setPermissionMode(id, mode);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, mode }));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/projects\/([^/]+)\/budget$/) && req.method === "GET") {
+    const key = decodeURIComponent(req.url.match(/^\/api\/projects\/([^/]+)\/budget$/)![1]);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(getProjectBudget(key) ?? {}));
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/projects\/([^/]+)\/budget$/) && req.method === "PUT") {
+    const key = decodeURIComponent(req.url.match(/^\/api\/projects\/([^/]+)\/budget$/)![1]);
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      try {
+        const budget = validateBudget(JSON.parse(body));
+        setProjectBudget(key, budget);
+        await engine.recheckBudgetHolds();
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(budget));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/budget$/) && req.method === "GET") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/budget$/)![1]);
+    try {
+      const status = await engine.getBudgetStatus(id);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(status));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/budget$/) && req.method === "PUT") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/budget$/)![1]);
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      try {
+        const budget = validateBudget(JSON.parse(body));
+        await engine.setBudget(id, budget);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(budget));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/budget\/override$/) && req.method === "POST") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/budget\/override$/)![1]);
+    try {
+      await engine.overrideBudget(id);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true }));
+    } catch (err) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/pin$/) && req.method === "PUT") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/pin$/)![1]);
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      try {
+        const { pinned } = JSON.parse(body) as { pinned: boolean };
+        if (typeof pinned !== "boolean") throw new Error("pinned must be a boolean");
+        await engine.setPinned(id, pinned);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, pinned }));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.split("?")[0] === "/api/commands" && req.method === "GET") {
+    try {
+      // With a session, its project's .claude/commands are listed too
+      const sessionId = new URL(req.url, "http://localhost").searchParams.get("sessionId");
+      const state = sessionId ? await engine.getState(sessionId) : null;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(commands.describe(state?.projectPath)));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/turns$/) && req.method === "GET") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/turns$/)![1]);
+    try {
+      const turns = await engine.readTurns(id);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(turns));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
   if (req.url?.match(/^\/api\/projects\/([^/]+)\/sessions$/) && req.method === "GET") {
     const key = req.url.match(/^\/api\/projects\/([^/]+)\/sessions$/)![1];
     const sessions = listSessions(decodeURIComponent(key));
@@ -323,6 +649,8 @@ const server = createServer(async (req, res) => {
         status: state?.status === 'sleeping' ? 'stopped' : 'running',
         hasUnread: state?.hasUnread || false,
         latestNotification: state?.latestNotification || null,
+        subAgents: state?.runningSubAgents ?? 0,
+        todos: state?.todos ?? [],
         unreadCount: 0 // Keep for backwards compat
       };
     }));
@@ -343,6 +671,7 @@ const server = createServer(async (req, res) => {
         title: (state as any)?.title || "Chat",
         projectPath: state?.projectPath || "",
         model: state?.model,
+        permissionMode: state?.permissionMode || "bypass",
         status: "running",
         agentStatus: state?.status === 'busy' ? 'thinking' : 'idle',
         hasUnread: state?.hasUnread || false,
@@ -364,8 +693,13 @@ const server = createServer(async (req, res) => {
           projectPath: string;
           resumeSessionId?: string;
           model?: string;
+          backend?: BackendKind;
+          permissionMode?: PermissionMode;
         };
-        
+        if (payload.backend && payload.backend !== "tmux" && payload.backend !== "process") {
+          throw new Error(`Invalid backend "${payload.backend}"`);
+        }
+
         const projectPath = payload.projectPath.replace(/^~/, os.homedir());
         const sessionId = payload.resumeSessionId || crypto.randomUUID();
 
@@ -377,7 +711,10 @@ const server = createServer(async (req, res) => {
         } else if (!model) {
           model = "sonnet";
         }
-        await engine.create(sessionId, projectPath, model);
+        if (payload.permissionMode && payload.permissionMode !== "bypass" && payload.permissionMode !== "ask") {
+          throw new Error(`Invalid permission mode "${payload.permissionMode}"`);
+        }
+        await engine.create(sessionId, projectPath, model, { backend: payload.backend, permissionMode: payload.permissionMode });
 
         const state = await engine.getState(sessionId);
         const title = (state as any)?.title || (payload.resumeSessionId ? "Chat" : "New Chat");
@@ -389,6 +726,7 @@ const server = createServer(async (req, res) => {
           title,
           projectPath,
           model: state?.model || payload.model || "sonnet",
+          permissionMode: state?.permissionMode || "bypass",
           status: "running",
           agentStatus: "idle",
           unreadCount: 0,
@@ -428,11 +766,60 @@ const server = createServer(async (req, res) => {
     return;
   }
 
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/branches\/(\d+)$/) && req.method === "GET") {
+    const [, id, branch] = req.url.match(/^\/api\/sessions\/([^/]+)\/branches\/(\d+)$/)!;
+    try {
+      const items = await engine.readBranch(decodeURIComponent(id), Number(branch));
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ branch: Number(branch), items }));
+    } catch (err) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/sessions\/([^/]+)\/fork$/) && req.method === "POST") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/sessions\/([^/]+)\/fork$/)![1]);
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      try {
+        const { itemId } = JSON.parse(body) as { itemId: string };
+        if (!itemId) throw new Error("itemId is required");
+        const forkId = await engine.fork(id, itemId);
+        const state = await engine.getState(forkId);
+        res.writeHead(201, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+          id: forkId,
+          type: "chat",
+          title: getSessionTitle(forkId) || "Fork",
+          projectPath: state?.projectPath || "",
+          model: state?.model || "sonnet",
+          permissionMode: state?.permissionMode || "bypass",
+          parentId: id,
+          status: "running",
+          agentStatus: "idle",
+          unreadCount: 0,
+          startedAt: new Date().toISOString()
+        }));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
   if (req.url === "/api/test/restart-engine" && req.method === "POST") {
     try {
       console.log('[Test] Restarting engine...');
       engine.stop();
       engine = new TmuxSessionEngine();
+      activitySummarizer.attach(engine);
+      searchIndex.attach(engine);
+      recallIndex.attach(engine);
+      attachBroadcasts(engine);
       await engine.reconcile();
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ success: true }));
@@ -456,6 +843,146 @@ const server = createServer(async (req, res) => {
     return;
   }
 
+  if (req.url?.split("?")[0] === "/api/activity" && req.method === "GET") {
+    const params = new URL(req.url, "http://localhost").searchParams;
+    const type = params.get("type") || undefined;
+    const since = parseSince(params.get("since"));
+    const limit = params.get("limit") ? Number(params.get("limit")) : undefined;
+    const invalid =
+      type && !(ACTIVITY_TYPES as readonly string[]).includes(type) ? `type must be one of ${ACTIVITY_TYPES.join(", ")}` :
+      Number.isNaN(since) ? "since must be unix ms or a date" :
+      limit !== undefined && !Number.isInteger(limit) ? "limit must be an integer" :
+      null;
+    if (invalid) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: invalid }));
+      return;
+    }
+    try {
+      const entries = queryActivity({
+        project: params.get("project") || undefined,
+        type: type as ActivityType | undefined,
+        since,
+        limit,
+      });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(entries));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url?.split("?")[0] === "/api/search" && req.method === "GET") {
+    const params = new URL(req.url, "http://localhost").searchParams;
+    const kind = params.get("kind") || undefined;
+    const since = parseSince(params.get("since"));
+    const limit = params.get("limit") ? Number(params.get("limit")) : undefined;
+    const invalid =
+      kind && !(SEARCHABLE_KINDS as readonly string[]).includes(kind) ? `kind must be one of ${SEARCHABLE_KINDS.join(", ")}` :
+      Number.isNaN(since) ? "since must be unix ms or a date" :
+      limit !== undefined && !Number.isInteger(limit) ? "limit must be an integer" :
+      null;
+    if (invalid) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: invalid }));
+      return;
+    }
+    try {
+      const hits = searchIndex.search({
+        q: params.get("q") ?? "",
+        project: params.get("project") || undefined,
+        kind: kind as SearchableKind | undefined,
+        since,
+        limit,
+      });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(hits));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url?.split("?")[0] === "/api/recall" && req.method === "GET") {
+    const params = new URL(req.url, "http://localhost").searchParams;
+    const since = parseSince(params.get("since"));
+    const limit = params.get("limit") ? Number(params.get("limit")) : undefined;
+    const invalid =
+      Number.isNaN(since) ? "since must be unix ms or a date" :
+      limit !== undefined && !Number.isInteger(limit) ? "limit must be an integer" :
+      null;
+    if (invalid) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: invalid }));
+      return;
+    }
+    try {
+      const hits = recallIndex.recall({
+        q: params.get("q") ?? "",
+        project: params.get("project") || undefined,
+        excludeSession: params.get("exclude") || undefined,
+        since,
+        limit,
+      });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(hits));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
+  if (req.url === "/api/schedules" && req.method === "GET") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(listJobs()));
+    return;
+  }
+
+  if (req.url === "/api/schedules" && req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const job = createJob(JSON.parse(body));
+        res.writeHead(201, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(job));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/schedules\/([^/]+)$/) && req.method === "PUT") {
+    const id = req.url.match(/^\/api\/schedules\/([^/]+)$/)![1];
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const job = updateJob(decodeURIComponent(id), JSON.parse(body));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(job));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url?.match(/^\/api\/schedules\/([^/]+)$/) && req.method === "DELETE") {
+    const id = decodeURIComponent(req.url.match(/^\/api\/schedules\/([^/]+)$/)![1]);
+    const deleted = deleteJob(id);
+    res.writeHead(deleted ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(deleted ? { deleted: id } : { error: `Job "${id}" not found` }));
+    return;
+  }
+
   if (req.url === "/api/status" && req.method === "GET") {
     const status = engine.getSystemStatus();
     res.writeHead(200, { "Content-Type": "application/json" });
@@ -463,6 +990,42 @@ const server = createServer(async (req, res) => {
     return;
   }
 
+  if (req.url === "/api/governance" && req.method === "GET") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(engine.getGovernance()));
+    return;
+  }
+
+  if (req.url === "/api/governance" && req.method === "PUT") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        // Apply on top of governance.json as it is now, so edits made there since boot reach the reaper too
+        const policy = validateGovernancePolicy(JSON.parse(body), loadGovernancePolicy());
+        engine.setGovernance(policy);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(policy));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: String(err) }));
+      }
+    });
+    return;
+  }
+
+  if (req.url === "/api/governance/dry-run" && req.method === "GET") {
+    try {
+      const actions = await engine.planReaping();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(actions));
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(err) }));
+    }
+    return;
+  }
+
   if (req.url === "/api/emergency-stop" && req.method === "POST") {
     try {
       console.log('[Server] Emergency stop triggered');
@@ -490,13 +1053,14 @@ button{padding:10px 20px;border-radius:22px;border:none;background:#007AFF;color
 <script>
 const log=document.getElementById('log'),input=document.getElementById('msg'),btn=document.getElementById('send');
 function addLog(t,c){const d=document.createElement('div');d.textContent=t;d.style.color=c||'#333';log.appendChild(d);log.scrollTop=log.scrollHeight;}
-const agents=fetch('/api/agents').then(r=>r.json());
+const token=localStorage.getItem('aimessage.token')||'';
+const agents=fetch('/api/agents',{headers:{Authorization:'Bearer '+token}}).then(r=>r.json());
 agents.then(list=>{
   if(!list.length){addLog('No agents found','red');return;}
   const id=list[0].id;
   addLog('Connecting to agent: '+id+'...');
   const proto=location.protocol==='https:'?'wss:':'ws:';
-  const ws=new WebSocket(proto+'//'+location.host+'/ws/chat/'+id);
+  const ws=new WebSocket(proto+'//'+location.host+'/ws/chat/'+id+'?token='+encodeURIComponent(token));
   ws.onopen=()=>addLog('WS CONNECTED','green');
   ws.onclose=(e)=>addLog('WS CLOSED code='+e.code,'red');
   ws.onerror=(e)=>addLog('WS ERROR','red');
@@ -540,92 +1104,266 @@ agents.then(list=>{
 
 const wss = new WebSocketServer({ noServer: true });
 
-// Track all connected WebSocket clients for global broadcasts
+// Legacy per-session sockets, for the session_renamed broadcast they've always had
 const allClients = new Set<import("ws").WebSocket>();
+// Multiplexed /ws sockets, which get every global event
+const muxClients = new Set<import("ws").WebSocket>();
 
-// Broadcast session_renamed to all connected clients
-engine.on("chat_title_update", ({ sessionId, title }: { sessionId: string; title: string }) => {
-  const msg = JSON.stringify({ type: "session_renamed", sessionId, title });
-  for (const client of allClients) {
-    if (client.readyState === 1) {
-      client.send(msg);
-    }
+function broadcast(msg: MuxWsServerMessage): void {
+  const data = JSON.stringify(msg);
+  for (const client of muxClients) {
+    if (client.readyState === 1) client.send(data);
   }
+}
+
+// Global engine events → sidebar. Re-attached whenever the engine is replaced.
+function attachBroadcasts(target: TmuxSessionEngine): void {
+  target.on("chat_title_update", ({ sessionId, title }: { sessionId: string; title: string }) => {
+    const msg = JSON.stringify({ type: "session_renamed", sessionId, title });
+    for (const client of allClients) {
+      if (client.readyState === 1) client.send(msg);
+    }
+    broadcast({ type: "session_renamed", sessionId, title });
+  });
+  target.on("status_change", ({ sessionId, status, position }: { sessionId: string; status: SessionStatus; position?: number }) => {
+    broadcast({ type: "status_change", sessionId, status, ...(position ? { position } : {}) });
+  });
+  target.on("session_created", ({ sessionId, projectPath, model }: { sessionId: string; projectPath: string; model: string }) => {
+    broadcast({ type: "session_created", sessionId, projectPath, model });
+  });
+  target.on("notification", ({ sessionId, subject }: { sessionId: string; subject: string }) => {
+    broadcast({ type: "notification", sessionId, subject });
+  });
+  target.on("subagents_change", ({ sessionId, running }: { sessionId: string; running: number }) => {
+    broadcast({ type: "subagents_change", sessionId, running });
+  });
+  target.on("todo_update", ({ sessionId, todos }: { sessionId: string; todos: TodoItem[] }) => {
+    broadcast({ type: "todo_update", sessionId, todos });
+  });
+  target.on("turn_complete", ({ sessionId, projectPath, turn, usage }: { sessionId: string; projectPath: string; turn: Turn; usage: UsageTotals }) => {
+    broadcast({ type: "turn_complete", sessionId, projectPath, turn, usage });
+  });
+}
+attachBroadcasts(engine);
+heartbeat.on("alert", ({ project, sessionId, subject }: HeartbeatAlert) => {
+  broadcast({ type: "heartbeat_alert", project, sessionId, subject });
 });
 
+/**
+ * Streams a session (status, history snapshot, live items, title updates)
+ * to `send` until the returned function is called. A `sinceSeq` from a
+ * reconnecting client swaps the snapshot for a replay of what it missed.
+ */
+function watchSession(sessionId: string, send: (msg: ChatWsServerMessage) => void, sinceSeq = 0): () => void {
+  const observed = engine;
+  let stopped = false;
+  let reader: ReadableStreamDefaultReader<string> | null = null;
+
+  observed.observe(sessionId, sinceSeq).then(stream => {
+    reader = stream.getReader();
+    if (stopped) {
+      reader.cancel().catch(() => {});
+      return;
+    }
+    const pump = async () => {
+      while (!stopped) {
+        const { done, value } = await reader!.read();
+        if (done) break;
+        for (const line of String(value).split("\n")) {
+          if (line.trim()) send(JSON.parse(line) as ChatWsServerMessage);
+        }
+      }
+    };
+    pump().catch(() => {});
+  }).catch((err: unknown) => {
+    console.error(`[WS] observe failed for ${sessionId}:`, err);
+  });
+
+  const titleHandler = ({ sessionId: sid, title }: { sessionId: string; title: string }) => {
+    if (sid === sessionId) send({ type: "chat_title_update", title });
+  };
+  observed.on("chat_title_update", titleHandler);
+
+  return () => {
+    stopped = true;
+    observed.off("chat_title_update", titleHandler);
+    // Cancelling the stream kills the observer's tail
+    reader?.cancel().catch(() => {});
+  };
+}
+
+/**
+ * Handles one client → session message (input queuing and queue edits,
+ * slash commands, message edits, permission answers, paging back through
+ * history), replying through `send`.
+ */
+function handleChatMessage(sessionId: string, msg: ChatWsClientMessage, send: (msg: ChatWsServerMessage) => void): void {
+  if (msg.type === "user_input") {
+    const invocation = msg.images?.length || msg.files?.length ? null : parseInvocation(msg.text);
+    if (invocation) {
+      handleSlashCommand(sessionId, msg.text, invocation, send);
+      return;
+    }
+    console.log(`[WS] Queuing user_input for session ${sessionId}: "${msg.text}"${msg.images?.length ? ` (+${msg.images.length} image(s))` : ""}${msg.files?.length ? ` (+${msg.files.length} file(s))` : ""}`);
+    engine.submit(sessionId, "ws-client", msg.text, msg.images, msg.files).catch((err: unknown) => {
+      console.error(`[WS] user_input failed:`, err);
+    });
+  } else if (msg.type === "permission_response") {
+    console.log(`[WS] Permission ${msg.decision} for ${msg.requestId} in session ${sessionId}`);
+    engine.respondToPermission(sessionId, msg.requestId, msg.decision, msg.message).catch((err: unknown) => {
+      console.error(`[WS] permission_response failed:`, err);
+    });
+  } else if (msg.type === "load_older") {
+    engine.readHistoryPage(sessionId, Number(msg.beforeTurn) || 0).then(page => {
+      send({ type: "history_page", ...page });
+    }).catch((err: unknown) => {
+      console.error(`[WS] load_older failed:`, err);
+    });
+  } else if (msg.type === "queue_edit" || msg.type === "queue_delete" || msg.type === "queue_reorder" || msg.type === "queue_send_now") {
+    const change = msg.type === "queue_edit" ? engine.editQueuedInput(sessionId, msg.inputId, msg.text)
+      : msg.type === "queue_delete" ? engine.deleteQueuedInput(sessionId, msg.inputId)
+      : msg.type === "queue_reorder" ? engine.reorderQueue(sessionId, msg.inputIds)
+      : engine.sendQueuedNow(sessionId, msg.inputId);
+    change.catch((err: unknown) => {
+      // Usually a race with the input being sent; resync the client's view
+      console.error(`[WS] ${msg.type} failed:`, err);
+      engine.readQueue(sessionId).then(queue => send({ type: "queue_update", queue })).catch(() => {});
+    });
+  } else if (msg.type === "edit_message") {
+    console.log(`[WS] Editing ${msg.itemId} in session ${sessionId}`);
+    engine.editMessage(sessionId, msg.itemId, msg.text, "ws-client").catch((err: unknown) => {
+      console.error(`[WS] edit_message failed:`, err);
+      send({ type: "edit_error", itemId: msg.itemId, error: err instanceof Error ? err.message : String(err) });
+    });
+  }
+}
+
+/**
+ * Runs a registered slash command. Text that only looks like one (a /name
+ * nothing is registered under, in the project or for the user) goes to
+ * Claude as typed.
+ */
+function handleSlashCommand(sessionId: string, text: string, invocation: { name: string; rawArgs: string }, send: (msg: ChatWsServerMessage) => void): void {
+  engine.getState(sessionId).then(async (state) => {
+    const command = commands.resolve(invocation.name, state?.projectPath);
+    if (!command) {
+      console.log(`[WS] No command /${invocation.name}; queuing as user_input for session ${sessionId}`);
+      await engine.submit(sessionId, "ws-client", text);
+      return;
+    }
+    console.log(`[WS] Running ${command.source} command /${command.name} for session ${sessionId}`);
+    await runCommand(command, invocation.rawArgs, {
+      sessionId,
+      submit: (prompt) => engine.submit(sessionId, "ws-client", prompt, undefined, undefined, "command"),
+      send,
+    });
+  }).catch((err: unknown) => {
+    console.error(`[WS] /${invocation.name} failed:`, err);
+    send({ type: "command_error", command: invocation.name, error: err instanceof Error ? err.message : String(err) });
+  });
+}
+
 server.on("upgrade", (req: IncomingMessage, socket, head) => {
-  if (req.url?.startsWith("/ws/chat/")) {
-    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  const urlPath = req.url?.split("?")[0] ?? "";
+  if (urlPath === "/ws" || urlPath.startsWith("/ws/chat/")) {
+    const device = authenticate(tokenFromRequest(req, true));
+    if (!device) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const sockets = deviceSockets.get(device.id) ?? new Set();
+      sockets.add(ws);
+      deviceSockets.set(device.id, sockets);
+      ws.on("close", () => sockets.delete(ws));
+      wss.emit("connection", ws, req);
+    });
   } else {
     socket.destroy();
   }
 });
 
 wss.on("connection", (ws, req: IncomingMessage) => {
-  const urlPath = req.url ?? "";
+  const urlPath = req.url?.split("?")[0] ?? "";
+
+  // Multiplexed WebSocket: /ws — many sessions plus global events
+  if (urlPath === "/ws") {
+    muxClients.add(ws);
+    const subscriptions = new Map<string, () => void>();
+    const send = (msg: MuxWsServerMessage) => {
+      if (ws.readyState === 1) ws.send(JSON.stringify(msg));
+    };
 
-  // Track this client for global broadcasts
-  allClients.add(ws);
-  ws.on("close", () => allClients.delete(ws));
+    ws.on("message", (raw) => {
+      let msg: MuxWsClientMessage;
+      try {
+        msg = JSON.parse(raw.toString()) as MuxWsClientMessage;
+      } catch {
+        return; // ignore malformed
+      }
+      // Any authenticated client can send anything; a throw here would take the server down
+      if (typeof msg !== "object" || msg === null || Array.isArray(msg)) {
+        send({ type: "error", error: "Expected a JSON object" });
+        return;
+      }
+      const { sessionId } = msg;
+      if (typeof sessionId !== "string" || !sessionId) {
+        send({ type: "error", error: "sessionId is required" });
+        return;
+      }
+      if (msg.type === "session" && (typeof msg.message !== "object" || msg.message === null)) {
+        send({ type: "error", sessionId, error: "message is required" });
+        return;
+      }
 
-  // Chat WebSocket: /ws/chat/{sessionId}
-  if (urlPath.startsWith("/ws/chat/")) {
-    const sessionId = urlPath.slice(9);
-    
-    // 1. Start Observation (Tailing the Movie)
-    engine.observe(sessionId, 0).then(stream => {
-      const reader = stream.getReader();
-      
-      const pump = async () => {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done || ws.readyState !== 1) break;
-          ws.send(value);
+      try {
+        if (msg.type === "subscribe") {
+          if (subscriptions.has(sessionId)) return;
+          const sinceSeq = Number(msg.sinceSeq) || 0;
+          console.log(`[WS] Mux subscribe ${sessionId}${sinceSeq ? ` since seq ${sinceSeq}` : ""} (${subscriptions.size + 1} on this socket)`);
+          subscriptions.set(sessionId, watchSession(sessionId, (message) => send({ type: "session", sessionId, message }), sinceSeq));
+        } else if (msg.type === "unsubscribe") {
+          subscriptions.get(sessionId)?.();
+          subscriptions.delete(sessionId);
+        } else if (msg.type === "session") {
+          handleChatMessage(sessionId, msg.message, (message) => send({ type: "session", sessionId, message }));
         }
-      };
-      
-      pump().catch(() => {});
+      } catch (err) {
+        console.error(`[WS] Mux message for ${sessionId} failed:`, err);
+        send({ type: "error", sessionId, error: String(err) });
+      }
     });
 
-    // 2. Forward chat_title_update engine events to this WebSocket
-    const titleHandler = ({ sessionId: sid, title }: { sessionId: string; title: string }) => {
-      if (sid === sessionId && ws.readyState === 1) {
-        ws.send(JSON.stringify({ type: "chat_title_update", title }) + "\n");
-      }
+    ws.on("close", () => {
+      muxClients.delete(ws);
+      for (const stop of subscriptions.values()) stop();
+      subscriptions.clear();
+    });
+    return;
+  }
+
+  // Chat WebSocket: /ws/chat/{sessionId}?since=N — one session per socket (kept for older clients)
+  if (urlPath.startsWith("/ws/chat/")) {
+    const sessionId = urlPath.slice(9);
+    const sinceSeq = Number(new URL(req.url ?? "", "http://localhost").searchParams.get("since")) || 0;
+    allClients.add(ws);
+    const send = (msg: ChatWsServerMessage) => {
+      if (ws.readyState === 1) ws.send(JSON.stringify(msg) + "\n");
     };
-    engine.on("chat_title_update", titleHandler);
 
-    // 3. Handle User Input (Queuing)
+    const stop = watchSession(sessionId, send, sinceSeq);
+
     ws.on("message", (raw) => {
       try {
-        const msg = JSON.parse(raw.toString()) as ChatWsClientMessage;
-        if (msg.type === "user_input") {
-          if (msg.text.trim() === "/clear") {
-            console.log(`[WS] /clear received for session ${sessionId} — interrupting Claude`);
-            engine.interrupt(sessionId).catch((err: unknown) => {
-              console.error(`[WS] interrupt failed:`, err);
-            });
-            ws.send(JSON.stringify({ type: "context_cleared" }));
-            return;
-          }
-          if (msg.text.trim() === "/plan") {
-            console.log(`[WS] /plan received for session ${sessionId} — substituting planning instruction`);
-            const planningInstruction = "Enter planning mode. Think through the problem step by step and present a complete plan. Do not take any actions — no file edits, no shell commands, no tool use — until the user explicitly tells you to proceed. Present the plan clearly so it can be reviewed and approved.";
-            engine.submit(sessionId, "ws-client", planningInstruction);
-            ws.send(JSON.stringify({ type: "plan_mode_entered" }));
-            return;
-          }
-          console.log(`[WS] Queuing user_input for session ${sessionId}: "${msg.text}"${msg.images?.length ? ` (+${msg.images.length} image(s))` : ""}${msg.files?.length ? ` (+${msg.files.length} file(s))` : ""}`);
-          engine.submit(sessionId, "ws-client", msg.text, msg.images, msg.files);
-        }
+        handleChatMessage(sessionId, JSON.parse(raw.toString()) as ChatWsClientMessage, send);
       } catch {
         // ignore malformed
       }
     });
 
     ws.on("close", () => {
-      engine.off("chat_title_update", titleHandler);
-      // Stream will close naturally via reader loop check
+      allClients.delete(ws);
+      stop();
     });
     return;
   }
@@ -640,20 +1378,36 @@ setInterval(() => {
   }
 }, 60 * 60 * 1000).unref();
 
-server.listen(7777, "0.0.0.0", () => {
-  console.log("aiMessage V4 (tmux engine) listening on http://0.0.0.0:7777");
+// AIMESSAGE_PORT lets the server test suite run one beside a live server
+const PORT = Number(process.env.AIMESSAGE_PORT) || 7777;
+
+server.listen(PORT, "0.0.0.0", () => {
+  console.log(`aiMessage V4 (tmux engine) listening on http://0.0.0.0:${PORT}`);
+
+  // Anyone with the server console may pair an admin device
+  const pairing = createPairingCode("admin");
+  // A live credential: console only, never server.log
+  originalLog(`[Auth] Admin pairing code: ${pairing.code} (valid 10 minutes)`);
 
   // Reconnect to any tmux sessions that survived the previous server instance
   engine.reconcile().catch(err => {
     console.error("[Boot] Reconciliation failed:", err);
+  }).then(() => {
+    // Scheduled jobs: handle runs missed while the server was down, then tick
+    return scheduler.start();
+  }).catch(err => {
+    console.error("[Boot] Scheduler start failed:", err);
   });
 
+  // Proactive heartbeat — checks ~/.aimessage/heartbeat.json every minute
+  heartbeat.start();
+
   // Automatically ensure Tailscale HTTPS tunnel is active
   try {
     const tsPath = "/Applications/Tailscale.app/Contents/MacOS/Tailscale";
     if (existsSync(tsPath)) {
       console.log("[Tailscale] Ensuring HTTPS tunnel is active...");
-      const out = execSync(`"${tsPath}" serve --bg 7777`).toString();
+      const out = execSync(`"${tsPath}" serve --bg ${PORT}`).toString();
       if (out.includes("https://")) {
         const url = out.match(/https:\/\/[^\s]+/)?.[0];
         if (url) console.log(`[Tailscale] External HTTPS URL: ${url}`);
@@ -2,6 +2,9 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 import { isNoise } from "./shared/filter-config.js";
+import { EMPTY_RULES, type PermissionRules } from "./lib/permissions.js";
+import type { UsageTotals } from "./shared/stream-types.js";
+import type { Budget } from "./lib/budgets.js";
 
 export type Project = {
   key: string;
@@ -9,6 +12,7 @@ export type Project = {
   name: string;
   lastActivity: Date;
   sessionCount: number;
+  usage: UsageTotals;   // summed over the project's engine sessions
 };
 
 export type Session = {
@@ -19,6 +23,8 @@ export type Session = {
   preview: string | null;
   created: Date;
   modified: Date;
+  usage: UsageTotals | null; // null for sessions the engine never ran
+  parentId: string | null;   // the session this one was forked from
 };
 
 const CLAUDE_PROJECTS = path.join(os.homedir(), ".claude", "projects");
@@ -30,18 +36,20 @@ type Metadata = {
   projectAliases: Record<string, string>; // projectKey OR path -> alias
   sessionAliases: Record<string, string>; // sessionId -> manual rename (wins forever)
   sessionTitles: Record<string, string>;  // sessionId -> auto-generated name
+  projectPermissions: Record<string, PermissionRules>; // projectKey -> tool allow/ask/deny rules
+  projectBudgets: Record<string, Budget>;              // projectKey -> daily/weekly spend limits
 };
 
 function loadMetadata(): Metadata {
   try {
     if (fs.existsSync(METADATA_FILE)) {
       const data = JSON.parse(fs.readFileSync(METADATA_FILE, "utf-8"));
-      return { projectAliases: {}, sessionAliases: {}, sessionTitles: {}, ...data };
+      return { projectAliases: {}, sessionAliases: {}, sessionTitles: {}, projectPermissions: {}, projectBudgets: {}, ...data };
     }
   } catch (err) {
     console.error("Failed to load metadata:", err);
   }
-  return { projectAliases: {}, sessionAliases: {}, sessionTitles: {} };
+  return { projectAliases: {}, sessionAliases: {}, sessionTitles: {}, projectPermissions: {}, projectBudgets: {} };
 }
 
 function saveMetadata(metadata: Metadata) {
@@ -80,6 +88,37 @@ export function getSessionTitle(id: string): string | undefined {
   return metadata.sessionTitles[id];
 }
 
+export function getProjectPermissions(projectKey: string): PermissionRules {
+  const metadata = loadMetadata();
+  return metadata.projectPermissions[projectKey] ?? EMPTY_RULES;
+}
+
+export function setProjectPermissions(projectKey: string, rules: PermissionRules) {
+  const metadata = loadMetadata();
+  metadata.projectPermissions[projectKey] = rules;
+  saveMetadata(metadata);
+}
+
+export function getProjectBudget(projectKey: string): Budget | undefined {
+  const metadata = loadMetadata();
+  return metadata.projectBudgets[projectKey];
+}
+
+export function setProjectBudget(projectKey: string, budget: Budget) {
+  const metadata = loadMetadata();
+  if (Object.keys(budget).length > 0) metadata.projectBudgets[projectKey] = budget;
+  else delete metadata.projectBudgets[projectKey];
+  saveMetadata(metadata);
+}
+
+/**
+ * Encodes a project path the way Claude names its vault directories
+ * under ~/.claude/projects (e.g. /Users/max/app → -Users-max-app).
+ */
+export function toProjectKey(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
 export function createProjectFolder(dirPath: string, name?: string): string {
   const cleaned = dirPath.trim().replace(/^['"`]+|['"`]+$/g, '');
   const projectPath = path.resolve(cleaned.replace(/^~/, os.homedir()));
@@ -128,6 +167,20 @@ function decodeProjectPath(key: string, dir: string): string {
   return key;
 }
 
+function sumUsage(sessions: Session[]): UsageTotals {
+  const total: UsageTotals = { turns: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0 };
+  for (const { usage } of sessions) {
+    if (!usage) continue;
+    total.turns += usage.turns;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cacheReadTokens += usage.cacheReadTokens;
+    total.cacheWriteTokens += usage.cacheWriteTokens;
+    total.costUsd += usage.costUsd;
+  }
+  return total;
+}
+
 export function listProjects(): Project[] {
   let entries: fs.Dirent[];
   try {
@@ -178,6 +231,7 @@ export function listProjects(): Project[] {
       name,
       lastActivity,
       sessionCount: actualSessions.length,
+      usage: sumUsage(actualSessions),
     });
   }
 
@@ -210,6 +264,8 @@ export function listSessions(projectKey: string): Session[] {
               preview: null,
               created: new Date(), // Shallow
               modified: new Date(meta.lastSeen || Date.now()),
+              usage: meta.usage ?? null,
+              parentId: meta.forkedFrom?.sessionId ?? null,
             });
           }
         }
@@ -234,6 +290,8 @@ export function listSessions(projectKey: string): Session[] {
           preview: null,
           created: stat.birthtime,
           modified: stat.mtime,
+          usage: null,
+          parentId: null,
         });
       }
     }
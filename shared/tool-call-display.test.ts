@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, getToolLabel, getToolView, highlightLine, mergeToolCall, registerToolRenderer, toolViewText, type ToolCallData } from "./tool-call-display.js";
+
+describe("tool call display", () => {
+  it("labels Claude's tool names", () => {
+    expect(getToolLabel("Bash", { command: "npm test\nnpm run build" })).toBe("Shell: npm test");
+    expect(getToolLabel("Read", { file_path: "/repo/src/app.ts" })).toBe("Read: app.ts");
+    expect(getToolLabel("TodoWrite", { todos: [{ content: "a", status: "completed" }, { content: "b", status: "pending" }] })).toBe("Todos: 1/2 done");
+    expect(getToolLabel("mcp__google__manage_event", {})).toBe("manage event");
+  });
+
+  it("diffs edits side by side, pairing removed lines with added ones", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc\nd")).toEqual([
+      { change: "same", left: { n: 1, text: "a" }, right: { n: 1, text: "a" } },
+      { change: "changed", left: { n: 2, text: "b" }, right: { n: 2, text: "B" } },
+      { change: "same", left: { n: 3, text: "c" }, right: { n: 3, text: "c" } },
+      { change: "added", right: { n: 4, text: "d" } },
+    ]);
+    const view = getToolView({ name: "MultiEdit", input: { file_path: "x.py", edits: [{ old_string: "a", new_string: "b" }, { old_string: "c", new_string: "" }] }, status: "completed" });
+    expect(view).toMatchObject({ type: "diff", language: "python" });
+    expect(view.type === "diff" && view.hunks.map(h => h.map(r => r.change))).toEqual([["changed"], ["removed"]]);
+  });
+
+  it("reads line numbers from Read results and exit codes from Bash results", () => {
+    const read = getToolView({ name: "Read", input: { file_path: "a.ts" }, result: "    41→const a = 1;\n    42\tlet b;\n\n<system-reminder>x</system-reminder>", status: "completed" });
+    expect(read).toEqual({ type: "file", path: "a.ts", language: "typescript", lines: [{ n: 41, text: "const a = 1;" }, { n: 42, text: "let b;" }] });
+
+    const failed = getToolView({ name: "Bash", input: { command: "ls nope" }, result: "Exit code 2\nls: nope: No such file", status: "failed" });
+    expect(failed).toEqual({ type: "shell", command: "ls nope", output: "ls: nope: No such file", exitCode: 2 });
+    expect(getToolView({ name: "Bash", input: { command: "sleep 9" }, status: "running" })).toMatchObject({ exitCode: null });
+    expect(toolViewText(failed)).toBe("$ ls nope\nls: nope: No such file\n[exit 2]");
+  });
+
+  it("keeps the name and input when the result arrives without them", () => {
+    const running: ToolCallData & { id: string } = { id: "t1", name: "Edit", input: { file_path: "a" }, status: "running" };
+    const done: ToolCallData & { id: string } = { id: "t1", name: "", input: {}, result: "ok", status: "completed" };
+    expect(mergeToolCall(running, done)).toEqual({ id: "t1", name: "Edit", input: { file_path: "a" }, result: "ok", status: "completed" });
+  });
+
+  it("falls back to a text view, and lets renderers be registered", () => {
+    expect(getToolView({ name: "Mystery", input: { a: 1 }, result: "done", status: "completed" })).toEqual({ type: "text", text: '{\n  "a": 1\n}\n\ndone' });
+    registerToolRenderer("Mystery", { label: () => "Mystery!", view: () => ({ type: "text", text: "custom" }) });
+    expect(getToolLabel("Mystery", {})).toBe("Mystery!");
+  });
+
+  it("highlights keywords, strings, numbers and comments", () => {
+    expect(highlightLine('const s = "x"; // 1', "typescript")).toEqual([
+      { text: "const", token: "keyword" }, { text: " s = " }, { text: '"x"', token: "string" }, { text: "; " }, { text: "// 1", token: "comment" },
+    ]);
+    expect(highlightLine("x = 42 # note", "python")).toEqual([{ text: "x = " }, { text: "42", token: "number" }, { text: " " }, { text: "# note", token: "comment" }]);
+    expect(highlightLine("plain text", "")).toEqual([{ text: "plain text" }]);
+  });
+});
@@ -1,3 +1,12 @@
+/**
+ * Tool renderer registry, shared by the web client and the surface app.
+ *
+ * A renderer turns one tool_call (Claude's tool name, its raw input and the
+ * stringified result) into a one-line label and a typed ToolView. The views
+ * are plain data; each UI draws them its own way, or falls back to
+ * toolViewText(). Tools without a renderer get a generic text view.
+ */
+
 export type ToolCallData = {
   name: string;
   input: any;
@@ -5,29 +14,333 @@ export type ToolCallData = {
   status: "running" | "completed" | "failed";
 };
 
+export type TodoItem = {
+  content: string;
+  activeForm?: string;               // shown while in progress ("Running tests")
+  status: "pending" | "in_progress" | "completed";
+};
+
+/** One row of a side-by-side diff; line numbers are within the edited text. */
+export type DiffRow = {
+  change: "same" | "removed" | "added" | "changed";
+  left?: { n: number; text: string };
+  right?: { n: number; text: string };
+};
+
+export type ToolView =
+  | { type: "diff"; path: string; language: string; hunks: DiffRow[][] }       // one hunk per edit
+  | { type: "file"; path: string; language: string; lines: { n: number; text: string }[] }
+  | { type: "shell"; command: string; description?: string; output: string; exitCode: number | null }
+  | { type: "todos"; todos: TodoItem[] }
+  | { type: "agent"; description: string; agentType: string; prompt: string; report?: string }
+  | { type: "text"; text: string };
+
+export type ToolRenderer = {
+  label: (input: any) => string;
+  view: (call: ToolCallData) => ToolView;
+};
+
+const renderers = new Map<string, ToolRenderer>();
+
+export function registerToolRenderer(name: string, renderer: ToolRenderer): void {
+  renderers.set(name, renderer);
+}
+
 export function getToolLabel(name: string, input: any): string {
-  switch (name) {
-    case "bash":
+  const renderer = renderers.get(name);
+  if (renderer) return renderer.label(input ?? {});
+  // mcp__google-workspace__manage_event → "manage event"
+  if (name.startsWith("mcp__")) return name.replace(/^mcp__[^_]+__/, "").replace(/_/g, " ");
+  return name;
+}
+
+export function getToolView(call: ToolCallData): ToolView {
+  const renderer = renderers.get(call.name);
+  if (renderer) return renderer.view({ ...call, input: call.input ?? {} });
+  const parts = [JSON.stringify(call.input ?? {}, null, 2)];
+  if (call.result !== undefined) parts.push(resultText(call.result));
+  return { type: "text", text: parts.join("\n\n") };
+}
+
+/**
+ * A tool_call arrives twice: running, with name and input, then with the
+ * result but neither (the result frame doesn't repeat them). Keeps both.
+ */
+export function mergeToolCall<T extends ToolCallData>(earlier: T, later: T): T {
+  return later.name ? later : { ...later, name: earlier.name, input: earlier.input };
+}
+
+/** How far through a todo list Claude is. */
+export function todoProgress(todos: TodoItem[]): { done: number; total: number } {
+  return { done: todos.filter(t => t.status === "completed").length, total: todos.length };
+}
+
+// ── Views ───────────────────────────────────────────────
+
+function resultText(result: unknown): string {
+  if (result === undefined || result === null) return "";
+  return typeof result === "string" ? result : JSON.stringify(result, null, 2);
+}
+
+function fileName(path: unknown): string {
+  return String(path ?? "").split("/").pop() || "file";
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.split("\n")[0];
+  return line.length > max ? line.slice(0, max - 3) + "..." : line;
+}
+
+/**
+ * Read results are `cat -n` style: a right-aligned line number, then a tab
+ * (or → in newer Claude versions), then the line. Anything else (notices
+ * appended to the file) is dropped.
+ */
+export function parseNumberedLines(result: string): { n: number; text: string }[] {
+  const lines: { n: number; text: string }[] = [];
+  for (const line of result.split("\n")) {
+    const m = line.match(/^\s*(\d+)(?:→|\t)(.*)$/);
+    if (m) lines.push({ n: Number(m[1]), text: m[2] });
+  }
+  return lines;
+}
+
+/** Bash results carry no exit code on success; failures start with "Exit code N". */
+export function parseShellResult(result: unknown, status: ToolCallData["status"]): { output: string; exitCode: number | null } {
+  const text = resultText(result);
+  if (status === "running") return { output: text, exitCode: null };
+  const m = text.match(/^(?:Error: )?Exit code (\d+)\n?/);
+  if (m) return { output: text.slice(m[0].length), exitCode: Number(m[1]) };
+  return { output: text, exitCode: status === "failed" ? 1 : 0 };
+}
+
+/**
+ * Line diff (longest common subsequence) laid out side by side: removed
+ * lines followed by added ones pair up as changed rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  // Past this, an LCS table gets expensive; show it as a full replacement
+  const lcs = a.length * b.length > 250_000 ? null : lcsTable(a, b);
+
+  const ops: { op: "same" | "removed" | "added"; text: string }[] = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (lcs && i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ op: "same", text: a[i] }); i++; j++;
+    } else if (i < a.length && (j >= b.length || !lcs || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ op: "removed", text: a[i++] });
+    } else {
+      ops.push({ op: "added", text: b[j++] });
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let left = 0, right = 0;
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].op === "same") {
+      rows.push({ change: "same", left: { n: ++left, text: ops[k].text }, right: { n: ++right, text: ops[k].text } });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].op === "removed") removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].op === "added") added.push(ops[k++].text);
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const l = r < removed.length ? { n: ++left, text: removed[r] } : undefined;
+      const rt = r < added.length ? { n: ++right, text: added[r] } : undefined;
+      rows.push({ change: l && rt ? "changed" : l ? "removed" : "added", left: l, right: rt });
+    }
+  }
+  return rows;
+}
+
+function lcsTable(a: string[], b: string[]): number[][] {
+  const t = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      t[i][j] = a[i] === b[j] ? t[i + 1][j + 1] + 1 : Math.max(t[i + 1][j], t[i][j + 1]);
+    }
+  }
+  return t;
+}
+
+/** Plain text for a view, for UIs that don't draw it (and for copying). */
+export function toolViewText(view: ToolView): string {
+  switch (view.type) {
+    case "diff":
+      return view.hunks.map(rows => rows.flatMap(r =>
+        r.change === "same" ? [`  ${r.left!.text}`] : [...(r.left ? [`- ${r.left.text}`] : []), ...(r.right ? [`+ ${r.right.text}`] : [])]
+      ).join("\n")).join("\n…\n");
+    case "file":
+      return view.lines.map(l => `${String(l.n).padStart(4)}  ${l.text}`).join("\n");
     case "shell":
-    case "run_command":
-      return `Shell: ${input.command || input.cmd || ""}`;
-    case "read_file":
-    case "read":
-      return `Read: ${input.path || input.filepath || ""}`;
-    case "write_file":
-    case "write":
-      return `Write: ${input.path || input.filepath || ""}`;
-    case "edit_file":
-    case "replace_content":
-      return `Edit: ${input.path || input.filepath || ""}`;
-    case "ls":
-    case "list_files":
-    case "list_directory":
-      return `List: ${input.path || input.dir_path || "."}`;
-    case "grep":
-    case "search":
-      return `Search: ${input.pattern || input.query || ""}`;
-    default:
-      return name;
+      return `$ ${view.command}\n${view.output}${view.exitCode ? `\n[exit ${view.exitCode}]` : ""}`;
+    case "todos":
+      return view.todos.map(t => `${t.status === "completed" ? "[x]" : t.status === "in_progress" ? "[~]" : "[ ]"} ${t.content}`).join("\n");
+    case "agent":
+      return view.report ? `${view.prompt}\n\n${view.report}` : view.prompt;
+    case "text":
+      return view.text;
   }
 }
+
+// ── Syntax highlighting ─────────────────────────────────
+
+export type HighlightToken = { text: string; token?: "keyword" | "string" | "comment" | "number" };
+
+const EXTENSIONS: Record<string, string> = {
+  ts: "typescript", tsx: "typescript", mts: "typescript", cts: "typescript",
+  js: "javascript", jsx: "javascript", mjs: "javascript", cjs: "javascript",
+  py: "python", sh: "shell", bash: "shell", zsh: "shell",
+  go: "go", rs: "rust", java: "java", c: "c", h: "c", cpp: "c", swift: "swift",
+  json: "json", yml: "yaml", yaml: "yaml", toml: "toml", css: "css", html: "html", md: "markdown",
+};
+
+const C_KEYWORDS = ["if", "else", "for", "while", "do", "switch", "case", "break", "continue", "return", "new", "class", "try", "catch", "finally", "throw", "static", "const", "true", "false", "null"];
+
+const KEYWORDS: Record<string, Set<string>> = {
+  typescript: new Set([...C_KEYWORDS, "import", "export", "from", "as", "function", "let", "var", "async", "await", "type", "interface", "extends", "implements", "private", "public", "readonly", "typeof", "instanceof", "in", "of", "undefined", "this", "default", "yield", "enum"]),
+  python: new Set(["def", "class", "return", "if", "elif", "else", "for", "while", "in", "not", "and", "or", "is", "import", "from", "as", "with", "try", "except", "finally", "raise", "lambda", "yield", "async", "await", "pass", "None", "True", "False", "self"]),
+  shell: new Set(["if", "then", "else", "elif", "fi", "for", "while", "do", "done", "case", "esac", "in", "function", "return", "export", "local", "echo", "exit"]),
+  go: new Set([...C_KEYWORDS, "func", "package", "import", "var", "type", "struct", "interface", "map", "chan", "go", "defer", "range", "nil"]),
+  rust: new Set([...C_KEYWORDS, "fn", "let", "mut", "pub", "use", "mod", "impl", "trait", "struct", "enum", "match", "loop", "self", "Self", "where", "async", "await"]),
+  json: new Set(["true", "false", "null"]),
+};
+KEYWORDS.javascript = KEYWORDS.typescript;
+KEYWORDS.java = KEYWORDS.c = KEYWORDS.swift = new Set([...C_KEYWORDS, "void", "int", "public", "private", "import", "let", "var", "func", "struct"]);
+
+const HASH_COMMENTS = new Set(["python", "shell", "yaml", "toml"]);
+
+export function languageFor(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSIONS[ext] ?? "";
+}
+
+/**
+ * Splits one line into tokens for coloring. Line by line, so a block
+ * comment or string spanning lines only colors its first line.
+ */
+export function highlightLine(text: string, language: string): HighlightToken[] {
+  const keywords = KEYWORDS[language];
+  if (!keywords && !HASH_COMMENTS.has(language)) return [{ text }];
+  const comment = HASH_COMMENTS.has(language) ? "#.*" : "\\/\\/.*|\\/\\*.*?(?:\\*\\/|$)";
+  const pattern = new RegExp(`(${comment})|("(?:[^"\\\\]|\\\\.)*"?|'(?:[^'\\\\]|\\\\.)*'?|\`(?:[^\`\\\\]|\\\\.)*\`?)|(\\b\\d[\\d_.xXa-fA-F]*\\b)|([A-Za-z_$][\\w$]*)`, "g");
+
+  const tokens: HighlightToken[] = [];
+  let plain = "";
+  let last = 0;
+  const flush = () => { if (plain) tokens.push({ text: plain }); plain = ""; };
+  for (const m of text.matchAll(pattern)) {
+    plain += text.slice(last, m.index);
+    last = m.index! + m[0].length;
+    const token = m[1] ? "comment" : m[2] ? "string" : m[3] ? "number" : keywords?.has(m[4]) ? "keyword" : undefined;
+    if (!token) { plain += m[0]; continue; }
+    flush();
+    tokens.push({ text: m[0], token });
+  }
+  plain += text.slice(last);
+  flush();
+  return tokens;
+}
+
+// ── Built-in renderers (Claude's tool names) ────────────
+
+registerToolRenderer("Bash", {
+  label: input => `Shell: ${truncate(String(input.command ?? ""), 60)}`,
+  view: ({ input, result, status }) => ({
+    type: "shell",
+    command: String(input.command ?? ""),
+    ...(input.description ? { description: String(input.description) } : {}),
+    ...parseShellResult(result, status),
+  }),
+});
+
+registerToolRenderer("Read", {
+  label: input => `Read: ${fileName(input.file_path)}`,
+  view: ({ input, result }) => {
+    const path = String(input.file_path ?? "");
+    const text = resultText(result);
+    const lines = parseNumberedLines(text);
+    return lines.length > 0 || !text ? { type: "file", path, language: languageFor(path), lines } : { type: "text", text };
+  },
+});
+
+registerToolRenderer("Write", {
+  label: input => `Write: ${fileName(input.file_path)}`,
+  view: ({ input }) => {
+    const path = String(input.file_path ?? "");
+    const lines = String(input.content ?? "").split("\n").map((text, i) => ({ n: i + 1, text }));
+    return { type: "file", path, language: languageFor(path), lines };
+  },
+});
+
+registerToolRenderer("Edit", {
+  label: input => `Edit: ${fileName(input.file_path)}`,
+  view: ({ input }) => {
+    const path = String(input.file_path ?? "");
+    return { type: "diff", path, language: languageFor(path), hunks: [diffLines(String(input.old_string ?? ""), String(input.new_string ?? ""))] };
+  },
+});
+
+registerToolRenderer("MultiEdit", {
+  label: input => `Edit: ${fileName(input.file_path)} (${Array.isArray(input.edits) ? input.edits.length : 0} changes)`,
+  view: ({ input }) => {
+    const path = String(input.file_path ?? "");
+    const edits: any[] = Array.isArray(input.edits) ? input.edits : [];
+    return { type: "diff", path, language: languageFor(path), hunks: edits.map(e => diffLines(String(e.old_string ?? ""), String(e.new_string ?? ""))) };
+  },
+});
+
+registerToolRenderer("Grep", {
+  label: input => `Search: "${truncate(String(input.pattern ?? ""), 40)}"${input.path ? ` in ${fileName(input.path)}` : ""}`,
+  view: ({ result }) => ({ type: "text", text: resultText(result) }),
+});
+
+registerToolRenderer("Glob", {
+  label: input => `Find: ${input.pattern ?? ""}`,
+  view: ({ result }) => ({ type: "text", text: resultText(result) }),
+});
+
+const agentRenderer: ToolRenderer = {
+  label: input => `Agent: ${input.description ?? truncate(String(input.prompt ?? ""), 40)}`,
+  view: ({ input, result }) => ({
+    type: "agent",
+    description: String(input.description ?? ""),
+    agentType: String(input.subagent_type ?? "general-purpose"),
+    prompt: String(input.prompt ?? ""),
+    ...(result !== undefined ? { report: resultText(result) } : {}),
+  }),
+};
+// Claude Code has called its sub-agent tool both names
+registerToolRenderer("Task", agentRenderer);
+registerToolRenderer("Agent", agentRenderer);
+
+registerToolRenderer("TodoWrite", {
+  label: input => {
+    const { done, total } = todoProgress(Array.isArray(input.todos) ? input.todos : []);
+    return `Todos: ${done}/${total} done`;
+  },
+  view: ({ input }) => ({
+    type: "todos",
+    todos: (Array.isArray(input.todos) ? input.todos : []).map((t: any) => ({
+      content: String(t.content ?? ""),
+      ...(t.activeForm ? { activeForm: String(t.activeForm) } : {}),
+      status: t.status === "completed" || t.status === "in_progress" ? t.status : "pending",
+    })),
+  }),
+});
+
+registerToolRenderer("WebFetch", {
+  label: input => {
+    try { return `Fetch: ${new URL(String(input.url)).hostname}`; } catch { return "Fetch"; }
+  },
+  view: ({ input, result }) => ({ type: "text", text: `${input.url ?? ""}\n\n${resultText(result)}`.trim() }),
+});
+
+registerToolRenderer("WebSearch", {
+  label: input => `Search the web: "${truncate(String(input.query ?? ""), 40)}"`,
+  view: ({ result }) => ({ type: "text", text: resultText(result) }),
+});
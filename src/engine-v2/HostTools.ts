@@ -0,0 +1,71 @@
+/**
+ * Host tools — tools the server itself offers Claude, served as an
+ * in-process ("sdk") MCP server named HOST_MCP_SERVER. Claude sees each
+ * one as mcp__aimessage__{name}.
+ *
+ * There is no MCP process: Claude's MCP client speaks JSON-RPC through the
+ * stream-json control protocol. Each message arrives in out.jsonl as an
+ * `mcp_message` control_request, and the engine writes the reply to
+ * Claude's input as the control_response — the same channel tool
+ * permissions use.
+ */
+
+export const HOST_MCP_SERVER = 'aimessage';
+
+/** --mcp-config for every Claude the engine starts (wrapper.sh spells out the same JSON). */
+export const HOST_MCP_CONFIG = JSON.stringify({ mcpServers: { [HOST_MCP_SERVER]: { type: 'sdk', name: HOST_MCP_SERVER } } });
+
+/** The session a tool call came from. */
+export type HostToolContext = {
+  sessionId: string;
+  projectPath: string;
+};
+
+export type HostTool = {
+  name: string;
+  description: string;                     // what Claude reads to decide when to call it
+  inputSchema: Record<string, unknown>;    // JSON Schema of the arguments
+  run: (ctx: HostToolContext, input: Record<string, unknown>) => Promise<string>;
+};
+
+type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: { name?: string; arguments?: Record<string, unknown>; protocolVersion?: string };
+};
+
+/**
+ * Answers one JSON-RPC message from Claude's MCP client. A failing tool is
+ * reported as an error result, so Claude sees the message rather than a
+ * protocol failure.
+ */
+export async function answerMcpMessage(tools: Map<string, HostTool>, ctx: HostToolContext, message: JsonRpcRequest): Promise<Record<string, unknown>> {
+  const result = (value: unknown) => ({ jsonrpc: '2.0', id: message.id, result: value });
+  const error = (code: number, text: string) => ({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+
+  switch (message.method) {
+    case 'initialize':
+      return result({
+        protocolVersion: message.params?.protocolVersion ?? '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: HOST_MCP_SERVER, version: '1.0.0' },
+      });
+    case 'notifications/initialized':
+      return { jsonrpc: '2.0', result: {} };
+    case 'tools/list':
+      return result({ tools: [...tools.values()].map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) });
+    case 'tools/call': {
+      const tool = tools.get(message.params?.name ?? '');
+      if (!tool) return error(-32602, `Unknown tool: ${message.params?.name}`);
+      try {
+        const text = await tool.run(ctx, message.params?.arguments ?? {});
+        return result({ content: [{ type: 'text', text }] });
+      } catch (err) {
+        return result({ content: [{ type: 'text', text: err instanceof Error ? err.message : String(err) }], isError: true });
+      }
+    }
+    default:
+      return error(-32601, `Method not found: ${message.method}`);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Indexed history reads: windows by turn, paging back, replay by seq, and
+ * rebuilding the index for journals written before it existed, and the
+ * branches edited messages start. Also the queue edits folded into in.jsonl,
+ * and hydrating from Claude's own transcript.
+ */
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { JournalManager } from './JournalManager.js';
+import { newSessionId } from './fake-claude/harness.js';
+
+async function journalWithTurns(turns: number, sessionId = newSessionId()): Promise<JournalManager> {
+  const journal = new JournalManager(sessionId);
+  await journal.ensureStorage();
+  for (let t = 1; t <= turns; t++) {
+    await journal.appendStreamItem({ kind: 'user_message', text: `question ${t}`, id: `u${t}` });
+    // Raw Claude frames sit between stream_items in the same file
+    await journal.appendOutput(JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: `raw ${t}` }] } }));
+    await journal.appendStreamItem({ kind: 'assistant_message', text: `answer ${t}`, id: `a${t}` });
+  }
+  return journal;
+}
+
+const texts = (items: any[]) => items.map(i => i.text);
+
+describe('JournalManager history index', () => {
+  it('windows the latest turns and pages backwards', async () => {
+    const journal = await journalWithTurns(5);
+
+    const latest = await journal.readHistoryWindow(2);
+    expect(texts(latest.items)).toEqual(['question 4', 'answer 4', 'question 5', 'answer 5']);
+    expect(latest).toMatchObject({ seq: 10, firstTurn: 4 });
+
+    const older = await journal.readHistoryWindow(2, latest.firstTurn);
+    expect(texts(older.items)).toEqual(['question 2', 'answer 2', 'question 3', 'answer 3']);
+    expect(older.firstTurn).toBe(2);
+
+    const oldest = await journal.readHistoryWindow(2, older.firstTurn);
+    expect(texts(oldest.items)).toEqual(['question 1', 'answer 1']);
+    expect(oldest.firstTurn).toBe(0);
+  });
+
+  it('replays only the items after a seq', async () => {
+    const journal = await journalWithTurns(3);
+
+    const replay = await journal.readHistorySince(3);
+    expect(texts(replay.items)).toEqual(['answer 2', 'question 3', 'answer 3']);
+    expect(replay.seq).toBe(6);
+    expect(replay.endOffset).toBe(fs.statSync(journal.getOutPath()).size);
+
+    const nothingNew = await journal.readHistorySince(6);
+    expect(nothingNew).toMatchObject({ items: [], seq: 6 });
+  });
+
+  it('rebuilds a missing index, including items from before seq existed', async () => {
+    const sessionId = newSessionId();
+    const writer = new JournalManager(sessionId);
+    await writer.ensureStorage();
+    await writer.appendOutput(JSON.stringify({ type: 'stream_item', item: { kind: 'user_message', text: 'legacy', id: 'old' } }));
+    await writer.appendStreamItem({ kind: 'notification', subject: 'First', id: 'n1', timestamp: '2026-01-01T00:00:00Z' });
+    await writer.appendStreamItem({ kind: 'user_message', text: 'current', id: 'u1' });
+    await writer.appendStreamItem({ kind: 'notification', subject: 'Second', id: 'n2', timestamp: '2026-01-02T00:00:00Z' });
+    fs.rmSync(writer.getIndexPath());
+
+    const reader = new JournalManager(sessionId);
+    expect(await reader.getTurnCount()).toBe(2);
+    expect(await reader.getLastSeq()).toBe(3);
+    expect((await reader.readLatestItem('notification'))?.subject).toBe('Second');
+    expect(texts((await reader.readHistoryWindow(10)).items)).toEqual(['legacy', undefined, 'current', undefined]);
+
+    // New writes continue the sequence and land in the rebuilt index
+    await reader.appendStreamItem({ kind: 'assistant_message', text: 'after', id: 'a1' });
+    expect(fs.readFileSync(reader.getIndexPath(), 'utf-8').trim().split('\n')).toHaveLength(5);
+  });
+
+  it('reads only the active branch, and earlier branches as they were', async () => {
+    const sessionId = newSessionId();
+    const journal = await journalWithTurns(3, sessionId);
+    // Editing question 2 (seq 3) sets aside turns 2 and 3
+    await journal.appendStreamItem({ kind: 'branch_started', branch: 1, fromSeq: 3, fromItemId: 'u2', id: 'b1' });
+    await journal.appendStreamItem({ kind: 'user_message', text: 'question 2, edited', id: 'u2e' });
+    await journal.appendStreamItem({ kind: 'assistant_message', text: 'answer 2, edited', id: 'a2e' });
+
+    expect(await journal.getTurnCount()).toBe(2);
+    expect(await journal.getActiveBranch()).toBe(1);
+    const latest = await journal.readHistoryWindow(1);
+    expect(texts(latest.items)).toEqual(['question 2, edited', 'answer 2, edited']);
+    expect(latest.firstTurn).toBe(2);
+    expect(texts((await journal.readHistoryWindow(1, latest.firstTurn)).items)).toEqual(['question 1', 'answer 1', undefined]);
+    expect(texts(await journal.readBranch(0))).toEqual(['question 1', 'answer 1', 'question 2', 'answer 2', 'question 3', 'answer 3']);
+
+    // A reader that saw the old branch gets no replay; the raw output drops it too
+    expect(await journal.readHistorySince(4)).toBeNull();
+    const raw = (await journal.readActiveOutput()).join('\n');
+    expect(raw).toContain('raw 1');
+    expect(raw).not.toContain('raw 2');
+
+    // The same turns after rebuilding the index
+    fs.rmSync(journal.getIndexPath());
+    const rebuilt = new JournalManager(sessionId);
+    expect(await rebuilt.getTurnCount()).toBe(2);
+    expect(texts((await rebuilt.readHistoryWindow(10)).items)).toEqual(['question 1', 'answer 1', undefined, 'question 2, edited', 'answer 2, edited']);
+  });
+
+  it('ends the tail offset on the last complete line', async () => {
+    const journal = await journalWithTurns(1);
+    const complete = fs.statSync(journal.getOutPath()).size;
+    fs.appendFileSync(journal.getOutPath(), '{"type":"assistant","mess');
+
+    expect(await journal.readOutputEndOffset()).toBe(complete);
+  });
+});
+
+describe('JournalManager input queue', () => {
+  it('folds edits, deletes and reorders into the input history', async () => {
+    const journal = new JournalManager(newSessionId());
+    await journal.ensureStorage();
+    for (const id of ['a', 'b', 'c', 'd']) {
+      await journal.appendInput({ id, clientId: 'test', type: 'user', text: `input ${id}` });
+    }
+    const at = new Date().toISOString();
+    await journal.appendInputOp({ op: 'edit', id: 'c', text: 'input c, fixed', timestamp: at });
+    await journal.appendInputOp({ op: 'reorder', ids: ['d', 'c', 'b'], timestamp: at });
+    await journal.appendInputOp({ op: 'delete', id: 'b', timestamp: at });
+    await journal.appendInput({ id: 'e', clientId: 'test', type: 'user', text: 'input e' });
+
+    expect(texts(await journal.readInputHistory())).toEqual(['input a', 'input d', 'input c, fixed', 'input e']);
+    expect((await journal.readQueuedInputs('d')).map(e => e.id)).toEqual(['c', 'e']);
+    expect((await journal.readQueuedInputs()).map(e => e.id)).toEqual(['a', 'd', 'c', 'e']);
+  });
+});
+
+describe('JournalManager hydration', () => {
+  it('imports a sub-agent\'s sidechain under the Task call that ran it', async () => {
+    const sessionId = newSessionId();
+    const projectPath = `/work/hydrate-${sessionId.slice(0, 8)}`;
+    const dir = path.join(os.homedir(), '.claude', 'projects', projectPath.replace(/\//g, '-'));
+    fs.mkdirSync(dir, { recursive: true });
+    const task = { type: 'tool_use', id: 'toolu_task', name: 'Task', input: { description: 'Look', prompt: 'Find the entry point' } };
+    const entries = [
+      { uuid: 'm1', type: 'user', message: { content: 'where does it start?' } },
+      { uuid: 'm2', type: 'assistant', message: { content: [task] } },
+      { uuid: 's1', isSidechain: true, type: 'user', message: { content: 'Find the entry point' } },
+      { uuid: 's2', parentUuid: 's1', isSidechain: true, type: 'assistant', message: { content: [{ type: 'text', text: 'server.ts' }] } },
+      // A sidechain nothing links to is still dropped
+      { uuid: 'x1', isSidechain: true, type: 'assistant', message: { content: [{ type: 'text', text: 'stray' }] } },
+      { uuid: 'm3', type: 'assistant', message: { content: [{ type: 'text', text: 'It starts in server.ts' }] } },
+    ];
+    fs.writeFileSync(path.join(dir, `${sessionId}.jsonl`), entries.map(e => JSON.stringify(e)).join('\n'));
+
+    const journal = new JournalManager(sessionId);
+    await journal.ensureStorage();
+    expect(await journal.hydrate(projectPath)).toBe(true);
+
+    const { items } = await journal.readHistoryWindow(10);
+    expect(items.map((i: any) => [i.kind, i.text ?? i.name, i.parentToolUseId])).toEqual([
+      ['user_message', 'where does it start?', undefined],
+      ['tool_call', 'Task', undefined],
+      ['assistant_message', 'server.ts', 'toolu_task'],
+      ['assistant_message', 'It starts in server.ts', undefined],
+    ]);
+  });
+});
@@ -5,6 +5,10 @@ import * as crypto from 'node:crypto';
 import { EventEmitter } from 'node:events';
 import { isNoise } from '../../shared/filter-config.js';
 import { ImageAttachment, FileAttachment } from '../../shared/stream-types.js';
+import type { TodoItem, Turn, UsageTotals } from '../../shared/stream-types.js';
+import type { BackendKind } from './SessionBackend.js';
+import type { PermissionMode } from '../../lib/permissions.js';
+import type { Budget } from '../../lib/budgets.js';
 
 export type SessionStatus = 'idle' | 'busy' | 'sleeping' | 'error';
 
@@ -13,28 +17,98 @@ export interface SessionMetadata {
   claudeSessionId?: string;
   projectPath: string;
   model: string;
+  backend?: BackendKind;      // how the Claude process is hosted (absent = engine default)
   status: SessionStatus;
   lastSeen: string;
   lastProcessedInputId?: string;
   lastResultAt?: string;      // timestamp of most recent result frame
   lastViewedAt?: string;      // timestamp of last active WebSocket observation
   createdAt?: string;         // timestamp when session was first created
+  lastSummarizedLine?: number; // out.jsonl line count already condensed into activity.db
+  permissionMode?: PermissionMode; // 'ask' routes tool calls through approval (absent = bypass)
+  sessionAllowRules?: string[];    // "allow for session" grants, same syntax as project rules
+  pinned?: boolean;                // exempt from the reaper's destroy rules
+  usage?: UsageTotals;             // running totals over turns.jsonl
+  budget?: Budget;                 // session spend limits, on top of the project's
+  budgetOverrideUntil?: string;    // budgets are not enforced before this time
+  contextSummary?: string;         // from /compact, prepended to the next input sent
+  forkedFrom?: { sessionId: string; itemId: string }; // parent session and the message it was forked at
+  todos?: TodoItem[];              // Claude's latest TodoWrite plan, cleared with the context
 }
 
 export interface InputEntry {
   id: string;
   clientId: string;
-  type: 'user' | 'system' | 'command';
+  type: 'user' | 'system' | 'command' | 'scheduled' | 'heartbeat';
   text: string;
   timestamp: string;
   images?: ImageAttachment[];
   files?: FileAttachment[];
 }
 
+/**
+ * A change to inputs that are still queued. in.jsonl stays append-only:
+ * these lines follow the entries they change and readInputHistory() folds
+ * them in. `reorder` lists the queued inputs in their new order.
+ */
+export type InputOp =
+  | { op: 'edit'; id: string; text: string; timestamp: string }
+  | { op: 'delete'; id: string; timestamp: string }
+  | { op: 'reorder'; ids: string[]; timestamp: string };
+
+/**
+ * One line of index.jsonl: where a stream_item sits in out.jsonl.
+ */
+export interface IndexEntry {
+  seq: number;        // 0 for items written before seq existed
+  offset: number;     // byte offset in out.jsonl at or before the item's line
+  turn: number;       // user_messages up to and including this item
+  kind: string;
+  id?: string;
+  from?: number;      // branch_started only: the first seq the new branch discards
+}
+
+export interface HistoryRead {
+  items: any[];       // stream items, oldest first
+  seq: number;        // highest seq covered
+  endOffset: number;  // where a live tail should pick up
+}
+
+export interface HistoryWindow extends HistoryRead {
+  firstTurn: number;  // oldest turn included; older turns exist when > 0
+}
+
+type StreamFrame = { seq?: number; item: any; offset: number };
+
+type BranchMarker = IndexEntry & { from: number };
+
+function branchMarkers(index: IndexEntry[]): BranchMarker[] {
+  return index.filter((e): e is BranchMarker => e.from !== undefined);
+}
+
+/**
+ * Editing a message starts a new branch: its branch_started marker discards
+ * every seq from `from` up to itself. Items from before seq existed (seq 0)
+ * can't be edited and are never discarded.
+ */
+function discardedBy(markers: BranchMarker[]): (seq: number) => boolean {
+  return seq => markers.some(m => seq >= m.from && seq < m.seq);
+}
+
+function activeEntries(index: IndexEntry[]): IndexEntry[] {
+  const discarded = discardedBy(branchMarkers(index));
+  return index.filter(e => !discarded(e.seq));
+}
+
+/** Turns on the active branch before `seq`, where a branch starting there picks up. */
+function turnBefore(index: IndexEntry[], seq: number): number {
+  return activeEntries(index).filter(e => e.seq < seq).pop()?.turn ?? 0;
+}
+
 /**
  * JournalManager handles the persistent filesystem state for a session.
- * It manages the Input Journal (in.jsonl), Output Journal (out.jsonl), 
- * and Metadata (metadata.json).
+ * It manages the Input Journal (in.jsonl), Output Journal (out.jsonl),
+ * its index (index.jsonl), and Metadata (metadata.json).
  */
 export class JournalManager extends EventEmitter {
   private baseDir: string;
@@ -77,6 +151,13 @@ export class JournalManager extends EventEmitter {
     return fullEntry;
   }
 
+  /**
+   * Appends an edit, delete or reorder of queued inputs to the Input Journal.
+   */
+  async appendInputOp(op: InputOp): Promise<void> {
+    await fs.appendFile(this.getInPath(), JSON.stringify(op) + '\n');
+  }
+
   /**
    * Appends a raw string/JSON block to the Output Journal.
    */
@@ -86,6 +167,235 @@ export class JournalManager extends EventEmitter {
     await fs.appendFile(filePath, line);
   }
 
+  private seqLock: Promise<unknown> = Promise.resolve();
+  private index: IndexEntry[] | null = null; // mirrors index.jsonl once loaded
+
+  /**
+   * Appends a UI stream_item to the Output Journal, stamped with the next
+   * sequence number, and records it in the index. Writes are serialized so
+   * seq order matches file order, which lets a reconnecting observer ask for
+   * "everything after N".
+   */
+  async appendStreamItem(item: { kind: string; id?: string; [key: string]: unknown }): Promise<number> {
+    const next = this.seqLock.then(async () => {
+      const index = await this.loadIndex();
+      const last = index[index.length - 1];
+      const seq = (last?.seq ?? 0) + 1;
+      const from = item.kind === 'branch_started' ? Number(item.fromSeq) : undefined;
+
+      // Taken before the append: Claude may write raw frames in between, so
+      // this is a lower bound on where the line lands, never past it
+      const offset = await this.outputSize();
+      await this.appendOutput(JSON.stringify({ type: 'stream_item', seq, item }));
+
+      const entry: IndexEntry = {
+        seq,
+        offset,
+        turn: (from === undefined ? last?.turn ?? 0 : turnBefore(index, from)) + (item.kind === 'user_message' ? 1 : 0),
+        kind: item.kind,
+        ...(item.id ? { id: item.id } : {}),
+        ...(from !== undefined ? { from } : {})
+      };
+      index.push(entry);
+      await fs.appendFile(this.getIndexPath(), JSON.stringify(entry) + '\n');
+      return seq;
+    });
+    this.seqLock = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Highest seq in out.jsonl (0 when empty or written before seq existed).
+   */
+  async getLastSeq(): Promise<number> {
+    const index = await this.ensureIndex();
+    return index[index.length - 1]?.seq ?? 0;
+  }
+
+  /**
+   * Number of user turns so far.
+   */
+  async getTurnCount(): Promise<number> {
+    const index = await this.ensureIndex();
+    return index[index.length - 1]?.turn ?? 0;
+  }
+
+  /**
+   * Reads the stream_items of the `turns` turns before `beforeTurn` (or the
+   * latest turns when omitted), on the active branch. Only that slice of
+   * out.jsonl is read.
+   */
+  async readHistoryWindow(turns: number, beforeTurn?: number): Promise<HistoryWindow> {
+    const index = await this.ensureIndex();
+    const active = activeEntries(index);
+    const endTurn = beforeTurn ?? (index[index.length - 1]?.turn ?? 0) + 1;
+    const firstTurn = Math.max(0, endTurn - turns);
+    const to = beforeTurn === undefined ? undefined : this.turnOffset(active, beforeTurn);
+    const { frames, endOffset } = await this.readStreamFrames(this.turnOffset(active, firstTurn) ?? 0, to);
+    const discarded = discardedBy(branchMarkers(index));
+    const kept = frames.filter(f => !discarded(f.seq ?? 0));
+    return {
+      items: kept.map(f => f.item),
+      seq: frames.reduce((max, f) => Math.max(max, f.seq ?? 0), 0),
+      firstTurn,
+      endOffset
+    };
+  }
+
+  /**
+   * Reads every stream_item after `sinceSeq`, to the end of out.jsonl. Null
+   * when a branch started since: items the reader has may have been discarded.
+   */
+  async readHistorySince(sinceSeq: number): Promise<HistoryRead | null> {
+    const index = await this.ensureIndex();
+    if (branchMarkers(index).some(m => m.seq > sinceSeq)) return null;
+    const first = index.find(e => e.seq > sinceSeq) ?? index[index.length - 1];
+    const { frames, endOffset } = await this.readStreamFrames(first?.offset ?? 0);
+    const newer = frames.filter(f => (f.seq ?? 0) > sinceSeq);
+    return {
+      items: newer.map(f => f.item),
+      seq: newer.reduce((max, f) => Math.max(max, f.seq ?? 0), sinceSeq),
+      endOffset
+    };
+  }
+
+  /**
+   * The branch new items land on: 0 until a message is edited, then one
+   * more per edit.
+   */
+  async getActiveBranch(): Promise<number> {
+    return branchMarkers(await this.ensureIndex()).length;
+  }
+
+  /**
+   * The stream_items of an earlier branch as they stood when the next edit
+   * replaced it (or of the active one). Reads out.jsonl up to that edit.
+   */
+  async readBranch(branch: number): Promise<any[]> {
+    const markers = branchMarkers(await this.ensureIndex());
+    if (!Number.isInteger(branch) || branch < 0 || branch > markers.length) throw new Error(`No branch ${branch}`);
+    const discarded = discardedBy(markers.slice(0, branch));
+    const { frames } = await this.readStreamFrames(0, markers[branch]?.offset);
+    return frames.filter(f => !discarded(f.seq ?? 0)).map(f => f.item);
+  }
+
+  /**
+   * The most recent stream_item of a kind, read from its slice of out.jsonl.
+   */
+  async readLatestItem(kind: string): Promise<any | null> {
+    const index = await this.ensureIndex();
+    const discarded = discardedBy(branchMarkers(index));
+    for (let i = index.length - 1; i >= 0; i--) {
+      if (index[i].kind !== kind || discarded(index[i].seq)) continue;
+      const { frames } = await this.readStreamFrames(index[i].offset, index[i + 1]?.offset);
+      return frames.find(f => f.item?.kind === kind)?.item ?? null;
+    }
+    return null;
+  }
+
+  private async ensureIndex(): Promise<IndexEntry[]> {
+    if (this.index) return this.index;
+    const next = this.seqLock.then(() => this.loadIndex());
+    this.seqLock = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Loads index.jsonl, then indexes any stream_items past its last entry —
+   * sessions from before the index existed, or a crash between the two
+   * appends. Only called under seqLock.
+   */
+  private async loadIndex(): Promise<IndexEntry[]> {
+    if (this.index) return this.index;
+
+    const entries: IndexEntry[] = [];
+    try {
+      const content = await fs.readFile(this.getIndexPath(), 'utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try { entries.push(JSON.parse(line)); } catch { /* torn write, skip */ }
+      }
+    } catch { /* no index yet */ }
+
+    const last = entries[entries.length - 1];
+    const { frames } = await this.readStreamFrames(last?.offset ?? 0);
+    const missing: IndexEntry[] = [];
+    let turn = last?.turn ?? 0;
+    for (const f of frames) {
+      if (last && (f.seq ?? 0) <= last.seq) continue;
+      const from = f.item?.kind === 'branch_started' ? Number(f.item.fromSeq) : undefined;
+      if (from !== undefined) turn = turnBefore(entries.concat(missing), from);
+      if (f.item?.kind === 'user_message') turn++;
+      missing.push({
+        seq: f.seq ?? 0,
+        offset: f.offset,
+        turn,
+        kind: f.item?.kind,
+        ...(f.item?.id ? { id: f.item.id } : {}),
+        ...(from !== undefined ? { from } : {})
+      });
+    }
+    if (missing.length > 0) {
+      await fs.appendFile(this.getIndexPath(), missing.map(e => JSON.stringify(e) + '\n').join(''));
+    }
+
+    this.index = entries.concat(missing);
+    return this.index;
+  }
+
+  /** Offset at or before the first item of `turn`; undefined past the last turn. */
+  private turnOffset(index: IndexEntry[], turn: number): number | undefined {
+    if (turn <= 0) return 0;
+    return index.find(e => e.turn >= turn)?.offset;
+  }
+
+  private async outputSize(): Promise<number> {
+    try {
+      return (await fs.stat(this.getOutPath())).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Parses the stream_items in out.jsonl between two byte offsets. With no
+   * `to`, reads to the last complete line and returns the offset past it.
+   * A range may start or end inside a raw Claude frame; the fragment
+   * doesn't parse and is skipped like any other non-stream_item line.
+   */
+  private async readStreamFrames(from: number, to?: number): Promise<{ frames: StreamFrame[]; endOffset: number }> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.getOutPath(), 'r');
+    } catch {
+      return { frames: [], endOffset: from };
+    }
+    try {
+      const size = (await handle.stat()).size;
+      const buf = Buffer.alloc(Math.max(0, Math.min(to ?? size, size) - from));
+      await handle.read(buf, 0, buf.length, from);
+      const complete = to === undefined ? buf.lastIndexOf(0x0a) + 1 : buf.length;
+
+      const frames: StreamFrame[] = [];
+      let pos = 0;
+      while (pos < complete) {
+        let nl = buf.indexOf(0x0a, pos);
+        if (nl === -1 || nl > complete) nl = complete;
+        const line = buf.subarray(pos, nl).toString('utf-8');
+        if (line.trim()) {
+          try {
+            const frame = JSON.parse(line);
+            if (frame.type === 'stream_item') frames.push({ seq: frame.seq, item: frame.item, offset: from + pos });
+          } catch { /* raw fragment or noise */ }
+        }
+        pos = nl + 1;
+      }
+      return { frames, endOffset: from + complete };
+    } finally {
+      await handle.close();
+    }
+  }
+
   /**
    * Reads the current metadata for the session.
    */
@@ -135,6 +445,25 @@ export class JournalManager extends EventEmitter {
     return path.join(this.sessionDir, 'out.jsonl');
   }
 
+  /** Partial-message frames for the turn in progress; never part of the journal. */
+  getPartialPath(): string {
+    return path.join(this.sessionDir, 'partial.jsonl');
+  }
+
+  async clearPartials(): Promise<void> {
+    try {
+      await fs.truncate(this.getPartialPath());
+    } catch { /* nothing streamed yet */ }
+  }
+
+  getIndexPath(): string {
+    return path.join(this.sessionDir, 'index.jsonl');
+  }
+
+  getTurnsPath(): string {
+    return path.join(this.sessionDir, 'turns.jsonl');
+  }
+
   getInPath(): string {
     return path.join(this.sessionDir, 'in.jsonl');
   }
@@ -168,30 +497,37 @@ export class JournalManager extends EventEmitter {
     }
 
     // 1. Get all current unique IDs in our local journal to prevent duplicates
-    const localHistory = await this.readOutputHistory();
-    const localStreamItems = localHistory.filter(line => {
-      try { return JSON.parse(line).type === 'stream_item'; } catch { return false; }
-    });
-    
-    console.log(`[Journal] Current local stream items: ${localStreamItems.length}`);
-    const knownIds = new Set(localHistory.map(line => {
-      try { 
-        const frame = JSON.parse(line);
-        return frame.item.id;
-      } catch { return null; }
-    }).filter(Boolean));
+    const index = await this.ensureIndex();
+    console.log(`[Journal] Current local stream items: ${index.length}`);
+    const knownIds = new Set(index.map(e => e.id).filter(Boolean));
 
     // 2. Read Vault
     const content = await fs.readFile(rawLogPath, 'utf-8');
     const rawLines = content.split('\n').filter(l => l.trim());
     console.log(`[Journal] Read ${rawLines.length} lines from Vault.`);
-    const outPath = this.getOutPath();
-
     let importCount = 0;
+    // Sidechain entries are a sub-agent's conversation. Its first entry is the
+    // Task tool's prompt; the rest chain back to it through parentUuid.
+    const taskByPrompt = new Map<string, string>();   // Task prompt → tool_use id
+    const sidechainTask = new Map<string, string>();  // sidechain entry uuid → tool_use id
     for (const line of rawLines) {
       try {
         const entry = JSON.parse(line);
-        if (entry.isSidechain === true) continue;
+        let parentToolUseId: string | undefined;
+        if (entry.isSidechain === true) {
+          const content = entry.message?.content;
+          const prompt = typeof content === "string" ? content : Array.isArray(content) ? content.map((b: any) => b.text || "").join("") : "";
+          parentToolUseId = sidechainTask.get(entry.parentUuid) ?? (entry.type === "user" ? taskByPrompt.get(prompt) : undefined);
+          if (!parentToolUseId) continue;
+          if (entry.uuid) sidechainTask.set(entry.uuid, parentToolUseId);
+          if (entry.type === "user") continue; // the prompt, or tool results
+        }
+        const parent = parentToolUseId ? { parentToolUseId } : {};
+        if (!parentToolUseId && Array.isArray(entry.message?.content)) {
+          for (const b of entry.message.content) {
+            if (b?.type === 'tool_use' && (b.name === 'Task' || b.name === 'Agent') && b.id && b.input?.prompt) taskByPrompt.set(b.input.prompt, b.id);
+          }
+        }
 
         // Use the original Claude UUID as our primary key
         const claudeId = entry.uuid || entry.message?.id || crypto.randomBytes(3).toString('hex');
@@ -215,18 +551,17 @@ export class JournalManager extends EventEmitter {
           for (const block of contents) {
             const b = typeof block === 'string' ? { type: 'text', text: block } : block;
             if (b.type === 'text' && b.text && !isNoise(b.text)) {
-              items.push({ kind: 'assistant_message', text: b.text, id: claudeId, timestamp: new Date().toISOString() });
+              items.push({ kind: 'assistant_message', text: b.text, id: claudeId, timestamp: new Date().toISOString(), ...parent });
             } else if (b.type === 'thinking' || b.type === 'thought') {
-              items.push({ kind: 'thought', text: b.thinking || b.text, status: 'ready', id: claudeId + '-thought', timestamp: new Date().toISOString() });
+              items.push({ kind: 'thought', text: b.thinking || b.text, status: 'ready', id: claudeId + '-thought', timestamp: new Date().toISOString(), ...parent });
             } else if (b.type === 'tool_use') {
-              items.push({ kind: 'tool_call', name: b.name, input: b.input, status: 'completed', id: b.id || claudeId, timestamp: new Date().toISOString() });
+              items.push({ kind: 'tool_call', name: b.name, input: b.input, status: 'completed', id: b.id || claudeId, timestamp: new Date().toISOString(), ...parent });
             }
           }
         }
 
         for (const item of items) {
-          const uiFrame = { type: 'stream_item', item };
-          await fs.appendFile(outPath, JSON.stringify(uiFrame) + '\n');
+          await this.appendStreamItem(item);
           knownIds.add(item.id);
           importCount++;
         }
@@ -247,16 +582,125 @@ export class JournalManager extends EventEmitter {
   }
 
   /**
-   * Reads all inputs from the journal.
+   * readOutputHistory() on the active branch: each branch_started marker
+   * drops every line, raw Claude frames included, from the message it
+   * replaced up to itself.
+   */
+  async readActiveOutput(): Promise<string[]> {
+    const kept: string[] = [];
+    const seqs: number[] = []; // per kept line; 0 for raw frames
+    for (const line of await this.readOutputHistory()) {
+      let frame: any = null;
+      try { frame = JSON.parse(line); } catch { /* raw fragment */ }
+      const isItem = frame?.type === 'stream_item';
+      if (isItem && frame.item?.kind === 'branch_started') {
+        const at = seqs.indexOf(frame.item.fromSeq);
+        if (at >= 0) kept.length = seqs.length = at;
+      }
+      kept.push(line);
+      seqs.push(isItem ? frame.seq ?? 0 : 0);
+    }
+    return kept;
+  }
+
+  /**
+   * Byte offset just past the last complete line of out.jsonl, so a
+   * `tail -c +offset+1` starts on a line boundary. Reads backwards from the
+   * end rather than loading the file.
+   */
+  async readOutputEndOffset(): Promise<number> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.getOutPath(), 'r');
+    } catch {
+      return 0;
+    }
+    try {
+      const chunk = Buffer.alloc(64 * 1024);
+      let end = (await handle.stat()).size;
+      while (end > 0) {
+        const start = Math.max(0, end - chunk.length);
+        const { bytesRead } = await handle.read(chunk, 0, end - start, start);
+        const nl = chunk.subarray(0, bytesRead).lastIndexOf(0x0a);
+        if (nl !== -1) return start + nl + 1;
+        end = start;
+      }
+      return 0;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Appends a completed turn to turns.jsonl.
+   */
+  async appendTurn(turn: Turn): Promise<void> {
+    await fs.appendFile(this.getTurnsPath(), JSON.stringify(turn) + '\n');
+  }
+
+  /**
+   * Reads every recorded turn, oldest first.
+   */
+  async readTurns(): Promise<Turn[]> {
+    try {
+      const content = await fs.readFile(this.getTurnsPath(), 'utf-8');
+      const turns: Turn[] = [];
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try { turns.push(JSON.parse(line)); } catch { /* torn write, skip */ }
+      }
+      return turns;
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Reads all inputs from the journal, in processing order, with edits,
+   * deletes and reorders applied.
    */
   async readInputHistory(): Promise<InputEntry[]> {
+    let content: string;
     try {
-      const content = await fs.readFile(this.getInPath(), 'utf-8');
-      return content.split('\n')
-        .filter(line => line.trim().length > 0)
-        .map(line => JSON.parse(line));
+      content = await fs.readFile(this.getInPath(), 'utf-8');
     } catch {
       return [];
     }
+
+    let entries: InputEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      let record: InputEntry | InputOp;
+      try { record = JSON.parse(line); } catch { continue; /* torn write */ }
+
+      if (!('op' in record)) {
+        entries.push(record);
+      } else if (record.op === 'edit') {
+        const { id, text } = record;
+        entries = entries.map(e => e.id === id ? { ...e, text } : e);
+      } else if (record.op === 'delete') {
+        const { id } = record;
+        entries = entries.filter(e => e.id !== id);
+      } else if (record.op === 'reorder') {
+        // The listed inputs were the queue's tail; lay them back down in the new order
+        const moved = new Map(entries.filter(e => record.ids.includes(e.id)).map(e => [e.id, e]));
+        const at = entries.findIndex(e => moved.has(e.id));
+        if (at < 0) continue;
+        const rest = entries.filter(e => !moved.has(e.id));
+        const ordered = record.ids.map(id => moved.get(id)).filter((e): e is InputEntry => !!e);
+        entries = [...rest.slice(0, at), ...ordered, ...rest.slice(at)];
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Inputs still waiting behind the last one sent to Claude.
+   */
+  async readQueuedInputs(lastProcessedInputId?: string): Promise<InputEntry[]> {
+    const history = await this.readInputHistory();
+    if (!lastProcessedInputId) return history;
+    const idx = history.findIndex(e => e.id === lastProcessedInputId);
+    return idx >= 0 ? history.slice(idx + 1) : history;
   }
 }
@@ -2,7 +2,6 @@ import { execSync } from 'node:child_process';
 import { EventEmitter } from 'node:events';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import * as fs from 'node:fs/promises';
 
 export interface MuxSession {
   sessionId: string;
@@ -10,12 +9,19 @@ export interface MuxSession {
   pid: number | null;
 }
 
+export interface MuxOptions {
+  claudeCommand?: string;   // Claude executable passed to wrapper.sh (default: AIMESSAGE_CLAUDE_BIN, else wrapper's ~/.local/bin/claude)
+}
+
 /**
  * MuxManager handles the tmux lifecycle (The "Glass Office").
  */
 export class MuxManager extends EventEmitter {
-  constructor() {
+  private claudeCommand: string | undefined;
+
+  constructor(options: MuxOptions = {}) {
     super();
+    this.claudeCommand = options.claudeCommand || process.env.AIMESSAGE_CLAUDE_BIN || undefined;
   }
 
   private getMuxName(sessionId: string): string {
@@ -43,7 +49,8 @@ export class MuxManager extends EventEmitter {
     const wrapperPath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'wrapper.sh');
 
     // Launch wrapper.sh inside tmux — wrapper handles its own restart loop
-    const cmd = `bash ${this.shellEscape(wrapperPath)} ${this.shellEscape(sessionDir)} ${this.shellEscape(model)} ${this.shellEscape(projectDir)}`;
+    let cmd = `bash ${this.shellEscape(wrapperPath)} ${this.shellEscape(sessionDir)} ${this.shellEscape(model)} ${this.shellEscape(projectDir)}`;
+    if (this.claudeCommand) cmd += ` ${this.shellEscape(this.claudeCommand)}`;
     execSync(`tmux new-session -d -s ${this.shellEscape(muxName)} ${this.shellEscape(cmd)}`);
 
     // Poll until session is confirmed alive (max 2s)
@@ -107,22 +114,4 @@ export class MuxManager extends EventEmitter {
       execSync(`tmux send-keys -t ${this.shellEscape(muxName)} C-c`);
     } catch { /* session might not exist */ }
   }
-
-  async reconcileSessions(sessionsBaseDir: string): Promise<{ alive: string[], orphaned: string[] }> {
-    const tmuxSessions = await this.listActiveSessions();
-    const alive: string[] = [];
-    const orphaned: string[] = [];
-
-    for (const sessionId of tmuxSessions) {
-      const metadataPath = path.join(sessionsBaseDir, sessionId, 'metadata.json');
-      try {
-        await fs.access(metadataPath);
-        alive.push(sessionId);
-      } catch {
-        orphaned.push(sessionId);
-      }
-    }
-
-    return { alive, orphaned };
-  }
 }
@@ -0,0 +1,180 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as readline from 'node:readline';
+import { spawn, ChildProcess } from 'node:child_process';
+import type { Writable } from 'node:stream';
+import { isPartialFrame, type SessionBackend, type SessionLaunchOptions } from './SessionBackend.js';
+import { HOST_MCP_CONFIG } from './HostTools.js';
+
+export interface ProcessBackendOptions {
+  command?: string;     // Claude executable (default AIMESSAGE_CLAUDE_BIN, else ~/.local/bin/claude)
+  args?: string[];      // extra args placed before the stream-json flags
+}
+
+interface HostedSession {
+  options: SessionLaunchOptions;
+  child: ChildProcess | null;
+}
+
+/**
+ * ProcessBackend — hosts Claude as a plain child of the server, no tmux.
+ *
+ * Mirrors wrapper.sh without the supervisor loop: each openInput() spawns
+ * Claude with stdout appended to out.jsonl (partial-message frames to
+ * partial.jsonl, split line by line) and returns its stdin. When the
+ * engine ends stdin, Claude exits and a system marker is written, exactly
+ * as the wrapper does. The next openInput() starts a new Claude that
+ * resumes from resume_id.
+ *
+ * Children die with the server, so these sessions are not reattached by
+ * reconcile() — they are re-created on the next wake instead.
+ */
+export class ProcessBackend implements SessionBackend {
+  readonly kind = 'process' as const;
+  private sessions = new Map<string, HostedSession>();
+  private command: string;
+  private args: string[];
+
+  constructor(options: ProcessBackendOptions = {}) {
+    this.command = options.command || process.env.AIMESSAGE_CLAUDE_BIN || path.join(os.homedir(), '.local', 'bin', 'claude');
+    this.args = options.args || [];
+  }
+
+  async exists(sessionId: string): Promise<boolean> {
+    return this.sessions.has(sessionId);
+  }
+
+  async create(sessionId: string, options: SessionLaunchOptions): Promise<void> {
+    await fs.promises.mkdir(options.sessionDir, { recursive: true });
+    await fs.promises.appendFile(path.join(options.sessionDir, 'out.jsonl'), '');
+    this.sessions.set(sessionId, { options, child: null });
+  }
+
+  async openInput(sessionId: string, sessionDir: string): Promise<Writable> {
+    const hosted = this.sessions.get(sessionId);
+    if (!hosted) throw new Error(`No process host for ${sessionId} — create() first`);
+
+    // Let a previous Claude finish exiting before starting the next one
+    if (hosted.child && hosted.child.exitCode === null && hosted.child.signalCode === null) {
+      const previous = hosted.child;
+      previous.stdin?.end();
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => { previous.kill('SIGTERM'); resolve(); }, 5000);
+        previous.once('close', () => { clearTimeout(timer); resolve(); });
+      });
+    }
+
+    const outPath = path.join(sessionDir, 'out.jsonl');
+    const partialPath = path.join(sessionDir, 'partial.jsonl');
+    const errPath = path.join(sessionDir, 'err.log');
+
+    // Same late-binding as wrapper.sh: resume id, model and permission mode are read at spawn time
+    let model = hosted.options.model;
+    let permissionArgs = ['--dangerously-skip-permissions'];
+    try {
+      const meta = JSON.parse(await fs.promises.readFile(path.join(sessionDir, 'metadata.json'), 'utf-8'));
+      if (meta.model) model = meta.model;
+      if (meta.permissionMode === 'ask') permissionArgs = ['--permission-prompt-tool', 'stdio'];
+    } catch { /* keep launch model */ }
+
+    const resumeArgs: string[] = [];
+    try {
+      const resumeId = (await fs.promises.readFile(path.join(sessionDir, 'resume_id'), 'utf-8')).trim();
+      if (resumeId) resumeArgs.push('--resume', resumeId);
+    } catch { /* fresh conversation */ }
+    if (resumeArgs.length > 0) {
+      try {
+        // A fork: continue a copy of the conversation, cut after the reply in fork_at
+        const forkAt = (await fs.promises.readFile(path.join(sessionDir, 'fork_at'), 'utf-8')).trim();
+        resumeArgs.push('--fork-session', ...(forkAt ? ['--resume-session-at', forkAt] : []));
+      } catch { /* not a fork */ }
+    }
+
+    const args = [
+      ...this.args,
+      '-p',
+      '--input-format', 'stream-json',
+      '--output-format', 'stream-json',
+      ...permissionArgs,
+      '--verbose',
+      '--include-partial-messages',
+      '--mcp-config', HOST_MCP_CONFIG,
+      '--model', model,
+      ...resumeArgs,
+    ];
+
+    // Clean environment so Claude doesn't think it's inside another Claude
+    const env = { ...process.env };
+    delete env.CLAUDE_CODE;
+    delete env.CLAUDECODE;
+    delete env.TERM_PROGRAM;
+    delete env.TERM_PROGRAM_VERSION;
+
+    const errFd = fs.openSync(errPath, 'a');
+    fs.appendFileSync(errPath, `[process] Starting Claude (model=${model}, resume=${resumeArgs[1] || ''}${resumeArgs.includes('--fork-session') ? ' (fork)' : ''}, dir=${hosted.options.projectDir})\n`);
+
+    let child: ChildProcess;
+    try {
+      child = spawn(this.command, args, {
+        cwd: hosted.options.projectDir,
+        env,
+        stdio: ['pipe', 'pipe', errFd],
+      });
+    } finally {
+      fs.closeSync(errFd);
+    }
+    hosted.child = child;
+
+    const out = fs.createWriteStream(outPath, { flags: 'a' });
+    const partial = fs.createWriteStream(partialPath, { flags: 'a' });
+    for (const stream of [out, partial]) stream.on('error', () => { /* session directory deleted by destroy() */ });
+    readline.createInterface({ input: child.stdout! }).on('line', (line) => {
+      (isPartialFrame(line) ? partial : out).write(line + '\n');
+    });
+
+    child.on('exit', (code) => {
+      if (hosted.child === child) hosted.child = null;
+      try {
+        fs.appendFileSync(errPath, `[process] Claude exited (code=${code})\n`);
+      } catch { /* session directory deleted by destroy() */ }
+    });
+
+    // Once stdout is drained, so the marker lands after Claude's last frame.
+    // Raw host_event: the engine's transform watcher turns it into a sequenced system item
+    child.on('close', () => {
+      const marker = {
+        type: 'host_event',
+        text: '[process] Claude process exited, awaiting reconnection...',
+        timestamp: new Date().toISOString()
+      };
+      out.end(JSON.stringify(marker) + '\n');
+      partial.end();
+    });
+
+    return new Promise((resolve, reject) => {
+      child.once('spawn', () => resolve(child.stdin!));
+      child.once('error', (err) => {
+        if (hosted.child === child) hosted.child = null;
+        out.destroy();
+        partial.destroy();
+        reject(err);
+      });
+    });
+  }
+
+  async interrupt(sessionId: string): Promise<void> {
+    this.sessions.get(sessionId)?.child?.kill('SIGINT');
+  }
+
+  async kill(sessionId: string): Promise<void> {
+    const hosted = this.sessions.get(sessionId);
+    if (!hosted) return;
+    hosted.child?.kill('SIGTERM');
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+}
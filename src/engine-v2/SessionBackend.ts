@@ -0,0 +1,68 @@
+import { execSync } from 'node:child_process';
+import type { Writable } from 'node:stream';
+
+export type BackendKind = 'tmux' | 'process';
+
+export interface SessionLaunchOptions {
+  sessionDir: string;   // ~/.aimessage/sessions/{id} — out.jsonl, partial.jsonl, err.log, resume_id live here
+  model: string;
+  projectDir: string;   // cwd for the Claude process
+}
+
+/**
+ * SessionBackend — how a Claude process is hosted for one session.
+ *
+ * Whatever the host, the contract with the engine is the same:
+ *   - Claude's stdout is appended to {sessionDir}/out.jsonl, except its
+ *     partial-message frames (isPartialFrame), which go to
+ *     {sessionDir}/partial.jsonl — the engine empties that after every turn
+ *   - the engine writes stream-json input to the channel from openInput()
+ *   - ending that channel gives Claude EOF; the next openInput() starts a
+ *     fresh Claude (resuming from {sessionDir}/resume_id when present, as a
+ *     fork of it when {sessionDir}/fork_at is present too)
+ */
+export interface SessionBackend {
+  readonly kind: BackendKind;
+
+  /** True if the host for this session is alive (whether or not Claude is running). */
+  exists(sessionId: string): Promise<boolean>;
+
+  /** Starts the host for a session. Claude itself starts on the first openInput(). */
+  create(sessionId: string, options: SessionLaunchOptions): Promise<void>;
+
+  /** Opens the input channel, starting Claude if needed. Resolves once writable. */
+  openInput(sessionId: string, sessionDir: string): Promise<Writable>;
+
+  /** Interrupts the current Claude turn (Ctrl-C semantics). */
+  interrupt(sessionId: string): Promise<void>;
+
+  /** Tears the host down entirely. */
+  kill(sessionId: string): Promise<void>;
+
+  /** IDs of all sessions this backend currently hosts. */
+  list(): Promise<string[]>;
+}
+
+/**
+ * True for a `stream_event` line, one of the partial-message frames
+ * --include-partial-messages adds. Matched on the raw line, as wrapper.sh
+ * does with grep, so hosts can route output without parsing it.
+ */
+export function isPartialFrame(line: string): boolean {
+  return line.startsWith('{"type":"stream_event"');
+}
+
+/**
+ * Picks the backend for new sessions: AIMESSAGE_BACKEND if set,
+ * otherwise tmux when it is installed, else a plain child process.
+ */
+export function detectDefaultBackend(): BackendKind {
+  const fromEnv = process.env.AIMESSAGE_BACKEND;
+  if (fromEnv === 'tmux' || fromEnv === 'process') return fromEnv;
+  try {
+    execSync('command -v tmux', { stdio: 'ignore' });
+    return 'tmux';
+  } catch {
+    return 'process';
+  }
+}
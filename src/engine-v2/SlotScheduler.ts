@@ -0,0 +1,86 @@
+import type { InputEntry } from './JournalManager.js';
+
+/** Interactive input (someone typing) is granted a slot before background work. */
+export type SlotPriority = 'interactive' | 'background';
+
+const PRIORITY_RANK: Record<SlotPriority, number> = { interactive: 0, background: 1 };
+
+// Clients that submit on nobody's behalf; their inputs wait behind interactive ones
+const BACKGROUND_CLIENTS = new Set(['heartbeat', 'scheduler']);
+
+export function priorityOf(entry: InputEntry): SlotPriority {
+  return entry.type === 'scheduled' || BACKGROUND_CLIENTS.has(entry.clientId) ? 'background' : 'interactive';
+}
+
+interface Waiter {
+  sessionId: string;
+  priority: SlotPriority;
+  since: number;
+}
+
+/**
+ * SlotScheduler — sessions waiting for one of the engine's concurrent slots.
+ *
+ * Ordered by priority, then by how long each has waited. The engine decides
+ * when a slot is free; this only answers who gets it and where everyone stands.
+ */
+export class SlotScheduler {
+  private waiters: Waiter[] = [];
+
+  get size(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Queues a session (or raises its priority if it is already waiting).
+   * Returns its 1-based position.
+   */
+  enqueue(sessionId: string, priority: SlotPriority): number {
+    const existing = this.waiters.find(w => w.sessionId === sessionId);
+    if (!existing) {
+      this.waiters.push({ sessionId, priority, since: Date.now() });
+    } else if (PRIORITY_RANK[priority] < PRIORITY_RANK[existing.priority]) {
+      existing.priority = priority;
+    }
+    this.waiters.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.since - b.since);
+    return this.positionOf(sessionId)!;
+  }
+
+  remove(sessionId: string): boolean {
+    const before = this.waiters.length;
+    this.waiters = this.waiters.filter(w => w.sessionId !== sessionId);
+    return this.waiters.length !== before;
+  }
+
+  /** The session next in line, if any. */
+  peek(): string | undefined {
+    return this.waiters[0]?.sessionId;
+  }
+
+  /** 1-based place in line, or undefined if the session isn't waiting. */
+  positionOf(sessionId: string): number | undefined {
+    const idx = this.waiters.findIndex(w => w.sessionId === sessionId);
+    return idx >= 0 ? idx + 1 : undefined;
+  }
+
+  list(): Array<{ sessionId: string; priority: SlotPriority; position: number; waitingMs: number }> {
+    const now = Date.now();
+    return this.waiters.map((w, i) => ({ sessionId: w.sessionId, priority: w.priority, position: i + 1, waitingMs: now - w.since }));
+  }
+}
+
+/** What the eviction score looks at for one idle, awake session. */
+export interface EvictionCandidate {
+  idleMs: number;         // since its last activity
+  observers: number;      // open chat views
+  background: boolean;    // its last input came from background work
+}
+
+/**
+ * Higher scores are evicted first: minutes idle, plus 30 when nobody is
+ * watching and 15 when it was last doing background work. A watched session
+ * has to sit idle half an hour longer than an unwatched one to lose its slot.
+ */
+export function evictionScore({ idleMs, observers, background }: EvictionCandidate): number {
+  return idleMs / 60000 + (observers === 0 ? 30 : 0) + (background ? 15 : 0);
+}
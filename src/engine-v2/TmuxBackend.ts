@@ -0,0 +1,77 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Writable } from 'node:stream';
+import { MuxManager, MuxOptions } from './MuxManager.js';
+import type { SessionBackend, SessionLaunchOptions } from './SessionBackend.js';
+
+/**
+ * TmuxBackend — hosts Claude inside a tmux session running wrapper.sh.
+ *
+ * The input channel is {sessionDir}/input.fifo. Opening it for writing
+ * unblocks wrapper.sh, which starts Claude reading from the FIFO; closing
+ * it gives Claude EOF and the wrapper loops back to wait. tmux sessions
+ * outlive the server, so they can be reattached by reconcile().
+ */
+export class TmuxBackend implements SessionBackend {
+  readonly kind = 'tmux' as const;
+  private mux: MuxManager;
+
+  constructor(options: MuxOptions = {}) {
+    this.mux = new MuxManager(options);
+  }
+
+  exists(sessionId: string): Promise<boolean> {
+    return this.mux.sessionExists(sessionId);
+  }
+
+  async create(sessionId: string, options: SessionLaunchOptions): Promise<void> {
+    await this.mux.createSession(sessionId, options.sessionDir, options.model, options.projectDir);
+  }
+
+  /**
+   * Opens the named FIFO for writing. This call blocks (via the 'open' event)
+   * until a reader (wrapper.sh's `cat "$FIFO"`) opens the other end.
+   * Times out after 10s if wrapper hasn't started yet.
+   */
+  openInput(sessionId: string, sessionDir: string): Promise<Writable> {
+    return new Promise((resolve, reject) => {
+      const fifoPath = path.join(sessionDir, 'input.fifo');
+      let settled = false;
+
+      const timeout = setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        stream.destroy();
+        reject(new Error(`FIFO open timeout for ${sessionId} — wrapper may not be running`));
+      }, 10000);
+
+      const stream = fs.createWriteStream(fifoPath, { flags: 'w' });
+
+      stream.on('open', () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        resolve(stream);
+      });
+
+      stream.on('error', (err) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        reject(err);
+      });
+    });
+  }
+
+  interrupt(sessionId: string): Promise<void> {
+    return this.mux.sendInterrupt(sessionId);
+  }
+
+  kill(sessionId: string): Promise<void> {
+    return this.mux.killSession(sessionId);
+  }
+
+  list(): Promise<string[]> {
+    return this.mux.listActiveSessions();
+  }
+}
@@ -1,27 +1,156 @@
 import { EventEmitter } from 'node:events';
-import { JournalManager, SessionMetadata, InputEntry } from './JournalManager.js';
+import { JournalManager, SessionMetadata, InputEntry, InputOp } from './JournalManager.js';
 import { ImageAttachment, FileAttachment } from '../../shared/stream-types.js';
-import { MuxManager } from './MuxManager.js';
+import { SessionBackend, BackendKind, detectDefaultBackend } from './SessionBackend.js';
+import { HOST_MCP_SERVER, answerMcpMessage, HostTool } from './HostTools.js';
+import { TmuxBackend } from './TmuxBackend.js';
+import { ProcessBackend } from './ProcessBackend.js';
 import * as fs from 'node:fs';
 import * as fsPromises from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as crypto from 'node:crypto';
 import * as readline from 'node:readline';
+import type { Writable } from 'node:stream';
 import { spawn, ChildProcess } from 'node:child_process';
 import { executeOneShot } from '../../lib/claude-one-shot.js';
-import { isManuallyRenamed, setSessionTitle, getSessionTitle } from '../../session-discovery.js';
+import { evaluatePermission, sessionRuleFor, PermissionMode } from '../../lib/permissions.js';
+import { SlotScheduler, SlotPriority, priorityOf, evictionScore } from './SlotScheduler.js';
+import { loadGovernancePolicy, saveGovernancePolicy, limitsFor, GovernancePolicy } from '../../lib/governance.js';
+import { checkBudget, describeExceeded, periodBounds, Budget, BudgetExceeded } from '../../lib/budgets.js';
+import { isManuallyRenamed, setSessionTitle, getSessionTitle, getProjectPermissions, getProjectBudget, toProjectKey } from '../../session-discovery.js';
+import type { PermissionResponseDecision, QueuedInput, StreamItem, TodoItem, Turn, UsageTotals } from '../../shared/stream-types.js';
+import { getToolView } from '../../shared/tool-call-display.js';
 
 const SESSIONS_BASE = path.join(os.homedir(), '.aimessage', 'sessions');
 
-const GOVERNANCE = {
-  MAX_CONCURRENT_SESSIONS: 5,
-  MAX_TMUX_SESSIONS: 10,
-  ORPHAN_BUSY_TIMEOUT_MS: 60 * 60 * 1000,
-  IDLE_REAP_MS: 10 * 60 * 1000,
-  SESSION_TTL_MS: 4 * 60 * 60 * 1000,
-  REAPER_INTERVAL_MS: 30 * 1000,
-} as const;
+// Turns per history_snapshot, and per page when the client scrolls back
+const HISTORY_WINDOW_TURNS = 20;
+
+// Sent as a command input by compactContext(); the answer becomes the summary
+// the fresh Claude conversation starts from
+const COMPACT_PROMPT = 'Summarize our conversation so far for a fresh session that will continue it: the goal, decisions made, the current state of the work (files touched, what is done, what is left) and anything I asked you to remember. Reply with the summary only.';
+
+// Tools that run a sub-agent; Claude has named it both ways
+const SUBAGENT_TOOLS = new Set(['Task', 'Agent']);
+
+
+export interface CreateOptions {
+  backend?: BackendKind;             // fixed at first creation unless given again
+  permissionMode?: PermissionMode;   // kept from earlier creation unless given again
+}
+
+type PartialBlockKind = 'text' | 'thinking';
+
+/**
+ * What --include-partial-messages has streamed so far in one session's turn.
+ * Blocks are numbered per kind within their message, so the k-th streamed
+ * text block and the k-th final one share an id however the two files' lines
+ * interleave.
+ */
+interface PartialStream {
+  message?: { id: string; blocks: Map<number, { id: string; kind: PartialBlockKind; text: string }>; started: Record<PartialBlockKind, number> };
+  finished: Map<string, Record<PartialBlockKind, number>>;  // message id → final blocks seen per kind
+  done: Set<string>;                                         // block ids that have their final item
+}
+
+function partialBlockId(messageId: string, kind: PartialBlockKind, n: number): string {
+  return `${messageId}:${kind}:${n}`;
+}
+
+interface TurnInFlight {
+  inputId: string;
+  startedAt: number;
+  model?: string;      // from Claude's init frame, when it has sent one
+  toolCount: number;
+}
+
+export interface EngineOptions {
+  backends?: Partial<Record<BackendKind, SessionBackend>>;  // override adapters (e.g. a scripted fake CLI)
+  defaultBackend?: BackendKind;                              // backend for sessions that don't name one
+  governance?: GovernancePolicy;                             // start with this instead of governance.json
+}
+
+export type ReapRule = 'idle_timeout' | 'orphan_busy' | 'session_ttl' | 'max_hosts';
+
+/** Something the reaper will do to a session once `dueInMs` has passed. */
+export interface ReapAction {
+  sessionId: string;
+  action: 'destroy' | 'interrupt';
+  rule: ReapRule;
+  reason: string;
+  dueInMs: number;   // 0 = on the next sweep
+}
+
+function toQueuedInput(entry: InputEntry): QueuedInput {
+  return {
+    id: entry.id,
+    text: entry.text,
+    timestamp: entry.timestamp,
+    ...(entry.type !== 'user' ? { source: entry.type } : {}),
+    attachments: (entry.images?.length ?? 0) + (entry.files?.length ?? 0),
+  };
+}
+
+function requireQueued(queue: InputEntry[], inputId: string): void {
+  if (!queue.some(e => e.id === inputId)) throw new Error(`Input ${inputId} is no longer queued`);
+}
+
+function findStreamItem(lines: string[], itemId: string): { seq?: number; item: any } | undefined {
+  for (const line of lines) {
+    try {
+      const frame = JSON.parse(line);
+      if (frame.type === 'stream_item' && frame.item?.id === itemId) return frame;
+    } catch { /* raw fragment */ }
+  }
+  return undefined;
+}
+
+/** Where a Claude restarts from: a copy of a conversation, cut after a reply. */
+interface ResumePoint {
+  claudeSessionId?: string;    // conversation to fork, unless the context was reset since
+  replyUuid?: string;          // last Claude reply before the cut
+  summary?: string;            // a compaction summary not yet handed to Claude
+}
+
+/** Where a fork (or an edit) cuts out.jsonl, and what Claude resumes from there. */
+interface ForkPlan extends ResumePoint {
+  end: number;                 // lines of out.jsonl kept
+  inputIds: string[];          // inputs sent before the cut
+}
+
+/**
+ * Forking at a user message keeps everything before it; at any other item,
+ * everything through the end of its turn.
+ */
+function planFork(lines: string[], itemId: string): ForkPlan {
+  const frames = lines.map(line => { try { return JSON.parse(line); } catch { return null; } });
+  const isItem = (f: any, match: (item: any) => boolean) => f?.type === 'stream_item' && f.item && match(f.item);
+  const at = frames.findIndex(f => isItem(f, item => item.id === itemId));
+  if (at < 0) throw new Error(`No message ${itemId} in this session`);
+
+  let end = at;
+  if (frames[at].item.kind !== 'user_message') {
+    const next = frames.findIndex((f, i) => i > at && isItem(f, item => item.kind === 'user_message'));
+    end = next >= 0 ? next : frames.length;
+  }
+
+  const plan: ForkPlan = { end, inputIds: [] };
+  for (const f of frames.slice(0, end)) {
+    if (isItem(f, item => item.kind === 'user_message')) {
+      plan.inputIds.push(f.item.id);
+      plan.summary = undefined;
+    } else if (isItem(f, item => item.kind === 'context_cleared' || item.kind === 'context_compacted')) {
+      plan.claudeSessionId = plan.replyUuid = undefined;
+      plan.summary = f.item.summary;
+    } else if (f?.type === 'system' && f.subtype === 'init' && f.session_id) {
+      plan.claudeSessionId = f.session_id;
+    } else if (f?.type === 'assistant' && f.uuid && !f.parent_tool_use_id) {
+      plan.replyUuid = f.uuid;
+    }
+  }
+  return plan;
+}
 
 /**
  * TmuxSessionEngine — manages Claude sessions via tmux + FIFOs.
@@ -34,22 +163,54 @@ const GOVERNANCE = {
  * Sessions survive server restarts. The FIFO is the control channel:
  * when the server opens it for writing, wrapper unblocks; when the server
  * closes it, Claude gets EOF and exits. Wrapper loops and waits again.
+ *
+ * Hosting is delegated to a SessionBackend chosen per session
+ * (metadata.backend). tmux is the adapter described above; the process
+ * adapter runs Claude as a direct child with stdin as the input channel,
+ * for hosts without tmux. Both append Claude's stdout to out.jsonl (its
+ * partial-message frames to partial.jsonl), so everything downstream of
+ * the tail is backend-agnostic.
+ *
+ * Events: status_change { sessionId, status }, chat_title_update
+ * { sessionId, title }, session_created { sessionId, projectPath, model },
+ * notification { sessionId, subject }, turn_complete { sessionId,
+ * projectPath, turn, usage } and stream_delta { sessionId, item } (a
+ * text_delta that is never journaled).
  */
 export class TmuxSessionEngine extends EventEmitter {
-  private mux = new MuxManager();
+  private backends: Record<BackendKind, SessionBackend>;
+  private defaultBackend: BackendKind;
   private journals = new Map<string, JournalManager>();
-  private fifos = new Map<string, fs.WriteStream>();       // FIFO write streams
+  private fifos = new Map<string, Writable>();             // input channels (FIFO write stream or child stdin)
   private pendingWakes = new Map<string, Promise<void>>(); // prevent double-spawn
   private sessionStatus = new Map<string, 'sleeping' | 'idle' | 'busy'>();
   private monitors = new Map<string, { lastActivity: number }>();
-  private sessionWatchers = new Map<string, { process: ChildProcess; refCount: number }>();
+  private sessionWatchers = new Map<string, { process: ChildProcess; partials: ChildProcess; refCount: number }>();
   private activeObservers: Map<string, number> = new Map(); // sessionId → observer count
   private reaperInterval: NodeJS.Timeout | null = null;
+  private governance: GovernancePolicy;
   private busySince = new Map<string, number>();            // sessionId → timestamp when busy started
   private processingLock = new Set<string>();               // prevent double submit race
-
-  constructor() {
+  private turnsInFlight = new Map<string, TurnInFlight>();  // sessionId → turn awaiting its result frame
+  private budgetHolds = new Map<string, BudgetExceeded>();  // sessionId → limit holding its queue
+  private budgetTimers = new Map<string, NodeJS.Timeout>();  // sessionId → re-check when its hold's period rolls over
+  private projectTurns = new Map<string, Promise<Turn[]>>(); // project path → this week's turns, for project budgets
+  private slots = new SlotScheduler();                      // sessions waiting for a concurrent slot
+  private lastPriority = new Map<string, SlotPriority>();   // sessionId → priority of its latest input
+  private grantingSlots = false;                            // grantSlots() is running
+  private compactions = new Map<string, string>();          // sessionId → input asking for its summary
+  private subAgents = new Map<string, Set<string>>();       // sessionId → Task tool calls still running
+  private partials = new Map<string, PartialStream>();       // sessionId → this turn's partial messages
+  private hostTools = new Map<string, HostTool>();           // offered to Claude as mcp__aimessage__{name}
+
+  constructor(options: EngineOptions = {}) {
     super();
+    this.backends = {
+      tmux: options.backends?.tmux ?? new TmuxBackend(),
+      process: options.backends?.process ?? new ProcessBackend(),
+    };
+    this.defaultBackend = options.defaultBackend ?? detectDefaultBackend();
+    this.governance = options.governance ?? loadGovernancePolicy();
     this.startReaper();
   }
 
@@ -69,59 +230,58 @@ export class TmuxSessionEngine extends EventEmitter {
     return path.join(SESSIONS_BASE, sessionId);
   }
 
-  private getFifoPath(sessionId: string): string {
-    return path.join(this.getSessionDir(sessionId), 'input.fifo');
+  private async getBackend(sessionId: string): Promise<SessionBackend> {
+    const journal = await this.getJournal(sessionId);
+    const meta = await journal.getMetadata();
+    return this.backends[meta?.backend ?? this.defaultBackend] ?? this.backends[this.defaultBackend];
   }
 
   // ── Public API ────────────────────────────────────────
 
   /**
-   * Configures a session and ensures the tmux process is alive.
+   * Configures a session and ensures its host process is alive.
+   * The backend is fixed at first creation unless explicitly overridden.
    */
-  async create(sessionId: string, projectPath: string, model: string): Promise<void> {
+  async create(sessionId: string, projectPath: string, model: string, options: CreateOptions = {}): Promise<void> {
     const journal = await this.getJournal(sessionId);
-    await journal.updateMetadata({ sessionId, projectPath, model, status: 'sleeping', createdAt: new Date().toISOString() });
-    console.log(`[TmuxEngine] Configured session ${sessionId}: model=${model}`);
-    await this.ensureAwake(sessionId);
+    const existing = await journal.getMetadata();
+    const backend = options.backend ?? existing?.backend ?? this.defaultBackend;
+    const permissionMode = options.permissionMode ?? existing?.permissionMode ?? 'bypass';
+    await journal.updateMetadata({ sessionId, projectPath, model, backend, permissionMode, status: 'sleeping', createdAt: new Date().toISOString() });
+    console.log(`[TmuxEngine] Configured session ${sessionId}: model=${model} backend=${backend} permissions=${permissionMode}`);
+    if (!existing) this.emit('session_created', { sessionId, projectPath, model });
+    await this.wakeIfSlotFree(sessionId);
   }
 
   /**
    * Submits user input. Writes to in.jsonl for persistence and triggers
-   * FIFO delivery to the Claude process.
+   * FIFO delivery to the Claude process. `type` records where the input
+   * came from (e.g. 'scheduled' for cron jobs) so the UI can tell it apart.
+   * Until it is sent the input only shows in the queue (queue_update); the
+   * user_message is written when it goes to Claude, so it can still change.
+   * Returns the input's id.
    */
-  async submit(sessionId: string, clientId: string, text: string, images?: ImageAttachment[], files?: FileAttachment[]): Promise<void> {
+  async submit(sessionId: string, clientId: string, text: string, images?: ImageAttachment[], files?: FileAttachment[], type: InputEntry['type'] = 'user'): Promise<string> {
     const journal = await this.getJournal(sessionId);
 
     const entry = await journal.appendInput({
       id: crypto.randomBytes(4).toString('hex'),
       clientId,
-      type: 'user',
+      type,
       text,
       ...(images && images.length > 0 ? { images } : {}),
       ...(files && files.length > 0 ? { files } : {})
     });
-
-    // Write user_message to out.jsonl so the UI shows it immediately
-    const uiFrame = {
-      type: 'stream_item',
-      item: {
-        kind: 'user_message',
-        text: entry.text,
-        id: entry.id,
-        timestamp: entry.timestamp,
-        ...(images && images.length > 0 ? { images } : {}),
-        ...(files && files.length > 0 ? { files } : {})
-      }
-    };
-    await journal.appendOutput(JSON.stringify(uiFrame));
+    await this.emitQueue(sessionId);
 
     const status = this.sessionStatus.get(sessionId);
     if (status === 'busy' || this.pendingWakes.has(sessionId)) {
       console.log(`[TmuxEngine] Session ${sessionId} busy/waking. Queued ${entry.id}.`);
-      return;
+      return entry.id;
     }
 
     await this.processNextInput(sessionId);
+    return entry.id;
   }
 
   /**
@@ -129,8 +289,12 @@ export class TmuxSessionEngine extends EventEmitter {
    *
    * The stream emits:
    *   1. agent_status (current + live changes)
-   *   2. history_snapshot (all past stream_items)
-   *   3. stream_item (live, from tailing out.jsonl)
+   *   2. history_snapshot (the last HISTORY_WINDOW_TURNS turns of the
+   *      active branch; older ones
+   *      via readHistoryPage), or history_replay (only items after
+   *      `sinceSeq`) when a reconnecting client passes the last seq it saw
+   *   3. stream_item (live, from tailing out.jsonl), each carrying its seq,
+   *      and text_delta items without one for the message being written
    *
    * out.jsonl contains TWO kinds of lines:
    *   - stream_item frames (already transformed; written by submit() or transformClaudeFrame)
@@ -142,7 +306,7 @@ export class TmuxSessionEngine extends EventEmitter {
    *   - Detects turn completion and manages status transitions
    *   - Captures Claude session IDs
    */
-  async observe(sessionId: string, offset: number = 0): Promise<ReadableStream> {
+  async observe(sessionId: string, sinceSeq: number = 0): Promise<ReadableStream> {
     const journal = await this.getJournal(sessionId);
     const outPath = journal.getOutPath();
     const self = this;
@@ -151,9 +315,18 @@ export class TmuxSessionEngine extends EventEmitter {
     let tailProcess: ReturnType<typeof spawn> | null = null;
     let rlInterface: readline.Interface | null = null;
     let syncIntervalId: NodeJS.Timeout | null = null;
-    let statusChangeHandler: ((data: { sessionId: string; status: string }) => void) | null = null;
+    let statusChangeHandler: ((data: { sessionId: string; status: string; position?: number }) => void) | null = null;
+    let turnCompleteHandler: ((data: { sessionId: string; turn: Turn }) => void) | null = null;
+    let queueUpdateHandler: ((data: { sessionId: string; queue: QueuedInput[] }) => void) | null = null;
+    let todoUpdateHandler: ((data: { sessionId: string; todos: TodoItem[] }) => void) | null = null;
+    let streamDeltaHandler: ((data: { sessionId: string; item: StreamItem }) => void) | null = null;
+    let started = false;     // start() has registered everything cleanup() releases
+    let cancelled = false;   // observer went away, possibly while start() was still running
+    let cleanedUp = false;   // cancel() and the tail's exit both land here; release once
 
     const cleanup = () => {
+      if (cleanedUp) return;
+      cleanedUp = true;
       if (tailProcess) {
         tailProcess.kill('SIGTERM');
         tailProcess = null;
@@ -170,6 +343,22 @@ export class TmuxSessionEngine extends EventEmitter {
         self.off('status_change', statusChangeHandler);
         statusChangeHandler = null;
       }
+      if (turnCompleteHandler) {
+        self.off('turn_complete', turnCompleteHandler);
+        turnCompleteHandler = null;
+      }
+      if (queueUpdateHandler) {
+        self.off('queue_update', queueUpdateHandler);
+        queueUpdateHandler = null;
+      }
+      if (todoUpdateHandler) {
+        self.off('todo_update', todoUpdateHandler);
+        todoUpdateHandler = null;
+      }
+      if (streamDeltaHandler) {
+        self.off('stream_delta', streamDeltaHandler);
+        streamDeltaHandler = null;
+      }
       self.releaseTransformWatcher(sessionId);
 
       // Decrement observer count
@@ -191,7 +380,7 @@ export class TmuxSessionEngine extends EventEmitter {
         const meta = await journal.getMetadata();
         if (meta?.projectPath) {
           await journal.hydrate(meta.projectPath, meta.claudeSessionId);
-          await self.ensureAwake(sessionId);
+          await self.wakeIfSlotFree(sessionId);
         }
 
         // Ensure the shared transform watcher is running for this session
@@ -211,15 +400,16 @@ export class TmuxSessionEngine extends EventEmitter {
 
         // 2. Initial status
         const currentStatus = self.sessionStatus.get(sessionId) || 'idle';
-        const uiStatus = currentStatus === 'busy' ? 'thinking' : 'idle';
-        controller.enqueue(JSON.stringify({ type: 'agent_status', status: uiStatus }) + '\n');
+        const position = self.slots.positionOf(sessionId);
+        const uiStatus = currentStatus === 'busy' ? 'thinking' : position ? 'queued_for_slot' : 'idle';
+        controller.enqueue(JSON.stringify({ type: 'agent_status', status: uiStatus, ...(position ? { position } : {}) }) + '\n');
 
         // 3. Status change listener
-        statusChangeHandler = (data: { sessionId: string; status: string }) => {
+        statusChangeHandler = (data: { sessionId: string; status: string; position?: number }) => {
           if (data.sessionId === sessionId) {
-            const uiSt = data.status === 'busy' ? 'thinking' : 'idle';
+            const uiSt = data.status === 'busy' ? 'thinking' : data.status === 'queued_for_slot' ? 'queued_for_slot' : 'idle';
             try {
-              controller.enqueue(JSON.stringify({ type: 'agent_status', status: uiSt }) + '\n');
+              controller.enqueue(JSON.stringify({ type: 'agent_status', status: uiSt, ...(data.position ? { position: data.position } : {}) }) + '\n');
             } catch {
               /* controller already closed — WebSocket disconnected */
             }
@@ -227,24 +417,70 @@ export class TmuxSessionEngine extends EventEmitter {
         };
         self.on('status_change', statusChangeHandler);
 
-        // 4. History snapshot — only stream_items, raw Claude frames are invisible
-        const history = await journal.readOutputHistory();
-        const items = history
-          .map(line => {
-            try {
-              const frame = JSON.parse(line);
-              if (frame.type === 'stream_item') return frame.item;
-              return null;
-            } catch {
-              return null;
-            }
-          })
-          .filter(Boolean);
+        turnCompleteHandler = (data: { sessionId: string; turn: Turn }) => {
+          if (data.sessionId !== sessionId) return;
+          try {
+            controller.enqueue(JSON.stringify({ type: 'turn_complete', turn: data.turn }) + '\n');
+          } catch {
+            /* controller already closed */
+          }
+        };
+        self.on('turn_complete', turnCompleteHandler);
+
+        queueUpdateHandler = (data: { sessionId: string; queue: QueuedInput[] }) => {
+          if (data.sessionId !== sessionId) return;
+          try {
+            controller.enqueue(JSON.stringify({ type: 'queue_update', queue: data.queue }) + '\n');
+          } catch {
+            /* controller already closed */
+          }
+        };
+        self.on('queue_update', queueUpdateHandler);
+
+        todoUpdateHandler = (data: { sessionId: string; todos: TodoItem[] }) => {
+          if (data.sessionId !== sessionId) return;
+          try {
+            controller.enqueue(JSON.stringify({ type: 'todo_update', todos: data.todos }) + '\n');
+          } catch {
+            /* controller already closed */
+          }
+        };
+        self.on('todo_update', todoUpdateHandler);
 
-        controller.enqueue(JSON.stringify({ type: 'history_snapshot', items }) + '\n');
+        // Partial messages skip the journal, so they carry no seq
+        streamDeltaHandler = (data: { sessionId: string; item: StreamItem }) => {
+          if (data.sessionId !== sessionId) return;
+          try {
+            controller.enqueue(JSON.stringify({ type: 'stream_item', item: data.item }) + '\n');
+          } catch {
+            /* controller already closed */
+          }
+        };
+        self.on('stream_delta', streamDeltaHandler);
+
+        // 4. History — only stream_items, raw Claude frames are invisible.
+        // A sinceSeq ahead of the journal means it was replaced under the
+        // client (destroyed and recreated), and one from before an edit
+        // missed a branch change — both fall back to a fresh window
+        let endOffset: number;
+        const replay = sinceSeq > 0 && sinceSeq <= await journal.getLastSeq() ? await journal.readHistorySince(sinceSeq) : null;
+        if (replay) {
+          endOffset = replay.endOffset;
+          controller.enqueue(JSON.stringify({ type: 'history_replay', items: replay.items, seq: replay.seq }) + '\n');
+        } else {
+          const window = await journal.readHistoryWindow(HISTORY_WINDOW_TURNS);
+          endOffset = window.endOffset;
+          controller.enqueue(JSON.stringify({ type: 'history_snapshot', items: window.items, seq: window.seq, firstTurn: window.firstTurn }) + '\n');
+        }
+        controller.enqueue(JSON.stringify({ type: 'queue_update', queue: await self.readQueue(sessionId) }) + '\n');
+        controller.enqueue(JSON.stringify({ type: 'todo_update', todos: await self.readTodos(sessionId) }) + '\n');
+        for (const item of self.readPartials(sessionId)) {
+          controller.enqueue(JSON.stringify({ type: 'stream_item', item }) + '\n');
+        }
 
-        // 5. Live tail — start from current end to avoid duplicating history
-        tailProcess = spawn('tail', ['-f', '-n', '0', outPath]);
+        // 5. Live tail — start exactly where the snapshot ended, so lines
+        // written while tail is still starting up are neither lost nor duplicated
+        tailProcess = spawn('tail', ['-f', '-c', `+${endOffset + 1}`, outPath]);
         rlInterface = readline.createInterface({ input: tailProcess.stdout! });
 
         rlInterface.on('line', (line) => {
@@ -275,11 +511,16 @@ export class TmuxSessionEngine extends EventEmitter {
             /* already closed */
           }
         });
+
+        started = true;
+        if (cancelled) cleanup(); // disconnected mid-start — don't leak the tail
       },
 
       cancel() {
-        // WebSocket disconnected — kill the tail process and clean up all resources
-        cleanup();
+        // WebSocket disconnected — kill the tail process and clean up all resources.
+        // If start() is still running it cleans up itself once it finishes.
+        cancelled = true;
+        if (started) cleanup();
       }
     });
   }
@@ -288,7 +529,7 @@ export class TmuxSessionEngine extends EventEmitter {
    * Returns current session metadata with live status overlay,
    * plus computed unread state and latest notification subject.
    */
-  async getState(sessionId: string): Promise<(SessionMetadata & { hasUnread: boolean; latestNotification?: string }) | null> {
+  async getState(sessionId: string): Promise<(SessionMetadata & { hasUnread: boolean; latestNotification?: string; runningSubAgents: number }) | null> {
     const journal = await this.getJournal(sessionId);
     const meta = await journal.getMetadata();
     if (!meta) return null;
@@ -300,23 +541,394 @@ export class TmuxSessionEngine extends EventEmitter {
 
     let latestNotification: string | undefined;
     if (hasUnread) {
-      // Scan output history backwards for the most recent notification after lastViewedAt
-      const history = await journal.readOutputHistory();
-      const viewedAt = meta.lastViewedAt || '1970-01-01';
-      for (let i = history.length - 1; i >= 0; i--) {
-        try {
-          const frame = JSON.parse(history[i]);
-          if (frame.type === 'stream_item' && frame.item?.kind === 'notification') {
-            if (frame.item.timestamp > viewedAt) {
-              latestNotification = frame.item.subject;
-              break;
-            }
-          }
-        } catch { continue; }
+      // The most recent notification counts only if it arrived after lastViewedAt
+      const notification = await journal.readLatestItem('notification');
+      if (notification && notification.timestamp > (meta.lastViewedAt || '1970-01-01')) {
+        latestNotification = notification.subject;
+      }
+    }
+
+    return { ...meta, hasUnread, latestNotification, runningSubAgents: this.subAgents.get(sessionId)?.size ?? 0 };
+  }
+
+  /**
+   * Returns the HISTORY_WINDOW_TURNS turns before `beforeTurn`, for a client
+   * paging back past its history_snapshot.
+   */
+  async readHistoryPage(sessionId: string, beforeTurn: number): Promise<{ items: StreamItem[]; firstTurn: number }> {
+    const journal = await this.getJournal(sessionId);
+    const { items, firstTurn } = await journal.readHistoryWindow(HISTORY_WINDOW_TURNS, beforeTurn);
+    return { items, firstTurn };
+  }
+
+  /**
+   * Returns a session's completed turns, oldest first.
+   */
+  async readTurns(sessionId: string): Promise<Turn[]> {
+    const journal = await this.getJournal(sessionId);
+    return journal.readTurns();
+  }
+
+  /**
+   * Returns the raw lines of a session's out.jsonl.
+   */
+  async readOutputHistory(sessionId: string): Promise<string[]> {
+    const journal = await this.getJournal(sessionId);
+    return journal.readOutputHistory();
+  }
+
+  /**
+   * Merges an update into a session's metadata.json through the journal's
+   * write lock, so external subsystems don't race the engine's own writes.
+   */
+  async updateSessionMetadata(sessionId: string, update: Partial<SessionMetadata>): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    await journal.updateMetadata(update);
+  }
+
+  /**
+   * Switches a session between bypassing permissions and asking per tool call.
+   * The flag is read when Claude starts, so an idle Claude is closed here and
+   * the next input respawns it in the new mode; a busy one switches after its turn.
+   */
+  async setPermissionMode(sessionId: string, mode: PermissionMode): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    await journal.updateMetadata({ permissionMode: mode });
+
+    const fifo = this.fifos.get(sessionId);
+    if (fifo && this.sessionStatus.get(sessionId) !== 'busy') {
+      try { fifo.end(); } catch { /* already closed */ }
+      this.fifos.delete(sessionId);
+      this.sessionStatus.set(sessionId, 'sleeping');
+      this.emit('status_change', { sessionId, status: 'sleeping' });
+    }
+    console.log(`[TmuxEngine] Permission mode for ${sessionId} set to ${mode}`);
+  }
+
+  // ── Public: Context ───────────────────────────────────
+
+  /**
+   * Starts a fresh Claude conversation: a busy turn is interrupted and the
+   * resume id dropped, so the next input starts Claude without --resume.
+   * The transcript stays, with a context_cleared divider; queued inputs go
+   * to the new conversation.
+   */
+  async clearContext(sessionId: string): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    if (this.sessionStatus.get(sessionId) === 'busy') await this.interrupt(sessionId);
+    this.compactions.delete(sessionId);
+    await this.resetContext(sessionId, journal);
+    await this.setTodos(sessionId, journal, []);
+    await journal.appendStreamItem({
+      kind: 'context_cleared',
+      id: crypto.randomBytes(3).toString('hex'),
+      timestamp: new Date().toISOString()
+    });
+    console.log(`[TmuxEngine] Cleared context for ${sessionId}`);
+  }
+
+  /**
+   * Asks Claude for a summary of the conversation (queued like any other
+   * input), then starts a fresh conversation that gets the summary ahead of
+   * the next input. A failed summary turn leaves the context as it was.
+   */
+  async compactContext(sessionId: string): Promise<void> {
+    if (this.compactions.has(sessionId)) throw new Error(`Session ${sessionId} is already compacting`);
+    const inputId = await this.submit(sessionId, 'compact', COMPACT_PROMPT, undefined, undefined, 'command');
+    this.compactions.set(sessionId, inputId);
+    console.log(`[TmuxEngine] Compacting ${sessionId} (summary input ${inputId})`);
+  }
+
+  /**
+   * Claude's latest todo list (TodoWrite) for the session.
+   */
+  async readTodos(sessionId: string): Promise<TodoItem[]> {
+    const journal = await this.getJournal(sessionId);
+    return (await journal.getMetadata())?.todos ?? [];
+  }
+
+  // ── Public: Forks ─────────────────────────────────────
+
+  /**
+   * Creates a new session from `sourceId` at one of its messages (see
+   * planFork for where it cuts). The transcript and the inputs sent so far
+   * are copied; turns and usage are not, they stay the parent's spend.
+   * The fork's Claude resumes the parent's conversation as a new one, cut
+   * after the last reply copied. Returns the fork's id.
+   */
+  async fork(sourceId: string, itemId: string, forkId: string = crypto.randomUUID()): Promise<string> {
+    const source = await this.getJournal(sourceId);
+    const meta = await source.getMetadata();
+    if (!meta) throw new Error(`Session ${sourceId} not found`);
+    if (await (await this.getJournal(forkId)).getMetadata()) throw new Error(`Session ${forkId} already exists`);
+
+    const lines = await source.readActiveOutput();
+    const plan = planFork(lines, itemId);
+    const sent = new Set(plan.inputIds);
+    const inputs = (await source.readInputHistory()).filter(e => sent.has(e.id));
+
+    const fork = await this.getJournal(forkId);
+    await fsPromises.writeFile(fork.getOutPath(), lines.slice(0, plan.end).map(line => line + '\n').join(''));
+    await fsPromises.writeFile(fork.getInPath(), inputs.map(e => JSON.stringify(e) + '\n').join(''));
+    await this.writeResumePoint(forkId, plan);
+    await fork.updateMetadata({
+      forkedFrom: { sessionId: sourceId, itemId },
+      lastProcessedInputId: inputs[inputs.length - 1]?.id,
+      contextSummary: plan.summary,
+      sessionAllowRules: meta.sessionAllowRules,
+    });
+
+    const title = getSessionTitle(sourceId);
+    if (title) setSessionTitle(forkId, `${title} (fork)`);
+    console.log(`[TmuxEngine] Forked ${sourceId} at ${itemId} into ${forkId} (${plan.end}/${lines.length} lines, ${inputs.length} inputs)`);
+    await this.create(forkId, meta.projectPath, meta.model, { backend: meta.backend, permissionMode: meta.permissionMode });
+    return forkId;
+  }
+
+  // ── Public: Edits ─────────────────────────────────────
+
+  /**
+   * Resends an earlier user message with new text. Everything from that
+   * message on is set aside, not deleted: a branch_started marker starts a
+   * new branch of out.jsonl, observe() shows only the active branch and
+   * readBranch() the older ones. A busy turn is interrupted first, and
+   * Claude restarts from the conversation as it was before the message (a
+   * fork of it, cut after the reply before). The resend goes ahead of
+   * anything queued. Returns its input id.
+   */
+  async editMessage(sessionId: string, itemId: string, text: string, clientId: string = 'edit'): Promise<string> {
+    if (!text.trim()) throw new Error('Message cannot be empty');
+    const journal = await this.getJournal(sessionId);
+    const target = findStreamItem(await journal.readActiveOutput(), itemId);
+    if (target?.item.kind !== 'user_message') throw new Error(`No message ${itemId} to edit`);
+    if (!target.seq) throw new Error(`Message ${itemId} is too old to edit`);
+
+    if (this.sessionStatus.get(sessionId) === 'busy') {
+      const settled = this.untilSettled(sessionId);
+      await this.interrupt(sessionId);
+      await settled;
+    }
+
+    // Held so the turn that just ended can't send the next queued input
+    // to the conversation being replaced
+    while (this.processingLock.has(sessionId)) await new Promise(resolve => setTimeout(resolve, 20));
+    this.processingLock.add(sessionId);
+    let entry: InputEntry;
+    try {
+      this.compactions.delete(sessionId);
+      await this.resetContext(sessionId, journal, planFork(await journal.readActiveOutput(), itemId));
+      const branch = await journal.getActiveBranch() + 1;
+      await journal.appendStreamItem({
+        kind: 'branch_started',
+        branch,
+        fromSeq: target.seq,
+        fromItemId: itemId,
+        id: crypto.randomBytes(3).toString('hex'),
+        timestamp: new Date().toISOString()
+      });
+
+      const meta = await journal.getMetadata();
+      const queued = await journal.readQueuedInputs(meta?.lastProcessedInputId);
+      entry = await journal.appendInput({
+        id: crypto.randomBytes(4).toString('hex'),
+        clientId,
+        type: 'user',
+        text,
+        ...(target.item.images?.length ? { images: target.item.images } : {}),
+        ...(target.item.files?.length ? { files: target.item.files } : {})
+      });
+      if (queued.length > 0) {
+        await journal.appendInputOp({ op: 'reorder', ids: [entry.id, ...queued.map(e => e.id)], timestamp: new Date().toISOString() });
+      }
+      console.log(`[TmuxEngine] Edited ${itemId} in ${sessionId}: branch ${branch}, resending as ${entry.id}`);
+    } finally {
+      this.processingLock.delete(sessionId);
+    }
+
+    await this.emitQueue(sessionId);
+    await this.processNextInput(sessionId);
+    return entry.id;
+  }
+
+  /**
+   * The transcript of one branch (0 is the original conversation), as it
+   * stood when an edit replaced it.
+   */
+  async readBranch(sessionId: string, branch: number): Promise<StreamItem[]> {
+    const journal = await this.getJournal(sessionId);
+    return journal.readBranch(branch);
+  }
+
+  // ── Public: Input Queue ───────────────────────────────
+
+  /**
+   * Inputs waiting behind the current turn, in the order they will be sent.
+   */
+  async readQueue(sessionId: string): Promise<QueuedInput[]> {
+    const journal = await this.getJournal(sessionId);
+    const meta = await journal.getMetadata();
+    return (await journal.readQueuedInputs(meta?.lastProcessedInputId)).map(toQueuedInput);
+  }
+
+  async editQueuedInput(sessionId: string, inputId: string, text: string): Promise<void> {
+    if (!text.trim()) throw new Error('Queued input cannot be empty');
+    await this.changeQueue(sessionId, queue => {
+      requireQueued(queue, inputId);
+      return { op: 'edit', id: inputId, text, timestamp: new Date().toISOString() };
+    });
+  }
+
+  async deleteQueuedInput(sessionId: string, inputId: string): Promise<void> {
+    await this.changeQueue(sessionId, queue => {
+      requireQueued(queue, inputId);
+      return { op: 'delete', id: inputId, timestamp: new Date().toISOString() };
+    });
+  }
+
+  /**
+   * Puts the queue in a new order; `inputIds` must list every queued input.
+   */
+  async reorderQueue(sessionId: string, inputIds: string[]): Promise<void> {
+    await this.changeQueue(sessionId, queue => {
+      if (inputIds.length !== queue.length || new Set(inputIds).size !== inputIds.length) {
+        throw new Error('Reorder must list every queued input exactly once');
       }
+      for (const id of inputIds) requireQueued(queue, id);
+      return { op: 'reorder', ids: inputIds, timestamp: new Date().toISOString() };
+    });
+  }
+
+  /**
+   * Moves a queued input to the front and interrupts the current turn, so it
+   * is sent as soon as Claude stops.
+   */
+  async sendQueuedNow(sessionId: string, inputId: string): Promise<void> {
+    await this.changeQueue(sessionId, queue => {
+      requireQueued(queue, inputId);
+      return { op: 'reorder', ids: [inputId, ...queue.map(e => e.id).filter(id => id !== inputId)], timestamp: new Date().toISOString() };
+    });
+    if (this.sessionStatus.get(sessionId) === 'busy') await this.interrupt(sessionId);
+  }
+
+  /**
+   * Sets (or with an empty budget, clears) a session's own spend limits and
+   * re-checks its queue, which a raised limit may release.
+   */
+  async setBudget(sessionId: string, budget: Budget): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    await journal.updateMetadata({ budget: Object.keys(budget).length > 0 ? budget : undefined });
+    console.log(`[TmuxEngine] Budget for ${sessionId} set to ${JSON.stringify(budget)}`);
+    await this.processNextInput(sessionId);
+  }
+
+  /**
+   * Re-checks every held queue, e.g. after a project budget changed.
+   */
+  async recheckBudgetHolds(): Promise<void> {
+    for (const sessionId of [...this.budgetHolds.keys()]) {
+      await this.processNextInput(sessionId);
+    }
+  }
+
+  /**
+   * The limits that apply to a session and the one holding its queue, if any.
+   */
+  async getBudgetStatus(sessionId: string): Promise<{ session: Budget | null; project: Budget | null; held: BudgetExceeded | null; overrideUntil: string | null }> {
+    const journal = await this.getJournal(sessionId);
+    const meta = await journal.getMetadata();
+    return {
+      session: meta?.budget ?? null,
+      project: (meta?.projectPath && getProjectBudget(toProjectKey(meta.projectPath))) || null,
+      held: this.budgetHolds.get(sessionId) ?? null,
+      overrideUntil: meta?.budgetOverrideUntil ?? null,
+    };
+  }
+
+  /**
+   * Releases a budget hold: limits are ignored for this session until the
+   * exceeded period rolls over, and the queue resumes.
+   */
+  async overrideBudget(sessionId: string): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    const held = this.budgetHolds.get(sessionId) ?? await this.checkBudgets(sessionId, journal, await journal.getMetadata(), true);
+    if (!held) throw new Error(`Session ${sessionId} is within its budget`);
+
+    const until = new Date(held.resetsAt).toISOString();
+    await journal.updateMetadata({ budgetOverrideUntil: until });
+    this.releaseBudgetHold(sessionId);
+    await journal.appendStreamItem({
+      kind: 'system',
+      text: `[budget] Override: limits lifted until ${new Date(held.resetsAt).toLocaleString()}.`,
+      id: crypto.randomBytes(3).toString('hex'),
+      timestamp: new Date().toISOString()
+    });
+    console.log(`[TmuxEngine] Budget overridden for ${sessionId} until ${until}`);
+    await this.processNextInput(sessionId);
+  }
+
+  /**
+   * Answers a pending tool permission request from the UI. The request is
+   * looked up in out.jsonl, so answers still land after a server restart
+   * as long as Claude (e.g. in tmux) is still waiting.
+   */
+  async respondToPermission(sessionId: string, requestId: string, decision: PermissionResponseDecision, message?: string): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    const history = await journal.readOutputHistory();
+
+    let request: { toolName: string; input: unknown; status: string } | null = null;
+    for (let i = history.length - 1; i >= 0 && !request; i--) {
+      try {
+        const frame = JSON.parse(history[i]);
+        if (frame.type === 'stream_item' && frame.item?.kind === 'permission_request' && frame.item.id === requestId) {
+          request = frame.item;
+        }
+      } catch { /* skip unparseable */ }
+    }
+    if (!request) throw new Error(`Unknown permission request ${requestId}`);
+    if (request.status !== 'pending') throw new Error(`Permission request ${requestId} was already ${request.status}`);
+
+    // Record the grant before replying: Claude may ask again straight away
+    if (decision === 'allow_session') {
+      const meta = await journal.getMetadata();
+      const rule = sessionRuleFor(request.toolName, request.input);
+      const existing = meta?.sessionAllowRules ?? [];
+      if (!existing.includes(rule)) await journal.updateMetadata({ sessionAllowRules: [...existing, rule] });
+    }
+
+    // Journal the answer before Claude sees it, or the turn can end (and
+    // the session go idle) before the decision is on record. Nothing is
+    // journaled if Claude is gone, so the request stays pending.
+    this.inputChannel(sessionId);
+    await this.appendPermissionItem(journal, {
+      id: requestId,
+      toolName: request.toolName,
+      input: request.input,
+      status: decision === 'deny' ? 'denied' : 'allowed',
+      scope: decision === 'allow_session' ? 'session' : 'once',
+      ...(decision === 'deny' && message ? { message } : {})
+    });
+
+    if (decision === 'deny') {
+      await this.sendControlResponse(sessionId, requestId, { behavior: 'deny', message: message || 'The user denied this tool call.' });
+    } else {
+      await this.sendControlResponse(sessionId, requestId, { behavior: 'allow', updatedInput: request.input });
     }
+    this.monitors.set(sessionId, { lastActivity: Date.now() });
+  }
 
-    return { ...meta, hasUnread, latestNotification };
+  /**
+   * Raises a notification on a session: journaled for its chat, and
+   * emitted so the sidebar marks the session unread.
+   */
+  async notify(sessionId: string, subject: string): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    await journal.appendStreamItem({
+      kind: 'notification',
+      subject,
+      id: crypto.randomBytes(3).toString('hex'),
+      timestamp: new Date().toISOString()
+    });
+    this.emit('notification', { sessionId, subject });
   }
 
   /**
@@ -335,7 +947,8 @@ export class TmuxSessionEngine extends EventEmitter {
    * (since Claude may not emit a result frame after Ctrl-C).
    */
   async interrupt(sessionId: string): Promise<void> {
-    await this.mux.sendInterrupt(sessionId);
+    const backend = await this.getBackend(sessionId);
+    await backend.interrupt(sessionId);
     console.log(`[TmuxEngine] Sent interrupt to ${sessionId}`);
 
     // Close the FIFO to ensure clean pipeline termination.
@@ -343,7 +956,7 @@ export class TmuxSessionEngine extends EventEmitter {
     const fifo = this.fifos.get(sessionId);
     if (fifo) {
       try {
-        fifo.close();
+        fifo.end();
       } catch { /* already closed */ }
       this.fifos.delete(sessionId);
     }
@@ -356,10 +969,11 @@ export class TmuxSessionEngine extends EventEmitter {
         this.sessionStatus.set(sessionId, 'idle');
         this.busySince.delete(sessionId);
         const journal = await this.getJournal(sessionId);
+        await this.recordTurn(sessionId, journal, null);
         await journal.updateMetadata({ status: 'idle' });
         this.emit('status_change', { sessionId, status: 'idle' });
-        // Process next queued input
-        setTimeout(() => this.processNextInput(sessionId), 100);
+        // Process next queued input, then let waiting sessions have any free slot
+        setTimeout(() => this.processNextInput(sessionId).then(() => this.grantSlots()), 100);
       }
     }, 3000);
   }
@@ -367,59 +981,65 @@ export class TmuxSessionEngine extends EventEmitter {
   /**
    * Reconciles engine state with running tmux sessions after a server restart.
    * Re-opens FIFOs for alive sessions and kills orphaned tmux sessions.
+   * Every backend is asked for its hosted sessions; only tmux hosts
+   * normally survive a restart.
    */
   async reconcile(): Promise<void> {
-    const { alive, orphaned } = await this.mux.reconcileSessions(SESSIONS_BASE);
+    let aliveCount = 0;
+    let orphanedCount = 0;
 
-    for (const sessionId of alive) {
-      try {
-        const journal = await this.getJournal(sessionId);
-        const meta = await journal.getMetadata();
-        if (!meta) {
-          console.log(`[TmuxEngine] Reconcile: no metadata for ${sessionId}, killing tmux`);
-          await this.mux.killSession(sessionId);
-          continue;
-        }
+    for (const backend of Object.values(this.backends)) {
+      for (const sessionId of await backend.list()) {
+        try {
+          // Hosts with no session directory are orphans from a wiped install
+          if (!fs.existsSync(path.join(SESSIONS_BASE, sessionId, 'metadata.json'))) {
+            console.log(`[TmuxEngine] Killing orphaned ${backend.kind} session: ${sessionId}`);
+            await backend.kill(sessionId);
+            orphanedCount++;
+            continue;
+          }
 
-        // Kill sessions older than TTL
-        const lastSeen = meta.lastSeen ? new Date(meta.lastSeen).getTime() : 0;
-        if (Date.now() - lastSeen > GOVERNANCE.SESSION_TTL_MS) {
-          console.log(`[TmuxEngine] Reconcile: killing stale session ${sessionId} (last seen ${meta.lastSeen || 'never'})`);
-          await this.mux.killSession(sessionId);
-          continue;
-        }
+          const journal = await this.getJournal(sessionId);
+          const meta = await journal.getMetadata();
+          if (!meta) {
+            console.log(`[TmuxEngine] Reconcile: no metadata for ${sessionId}, killing ${backend.kind} host`);
+            await backend.kill(sessionId);
+            continue;
+          }
 
-        // Reconnect FIFO to the existing tmux session
-        await this.openFifo(sessionId);
+          // Kill sessions unseen for longer than their TTL
+          const lastSeen = meta.lastSeen ? new Date(meta.lastSeen).getTime() : 0;
+          const { sessionTtlMs } = limitsFor(this.governance, meta.projectPath ? toProjectKey(meta.projectPath) : undefined);
+          if (!meta.pinned && Date.now() - lastSeen > sessionTtlMs) {
+            console.log(`[TmuxEngine] Reconcile: killing stale session ${sessionId} (last seen ${meta.lastSeen || 'never'})`);
+            await backend.kill(sessionId);
+            continue;
+          }
 
-        // Check for unprocessed inputs that were queued before shutdown
-        const inputHistory = await journal.readInputHistory();
-        const lastId = meta.lastProcessedInputId;
-        const hasUnprocessed = lastId
-          ? inputHistory.findIndex(e => e.id === lastId) < inputHistory.length - 1
-          : inputHistory.length > 0;
+          // Reconnect FIFO to the existing tmux session
+          await this.openFifo(sessionId, backend);
 
-        if (hasUnprocessed) {
-          console.log(`[TmuxEngine] Reconcile: ${sessionId} has unprocessed inputs, processing...`);
-          this.sessionStatus.set(sessionId, 'idle');
-          await this.processNextInput(sessionId);
-        } else {
-          this.sessionStatus.set(sessionId, 'idle');
-        }
+          // Check for unprocessed inputs that were queued before shutdown
+          const hasUnprocessed = (await journal.readQueuedInputs(meta.lastProcessedInputId)).length > 0;
 
-        this.monitors.set(sessionId, { lastActivity: Date.now() });
-        console.log(`[TmuxEngine] Reconciled session ${sessionId}`);
-      } catch (err) {
-        console.error(`[TmuxEngine] Failed to reconcile ${sessionId}:`, err);
+          if (hasUnprocessed) {
+            console.log(`[TmuxEngine] Reconcile: ${sessionId} has unprocessed inputs, processing...`);
+            this.sessionStatus.set(sessionId, 'idle');
+            await this.processNextInput(sessionId);
+          } else {
+            this.sessionStatus.set(sessionId, 'idle');
+          }
+
+          this.monitors.set(sessionId, { lastActivity: Date.now() });
+          aliveCount++;
+          console.log(`[TmuxEngine] Reconciled session ${sessionId}`);
+        } catch (err) {
+          console.error(`[TmuxEngine] Failed to reconcile ${sessionId}:`, err);
+        }
       }
     }
 
-    for (const sessionId of orphaned) {
-      console.log(`[TmuxEngine] Killing orphaned tmux session: ${sessionId}`);
-      await this.mux.killSession(sessionId);
-    }
-
-    console.log(`[TmuxEngine] Reconciliation complete: ${alive.length} alive, ${orphaned.length} orphaned`);
+    console.log(`[TmuxEngine] Reconciliation complete: ${aliveCount} alive, ${orphanedCount} orphaned`);
   }
 
   /**
@@ -428,11 +1048,14 @@ export class TmuxSessionEngine extends EventEmitter {
    */
   stop(): void {
     if (this.reaperInterval) clearInterval(this.reaperInterval);
+    for (const timer of this.budgetTimers.values()) clearTimeout(timer);
+    this.budgetTimers.clear();
 
     // Kill all transform watchers
     for (const [id, watcher] of this.sessionWatchers.entries()) {
       try {
         watcher.process.kill('SIGTERM');
+        watcher.partials.kill('SIGTERM');
       } catch {
         /* already dead */
       }
@@ -441,7 +1064,7 @@ export class TmuxSessionEngine extends EventEmitter {
 
     for (const [id, stream] of this.fifos.entries()) {
       try {
-        stream.close();
+        stream.end();
       } catch {
         /* already closed */
       }
@@ -458,7 +1081,7 @@ export class TmuxSessionEngine extends EventEmitter {
     const fifo = this.fifos.get(sessionId);
     if (fifo) {
       try {
-        fifo.close();
+        fifo.end();
       } catch {
         /* already closed */
       }
@@ -470,17 +1093,19 @@ export class TmuxSessionEngine extends EventEmitter {
     if (watcher) {
       try {
         watcher.process.kill('SIGTERM');
+        watcher.partials.kill('SIGTERM');
       } catch {
         /* already dead */
       }
       this.sessionWatchers.delete(sessionId);
     }
 
-    // 3. Kill the tmux session
+    // 3. Kill the host (tmux session or child process)
     try {
-      await this.mux.killSession(sessionId);
+      const backend = await this.getBackend(sessionId);
+      await backend.kill(sessionId);
     } catch (err) {
-      console.error(`[TmuxEngine] Failed to kill tmux session ${sessionId}:`, err);
+      console.error(`[TmuxEngine] Failed to kill host for ${sessionId}:`, err);
     }
 
     // 4. Optionally delete session files
@@ -489,6 +1114,8 @@ export class TmuxSessionEngine extends EventEmitter {
       try {
         await fsPromises.rm(sessionDir, { recursive: true, force: true });
         console.log(`[TmuxEngine] Deleted session directory: ${sessionDir}`);
+        // Its turns no longer count toward the project budget
+        this.projectTurns.clear();
       } catch (err) {
         console.error(`[TmuxEngine] Failed to delete session dir ${sessionDir}:`, err);
       }
@@ -501,8 +1128,16 @@ export class TmuxSessionEngine extends EventEmitter {
     this.pendingWakes.delete(sessionId);
     this.busySince.delete(sessionId);
     this.processingLock.delete(sessionId);
-
+    this.turnsInFlight.delete(sessionId);
+    this.releaseBudgetHold(sessionId);
+    this.lastPriority.delete(sessionId);
+    this.subAgents.delete(sessionId);
+    this.partials.delete(sessionId);
+    this.leaveSlotLine(sessionId);
+
+    this.emit('status_change', { sessionId, status: 'sleeping' });
     console.log(`[TmuxEngine] Destroyed session ${sessionId} (deleteFiles=${deleteFiles})`);
+    this.grantSlots().catch(err => console.error('[TmuxEngine] grantSlots failed:', err));
   }
 
   // ── Private: FIFO & Process Management ────────────────
@@ -514,20 +1149,16 @@ export class TmuxSessionEngine extends EventEmitter {
   private async ensureAwake(sessionId: string): Promise<void> {
     if (this.fifos.has(sessionId)) return; // Already connected
 
-    // Governance: enforce concurrent session limit
-    if (this.fifos.size >= GOVERNANCE.MAX_CONCURRENT_SESSIONS) {
-      // Try to hibernate the oldest idle session to make room
-      const reaped = await this.reapOldestIdle();
-      if (!reaped) {
-        throw new Error(`Session limit reached (${GOVERNANCE.MAX_CONCURRENT_SESSIONS} concurrent). All sessions are busy.`);
-      }
-    }
-
     if (this.pendingWakes.has(sessionId)) {
       await this.pendingWakes.get(sessionId);
       return;
     }
 
+    // Governance: enforce concurrent session limit (callers normally queue first)
+    if (!(await this.freeSlot())) {
+      throw new Error(`Session limit reached (${this.governance.maxConcurrentSessions} concurrent). All sessions are busy or pinned.`);
+    }
+
     const wakePromise = (async () => {
       try {
         const journal = await this.getJournal(sessionId);
@@ -535,18 +1166,19 @@ export class TmuxSessionEngine extends EventEmitter {
         const projectPath = meta?.projectPath || process.cwd();
         const model = meta?.model || 'sonnet';
         const sessionDir = this.getSessionDir(sessionId);
+        const backend = await this.getBackend(sessionId);
 
-        // Ensure tmux session exists (wrapper.sh creates FIFO and starts loop)
-        const exists = await this.mux.sessionExists(sessionId);
+        // Ensure the host exists (for tmux, wrapper.sh creates FIFO and starts loop)
+        const exists = await backend.exists(sessionId);
         if (!exists) {
-          console.log(`[TmuxEngine] Spawning tmux session for ${sessionId} (model=${model})`);
-          await this.mux.createSession(sessionId, sessionDir, model, projectPath);
+          console.log(`[TmuxEngine] Spawning ${backend.kind} session for ${sessionId} (model=${model})`);
+          await backend.create(sessionId, { sessionDir, model, projectDir: projectPath });
         } else {
-          console.log(`[TmuxEngine] tmux session for ${sessionId} already alive, reconnecting FIFO`);
+          console.log(`[TmuxEngine] ${backend.kind} session for ${sessionId} already alive, reconnecting FIFO`);
         }
 
         // Open FIFO — blocks until wrapper's `cat` opens the read end
-        await this.openFifo(sessionId);
+        await this.openFifo(sessionId, backend);
 
         this.sessionStatus.set(sessionId, 'idle');
         this.monitors.set(sessionId, { lastActivity: Date.now() });
@@ -568,50 +1200,23 @@ export class TmuxSessionEngine extends EventEmitter {
   }
 
   /**
-   * Opens the named FIFO for writing. This call blocks (via the 'open' event)
-   * until a reader (wrapper.sh's `cat "$FIFO"`) opens the other end.
-   * Times out after 10s if wrapper hasn't started yet.
+   * Opens the session's input channel through its backend and registers it.
+   * For tmux this blocks until wrapper.sh's `cat` opens the FIFO's read end.
    */
-  private openFifo(sessionId: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const fifoPath = this.getFifoPath(sessionId);
-      let settled = false;
-
-      const timeout = setTimeout(() => {
-        if (settled) return;
-        settled = true;
-        stream.destroy();
-        reject(new Error(`FIFO open timeout for ${sessionId} — wrapper may not be running`));
-      }, 10000);
-
-      const stream = fs.createWriteStream(fifoPath, { flags: 'w' });
-
-      stream.on('open', () => {
-        if (settled) return;
-        settled = true;
-        clearTimeout(timeout);
-        this.fifos.set(sessionId, stream);
-
-        // Handle FIFO errors (EPIPE if wrapper dies)
-        // Only act if this stream is still the active one for this session —
-        // a retry may have already replaced it.
-        stream.on('error', (err) => {
-          if (this.fifos.get(sessionId) !== stream) return; // stale stream, ignore
-          console.error(`[TmuxEngine] FIFO error for ${sessionId}:`, err.message);
-          this.fifos.delete(sessionId);
-          this.sessionStatus.set(sessionId, 'sleeping');
-          this.emit('status_change', { sessionId, status: 'sleeping' });
-        });
-
-        resolve();
-      });
-
-      stream.on('error', (err) => {
-        if (settled) return;
-        settled = true;
-        clearTimeout(timeout);
-        reject(err);
-      });
+  private async openFifo(sessionId: string, backend?: SessionBackend): Promise<void> {
+    const host = backend ?? await this.getBackend(sessionId);
+    const stream = await host.openInput(sessionId, this.getSessionDir(sessionId));
+    this.fifos.set(sessionId, stream);
+
+    // Handle FIFO errors (EPIPE if wrapper dies)
+    // Only act if this stream is still the active one for this session —
+    // a retry may have already replaced it.
+    stream.on('error', (err) => {
+      if (this.fifos.get(sessionId) !== stream) return; // stale stream, ignore
+      console.error(`[TmuxEngine] FIFO error for ${sessionId}:`, err.message);
+      this.fifos.delete(sessionId);
+      this.sessionStatus.set(sessionId, 'sleeping');
+      this.emit('status_change', { sessionId, status: 'sleeping' });
     });
   }
 
@@ -626,19 +1231,39 @@ export class TmuxSessionEngine extends EventEmitter {
     try {
       const journal = await this.getJournal(sessionId);
       const meta = await journal.getMetadata();
-      const history = await journal.readInputHistory();
 
       // Find the next input after the last one we processed
-      const lastId = meta?.lastProcessedInputId;
-      let next: InputEntry | undefined;
-      if (lastId) {
-        const idx = history.findIndex(e => e.id === lastId);
-        next = idx >= 0 ? history[idx + 1] : history[0];
-      } else {
-        next = history[0];
+      const [next] = await journal.readQueuedInputs(meta?.lastProcessedInputId);
+
+      if (!next) {
+        this.leaveSlotLine(sessionId);
+        return;
       }
 
-      if (!next) return;
+      // Spend limits hold the queue (announced once) until under budget or overridden
+      const exceeded = await this.checkBudgets(sessionId, journal, meta);
+      if (exceeded) {
+        this.leaveSlotLine(sessionId);
+        const announced = this.budgetHolds.has(sessionId);
+        this.holdForBudget(sessionId, exceeded);
+        if (!announced) await this.announceBudgetHold(sessionId, journal, exceeded);
+        return;
+      }
+      this.releaseBudgetHold(sessionId);
+
+      // A sleeping session needs a slot: it waits in line, interactive input
+      // ahead of background work, until it is first and one is free
+      const priority = priorityOf(next);
+      if (!this.fifos.has(sessionId) && !this.pendingWakes.has(sessionId)) {
+        this.slots.enqueue(sessionId, priority);
+        if (this.slots.peek() !== sessionId || !(await this.freeSlot())) {
+          console.log(`[TmuxEngine] No free slot for ${sessionId}; ${priority} input waits at #${this.slots.positionOf(sessionId)}`);
+          this.emitSlotPositions();
+          return;
+        }
+        this.leaveSlotLine(sessionId);
+      }
+      this.lastPriority.set(sessionId, priority);
 
       await this.ensureAwake(sessionId);
 
@@ -656,6 +1281,10 @@ export class TmuxSessionEngine extends EventEmitter {
         const paths = next.files.map(f => f.filePath).join('\n');
         messageText = `[Attached files]\n${paths}\n\n${next.text}`;
       }
+      // First input after a compaction carries the summary of what came before
+      if (meta?.contextSummary) {
+        messageText = `[Summary of our conversation so far]\n${meta.contextSummary}\n\n${messageText}`;
+      }
 
       // Build content: if images are attached, use a content block array;
       // otherwise fall back to a plain text string for backwards compatibility.
@@ -688,6 +1317,8 @@ export class TmuxSessionEngine extends EventEmitter {
 
       const fifo = this.fifos.get(sessionId);
       if (fifo && !fifo.destroyed) {
+        // Echo first so the question lands in out.jsonl ahead of its answer
+        await this.echoInput(journal, next);
         console.log(`[TmuxEngine] Writing to FIFO for ${sessionId}: "${next.text.substring(0, 80)}..."`);
         const writeSuccess = await new Promise<boolean>((resolve) => {
           fifo.write(payload, (err) => {
@@ -701,7 +1332,9 @@ export class TmuxSessionEngine extends EventEmitter {
         });
 
         if (writeSuccess) {
-          await journal.updateMetadata({ lastProcessedInputId: next.id });
+          this.startTurn(sessionId, next.id);
+          await journal.updateMetadata({ lastProcessedInputId: next.id, contextSummary: undefined });
+          await this.emitQueue(sessionId);
           this.monitors.set(sessionId, { lastActivity: Date.now() });
         } else {
           // EPIPE or similar — FIFO is broken (Claude was interrupted/killed).
@@ -729,7 +1362,9 @@ export class TmuxSessionEngine extends EventEmitter {
                 this.emit('status_change', { sessionId, status: 'sleeping' });
               }
             });
-            await journal.updateMetadata({ lastProcessedInputId: next.id });
+            this.startTurn(sessionId, next.id);
+            await journal.updateMetadata({ lastProcessedInputId: next.id, contextSummary: undefined });
+            await this.emitQueue(sessionId);
             this.monitors.set(sessionId, { lastActivity: Date.now() });
           }
         }
@@ -757,8 +1392,9 @@ export class TmuxSessionEngine extends EventEmitter {
   /**
    * Ensures exactly ONE transform watcher exists per session.
    * The watcher tails out.jsonl for raw Claude frames and calls
-   * transformClaudeFrame for each one. Multiple observers share
-   * the same watcher via refCount.
+   * transformClaudeFrame for each one, and partial.jsonl for
+   * transformPartialFrame. Multiple observers share the same
+   * watcher via refCount.
    */
   private async ensureTransformWatcher(sessionId: string): Promise<void> {
     const existing = this.sessionWatchers.get(sessionId);
@@ -770,7 +1406,24 @@ export class TmuxSessionEngine extends EventEmitter {
     const journal = await this.getJournal(sessionId);
     const outPath = journal.getOutPath();
 
-    const tailProc = spawn('tail', ['-f', '-n', '0', outPath]);
+    // partial.jsonl only holds the turn in progress: read it from the start
+    // to pick up a message already being written, following the engine's
+    // truncation after each turn (-F). Left over from before a restart, it's stale
+    if (this.sessionStatus.get(sessionId) !== 'busy') await journal.clearPartials();
+    const partialsProc = spawn('tail', ['-F', '-c', '+1', journal.getPartialPath()], { stdio: ['ignore', 'pipe', 'ignore'] });
+    readline.createInterface({ input: partialsProc.stdout! }).on('line', (line) => {
+      try {
+        this.transformPartialFrame(JSON.parse(line), sessionId);
+      } catch {
+        /* torn line from a truncation — skip */
+      }
+    });
+
+    // Tail from an explicit offset rather than `-n 0`: a fast Claude can emit
+    // its result before tail has opened the file, and a missed result frame
+    // would leave the session busy forever.
+    const endOffset = await journal.readOutputEndOffset();
+    const tailProc = spawn('tail', ['-f', '-c', `+${endOffset + 1}`, outPath]);
     const rl = readline.createInterface({ input: tailProc.stdout! });
 
     rl.on('line', (line) => {
@@ -786,25 +1439,47 @@ export class TmuxSessionEngine extends EventEmitter {
 
     tailProc.on('exit', () => {
       rl.close();
-      this.sessionWatchers.delete(sessionId);
+      partialsProc.kill('SIGTERM');
+      // A replacement watcher may already be registered by the time this exits
+      if (this.sessionWatchers.get(sessionId)?.process === tailProc) {
+        this.sessionWatchers.delete(sessionId);
+      }
     });
 
-    this.sessionWatchers.set(sessionId, { process: tailProc, refCount: 1 });
+    this.sessionWatchers.set(sessionId, { process: tailProc, partials: partialsProc, refCount: 1 });
   }
 
   /**
    * Decrements the refCount for a session's transform watcher.
-   * Kills the watcher process when no observers remain.
+   * Kills the watcher process when no observers remain — unless a turn is
+   * in flight, in which case it keeps sequencing output until the turn ends,
+   * so a client reconnecting mid-turn can replay what it missed.
    */
   private releaseTransformWatcher(sessionId: string): void {
     const watcher = this.sessionWatchers.get(sessionId);
     if (!watcher) return;
 
     watcher.refCount--;
-    if (watcher.refCount <= 0) {
-      watcher.process.kill('SIGTERM');
-      this.sessionWatchers.delete(sessionId);
+    if (watcher.refCount > 0) return;
+
+    if (this.sessionStatus.get(sessionId) === 'busy') {
+      const onStatus = (data: { sessionId: string; status: string }) => {
+        if (data.sessionId !== sessionId || data.status === 'busy') return;
+        this.off('status_change', onStatus);
+        this.stopUnobservedWatcher(sessionId);
+      };
+      this.on('status_change', onStatus);
+      return;
     }
+    this.stopUnobservedWatcher(sessionId);
+  }
+
+  private stopUnobservedWatcher(sessionId: string): void {
+    const watcher = this.sessionWatchers.get(sessionId);
+    if (!watcher || watcher.refCount > 0) return;
+    watcher.process.kill('SIGTERM');
+    watcher.partials.kill('SIGTERM');
+    this.sessionWatchers.delete(sessionId);
   }
 
   // ── Private: Claude Frame Transformation ──────────────
@@ -814,8 +1489,13 @@ export class TmuxSessionEngine extends EventEmitter {
    *
    * Responsibilities:
    *   - Capture Claude session ID from system.init
-   *   - Transform assistant messages → stream_item frames (appended to out.jsonl)
-   *   - Handle content_block_delta for streaming text
+   *   - Transform assistant messages and host_event markers → stream_item
+   *     frames (appended to out.jsonl with the next seq)
+   *   - Give text and thinking blocks the ids their partial-message
+   *     deltas streamed under (see transformPartialFrame)
+   *   - Tag a sub-agent's items with the Task tool call that spawned it
+   *     (Claude sets parent_tool_use_id on its frames) and count the
+   *     sub-agents running
    *   - Detect turn completion (result/error) and manage status
    *
    * The transformed stream_items get picked up by the tail on the next
@@ -827,16 +1507,38 @@ export class TmuxSessionEngine extends EventEmitter {
     journal: JournalManager
   ): Promise<void> {
     try {
-      const outPath = journal.getOutPath();
-
       // Capture Claude session ID from the init frame
       if (frame.type === 'system' && frame.subtype === 'init' && frame.session_id) {
         await journal.updateMetadata({ claudeSessionId: frame.session_id });
         // Write resume_id so wrapper.sh can resume on next loop iteration
         const resumePath = path.join(this.getSessionDir(sessionId), 'resume_id');
         await fsPromises.writeFile(resumePath, frame.session_id);
+        // A fork copies its parent's conversation once; from here on it resumes its own
+        await fsPromises.rm(path.join(this.getSessionDir(sessionId), 'fork_at'), { force: true });
         console.log(`[TmuxEngine] Captured session ID for ${sessionId}: ${frame.session_id}`);
       }
+      if (frame.type === 'system' && frame.subtype === 'init' && frame.model) {
+        const turn = this.turnsInFlight.get(sessionId);
+        if (turn) turn.model = frame.model;
+      }
+
+      // Host markers (wrapper.sh / ProcessBackend) can't take a seq themselves,
+      // so they're written raw and sequenced here like any other frame
+      if (frame.type === 'host_event' && frame.text) {
+        await journal.appendStreamItem({
+          kind: 'system',
+          text: frame.text,
+          id: crypto.randomBytes(3).toString('hex'),
+          timestamp: frame.timestamp || new Date().toISOString()
+        });
+      }
+
+      // A sub-agent's frames are interleaved with the main conversation's
+      const parent = frame.parent_tool_use_id ? { parentToolUseId: frame.parent_tool_use_id as string } : {};
+      // Only the main conversation is streamed
+      const blockId = (kind: PartialBlockKind) => frame.message?.id && !frame.parent_tool_use_id
+        ? this.finishPartialBlock(sessionId, frame.message.id, kind)
+        : crypto.randomBytes(3).toString('hex');
 
       // Transform assistant messages into stream_items
       if (frame.type === 'assistant' && frame.message?.content) {
@@ -845,6 +1547,7 @@ export class TmuxSessionEngine extends EventEmitter {
           : [frame.message.content];
 
         for (const block of contents) {
+          const id = block.type === 'text' || block.type === 'thinking' ? blockId(block.type) : '';
           if (block.type === 'text' && block.text) {
             let text: string = block.text;
             let notificationSubject: string | null = null;
@@ -862,55 +1565,50 @@ export class TmuxSessionEngine extends EventEmitter {
             // Use cleaned text for assistant_message, fall back to subject if stripping left it empty
             const visibleText = cleanText || notificationSubject || '';
 
-            const uiFrame = {
-              type: 'stream_item',
-              item: {
-                kind: 'assistant_message',
-                text: visibleText,
+            await journal.appendStreamItem({
+              kind: 'assistant_message',
+              text: visibleText,
+              id,
+              timestamp: new Date().toISOString(),
+              ...parent
+            });
+
+            // Write notification stream_item if present (a sub-agent's go to its parent)
+            if (notificationSubject && !frame.parent_tool_use_id) {
+              await journal.appendStreamItem({
+                kind: 'notification',
+                subject: notificationSubject,
                 id: crypto.randomBytes(3).toString('hex'),
                 timestamp: new Date().toISOString()
-              }
-            };
-            await fsPromises.appendFile(outPath, JSON.stringify(uiFrame) + '\n');
-
-            // Write notification stream_item if present
-            if (notificationSubject) {
-              const notifFrame = {
-                type: 'stream_item',
-                item: {
-                  kind: 'notification',
-                  subject: notificationSubject,
-                  id: crypto.randomBytes(3).toString('hex'),
-                  timestamp: new Date().toISOString()
-                }
-              };
-              await fsPromises.appendFile(outPath, JSON.stringify(notifFrame) + '\n');
+              });
+              this.emit('notification', { sessionId, subject: notificationSubject });
             }
           } else if (block.type === 'thinking' && block.thinking) {
-            const uiFrame = {
-              type: 'stream_item',
-              item: {
-                kind: 'thought',
-                text: block.thinking,
-                id: crypto.randomBytes(3).toString('hex'),
-                timestamp: new Date().toISOString(),
-                status: 'ready'
-              }
-            };
-            await fsPromises.appendFile(outPath, JSON.stringify(uiFrame) + '\n');
+            await journal.appendStreamItem({
+              kind: 'thought',
+              text: block.thinking,
+              id,
+              timestamp: new Date().toISOString(),
+              status: 'ready',
+              ...parent
+            });
           } else if (block.type === 'tool_use' && block.id) {
-            const uiFrame = {
-              type: 'stream_item',
-              item: {
-                kind: 'tool_call',
-                name: block.name || 'unknown',
-                input: block.input ?? {},
-                status: 'running',
-                id: block.id,
-                timestamp: new Date().toISOString()
-              }
-            };
-            await fsPromises.appendFile(outPath, JSON.stringify(uiFrame) + '\n');
+            const turn = this.turnsInFlight.get(sessionId);
+            if (turn) turn.toolCount++;
+            await journal.appendStreamItem({
+              kind: 'tool_call',
+              name: block.name || 'unknown',
+              input: block.input ?? {},
+              status: 'running',
+              id: block.id,
+              timestamp: new Date().toISOString(),
+              ...parent
+            });
+            if (SUBAGENT_TOOLS.has(block.name) && !frame.parent_tool_use_id) this.startSubAgent(sessionId, block.id);
+            if (block.name === 'TodoWrite' && !frame.parent_tool_use_id) {
+              const view = getToolView({ name: block.name, input: block.input, status: 'running' });
+              if (view.type === 'todos') await this.setTodos(sessionId, journal, view.todos);
+            }
           }
         }
       }
@@ -936,37 +1634,31 @@ export class TmuxSessionEngine extends EventEmitter {
               result = texts.length === 1 ? texts[0] : texts.length > 1 ? texts.join('\n') : resultContent;
             }
 
-            const uiFrame = {
-              type: 'stream_item',
-              item: {
-                kind: 'tool_call',
-                // name and input are unknown at this point; the UI merges by id so the
-                // existing running entry keeps its name/input and only status/result update.
-                name: '',
-                input: {},
-                result,
-                status: isError ? 'failed' : 'completed',
-                id: block.tool_use_id,
-                timestamp: new Date().toISOString()
-              }
-            };
-            await fsPromises.appendFile(outPath, JSON.stringify(uiFrame) + '\n');
+            await journal.appendStreamItem({
+              kind: 'tool_call',
+              // name and input are unknown at this point; the UI merges by id so the
+              // existing running entry keeps its name/input and only status/result update.
+              name: '',
+              input: {},
+              result,
+              status: isError ? 'failed' : 'completed',
+              id: block.tool_use_id,
+              timestamp: new Date().toISOString(),
+              ...parent
+            });
+            this.finishSubAgent(sessionId, block.tool_use_id);
           }
         }
       }
 
-      // Handle streaming text deltas
-      if (frame.type === 'content_block_delta' && frame.delta?.text) {
-        const uiFrame = {
-          type: 'stream_item',
-          item: {
-            kind: 'text_delta',
-            text: frame.delta.text,
-            id: 'delta',
-            timestamp: new Date().toISOString()
-          }
-        };
-        await fsPromises.appendFile(outPath, JSON.stringify(uiFrame) + '\n');
+      // Tool permission prompts (only emitted in permissionMode 'ask')
+      if (frame.type === 'control_request' && frame.request?.subtype === 'can_use_tool') {
+        await this.handlePermissionRequest(sessionId, journal, frame.request_id, frame.request.tool_name, frame.request.input);
+      }
+
+      // Claude's MCP client talking to the host tool server
+      if (frame.type === 'control_request' && frame.request?.subtype === 'mcp_message' && frame.request.server_name === HOST_MCP_SERVER) {
+        await this.answerHostTools(sessionId, journal, frame.request_id, frame.request.message);
       }
 
       // Detect turn completion — transition back to idle and process queue
@@ -978,6 +1670,9 @@ export class TmuxSessionEngine extends EventEmitter {
         console.log(`[TmuxEngine] Turn complete for ${sessionId}`);
         this.sessionStatus.set(sessionId, 'idle');
         this.busySince.delete(sessionId);
+        await this.clearPartials(sessionId, journal);
+        const inputId = this.turnsInFlight.get(sessionId)?.inputId;
+        await this.recordTurn(sessionId, journal, frame);
         const observerCount = this.activeObservers.get(sessionId) || 0;
         const metaUpdate: Partial<import('./JournalManager.js').SessionMetadata> = { status: 'idle', lastResultAt: new Date().toISOString() };
         if (observerCount > 0) {
@@ -987,25 +1682,439 @@ export class TmuxSessionEngine extends EventEmitter {
         this.emit('status_change', { sessionId, status: 'idle' });
         this.monitors.set(sessionId, { lastActivity: Date.now() });
 
+        // The summary a compaction asked for: restart before the next input goes out
+        if (inputId && this.compactions.get(sessionId) === inputId) {
+          this.compactions.delete(sessionId);
+          await this.finishCompaction(sessionId, journal, frame);
+        }
+
         // First naming: after turn 2, if no title yet and not manually renamed
         if (!isManuallyRenamed(sessionId) && !getSessionTitle(sessionId)) {
-          const history = await journal.readOutputHistory();
-          const userTurns = history.filter(line => {
-            try { const f = JSON.parse(line); return f.type === 'stream_item' && f.item?.kind === 'user_message'; } catch { return false; }
-          }).length;
-          if (userTurns >= 2) {
+          if (await journal.getTurnCount() >= 2) {
             this.autoNameSession(sessionId, journal).catch(() => {});
           }
         }
 
-        // Process next queued input (with small delay to let state settle)
-        setTimeout(() => this.processNextInput(sessionId), 100);
+        // Process next queued input (with small delay to let state settle),
+        // then let waiting sessions have any free slot
+        setTimeout(() => this.processNextInput(sessionId).then(() => this.grantSlots()), 100);
       }
     } catch (err) {
       console.error(`[TmuxEngine] transformClaudeFrame error for ${sessionId}:`, err);
     }
   }
 
+  // ── Private: Partial Messages ─────────────────────────
+
+  /**
+   * Handles one line of partial.jsonl: a `stream_event` envelope around an
+   * Anthropic streaming event. Text and thinking deltas go to observers as
+   * text_delta items (stream_delta event), keyed by block and carrying the
+   * offset they start at so a client can apply them idempotently. Deltas for
+   * a block whose final item is already out are dropped.
+   */
+  private transformPartialFrame(frame: any, sessionId: string): void {
+    if (frame.type !== 'stream_event' || frame.parent_tool_use_id) return;
+    const event = frame.event;
+    const stream = this.partialStream(sessionId);
+
+    if (event?.type === 'message_start' && event.message?.id) {
+      stream.message = { id: event.message.id, blocks: new Map(), started: { text: 0, thinking: 0 } };
+      return;
+    }
+    const message = stream.message;
+    if (!message) return;
+
+    if (event.type === 'content_block_start' && (event.content_block?.type === 'text' || event.content_block?.type === 'thinking')) {
+      const kind: PartialBlockKind = event.content_block.type;
+      message.blocks.set(event.index, { id: partialBlockId(message.id, kind, message.started[kind]++), kind, text: '' });
+      return;
+    }
+    if (event.type === 'content_block_delta') {
+      const block = message.blocks.get(event.index);
+      const text = event.delta?.type === 'text_delta' ? event.delta.text : event.delta?.type === 'thinking_delta' ? event.delta.thinking : undefined;
+      if (!block || !text || stream.done.has(block.id)) return;
+      const item: StreamItem = { kind: 'text_delta', id: block.id, block: block.kind, text, offset: block.text.length, timestamp: new Date().toISOString() };
+      block.text += text;
+      this.emit('stream_delta', { sessionId, item });
+    }
+  }
+
+  /** The id for the next final block of this kind in a message — the one its deltas streamed under. */
+  private finishPartialBlock(sessionId: string, messageId: string, kind: PartialBlockKind): string {
+    const stream = this.partialStream(sessionId);
+    const finished = stream.finished.get(messageId) ?? { text: 0, thinking: 0 };
+    stream.finished.set(messageId, finished);
+    const id = partialBlockId(messageId, kind, finished[kind]++);
+    stream.done.add(id);
+    return id;
+  }
+
+  private partialStream(sessionId: string): PartialStream {
+    let stream = this.partials.get(sessionId);
+    if (!stream) {
+      stream = { finished: new Map(), done: new Set() };
+      this.partials.set(sessionId, stream);
+    }
+    return stream;
+  }
+
+  /** What a new observer needs to catch up on the message being written: one delta per unfinished block. */
+  private readPartials(sessionId: string): StreamItem[] {
+    const stream = this.partials.get(sessionId);
+    if (!stream?.message) return [];
+    return [...stream.message.blocks.values()]
+      .filter(block => block.text && !stream.done.has(block.id))
+      .map(block => ({ kind: 'text_delta', id: block.id, block: block.kind, text: block.text, offset: 0, timestamp: new Date().toISOString() }));
+  }
+
+  private async clearPartials(sessionId: string, journal: JournalManager): Promise<void> {
+    this.partials.delete(sessionId);
+    await journal.clearPartials();
+  }
+
+  // ── Private: Sub-agents ───────────────────────────────
+
+  private startSubAgent(sessionId: string, toolUseId: string): void {
+    const running = this.subAgents.get(sessionId) ?? new Set<string>();
+    running.add(toolUseId);
+    this.subAgents.set(sessionId, running);
+    this.emit('subagents_change', { sessionId, running: running.size });
+  }
+
+  private finishSubAgent(sessionId: string, toolUseId: string): void {
+    const running = this.subAgents.get(sessionId);
+    if (!running?.delete(toolUseId)) return;
+    if (running.size === 0) this.subAgents.delete(sessionId);
+    this.emit('subagents_change', { sessionId, running: running.size });
+  }
+
+  // ── Private: Todos ────────────────────────────────────
+
+  private async setTodos(sessionId: string, journal: JournalManager, todos: TodoItem[]): Promise<void> {
+    const meta = await journal.getMetadata();
+    if (!meta?.todos?.length && todos.length === 0) return;
+    await journal.updateMetadata({ todos });
+    this.emit('todo_update', { sessionId, todos });
+  }
+
+  // ── Private: Turn Accounting ──────────────────────────
+
+  private startTurn(sessionId: string, inputId: string): void {
+    this.turnsInFlight.set(sessionId, { inputId, startedAt: Date.now(), toolCount: 0 });
+  }
+
+  /**
+   * Closes the session's in-flight turn: records the usage Claude reported
+   * on its result frame (null when the turn was cut off without one) in
+   * turns.jsonl, adds it to the metadata totals and emits turn_complete.
+   * A result with no turn in flight (e.g. started before a server restart)
+   * is still recorded, against the last processed input.
+   */
+  private async recordTurn(sessionId: string, journal: JournalManager, frame: any | null): Promise<void> {
+    // Sub-agents can't outlive the turn that spawned them
+    for (const toolUseId of this.subAgents.get(sessionId) ?? []) this.finishSubAgent(sessionId, toolUseId);
+    const inFlight = this.turnsInFlight.get(sessionId);
+    this.turnsInFlight.delete(sessionId);
+    if (!inFlight && !frame) return;
+
+    const meta = await journal.getMetadata();
+    const endedAt = Date.now();
+    const usage = frame?.usage ?? {};
+    let outcome: Turn['outcome'] = 'interrupted';
+    if (frame) outcome = frame.type === 'result' && !frame.is_error && (!frame.subtype || frame.subtype === 'success') ? 'success' : 'error';
+
+    const turn: Turn = {
+      inputId: inFlight?.inputId ?? meta?.lastProcessedInputId ?? null,
+      startedAt: new Date(inFlight?.startedAt ?? endedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      model: inFlight?.model ?? meta?.model ?? 'unknown',
+      durationMs: Number(frame?.duration_ms) || (inFlight ? endedAt - inFlight.startedAt : 0),
+      numTurns: Number(frame?.num_turns) || 0,
+      inputTokens: Number(usage.input_tokens) || 0,
+      outputTokens: Number(usage.output_tokens) || 0,
+      cacheReadTokens: Number(usage.cache_read_input_tokens) || 0,
+      cacheWriteTokens: Number(usage.cache_creation_input_tokens) || 0,
+      costUsd: Number(frame?.total_cost_usd ?? frame?.cost_usd) || 0,
+      toolCount: inFlight?.toolCount ?? 0,
+      outcome
+    };
+
+    const prev: UsageTotals = meta?.usage ?? { turns: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0 };
+    const totals: UsageTotals = {
+      turns: prev.turns + 1,
+      inputTokens: prev.inputTokens + turn.inputTokens,
+      outputTokens: prev.outputTokens + turn.outputTokens,
+      cacheReadTokens: prev.cacheReadTokens + turn.cacheReadTokens,
+      cacheWriteTokens: prev.cacheWriteTokens + turn.cacheWriteTokens,
+      costUsd: prev.costUsd + turn.costUsd
+    };
+
+    await journal.appendTurn(turn);
+    const projectTurns = meta?.projectPath ? this.projectTurns.get(path.resolve(meta.projectPath)) : undefined;
+    if (projectTurns) (await projectTurns).push(turn);
+    await journal.updateMetadata({ usage: totals });
+    this.emit('turn_complete', { sessionId, projectPath: meta?.projectPath ?? '', turn, usage: totals });
+  }
+
+  // ── Private: Input Queue ──────────────────────────────
+
+  /**
+   * Applies one change to the queued inputs. Holds processingLock so an
+   * input can't be sent while it is being changed; a turn that finished in
+   * the meantime had its processNextInput() skipped, so it is re-run here.
+   */
+  private async changeQueue(sessionId: string, change: (queue: InputEntry[]) => InputOp): Promise<void> {
+    while (this.processingLock.has(sessionId)) await new Promise(resolve => setTimeout(resolve, 20));
+    this.processingLock.add(sessionId);
+    try {
+      const journal = await this.getJournal(sessionId);
+      const meta = await journal.getMetadata();
+      const op = change(await journal.readQueuedInputs(meta?.lastProcessedInputId));
+      await journal.appendInputOp(op);
+      console.log(`[TmuxEngine] Queue ${op.op} for ${sessionId}`);
+    } finally {
+      this.processingLock.delete(sessionId);
+    }
+    await this.emitQueue(sessionId);
+    if (this.sessionStatus.get(sessionId) !== 'busy') await this.processNextInput(sessionId);
+  }
+
+  /** Resolves once a busy session has gone idle (or errored, or slept). */
+  private untilSettled(sessionId: string): Promise<void> {
+    if (this.sessionStatus.get(sessionId) !== 'busy') return Promise.resolve();
+    return new Promise(resolve => {
+      const onStatus = (data: { sessionId: string; status: string }) => {
+        if (data.sessionId !== sessionId || data.status === 'busy') return;
+        this.off('status_change', onStatus);
+        resolve();
+      };
+      this.on('status_change', onStatus);
+    });
+  }
+
+  private async emitQueue(sessionId: string): Promise<void> {
+    this.emit('queue_update', { sessionId, queue: await this.readQueue(sessionId) });
+  }
+
+  /**
+   * Writes the user_message for an input about to be sent to Claude.
+   */
+  private async echoInput(journal: JournalManager, entry: InputEntry): Promise<void> {
+    await journal.appendStreamItem({
+      kind: 'user_message',
+      text: entry.text,
+      id: entry.id,
+      timestamp: entry.timestamp,
+      ...(entry.type !== 'user' ? { source: entry.type } : {}),
+      ...(entry.images && entry.images.length > 0 ? { images: entry.images } : {}),
+      ...(entry.files && entry.files.length > 0 ? { files: entry.files } : {})
+    });
+  }
+
+  // ── Private: Context ──────────────────────────────────
+
+  /**
+   * Drops the Claude conversation a session resumes from, or swaps it for
+   * a fork of `from.claudeSessionId`. Claude only reads resume_id when it
+   * starts, so an open input channel is closed too; the next input wakes a
+   * fresh one. `from.summary` is handed to that first input.
+   */
+  private async resetContext(sessionId: string, journal: JournalManager, from: ResumePoint = {}): Promise<void> {
+    await journal.updateMetadata({ claudeSessionId: undefined, contextSummary: from.summary });
+    await this.writeResumePoint(sessionId, from);
+    this.hibernate(sessionId);
+  }
+
+  /**
+   * resume_id + fork_at for the next Claude to start: a copy of
+   * `claudeSessionId` cut after `replyUuid`, or nothing to resume.
+   */
+  private async writeResumePoint(sessionId: string, { claudeSessionId, replyUuid }: ResumePoint): Promise<void> {
+    const dir = this.getSessionDir(sessionId);
+    if (claudeSessionId) {
+      await fsPromises.writeFile(path.join(dir, 'resume_id'), claudeSessionId);
+      await fsPromises.writeFile(path.join(dir, 'fork_at'), replyUuid ?? '');
+    } else {
+      await fsPromises.rm(path.join(dir, 'resume_id'), { force: true });
+      await fsPromises.rm(path.join(dir, 'fork_at'), { force: true });
+    }
+  }
+
+  private async finishCompaction(sessionId: string, journal: JournalManager, frame: any): Promise<void> {
+    const summary = frame.type === 'result' && !frame.is_error && typeof frame.result === 'string' ? frame.result.trim() : '';
+    if (!summary) {
+      await journal.appendStreamItem({
+        kind: 'system',
+        text: '[compact] Claude did not return a summary; the context was left as it was.',
+        id: crypto.randomBytes(3).toString('hex'),
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+    await this.resetContext(sessionId, journal, { summary });
+    await journal.appendStreamItem({
+      kind: 'context_compacted',
+      summary,
+      id: crypto.randomBytes(3).toString('hex'),
+      timestamp: new Date().toISOString()
+    });
+    console.log(`[TmuxEngine] Compacted ${sessionId} (${summary.length} chars of summary)`);
+  }
+
+  // ── Private: Budgets ──────────────────────────────────
+
+  /**
+   * The first session or project limit the spend so far has reached.
+   * An active override skips the check unless `ignoreOverride` is set.
+   */
+  private async checkBudgets(sessionId: string, journal: JournalManager, meta: SessionMetadata | null, ignoreOverride = false): Promise<BudgetExceeded | null> {
+    if (!ignoreOverride && meta?.budgetOverrideUntil && Date.now() < new Date(meta.budgetOverrideUntil).getTime()) return null;
+
+    if (meta?.budget) {
+      const exceeded = checkBudget(meta.budget, await journal.readTurns(), 'session');
+      if (exceeded) return exceeded;
+    }
+
+    const projectBudget = meta?.projectPath ? getProjectBudget(toProjectKey(meta.projectPath)) : undefined;
+    if (projectBudget) {
+      return checkBudget(projectBudget, await this.projectTurnsThisWeek(meta!.projectPath), 'project');
+    }
+    return null;
+  }
+
+  /**
+   * This week's turns across every engine session in a project. Read from
+   * their turns.jsonl once, then kept up to date by recordTurn(); older
+   * turns are dropped since no budget period reaches back past the week.
+   */
+  private async projectTurnsThisWeek(projectPath: string): Promise<Turn[]> {
+    const key = path.resolve(projectPath);
+    let cached = this.projectTurns.get(key);
+    if (!cached) {
+      cached = this.readProjectTurns(key);
+      this.projectTurns.set(key, cached);
+    }
+    const turns = await cached;
+    const { start } = periodBounds('weekly');
+    turns.splice(0, turns.length, ...turns.filter(t => new Date(t.endedAt).getTime() >= start));
+    return turns;
+  }
+
+  /**
+   * Turns of every engine session in a project, read from their turns.jsonl.
+   */
+  private async readProjectTurns(projectPath: string): Promise<Turn[]> {
+    let ids: string[];
+    try {
+      ids = await fsPromises.readdir(SESSIONS_BASE);
+    } catch {
+      return [];
+    }
+    const turns: Turn[] = [];
+    for (const id of ids) {
+      const journal = this.journals.get(id) ?? new JournalManager(id);
+      const meta = await journal.getMetadata();
+      if (!meta?.projectPath || path.resolve(meta.projectPath) !== path.resolve(projectPath)) continue;
+      turns.push(...await journal.readTurns());
+    }
+    return turns;
+  }
+
+  /**
+   * Holds the session's queue and re-checks it once the exceeded period
+   * rolls over, so a queue held overnight resumes without a new submit.
+   */
+  private holdForBudget(sessionId: string, exceeded: BudgetExceeded): void {
+    this.budgetHolds.set(sessionId, exceeded);
+    clearTimeout(this.budgetTimers.get(sessionId));
+    const timer = setTimeout(() => {
+      this.budgetTimers.delete(sessionId);
+      this.processNextInput(sessionId).catch(err => console.error(`[TmuxEngine] Budget re-check failed for ${sessionId}:`, err));
+    }, Math.max(0, exceeded.resetsAt - Date.now()) + 1000);
+    timer.unref();
+    this.budgetTimers.set(sessionId, timer);
+  }
+
+  private releaseBudgetHold(sessionId: string): void {
+    this.budgetHolds.delete(sessionId);
+    clearTimeout(this.budgetTimers.get(sessionId));
+    this.budgetTimers.delete(sessionId);
+  }
+
+  private async announceBudgetHold(sessionId: string, journal: JournalManager, exceeded: BudgetExceeded): Promise<void> {
+    const reason = describeExceeded(exceeded);
+    console.log(`[TmuxEngine] Holding queue for ${sessionId}: ${reason}`);
+    await journal.appendStreamItem({
+      kind: 'system',
+      text: `[budget] ${reason}. Queued messages are held until ${new Date(exceeded.resetsAt).toLocaleString()} or an override.`,
+      id: crypto.randomBytes(3).toString('hex'),
+      timestamp: new Date().toISOString()
+    });
+    await this.notify(sessionId, reason);
+  }
+
+  // ── Private: Tool Permissions ─────────────────────────
+
+  /**
+   * Handles a can_use_tool control request (sessions started with
+   * --permission-prompt-tool stdio). Project and session rules answer it
+   * directly; otherwise a pending permission_request item is written for
+   * the UI and Claude waits until respondToPermission() replies.
+   */
+  private async handlePermissionRequest(sessionId: string, journal: JournalManager, requestId: string, toolName: string, input: unknown): Promise<void> {
+    const meta = await journal.getMetadata();
+    const rules = getProjectPermissions(toProjectKey(meta?.projectPath ?? ''));
+    const { decision, rule } = evaluatePermission(rules, meta?.sessionAllowRules ?? [], toolName, input);
+
+    if (decision === 'allow') {
+      await this.sendControlResponse(sessionId, requestId, { behavior: 'allow', updatedInput: input });
+      return;
+    }
+
+    if (decision === 'deny') {
+      const message = `Blocked by project rule ${rule}`;
+      // Journaled first, as in respondToPermission()
+      await this.appendPermissionItem(journal, { id: requestId, toolName, input, status: 'denied', scope: 'rule', message });
+      await this.sendControlResponse(sessionId, requestId, { behavior: 'deny', message });
+      return;
+    }
+
+    console.log(`[TmuxEngine] Awaiting approval for ${toolName} in ${sessionId} (${requestId})`);
+    await this.appendPermissionItem(journal, { id: requestId, toolName, input, status: 'pending' });
+  }
+
+  /** Replies to one of Claude's control_requests on its input channel. */
+  private async sendControlResponse(sessionId: string, requestId: string, response: Record<string, unknown>): Promise<void> {
+    const fifo = this.inputChannel(sessionId);
+    const payload = JSON.stringify({
+      type: 'control_response',
+      response: { subtype: 'success', request_id: requestId, response }
+    }) + '\n';
+    await new Promise<void>((resolve, reject) => {
+      fifo.write(payload, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /** The open input channel to Claude; throws when nothing is running to answer. */
+  private inputChannel(sessionId: string) {
+    const fifo = this.fifos.get(sessionId);
+    if (!fifo || fifo.destroyed) throw new Error(`Session ${sessionId} has no running Claude to answer`);
+    return fifo;
+  }
+
+  private async appendPermissionItem(journal: JournalManager, item: Record<string, unknown>): Promise<void> {
+    await journal.appendStreamItem({ kind: 'permission_request', ...item, timestamp: new Date().toISOString() });
+  }
+
+  // ── Private: Host Tools ───────────────────────────────
+
+  private async answerHostTools(sessionId: string, journal: JournalManager, requestId: string, message: Parameters<typeof answerMcpMessage>[2]): Promise<void> {
+    const meta = await journal.getMetadata();
+    const mcpResponse = await answerMcpMessage(this.hostTools, { sessionId, projectPath: meta?.projectPath ?? '' }, message);
+    await this.sendControlResponse(sessionId, requestId, { mcp_response: mcpResponse });
+  }
+
   // ── Private: Auto-Naming ──────────────────────────────
 
   private static readonly NAMING_PROMPT =
@@ -1048,6 +2157,90 @@ export class TmuxSessionEngine extends EventEmitter {
     }
   }
 
+  // ── Private: Slot Scheduling ──────────────────────────
+
+  /**
+   * Wakes a session if that needs no waiting: it is already waking, or a slot
+   * is free and nobody is in line for one. Otherwise it stays asleep until it
+   * has input to process, which queues it properly.
+   */
+  private async wakeIfSlotFree(sessionId: string): Promise<void> {
+    if (this.fifos.has(sessionId)) return;
+    if (this.pendingWakes.has(sessionId) || (this.slots.size === 0 && await this.freeSlot())) {
+      await this.ensureAwake(sessionId);
+      return;
+    }
+    console.log(`[TmuxEngine] No free slot for ${sessionId}; leaving it asleep`);
+  }
+
+  /** True if one more session may wake, evicting idle ones if needed. */
+  private async freeSlot(): Promise<boolean> {
+    while (this.fifos.size + this.pendingWakes.size >= this.governance.maxConcurrentSessions) {
+      if (!(await this.evictForSlot())) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Destroys the idle session with the highest eviction score to free a slot.
+   * Busy and pinned sessions are never evicted.
+   */
+  private async evictForSlot(): Promise<boolean> {
+    const now = Date.now();
+    let victim: string | null = null;
+    let best = -Infinity;
+    for (const [id, monitor] of this.monitors.entries()) {
+      if (this.sessionStatus.get(id) !== 'idle' || !this.fifos.has(id)) continue;
+      if ((await this.journals.get(id)?.getMetadata())?.pinned) continue;
+      const score = this.evictionScoreOf(id, monitor.lastActivity, now);
+      if (score > best) {
+        best = score;
+        victim = id;
+      }
+    }
+    if (!victim) return false;
+    console.log(`[TmuxEngine] Evicting ${victim} (score ${best.toFixed(1)}) to free a slot`);
+    await this.destroy(victim);
+    return true;
+  }
+
+  private evictionScoreOf(sessionId: string, lastActivity: number, now: number): number {
+    return evictionScore({
+      idleMs: now - lastActivity,
+      observers: this.activeObservers.get(sessionId) || 0,
+      background: this.lastPriority.get(sessionId) === 'background',
+    });
+  }
+
+  /**
+   * Hands free slots to waiting sessions, first in line first. Runs whenever
+   * one may have opened: a turn finished, a session slept or was destroyed.
+   */
+  private async grantSlots(): Promise<void> {
+    if (this.grantingSlots) return;
+    this.grantingSlots = true;
+    try {
+      let head: string | undefined;
+      while ((head = this.slots.peek()) && !this.processingLock.has(head)) {
+        await this.processNextInput(head);
+        if (this.slots.peek() === head) break; // still no room
+      }
+    } finally {
+      this.grantingSlots = false;
+    }
+  }
+
+  private leaveSlotLine(sessionId: string): void {
+    if (this.slots.remove(sessionId)) this.emitSlotPositions();
+  }
+
+  /** Tells every waiting session where it now stands. */
+  private emitSlotPositions(): void {
+    for (const { sessionId, position } of this.slots.list()) {
+      this.emit('status_change', { sessionId, status: 'queued_for_slot', position });
+    }
+  }
+
   // ── Private: Reaper ───────────────────────────────────
 
   /**
@@ -1058,10 +2251,11 @@ export class TmuxSessionEngine extends EventEmitter {
     const fifo = this.fifos.get(sessionId);
     if (fifo) {
       console.log(`[TmuxEngine] Hibernating session: ${sessionId}`);
-      try { fifo.close(); } catch { /* already closed */ }
+      try { fifo.end(); } catch { /* already closed */ }
       this.fifos.delete(sessionId);
       this.sessionStatus.set(sessionId, 'sleeping');
       this.emit('status_change', { sessionId, status: 'sleeping' });
+      this.grantSlots().catch(err => console.error('[TmuxEngine] grantSlots failed:', err));
     }
   }
 
@@ -1078,114 +2272,148 @@ export class TmuxSessionEngine extends EventEmitter {
   }
 
   /**
-   * Finds and hibernates the oldest idle session to free up a slot.
-   * Returns true if a session was reaped, false if none are available.
+   * Every reaper action that is due now or will be, soonest first. Rules:
+   *   1. Idle timeout — destroy after idleReapMs without activity
+   *   2. Orphan busy — interrupt if busy past orphanBusyTimeoutMs with no observers
+   *   3. Session TTL — destroy once sessionTtlMs past creation, but only while
+   *      idle and unwatched, never mid-conversation
+   *   4. Max hosts — destroy the oldest sleeping hosts over maxHostSessions
+   * Pinned sessions are exempt from the destroy rules.
    */
-  private async reapOldestIdle(): Promise<boolean> {
-    let oldestId: string | null = null;
-    let oldestTime = Infinity;
+  async planReaping(now = Date.now()): Promise<ReapAction[]> {
+    const actions: ReapAction[] = [];
+    const pinned = new Set<string>();
+
     for (const [id, monitor] of this.monitors.entries()) {
-      if (this.sessionStatus.get(id) === 'idle' && this.fifos.has(id)) {
-        if (monitor.lastActivity < oldestTime) {
-          oldestTime = monitor.lastActivity;
-          oldestId = id;
+      const status = this.sessionStatus.get(id);
+      const meta = await this.journals.get(id)?.getMetadata();
+      if (meta?.pinned) pinned.add(id);
+      const limits = limitsFor(this.governance, meta?.projectPath ? toProjectKey(meta.projectPath) : undefined);
+      const observers = this.activeObservers.get(id) || 0;
+      const candidates: ReapAction[] = [];
+
+      if (status === 'busy') {
+        const busyStart = this.busySince.get(id);
+        if (busyStart && observers === 0) {
+          candidates.push({
+            sessionId: id, action: 'interrupt', rule: 'orphan_busy',
+            reason: `busy for over ${Math.round(limits.orphanBusyTimeoutMs / 60000)}min with no active observers`,
+            dueInMs: busyStart + limits.orphanBusyTimeoutMs - now,
+          });
+        }
+      } else if (status === 'idle' && this.fifos.has(id) && !meta?.pinned) {
+        candidates.push({
+          sessionId: id, action: 'destroy', rule: 'idle_timeout',
+          reason: `idle for ${Math.round(limits.idleReapMs / 60000)}min`,
+          dueInMs: monitor.lastActivity + limits.idleReapMs - now,
+        });
+        if (meta?.createdAt && observers === 0) {
+          candidates.push({
+            sessionId: id, action: 'destroy', rule: 'session_ttl',
+            reason: `older than ${Math.round(limits.sessionTtlMs / 3600000 * 10) / 10}h and unwatched`,
+            dueInMs: new Date(meta.createdAt).getTime() + limits.sessionTtlMs - now,
+          });
         }
       }
+
+      // Only the first rule to fire matters for a session
+      const next = candidates.sort((a, b) => a.dueInMs - b.dueInMs)[0];
+      if (next) actions.push({ ...next, dueInMs: Math.max(0, next.dueInMs) });
     }
-    if (oldestId) {
-      await this.destroy(oldestId);
-      return true;
+
+    const over = this.monitors.size - this.governance.maxHostSessions;
+    if (over > 0) {
+      const sleeping = [...this.monitors.entries()]
+        .filter(([id]) => !pinned.has(id) && !this.slots.positionOf(id) && (this.sessionStatus.get(id) === 'sleeping' || !this.fifos.has(id)))
+        .map(([id, monitor]) => ({ id, score: this.evictionScoreOf(id, monitor.lastActivity, now) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, over);
+      for (const { id, score } of sleeping) {
+        actions.push({ sessionId: id, action: 'destroy', rule: 'max_hosts', reason: `over ${this.governance.maxHostSessions} hosts, sleeping with eviction score ${score.toFixed(1)}`, dueInMs: 0 });
+      }
     }
-    return false;
+
+    return actions.sort((a, b) => a.dueInMs - b.dueInMs);
   }
 
-  /**
-   * Periodically checks sessions and applies governance rules:
-   *   1. Idle timeout — hibernate after 10 min of inactivity
-   *   2. Orphan busy timeout — interrupt if busy >1hr with no observers
-   *   3. (Future) Session TTL — hibernate sessions older than 4 hours
-   */
   private startReaper(): void {
+    if (this.reaperInterval) clearInterval(this.reaperInterval);
     this.reaperInterval = setInterval(() => {
-      const now = Date.now();
-      for (const [id, monitor] of this.monitors.entries()) {
-        const status = this.sessionStatus.get(id);
-
-        // 1. Idle timeout — destroy after 10 min of inactivity
-        if (status === 'idle' && this.fifos.has(id) && now - monitor.lastActivity > GOVERNANCE.IDLE_REAP_MS) {
-          // Auto-name before destroy (since destroy cleans up journal from map)
-          if (!isManuallyRenamed(id)) {
-            const journal = this.journals.get(id);
-            if (journal) this.autoNameSession(id, journal).catch(() => {});
-          }
-          this.destroy(id).catch(err => console.error(`[Reaper] Failed to destroy idle ${id}:`, err));
-          continue;
-        }
-
-        // 2. Orphan busy timeout — if busy for >1hr AND nobody watching, interrupt
-        if (status === 'busy') {
-          const busyStart = this.busySince.get(id);
-          const observers = this.activeObservers.get(id) || 0;
-          if (busyStart && observers === 0 && now - busyStart > GOVERNANCE.ORPHAN_BUSY_TIMEOUT_MS) {
-            console.log(`[TmuxEngine] Orphan busy timeout: ${id} has been busy for ${Math.round((now - busyStart) / 60000)}min with 0 observers. Interrupting.`);
-            this.interrupt(id).catch(err => console.error(`[TmuxEngine] Orphan interrupt failed for ${id}:`, err));
-            // Write system message so it shows in the UI
-            const journal = this.journals.get(id);
-            if (journal) {
-              const frame = JSON.stringify({
-                type: 'stream_item',
-                item: {
-                  kind: 'system',
-                  text: '[governance] Session interrupted: busy for over 1 hour with no active observers.',
-                  timestamp: new Date().toISOString()
-                }
-              });
-              journal.appendOutput(frame).catch(() => {});
-            }
-            continue;
-          }
-        }
+      this.reap().catch(err => console.error('[Reaper] Sweep failed:', err));
+    }, this.governance.reaperIntervalMs);
+  }
 
-        // 3. Session TTL — destroy sessions older than 4 hours
-        if (this.fifos.has(id)) {
-          const journal = this.journals.get(id);
-          if (journal) {
-            journal.getMetadata().then(meta => {
-              if (meta?.createdAt) {
-                const age = now - new Date(meta.createdAt).getTime();
-                if (age > GOVERNANCE.SESSION_TTL_MS) {
-                  console.log(`[TmuxEngine] Session TTL expired: ${id} is ${Math.round(age / 3600000)}h old. Destroying.`);
-                  if (!isManuallyRenamed(id)) {
-                    this.autoNameSession(id, journal).catch(() => {});
-                  }
-                  this.destroy(id).catch(err => console.error(`[Reaper] Failed to destroy TTL-expired ${id}:`, err));
-                }
-              }
-            }).catch(() => {});
-          }
+  private async reap(): Promise<void> {
+    for (const { sessionId: id, action, rule, reason, dueInMs } of await this.planReaping()) {
+      if (dueInMs > 0) break;
+      console.log(`[Reaper] ${rule}: ${id} ${reason}. ${action === 'interrupt' ? 'Interrupting' : 'Destroying'}.`);
+
+      if (action === 'interrupt') {
+        this.interrupt(id).catch(err => console.error(`[TmuxEngine] Orphan interrupt failed for ${id}:`, err));
+        // Write system message so it shows in the UI
+        const journal = this.journals.get(id);
+        if (journal) {
+          journal.appendStreamItem({
+            kind: 'system',
+            text: `[governance] Session interrupted: ${reason}.`,
+            timestamp: new Date().toISOString()
+          }).catch(() => {});
         }
+        continue;
       }
 
-      // 4. Enforce MAX_TMUX_SESSIONS — destroy oldest sleeping sessions over the limit
-      const aliveCount = this.monitors.size;
-      if (aliveCount > GOVERNANCE.MAX_TMUX_SESSIONS) {
-        const sleeping = [...this.monitors.entries()]
-          .filter(([id]) => this.sessionStatus.get(id) === 'sleeping' || !this.fifos.has(id))
-          .sort((a, b) => a[1].lastActivity - b[1].lastActivity);
-
-        let toKill = aliveCount - GOVERNANCE.MAX_TMUX_SESSIONS;
-        for (const [id] of sleeping) {
-          if (toKill <= 0) break;
-          console.log(`[Reaper] MAX_TMUX_SESSIONS exceeded. Destroying oldest sleeping: ${id}`);
-          this.destroy(id).catch(err => console.error(`[Reaper] Failed to destroy ${id}:`, err));
-          toKill--;
-        }
+      // Auto-name before destroy (since destroy cleans up journal from map)
+      if (!isManuallyRenamed(id)) {
+        const journal = this.journals.get(id);
+        if (journal) this.autoNameSession(id, journal).catch(() => {});
       }
-    }, GOVERNANCE.REAPER_INTERVAL_MS);
+      this.destroy(id).catch(err => console.error(`[Reaper] Failed to destroy ${id}:`, err));
+    }
+  }
+
+  // ── Public: Host Tools ────────────────────────────────
+
+  /**
+   * Offers a tool to every session's Claude as mcp__aimessage__{name}.
+   * Claude lists the tools when it starts, so one registered later reaches
+   * each session from its next Claude process on.
+   */
+  registerTool(tool: HostTool): void {
+    this.hostTools.set(tool.name, tool);
+  }
+
+  unregisterTool(name: string): void {
+    this.hostTools.delete(name);
   }
 
   // ── Public: Governance & Diagnostics ──────────────────
 
+  getGovernance(): GovernancePolicy {
+    return this.governance;
+  }
+
+  /**
+   * Replaces the governance policy, persists it to governance.json and
+   * restarts the reaper so a new interval takes effect immediately. A raised
+   * session limit goes straight to sessions waiting for a slot.
+   */
+  setGovernance(policy: GovernancePolicy): void {
+    this.governance = policy;
+    saveGovernancePolicy(policy);
+    this.startReaper();
+    this.grantSlots().catch(err => console.error('[TmuxEngine] grantSlots failed:', err));
+    console.log(`[TmuxEngine] Governance policy updated: ${JSON.stringify(policy)}`);
+  }
+
+  /**
+   * Pins (or unpins) a session, exempting it from the reaper's destroy rules
+   * and from being evicted to make room for another session.
+   */
+  async setPinned(sessionId: string, pinned: boolean): Promise<void> {
+    const journal = await this.getJournal(sessionId);
+    await journal.updateMetadata({ pinned: pinned || undefined });
+  }
+
   /**
    * Destroys all known sessions. Used for emergency cleanup.
    * Returns the list of session IDs that were destroyed.
@@ -1211,7 +2439,8 @@ export class TmuxSessionEngine extends EventEmitter {
     sessions: Array<{ id: string; status: string; busyForMs?: number; observers: number }>;
     counts: { total: number; busy: number; idle: number; sleeping: number };
     fifoCount: number;
-    governance: typeof GOVERNANCE;
+    slotQueue: ReturnType<SlotScheduler['list']>;
+    governance: GovernancePolicy;
   } {
     const sessions: Array<{ id: string; status: string; busyForMs?: number; observers: number }> = [];
     const allIds = [...new Set([...this.fifos.keys(), ...this.sessionStatus.keys(), ...this.monitors.keys()])];
@@ -1232,7 +2461,8 @@ export class TmuxSessionEngine extends EventEmitter {
       sessions,
       counts: { total: allIds.length, busy, idle, sleeping },
       fifoCount: this.fifos.size,
-      governance: GOVERNANCE,
+      slotQueue: this.slots.list(),
+      governance: this.governance,
     };
   }
 }
@@ -0,0 +1,769 @@
+/**
+ * End-to-end engine suite, driven by the fake Claude CLI.
+ *
+ * Replaces the old test-v4-engine.ts / stress-test.ts scripts, which needed
+ * a running server, a real `claude` binary and network. Every scenario runs
+ * once per available backend (process always, tmux when installed).
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+import { TmuxSessionEngine, type CreateOptions } from './TmuxSessionEngine.js';
+import { setProjectBudget, setProjectPermissions, toProjectKey } from '../../session-discovery.js';
+import type { BackendKind } from './SessionBackend.js';
+import {
+  SessionObserver,
+  availableBackends,
+  createTestProject,
+  newSessionId,
+  isAgentStatus,
+  isHistorySnapshot,
+  isHistoryReplay,
+  isStreamItemKind,
+  isAssistantContaining,
+  isUserContaining,
+} from './fake-claude/harness.js';
+
+describe.each(availableBackends())('TmuxSessionEngine on %s backend', (backend: BackendKind) => {
+  let engine: TmuxSessionEngine;
+  let projectPath: string;
+  const sessions: string[] = [];
+  const observers: SessionObserver[] = [];
+
+  async function createSession(options: CreateOptions = {}, inProject = projectPath): Promise<string> {
+    const sessionId = newSessionId();
+    sessions.push(sessionId);
+    await engine.create(sessionId, inProject, 'haiku', { backend, ...options });
+    return sessionId;
+  }
+
+  async function observe(sessionId: string): Promise<SessionObserver> {
+    const observer = await SessionObserver.open(engine, sessionId);
+    observers.push(observer);
+    await observer.waitFor(isHistorySnapshot());
+    return observer;
+  }
+
+  beforeAll(() => {
+    engine = new TmuxSessionEngine({ defaultBackend: backend });
+    projectPath = createTestProject();
+  });
+
+  afterEach(async () => {
+    await Promise.all(observers.splice(0).map(o => o.close()));
+  });
+
+  afterAll(async () => {
+    for (const id of sessions) await engine.destroy(id, true);
+    engine.stop();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('creates a session and completes a turn', async () => {
+    const sessionId = await createSession();
+    const obs = await observe(sessionId);
+
+    await engine.submit(sessionId, 'test', 'reply with only the word PING');
+
+    await obs.waitFor(isAgentStatus('thinking'));
+    await obs.waitFor(isUserContaining('PING'));
+    await obs.waitFor(isAssistantContaining('PING'));
+    await obs.waitForNext(isAgentStatus('idle'));
+
+    const state = await engine.getState(sessionId);
+    expect(state?.backend).toBe(backend);
+    expect(state?.claudeSessionId).toBeTruthy();
+  });
+
+  it('replays history to a reconnecting observer and keeps chatting', async () => {
+    const sessionId = await createSession();
+    const first = await observe(sessionId);
+    const idle = first.waitForNext(isAgentStatus('idle'));
+    await engine.submit(sessionId, 'test', 'reply with only the word PING');
+    await idle;
+    await first.close();
+
+    const second = await observe(sessionId);
+    const snapshot = await second.waitFor(isHistorySnapshot());
+    expect(snapshot.firstTurn).toBe(0);
+    expect(snapshot.items.some((i: any) => i.kind === 'user_message' && i.text.includes('PING'))).toBe(true);
+    expect(snapshot.items.some((i: any) => i.kind === 'assistant_message' && i.text.includes('PING'))).toBe(true);
+
+    await engine.submit(sessionId, 'test', 'reply with only the word PONG');
+    await second.waitFor(isAssistantContaining('PONG'));
+  });
+
+  it('replays only what a reconnecting observer missed, by seq', async () => {
+    const sessionId = await createSession();
+    const first = await observe(sessionId);
+    await engine.submit(sessionId, 'test', '[scenario:gap] take your time');
+    await first.waitFor(isStreamItemKind('text_delta'));
+
+    // Drop out mid-turn; the turn keeps going with nobody watching
+    const idle = new Promise<void>(resolve => {
+      const onStatus = (data: { sessionId: string; status: string }) => {
+        if (data.sessionId !== sessionId || data.status !== 'idle') return;
+        engine.off('status_change', onStatus);
+        resolve();
+      };
+      engine.on('status_change', onStatus);
+    });
+    await first.close();
+    // Partial-message deltas aren't journaled, so only they go without a seq
+    const seqs = first.messages.filter(m => m.type === 'stream_item' && m.item.kind !== 'text_delta').map(m => m.seq);
+    expect(seqs.every((seq, i) => i === 0 || seq > seqs[i - 1])).toBe(true);
+    const lastSeen = Math.max(first.messages.find(isHistorySnapshot()).seq, ...seqs);
+    expect(first.messages.some(isAssistantContaining('GAP-FILLED'))).toBe(false);
+    await idle;
+
+    const second = await SessionObserver.open(engine, sessionId, lastSeen);
+    observers.push(second);
+    const replay = await second.waitFor(isHistoryReplay());
+    expect(replay.seq).toBeGreaterThan(lastSeen);
+    expect(replay.items.some((i: any) => i.kind === 'assistant_message' && i.text === 'GAP-FILLED')).toBe(true);
+    expect(replay.items.some((i: any) => i.kind === 'user_message')).toBe(false);
+    expect(second.messages.some(isHistorySnapshot())).toBe(false);
+
+    // A seq from a journal this session no longer has gets the full history
+    const stale = await SessionObserver.open(engine, sessionId, replay.seq + 1000);
+    observers.push(stale);
+    const snapshot = await stale.waitFor(isHistorySnapshot());
+    expect(snapshot.seq).toBe(replay.seq);
+  });
+
+  it('queues back-to-back inputs and answers them in order', async () => {
+    const sessionId = await createSession();
+    const obs = await observe(sessionId);
+
+    await engine.submit(sessionId, 'test', 'reply with only the word ALPHA');
+    await engine.submit(sessionId, 'test', 'reply with only the word BETA');
+
+    const alpha = await obs.waitFor(isAssistantContaining('ALPHA'));
+    const beta = await obs.waitFor(isAssistantContaining('BETA'));
+    expect(obs.messages.indexOf(alpha)).toBeLessThan(obs.messages.indexOf(beta));
+  });
+
+  it('keeps concurrent sessions isolated', async () => {
+    const one = await createSession();
+    const two = await createSession();
+    const obsOne = await observe(one);
+    const obsTwo = await observe(two);
+
+    await Promise.all([
+      engine.submit(one, 'test', 'reply with only the word FIRST'),
+      engine.submit(two, 'test', 'reply with only the word SECOND'),
+    ]);
+
+    await obsOne.waitFor(isAssistantContaining('FIRST'));
+    await obsTwo.waitFor(isAssistantContaining('SECOND'));
+    expect(obsOne.messages.some(isAssistantContaining('SECOND'))).toBe(false);
+    expect(obsTwo.messages.some(isAssistantContaining('FIRST'))).toBe(false);
+  });
+
+  it('fans live output out to every observer of a session', async () => {
+    const sessionId = await createSession();
+    const a = await observe(sessionId);
+    const b = await observe(sessionId);
+
+    await engine.submit(sessionId, 'test', 'reply with only the word SHARED');
+
+    await a.waitFor(isAssistantContaining('SHARED'));
+    await b.waitFor(isUserContaining('SHARED'));
+    await b.waitFor(isAssistantContaining('SHARED'));
+  });
+
+  it('runs Claude in the session project directory', async () => {
+    const ownProject = createTestProject();
+    const sessionId = await createSession({}, ownProject);
+    const obs = await observe(sessionId);
+
+    await engine.submit(sessionId, 'test', 'reply with only the word WHERE');
+    await obs.waitFor(isAssistantContaining('WHERE'));
+
+    // The fake CLI keeps its transcript under its cwd
+    expect(fs.readdirSync(path.join(ownProject, '.fake-claude'))).toHaveLength(1);
+    fs.rmSync(ownProject, { recursive: true, force: true });
+  });
+
+  it('survives an engine restart', async () => {
+    const sessionId = await createSession();
+    const before = await observe(sessionId);
+    const idle = before.waitForNext(isAgentStatus('idle'));
+    await engine.submit(sessionId, 'test', 'reply with only the word BEFORE');
+    await idle;
+    await before.close();
+
+    engine.stop();
+    engine = new TmuxSessionEngine({ defaultBackend: backend });
+    await engine.reconcile();
+
+    if (backend === 'tmux') {
+      // tmux hosts outlive the engine and are reattached, not re-spawned
+      expect(() => execSync(`tmux has-session -t "aim-session-${sessionId}" 2>/dev/null`)).not.toThrow();
+    }
+
+    const after = await observe(sessionId);
+    const snapshot = await after.waitFor(isHistorySnapshot());
+    expect(snapshot.items.some((i: any) => i.kind === 'assistant_message' && i.text.includes('BEFORE'))).toBe(true);
+
+    await engine.submit(sessionId, 'test', 'reply with only the word AFTER');
+    await after.waitFor(isAssistantContaining('AFTER'));
+  });
+
+  it('emits session_created once and sleeping on destroy', async () => {
+    const created: string[] = [];
+    const sleeping: string[] = [];
+    const onCreated = ({ sessionId }: { sessionId: string }) => created.push(sessionId);
+    const onStatus = ({ sessionId, status }: { sessionId: string; status: string }) => {
+      if (status === 'sleeping') sleeping.push(sessionId);
+    };
+    engine.on('session_created', onCreated);
+    engine.on('status_change', onStatus);
+
+    const sessionId = await createSession();
+    await engine.create(sessionId, projectPath, 'sonnet', { backend });
+    await engine.destroy(sessionId);
+
+    engine.off('session_created', onCreated);
+    engine.off('status_change', onStatus);
+    expect(created.filter(id => id === sessionId)).toHaveLength(1);
+    expect(sleeping).toContain(sessionId);
+  });
+
+  it('lets queued inputs be edited, reordered, deleted and sent early', async () => {
+    const sessionId = await createSession();
+    const obs = await observe(sessionId);
+    await engine.submit(sessionId, 'test', '[scenario:slow] tell me a long story');
+    await obs.waitFor(isAgentStatus('thinking'));
+    await obs.waitFor(isStreamItemKind('text_delta'));
+
+    await engine.submit(sessionId, 'test', 'reply with only the word DROPPED');
+    await engine.submit(sessionId, 'test', 'reply with only the word TYPO');
+    await engine.submit(sessionId, 'test', 'reply with only the word SECOND');
+    const [dropped, typo, second] = await engine.readQueue(sessionId);
+
+    await engine.deleteQueuedInput(sessionId, dropped.id);
+    await engine.editQueuedInput(sessionId, typo.id, 'reply with only the word EDITED');
+    await engine.reorderQueue(sessionId, [second.id, typo.id]);
+    const update = await obs.waitFor((m: any) => m.type === 'queue_update' && m.queue.length === 2 && m.queue[0].id === second.id);
+    expect(update.queue.map((q: any) => q.text)).toEqual(['reply with only the word SECOND', 'reply with only the word EDITED']);
+
+    // Jumps the queue and cuts the slow turn short
+    const drained = obs.waitForNext((m: any) => m.type === 'queue_update' && m.queue.length === 0);
+    await engine.sendQueuedNow(sessionId, typo.id);
+    await obs.waitFor(isAssistantContaining('EDITED'));
+    await obs.waitFor(isAssistantContaining('SECOND'));
+    await drained;
+
+    // Inputs are echoed as they are sent, so the deleted one never shows
+    const sent = obs.messages.filter(isStreamItemKind('user_message')).map((m: any) => m.item.text);
+    expect(sent).toEqual(['[scenario:slow] tell me a long story', 'reply with only the word EDITED', 'reply with only the word SECOND']);
+    expect(await engine.readQueue(sessionId)).toEqual([]);
+    await expect(engine.deleteQueuedInput(sessionId, dropped.id)).rejects.toThrow(/no longer queued/);
+  });
+
+  it('recovers from an interrupt mid-turn', async () => {
+    const sessionId = await createSession();
+    const obs = await observe(sessionId);
+
+    await engine.submit(sessionId, 'test', '[scenario:slow] tell me a long story');
+    await obs.waitFor(isAgentStatus('thinking'));
+    await obs.waitFor(isStreamItemKind('text_delta'));
+
+    const idle = obs.waitForNext(isAgentStatus('idle'));
+    await engine.interrupt(sessionId);
+    await idle;
+
+    await engine.submit(sessionId, 'test', 'reply with only the word RECOVERED');
+    await obs.waitFor(isAssistantContaining('RECOVERED'));
+  });
+
+  it('starts a fresh Claude conversation on clear, and from a summary on compact', async () => {
+    const sessionId = await createSession();
+    const obs = await observe(sessionId);
+    const idle = obs.waitForNext(isAgentStatus('idle'));
+    await engine.submit(sessionId, 'test', 'My favorite fruit is Apples.');
+    await idle;
+    const before = (await engine.getState(sessionId))?.claudeSessionId;
+
+    await engine.clearContext(sessionId);
+    await obs.waitFor(isStreamItemKind('context_cleared'));
+    await engine.submit(sessionId, 'test', '[scenario:recall] What did I say first?');
+    await obs.waitFor(isAssistantContaining('You first said: What did I say first?'));
+    expect((await engine.getState(sessionId))?.claudeSessionId).not.toBe(before);
+
+    // The fake echoes the summary request back, so that is the summary
+    await engine.compactContext(sessionId);
+    const compacted = await obs.waitFor(isStreamItemKind('context_compacted'));
+    expect(compacted.item.summary).toMatch(/^Echo: Summarize our conversation so far/);
+    await engine.submit(sessionId, 'test', '[scenario:recall] And now?');
+    await obs.waitFor(isAssistantContaining('You first said: [Summary of our conversation so far]\nEcho: Summarize'));
+    expect((await engine.getState(sessionId))?.contextSummary).toBeUndefined();
+  });
+
+  it('forks a session at a message into a child that resumes from there', async () => {
+    const parentId = await createSession();
+    const parent = await observe(parentId);
+    let idle = parent.waitForNext(isAgentStatus('idle'));
+    await engine.submit(parentId, 'test', 'My favorite fruit is Apples.');
+    const firstReply = await parent.waitFor(isAssistantContaining('Echo: My favorite fruit'));
+    await idle;
+    idle = parent.waitForNext(isAgentStatus('idle'));
+    await engine.submit(parentId, 'test', 'reply with only the word LATER');
+    await idle;
+
+    const forkId = await engine.fork(parentId, firstReply.item.id);
+    sessions.push(forkId);
+    const fork = await observe(forkId);
+    const snapshot = fork.messages.find(isHistorySnapshot());
+    expect(snapshot.items.some((i: any) => i.kind === 'user_message' && i.text.includes('Apples'))).toBe(true);
+    expect(snapshot.items.some((i: any) => i.text?.includes('LATER'))).toBe(false);
+
+    // Claude picks up the parent's conversation as it was at the fork, under a new id
+    idle = fork.waitForNext(isAgentStatus('idle'));
+    await engine.submit(forkId, 'test', '[scenario:recall] What did I say first?');
+    await fork.waitFor(isAssistantContaining('You first said: My favorite fruit is Apples.\nMessages so far: 2'));
+    await idle;
+    const state = await engine.getState(forkId);
+    expect(state?.forkedFrom).toEqual({ sessionId: parentId, itemId: firstReply.item.id });
+    expect(state?.claudeSessionId).toBeTruthy();
+    expect(state?.claudeSessionId).not.toBe((await engine.getState(parentId))?.claudeSessionId);
+  });
+
+  it('resends an edited message in a new branch, keeping the old one browsable', async () => {
+    const sessionId = await createSession();
+    const obs = await observe(sessionId);
+    let idle = obs.waitForNext(isAgentStatus('idle'));
+    await engine.submit(sessionId, 'test', 'My favorite fruit is Apples.');
+    await idle;
+    idle = obs.waitForNext(isAgentStatus('idle'));
+    await engine.submit(sessionId, 'test', 'reply with only the word LATER');
+    const later = await obs.waitFor(isUserContaining('LATER'));
+    await idle;
+
+    idle = obs.waitForNext(isAgentStatus('idle'));
+    await engine.editMessage(sessionId, later.item.id, '[scenario:recall] What did I say first?');
+    const marker = await obs.waitFor(isStreamItemKind('branch_started'));
+    expect(marker.item).toMatchObject({ branch: 1, fromItemId: later.item.id });
+    // Claude restarts from before the edited message, so LATER is not part of it
+    await obs.waitFor(isAssistantContaining('You first said: My favorite fruit is Apples.\nMessages so far: 2'));
+    await idle;
+
+    const reopened = await observe(sessionId);
+    const active = reopened.messages.find(isHistorySnapshot()).items;
+    expect(active.map((i: any) => i.kind)).toContain('branch_started');
+    expect(active.some((i: any) => i.text?.includes('LATER'))).toBe(false);
+    expect(active.some((i: any) => i.kind === 'user_message' && i.text.includes('Apples'))).toBe(true);
+
+    const original = await engine.readBranch(sessionId, 0);
+    expect(original.some((i: any) => i.kind === 'assistant_message' && i.text === 'LATER')).toBe(true);
+    expect(original.some((i: any) => i.text?.includes('What did I say first'))).toBe(false);
+  });
+
+  describe('governance', () => {
+    it('plans the TTL only for unwatched sessions, and never for pinned ones', async () => {
+      const shortLived = createTestProject();
+      const policy = engine.getGovernance();
+      engine.setGovernance({ ...policy, projects: { [toProjectKey(shortLived)]: { sessionTtlMs: 1 } } });
+      try {
+        const sessionId = await createSession({}, shortLived);
+        const obs = await observe(sessionId);
+        const idle = obs.waitForNext(isAgentStatus('idle'));
+        await engine.submit(sessionId, 'test', 'reply with only the word KEEP');
+        await idle;
+        const planned = async () => (await engine.planReaping()).filter(a => a.sessionId === sessionId);
+
+        // Mid-conversation: only the idle timeout is pending
+        expect(await planned()).toEqual([expect.objectContaining({ rule: 'idle_timeout', action: 'destroy' })]);
+        expect((await planned())[0].dueInMs).toBeGreaterThan(0);
+
+        await obs.close();
+        expect(await planned()).toEqual([expect.objectContaining({ rule: 'session_ttl', action: 'destroy', dueInMs: 0 })]);
+
+        await engine.setPinned(sessionId, true);
+        expect(await planned()).toEqual([]);
+        await engine.setPinned(sessionId, false);
+      } finally {
+        engine.setGovernance(policy);
+        fs.rmSync(shortLived, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('slot scheduling', () => {
+    const isQueuedAt = (position: number) => (m: any) => m.type === 'agent_status' && m.status === 'queued_for_slot' && m.position === position;
+
+    it('queues sessions for a slot, interactive input ahead of background work', async () => {
+      const policy = engine.getGovernance();
+      engine.setGovernance({ ...policy, maxConcurrentSessions: 1 });
+      try {
+        const holder = await createSession();
+        const holderObs = await observe(holder);
+        await engine.submit(holder, 'test', '[scenario:slow] tell me a long story');
+        await holderObs.waitFor(isAgentStatus('thinking'));
+        await holderObs.waitFor(isStreamItemKind('text_delta'));
+
+        const background = await createSession();
+        const interactive = await createSession();
+        const backgroundObs = await observe(background);
+        const interactiveObs = await observe(interactive);
+
+        await engine.submit(background, 'scheduler', 'reply with only the word LATER', undefined, undefined, 'scheduled');
+        await backgroundObs.waitFor(isQueuedAt(1));
+        await engine.submit(interactive, 'test', 'reply with only the word FIRST');
+        await interactiveObs.waitFor(isQueuedAt(1));
+        await backgroundObs.waitFor(isQueuedAt(2));
+        expect(engine.getSystemStatus().slotQueue.map(w => [w.sessionId, w.priority])).toEqual([[interactive, 'interactive'], [background, 'background']]);
+
+        // The busy holder finishing frees the slot, which goes to the interactive session first
+        await engine.interrupt(holder);
+        const first = await interactiveObs.waitFor(isAssistantContaining('FIRST'));
+        const later = await backgroundObs.waitFor(isAssistantContaining('LATER'));
+        expect(later.item.timestamp >= first.item.timestamp).toBe(true);
+        expect(engine.getSystemStatus().slotQueue).toEqual([]);
+      } finally {
+        engine.setGovernance(policy);
+      }
+    });
+  });
+
+  describe('tool permissions', () => {
+    const isPermission = (status: string) => (m: any) => isStreamItemKind('permission_request')(m) && m.item.status === status;
+    const isToolResult = (id: string) => (m: any) => isStreamItemKind('tool_call')(m) && m.item.id === id && m.item.status !== 'running';
+
+    it('waits for approval and remembers "allow for session"', async () => {
+      const sessionId = await createSession({ permissionMode: 'ask' });
+      const obs = await observe(sessionId);
+
+      const idle = obs.waitForNext(isAgentStatus('idle'));
+      await engine.submit(sessionId, 'test', '[scenario:permission] clean up');
+      const pending = await obs.waitFor(isPermission('pending'));
+      expect(pending.item).toMatchObject({ toolName: 'Bash', input: { command: 'rm -rf build' } });
+
+      await engine.respondToPermission(sessionId, pending.item.id, 'allow_session');
+      await obs.waitFor(isPermission('allowed'));
+      await obs.waitFor(isAssistantContaining('PERMISSION-DONE'));
+      await idle;
+
+      // The identical second call went through on the session grant
+      expect(obs.messages.filter(isPermission('pending'))).toHaveLength(1);
+      expect((await obs.waitFor(isToolResult('toolu_perm_02'))).item).toMatchObject({ status: 'completed', result: 'removed again' });
+      expect((await engine.getState(sessionId))?.sessionAllowRules).toEqual(['Bash(rm -rf build)']);
+      await expect(engine.respondToPermission(sessionId, pending.item.id, 'deny')).rejects.toThrow(/already allowed/);
+    });
+
+    it('passes a denial message back to Claude', async () => {
+      const sessionId = await createSession({ permissionMode: 'ask' });
+      const obs = await observe(sessionId);
+
+      const idle = obs.waitForNext(isAgentStatus('idle'));
+      await engine.submit(sessionId, 'test', '[scenario:permission] clean up');
+      const first = await obs.waitFor(isPermission('pending'));
+      await engine.respondToPermission(sessionId, first.item.id, 'deny', 'not the build dir');
+      const second = await obs.waitFor((m: any) => isPermission('pending')(m) && m.item.id !== first.item.id);
+      await engine.respondToPermission(sessionId, second.item.id, 'allow_once');
+      await obs.waitFor(isAssistantContaining('PERMISSION-DONE'));
+      await idle;
+
+      expect((await obs.waitFor(isToolResult('toolu_perm_01'))).item).toMatchObject({ status: 'failed', result: 'not the build dir' });
+      expect((await obs.waitFor(isToolResult('toolu_perm_02'))).item.status).toBe('completed');
+      expect((await engine.getState(sessionId))?.sessionAllowRules).toBeUndefined();
+    });
+
+    it('applies project deny rules without asking', async () => {
+      const ruledProject = createTestProject();
+      setProjectPermissions(toProjectKey(ruledProject), { allow: [], ask: [], deny: ['Bash(rm *)'] });
+      const sessionId = await createSession({ permissionMode: 'ask' }, ruledProject);
+      const obs = await observe(sessionId);
+
+      const idle = obs.waitForNext(isAgentStatus('idle'));
+      await engine.submit(sessionId, 'test', '[scenario:permission] clean up');
+      await obs.waitFor(isAssistantContaining('PERMISSION-DONE'));
+      await idle;
+
+      const denied = obs.messages.filter(isPermission('denied'));
+      expect(denied).toHaveLength(2);
+      expect(denied[0].item).toMatchObject({ scope: 'rule', message: 'Blocked by project rule Bash(rm *)' });
+      expect(obs.messages.some(isPermission('pending'))).toBe(false);
+      fs.rmSync(ruledProject, { recursive: true, force: true });
+    });
+
+    it('never prompts in bypass mode', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      const idle = obs.waitForNext(isAgentStatus('idle'));
+      await engine.submit(sessionId, 'test', '[scenario:permission] clean up');
+      await obs.waitFor(isAssistantContaining('PERMISSION-DONE'));
+      await idle;
+      expect(obs.messages.some(isStreamItemKind('permission_request'))).toBe(false);
+    });
+  });
+
+  describe('host tools', () => {
+    const isToolResult = (id: string) => (m: any) => isStreamItemKind('tool_call')(m) && m.item.id === id && m.item.status !== 'running';
+    const echo = {
+      name: 'echo',
+      description: 'Echoes the text back',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+      run: async (ctx: { sessionId: string; projectPath: string }, input: Record<string, unknown>) => `${input.text} from ${ctx.sessionId} in ${ctx.projectPath}`,
+    };
+
+    it('answers Claude\'s calls to a registered tool for the calling session', async () => {
+      engine.registerTool(echo);
+      try {
+        const sessionId = await createSession();
+        const obs = await observe(sessionId);
+
+        await engine.submit(sessionId, 'test', '[scenario:host-tool] hello');
+        const running = await obs.waitFor((m: any) => isStreamItemKind('tool_call')(m) && m.item.status === 'running');
+        expect(running.item).toMatchObject({ id: 'toolu_host_01', name: 'mcp__aimessage__echo', input: { text: 'hello' } });
+        expect((await obs.waitFor(isToolResult('toolu_host_01'))).item).toMatchObject({ status: 'completed', result: `hello from ${sessionId} in ${projectPath}` });
+        await obs.waitFor(isAssistantContaining('HOST-TOOL-DONE'));
+      } finally {
+        engine.unregisterTool('echo');
+      }
+    });
+
+    it('reports an unknown tool back to Claude as a failed call', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:host-tool] hello');
+      expect((await obs.waitFor(isToolResult('toolu_host_01'))).item).toMatchObject({ status: 'failed', result: 'Unknown tool: echo' });
+      await obs.waitFor(isAssistantContaining('HOST-TOOL-DONE'));
+    });
+  });
+
+  describe('fixture scenarios', () => {
+    it('renders thinking blocks as thoughts', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:thinking] think first');
+
+      const thought = await obs.waitFor(isStreamItemKind('thought'));
+      expect(thought.item.text).toContain('keep it brief');
+      await obs.waitFor(isAssistantContaining('THOUGHT-THROUGH'));
+    });
+
+    it('pairs tool_use with its tool_result', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:tool-use] list the files');
+
+      const running = await obs.waitFor((m: any) => isStreamItemKind('tool_call')(m) && m.item.status === 'running');
+      expect(running.item).toMatchObject({ id: 'toolu_fake_01', name: 'Bash', input: { command: 'ls' } });
+
+      const completed = await obs.waitFor((m: any) => isStreamItemKind('tool_call')(m) && m.item.status === 'completed');
+      expect(completed.item).toMatchObject({ id: 'toolu_fake_01', result: 'README.md\nsrc' });
+
+      await obs.waitFor(isAssistantContaining('TOOL-DONE'));
+    });
+
+    it('nests a sub-agent\'s items under its Task call and counts it while it runs', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+      const counts: number[] = [];
+      let started: (running: Promise<number | undefined>) => void;
+      const whileRunning = new Promise<number | undefined>(resolve => { started = resolve; });
+      const onChange = (e: { sessionId: string; running: number }) => {
+        if (e.sessionId !== sessionId) return;
+        if (counts.push(e.running) === 1) started(engine.getState(sessionId).then(s => s?.runningSubAgents));
+      };
+      engine.on('subagents_change', onChange);
+
+      await engine.submit(sessionId, 'test', '[scenario:subagent] where does the server start?');
+
+      await obs.waitFor((m: any) => isStreamItemKind('tool_call')(m) && m.item.id === 'toolu_task_01');
+      expect(await whileRunning).toBe(1);
+
+      const subTool = await obs.waitFor((m: any) => isStreamItemKind('tool_call')(m) && m.item.id === 'toolu_sub_01' && m.item.status === 'completed');
+      expect(subTool.item.parentToolUseId).toBe('toolu_task_01');
+      const subText = await obs.waitFor(isAssistantContaining('server.ts starts it'));
+      expect(subText.item.parentToolUseId).toBe('toolu_task_01');
+
+      const done = await obs.waitFor(isAssistantContaining('SUBAGENT-DONE'));
+      expect(done.item.parentToolUseId).toBeUndefined();
+      await obs.waitFor((m: any) => m.type === 'turn_complete');
+      engine.off('subagents_change', onChange);
+      expect(counts).toEqual([1, 0]);
+      expect((await engine.getState(sessionId))?.runningSubAgents).toBe(0);
+    });
+
+    it('keeps the latest TodoWrite plan until the context is cleared', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+      const initial = await obs.waitFor((m: any) => m.type === 'todo_update');
+      expect(initial.todos).toEqual([]);
+
+      await engine.submit(sessionId, 'test', '[scenario:todos] fix the parser');
+      await obs.waitFor((m: any) => m.type === 'todo_update' && m.todos[0]?.status === 'completed');
+      const updates = obs.messages.filter((m: any) => m.type === 'todo_update').slice(1);
+      expect(updates.map((m: any) => m.todos.map((t: any) => t.status))).toEqual([
+        ['in_progress', 'pending', 'pending'],
+        ['completed', 'in_progress', 'pending'],
+      ]);
+      expect((await engine.getState(sessionId))?.todos?.[1]).toEqual({ content: 'Fix the parser', activeForm: 'Fixing the parser', status: 'in_progress' });
+
+      const cleared = obs.waitForNext((m: any) => m.type === 'todo_update');
+      await engine.clearContext(sessionId);
+      expect((await cleared).todos).toEqual([]);
+      expect(await engine.readTodos(sessionId)).toEqual([]);
+    });
+
+    it('records each turn with the usage from its result frame', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:tool-use] list the files');
+      const { turn } = await obs.waitFor((m: any) => m.type === 'turn_complete');
+      const input = await obs.waitFor(isUserContaining('list the files'));
+      expect(turn).toMatchObject({
+        inputId: input.item.id,
+        model: 'haiku',
+        durationMs: 850,
+        numTurns: 2,
+        inputTokens: 40,
+        outputTokens: 18,
+        cacheReadTokens: 1200,
+        cacheWriteTokens: 300,
+        costUsd: 0.0004,
+        toolCount: 1,
+        outcome: 'success',
+      });
+
+      const failedTurn = obs.waitForNext((m: any) => m.type === 'turn_complete');
+      await engine.submit(sessionId, 'test', '[scenario:error] fail please');
+      const failed = await failedTurn;
+      expect(failed.turn).toMatchObject({ outcome: 'error', toolCount: 0, costUsd: 0 });
+
+      expect(await engine.readTurns(sessionId)).toEqual([turn, failed.turn]);
+      expect((await engine.getState(sessionId))?.usage).toEqual({
+        turns: 2, inputTokens: 40, outputTokens: 18, cacheReadTokens: 1200, cacheWriteTokens: 300, costUsd: 0.0004,
+      });
+    });
+
+    it('holds the queue once a budget is spent until overridden', async () => {
+      const sessionId = await createSession();
+      await engine.setBudget(sessionId, { daily: { tokens: 50 } });
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:tool-use] list the files');
+      await obs.waitFor((m: any) => m.type === 'turn_complete');
+
+      await engine.submit(sessionId, 'test', 'reply with only the word RELEASED');
+      const held = await obs.waitFor((m: any) => isStreamItemKind('system')(m) && m.item.text.startsWith('[budget]'));
+      expect(held.item.text).toContain('Session daily budget reached (58 tokens of 50 tokens)');
+      expect((await obs.waitFor(isStreamItemKind('notification'))).item.subject).toContain('Session daily budget reached');
+      expect((await engine.getBudgetStatus(sessionId)).held).toMatchObject({ scope: 'session', period: 'daily', limit: 'tokens', used: 58 });
+
+      await engine.overrideBudget(sessionId);
+      await obs.waitFor(isAssistantContaining('RELEASED'));
+      expect((await engine.getBudgetStatus(sessionId)).held).toBeNull();
+      expect(obs.messages.filter((m: any) => isStreamItemKind('system')(m) && m.item.text.includes('budget reached'))).toHaveLength(1);
+    });
+
+    it('counts turns from every session in the project against its budget', async () => {
+      const ownProject = createTestProject();
+      setProjectBudget(toProjectKey(ownProject), { daily: { tokens: 50 } });
+      try {
+        const first = await createSession({}, ownProject);
+        const second = await createSession({}, ownProject);
+        const obsFirst = await observe(first);
+        const obsSecond = await observe(second);
+
+        // Under budget so far; the turn this spends is what holds the other session
+        await engine.submit(first, 'test', '[scenario:tool-use] list the files');
+        await obsFirst.waitFor((m: any) => m.type === 'turn_complete');
+        await engine.submit(second, 'test', 'reply with only the word SHARED-BUDGET');
+        const held = await obsSecond.waitFor((m: any) => isStreamItemKind('system')(m) && m.item.text.startsWith('[budget]'));
+        expect(held.item.text).toContain('Project daily budget reached (58 tokens of 50 tokens)');
+      } finally {
+        setProjectBudget(toProjectKey(ownProject), {});
+      }
+    });
+
+    it('resumes a held queue by itself when the budget period rolls over', async () => {
+      // Just before midnight, so the daily hold lifts a few seconds in
+      const nearMidnight = new Date();
+      nearMidnight.setHours(23, 59, 54, 0);
+      vi.useFakeTimers({ toFake: ['Date'], shouldAdvanceTime: true });
+      vi.setSystemTime(nearMidnight);
+      try {
+        const sessionId = await createSession();
+        await engine.setBudget(sessionId, { daily: { tokens: 50 } });
+        const obs = await observe(sessionId);
+
+        await engine.submit(sessionId, 'test', '[scenario:tool-use] list the files');
+        await obs.waitFor((m: any) => m.type === 'turn_complete');
+        await engine.submit(sessionId, 'test', 'reply with only the word OVERNIGHT');
+        await obs.waitFor((m: any) => isStreamItemKind('system')(m) && m.item.text.startsWith('[budget]'));
+
+        await obs.waitFor(isAssistantContaining('OVERNIGHT'));
+        expect((await engine.getBudgetStatus(sessionId)).held).toBeNull();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('streams partial text and thinking under the ids of the final items, without journaling them', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:streaming] stream it');
+
+      const final = await obs.waitFor(isAssistantContaining('STREAMED'));
+      const thought = obs.messages.find(isStreamItemKind('thought'));
+      const deltas = obs.messages.filter(isStreamItemKind('text_delta'));
+      expect(deltas.every((m: any) => m.seq === undefined)).toBe(true);
+      const thinking = deltas.filter((m: any) => m.item.block === 'thinking');
+      expect(thinking.map((m: any) => m.item.text).join('')).toBe('Plan the answer');
+      expect(thinking.every((m: any) => m.item.id === thought.item.id)).toBe(true);
+      const text = deltas.filter((m: any) => m.item.block === 'text');
+      expect(text.map((m: any) => [m.item.offset, m.item.text])).toEqual([[0, 'STREAM'], [6, 'ED']]);
+      expect(text.every((m: any) => m.item.id === final.item.id)).toBe(true);
+      expect((await engine.readOutputHistory(sessionId)).some(line => line.includes('stream_event') || line.includes('text_delta'))).toBe(false);
+
+      // Someone opening the chat mid-message is caught up with what has streamed so far
+      await engine.submit(sessionId, 'test', '[scenario:gap] take your time');
+      await obs.waitFor(isStreamItemKind('text_delta'));
+      const late = await observe(sessionId);
+      const caughtUp = await late.waitFor(isStreamItemKind('text_delta'));
+      expect(caughtUp.item).toMatchObject({ block: 'text', offset: 0, text: 'Hold on' });
+      expect((await late.waitFor(isAssistantContaining('GAP-FILLED'))).item.id).toBe(caughtUp.item.id);
+    });
+
+    it('returns to idle after an error result', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      const idle = obs.waitForNext(isAgentStatus('idle'));
+      await engine.submit(sessionId, 'test', '[scenario:error] fail please');
+      await idle;
+
+      await engine.submit(sessionId, 'test', 'reply with only the word FINE');
+      await obs.waitFor(isAssistantContaining('FINE'));
+    });
+
+    it('recovers from a mid-turn crash through interrupt', async () => {
+      const sessionId = await createSession();
+      const obs = await observe(sessionId);
+
+      await engine.submit(sessionId, 'test', '[scenario:crash] go');
+      await obs.waitFor(isAssistantContaining('PARTIAL'));
+
+      // No result frame ever arrives, so the turn stays busy until interrupted.
+      // (Under tmux the wrapper only notices the exit once the FIFO closes.)
+      const idle = obs.waitForNext(isAgentStatus('idle'));
+      await engine.interrupt(sessionId);
+      await idle;
+      await obs.waitFor((m: any) => isStreamItemKind('system')(m) && /Claude process exited/.test(m.item.text));
+
+      await engine.submit(sessionId, 'test', 'reply with only the word ALIVE');
+      await obs.waitFor(isAssistantContaining('ALIVE'));
+    });
+  });
+});
@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+/**
+ * fake-claude — scriptable stand-in for the Claude CLI.
+ *
+ * Speaks the same stream-json protocol the engine drives through wrapper.sh
+ * and ProcessBackend, but replays fixture scenarios instead of calling the
+ * API, so the engine can be exercised end-to-end without network or a login.
+ *
+ * Select it with AIMESSAGE_CLAUDE_BIN=/path/to/fake-claude.mjs (or the
+ * claudeCommand / command options on MuxManager / ProcessBackend).
+ *
+ * Per user turn the response is chosen by:
+ *   1. a `[scenario:NAME]` directive in the message → scenarios/NAME.json
+ *   2. FAKE_CLAUDE_SCENARIO (name or path) for every turn
+ *   3. the built-in echo: "reply with only the word X" → "X", else "Echo: <text>"
+ *
+ * A scenario is { "frames": [...] }. Frames are written to stdout verbatim
+ * after substituting {{session_id}}, {{text}}, {{first_message}} and
+ * {{message_count}} (user messages in the conversation, this one included).
+ * Pseudo-frames control the process itself:
+ *   { "fake": "sleep", "ms": 200 }     pause between frames
+ *   { "fake": "crash", "exitCode": 1 } exit mid-turn without a result
+ *   { "fake": "tool", "id", "name", "input", "result" }
+ *                                      tool_use + tool_result; with
+ *                                      --permission-prompt-tool stdio it first
+ *                                      sends a can_use_tool control_request and
+ *                                      waits for the control_response on stdin
+ *   { "fake": "tool", "id", "server", "name", "input" }
+ *                                      the same for a tool of an in-process
+ *                                      MCP server (--mcp-config type "sdk"):
+ *                                      called as mcp__server__name, its result
+ *                                      comes from a tools/call mcp_message
+ *                                      control_request
+ *
+ * Conversations are remembered in {cwd}/.fake-claude/{session_id}.json so
+ * --resume restores {{first_message}} across process restarts. Assistant
+ * frames get a uuid; --fork-session continues a copy under a new session id,
+ * and --resume-session-at <uuid> drops the turns after that reply.
+ *
+ * Without --input-format stream-json it behaves like `claude -p`: reads the
+ * prompt from stdin and prints a fixed one-line answer (one-shot callers).
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import * as readline from 'node:readline';
+import { fileURLToPath } from 'node:url';
+
+const SCENARIO_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'scenarios');
+const STATE_DIR = path.join(process.cwd(), '.fake-claude');
+
+function parseArgs(argv) {
+  const opts = { model: 'sonnet', resume: null, fork: false, resumeAt: null, streamJson: false, askPermission: false, sdkServers: [] };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--model') opts.model = argv[++i];
+    else if (argv[i] === '--resume') opts.resume = argv[++i];
+    else if (argv[i] === '--fork-session') opts.fork = true;
+    else if (argv[i] === '--resume-session-at') opts.resumeAt = argv[++i];
+    else if (argv[i] === '--input-format') opts.streamJson = argv[++i] === 'stream-json';
+    else if (argv[i] === '--permission-prompt-tool') opts.askPermission = argv[++i] === 'stdio';
+    else if (argv[i] === '--mcp-config') {
+      const servers = JSON.parse(argv[++i]).mcpServers ?? {};
+      opts.sdkServers = Object.keys(servers).filter(name => servers[name].type === 'sdk');
+    }
+  }
+  return opts;
+}
+
+function loadScenario(nameOrPath) {
+  const file = nameOrPath.includes('/') ? nameOrPath : path.join(SCENARIO_DIR, `${nameOrPath}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function loadState(sessionId) {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(STATE_DIR, `${sessionId}.json`), 'utf-8'));
+  } catch {
+    return { messages: [], replies: [] };
+  }
+}
+
+// The conversation up to and including the turn whose reply has `uuid`
+function cutAt(state, uuid) {
+  const replies = state.replies ?? [];
+  const turn = uuid ? replies.indexOf(uuid) : -1;
+  if (turn < 0) return { messages: state.messages, replies };
+  return { messages: state.messages.slice(0, turn + 1), replies: replies.slice(0, turn + 1) };
+}
+
+function saveState(sessionId, state) {
+  fs.mkdirSync(STATE_DIR, { recursive: true });
+  fs.writeFileSync(path.join(STATE_DIR, `${sessionId}.json`), JSON.stringify(state, null, 2));
+}
+
+function messageText(frame) {
+  const content = frame.message?.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) return content.filter(b => b.type === 'text').map(b => b.text).join('\n');
+  return '';
+}
+
+function substitute(value, vars) {
+  if (typeof value === 'string') return value.replace(/\{\{(\w+)\}\}/g, (m, key) => (key in vars ? vars[key] : m));
+  if (Array.isArray(value)) return value.map(v => substitute(v, vars));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, vars)]));
+  }
+  return value;
+}
+
+function echoScenario(text) {
+  const word = text.match(/reply with only the word (\S+)/i);
+  const reply = word ? word[1].replace(/[^\w-]/g, '') : `Echo: ${text}`;
+  return {
+    frames: [
+      { type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: reply }] }, session_id: '{{session_id}}' },
+      { type: 'result', subtype: 'success', is_error: false, result: reply, session_id: '{{session_id}}', total_cost_usd: 0.0001, usage: { input_tokens: 10, output_tokens: 2 } }
+    ]
+  };
+}
+
+function write(frame) {
+  process.stdout.write(JSON.stringify(frame) + '\n');
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function runOneShot() {
+  let prompt = '';
+  for await (const chunk of process.stdin) prompt += chunk;
+  process.stdout.write(prompt.trim() ? 'Fake one-shot reply\n' : '\n');
+}
+
+async function runStreamJson(opts) {
+  const sessionId = opts.resume && !opts.fork ? opts.resume : crypto.randomUUID();
+  const state = opts.resume ? cutAt(loadState(opts.resume), opts.resumeAt) : loadState(sessionId);
+  let initialized = false;
+
+  // Assistant frames carry a uuid, recorded as the reply to the current turn
+  const reply = (frame) => {
+    const stamped = { ...frame, uuid: frame.uuid ?? crypto.randomUUID() };
+    state.replies = state.replies ?? [];
+    state.replies[state.messages.length - 1] = stamped.uuid;
+    saveState(sessionId, state);
+    write(stamped);
+  };
+
+  // Turns are handled strictly in order, like the real CLI
+  let queue = Promise.resolve();
+  // Control responses bypass the turn queue: the turn is blocked waiting on them
+  const awaitingControl = new Map();
+
+  const sendControl = (request) => {
+    const requestId = crypto.randomUUID();
+    write({ type: 'control_request', request_id: requestId, request });
+    return new Promise(resolve => awaitingControl.set(requestId, resolve));
+  };
+
+  const askPermission = (name, input) => sendControl({ subtype: 'can_use_tool', tool_name: name, input });
+
+  let mcpId = 0;
+  const callSdkTool = async (step) => {
+    if (!opts.sdkServers.includes(step.server)) return { text: `No MCP server named ${step.server}`, isError: true };
+    const message = { jsonrpc: '2.0', id: ++mcpId, method: 'tools/call', params: { name: step.name, arguments: step.input } };
+    const answer = (await sendControl({ subtype: 'mcp_message', server_name: step.server, message })).mcp_response ?? {};
+    if (answer.error) return { text: answer.error.message, isError: true };
+    return { text: (answer.result?.content ?? []).map(c => c.text ?? '').join('\n'), isError: answer.result?.isError === true };
+  };
+
+  const runTool = async (step) => {
+    const name = step.server ? `mcp__${step.server}__${step.name}` : step.name;
+    reply({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', id: step.id, name, input: step.input }] }, session_id: sessionId });
+    const verdict = opts.askPermission ? await askPermission(name, step.input) : { behavior: 'allow' };
+    const { text, isError } = verdict.behavior !== 'allow' ? { text: verdict.message ?? 'Permission denied', isError: true }
+      : step.server ? await callSdkTool(step)
+      : { text: step.result ?? '', isError: false };
+    write({ type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: step.id, content: [{ type: 'text', text }], is_error: isError }] }, session_id: sessionId });
+  };
+
+  const handle = async (line) => {
+    let frame;
+    try { frame = JSON.parse(line); } catch { return; }
+    if (frame.type !== 'user') return;
+
+    if (!initialized) {
+      initialized = true;
+      write({ type: 'system', subtype: 'init', session_id: sessionId, model: opts.model, cwd: process.cwd(), tools: [] });
+    }
+
+    const raw = messageText(frame);
+    const directive = raw.match(/\[scenario:([\w-]+)\]/);
+    const text = raw.replace(/\[scenario:[\w-]+\]\s*/, '').trim();
+
+    state.messages.push(text);
+    saveState(sessionId, state);
+
+    const scenario = directive
+      ? loadScenario(directive[1])
+      : process.env.FAKE_CLAUDE_SCENARIO
+        ? loadScenario(process.env.FAKE_CLAUDE_SCENARIO)
+        : echoScenario(text);
+
+    const vars = { session_id: sessionId, text, first_message: state.messages[0] ?? '', message_count: String(state.messages.length) };
+    for (const step of scenario.frames) {
+      if (step.fake === 'sleep') {
+        await sleep(step.ms ?? 100);
+      } else if (step.fake === 'tool') {
+        await runTool(substitute(step, vars));
+      } else if (step.fake === 'crash') {
+        process.stderr.write('[fake-claude] crashing mid-turn\n');
+        process.exit(step.exitCode ?? 1);
+      } else if (step.type === 'assistant') {
+        reply(substitute(step, vars));
+      } else {
+        write(substitute(step, vars));
+      }
+    }
+  };
+
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', (line) => {
+    try {
+      const frame = JSON.parse(line);
+      if (frame.type === 'control_response') {
+        const resolve = awaitingControl.get(frame.response?.request_id);
+        awaitingControl.delete(frame.response?.request_id);
+        resolve?.(frame.response?.response ?? {});
+        return;
+      }
+    } catch { /* handled (and ignored) in turn order */ }
+    queue = queue.then(() => handle(line));
+  });
+  rl.on('close', () => { queue.then(() => process.exit(0)); });
+}
+
+const opts = parseArgs(process.argv.slice(2));
+if (opts.streamJson) {
+  runStreamJson(opts);
+} else {
+  runOneShot();
+}
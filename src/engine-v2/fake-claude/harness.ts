@@ -0,0 +1,223 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import * as net from 'node:net';
+import { execSync, spawn, type ChildProcess } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import type { TmuxSessionEngine } from '../TmuxSessionEngine.js';
+import type { BackendKind } from '../SessionBackend.js';
+
+export const FAKE_CLAUDE_BIN = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fake-claude.mjs');
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+/** Backends the suite can exercise on this host — tmux only when installed. */
+export function availableBackends(): BackendKind[] {
+  try {
+    execSync('command -v tmux', { stdio: 'ignore' });
+    return ['process', 'tmux'];
+  } catch {
+    return ['process'];
+  }
+}
+
+export function createTestProject(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'aimessage-test-project-'));
+}
+
+export function newSessionId(): string {
+  return crypto.randomUUID();
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * server.ts in a child process on a free port, with the fake CLI, the
+ * process backend and this test file's throwaway home, paired as an admin
+ * device from the code it prints at startup.
+ */
+export class TestServer {
+  private output = '';
+  token = '';
+
+  private constructor(private proc: ChildProcess, readonly port: number) {
+    proc.stdout!.on('data', (chunk) => (this.output += chunk));
+    proc.stderr!.on('data', (chunk) => (this.output += chunk));
+  }
+
+  static async start(): Promise<TestServer> {
+    const port = await freePort();
+    const proc = spawn(process.execPath, ['--import', 'tsx', 'server.ts'], {
+      cwd: REPO_ROOT,
+      env: { ...process.env, AIMESSAGE_PORT: String(port), AIMESSAGE_BACKEND: 'process' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const server = new TestServer(proc, port);
+    const code = await server.waitForOutput(/Admin pairing code: (\S+)/);
+    const res = await server.api('/api/auth/pair', { method: 'POST', body: JSON.stringify({ code, name: 'Test' }) });
+    server.token = (await res.json()).token;
+    return server;
+  }
+
+  /** Resolves with the first capture group once the server prints a match. */
+  private waitForOutput(pattern: RegExp, timeoutMs = 20000): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const match = this.output.match(pattern);
+        if (!match) return;
+        cleanup();
+        resolve(match[1]);
+      };
+      const onExit = (code: number | null) => {
+        cleanup();
+        reject(new Error(`server exited with ${code}:\n${this.output}`));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`server did not print ${pattern} within ${timeoutMs}ms:\n${this.output}`));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.proc.stdout!.off('data', check);
+        this.proc.off('exit', onExit);
+      };
+      this.proc.stdout!.on('data', check);
+      this.proc.on('exit', onExit);
+      check();
+    });
+  }
+
+  get alive(): boolean {
+    return this.proc.exitCode === null && this.proc.signalCode === null;
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  api(urlPath: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(this.url + urlPath, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(this.token && { Authorization: `Bearer ${this.token}` }), ...init.headers },
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.alive) return;
+    const exited = new Promise((resolve) => this.proc.once('exit', resolve));
+    this.proc.kill('SIGTERM');
+    await exited;
+  }
+}
+
+/**
+ * Test-side view of engine.observe(): drains the ReadableStream into a
+ * message list and lets tests wait for a matching message.
+ */
+export class SessionObserver {
+  readonly messages: any[] = [];
+  private waiters: Array<{ predicate: (msg: any) => boolean; resolve: (msg: any) => void }> = [];
+  private reader: ReadableStreamDefaultReader<string>;
+
+  private constructor(stream: ReadableStream) {
+    this.reader = stream.getReader();
+    this.pump();
+  }
+
+  static async open(engine: TmuxSessionEngine, sessionId: string, sinceSeq = 0): Promise<SessionObserver> {
+    return new SessionObserver(await engine.observe(sessionId, sinceSeq));
+  }
+
+  private async pump(): Promise<void> {
+    try {
+      while (true) {
+        const { value, done } = await this.reader.read();
+        if (done) return;
+        for (const line of String(value).split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            const msg = JSON.parse(line);
+            this.messages.push(msg);
+            this.waiters = this.waiters.filter(w => {
+              if (!w.predicate(msg)) return true;
+              w.resolve(msg);
+              return false;
+            });
+          } catch { /* not JSON */ }
+        }
+      }
+    } catch { /* cancelled */ }
+  }
+
+  /** Resolves with the first message (past or future) matching the predicate. */
+  waitFor(predicate: (msg: any) => boolean, timeoutMs = 15000): Promise<any> {
+    const existing = this.messages.find(predicate);
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w.resolve !== done);
+        reject(new Error(`waitFor timed out after ${timeoutMs}ms. Saw: ${JSON.stringify(this.messages.map(describe))}`));
+      }, timeoutMs);
+      const done = (msg: any) => { clearTimeout(timer); resolve(msg); };
+      this.waiters.push({ predicate, resolve: done });
+    });
+  }
+
+  /** Resolves with the next matching message that arrives after this call. */
+  waitForNext(predicate: (msg: any) => boolean, timeoutMs = 15000): Promise<any> {
+    const seen = this.messages.length;
+    return this.waitFor((msg) => this.messages.indexOf(msg) >= seen && predicate(msg), timeoutMs);
+  }
+
+  async close(): Promise<void> {
+    await this.reader.cancel().catch(() => {});
+  }
+}
+
+function describe(msg: any): string {
+  return msg.type + (msg.status ? ':' + msg.status : '') + (msg.item?.kind ? ':' + msg.item.kind : '');
+}
+
+// ── Message predicates ───────────────────────────────────
+
+export function isAgentStatus(status: string) {
+  return (msg: any) => msg.type === 'agent_status' && msg.status === status;
+}
+
+export function isHistorySnapshot() {
+  return (msg: any) => msg.type === 'history_snapshot';
+}
+
+export function isHistoryReplay() {
+  return (msg: any) => msg.type === 'history_replay';
+}
+
+export function isStreamItemKind(kind: string) {
+  return (msg: any) => msg.type === 'stream_item' && msg.item?.kind === kind;
+}
+
+export function isAssistantContaining(text: string) {
+  const lower = text.toLowerCase();
+  return (msg: any) =>
+    msg.type === 'stream_item' &&
+    msg.item?.kind === 'assistant_message' &&
+    msg.item.text.toLowerCase().includes(lower);
+}
+
+export function isUserContaining(text: string) {
+  const lower = text.toLowerCase();
+  return (msg: any) =>
+    msg.type === 'stream_item' &&
+    msg.item?.kind === 'user_message' &&
+    msg.item.text.toLowerCase().includes(lower);
+}
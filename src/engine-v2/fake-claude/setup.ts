@@ -0,0 +1,17 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll } from 'vitest';
+import { FAKE_CLAUDE_BIN } from './harness.js';
+
+// Runs before each test file is imported, so every module-level
+// `os.homedir()` path (~/.aimessage/sessions, ~/.claude/projects) lands
+// in a throwaway directory instead of the developer's real state.
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'aimessage-test-home-'));
+fs.mkdirSync(path.join(home, '.claude'), { recursive: true });
+process.env.HOME = home;
+process.env.AIMESSAGE_CLAUDE_BIN = FAKE_CLAUDE_BIN;
+
+afterAll(() => {
+  fs.rmSync(home, { recursive: true, force: true, maxRetries: 5 });
+});
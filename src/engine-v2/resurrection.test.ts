@@ -0,0 +1,82 @@
+/**
+ * Resurrection & isolation: conversations resume after the engine (and,
+ * for the process backend, every Claude process) is torn down.
+ *
+ * Replaces the old resurrection-test.ts script.
+ */
+import { describe, it, expect, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import { TmuxSessionEngine } from './TmuxSessionEngine.js';
+import type { BackendKind } from './SessionBackend.js';
+import {
+  SessionObserver,
+  availableBackends,
+  createTestProject,
+  newSessionId,
+  isAgentStatus,
+  isHistorySnapshot,
+  isAssistantContaining,
+} from './fake-claude/harness.js';
+
+describe.each(availableBackends())('session resurrection on %s backend', (backend: BackendKind) => {
+  const projectPath = createTestProject();
+  let engine = new TmuxSessionEngine({ defaultBackend: backend });
+  const idA = newSessionId();
+  const idB = newSessionId();
+
+  afterAll(async () => {
+    await engine.destroy(idA, true);
+    await engine.destroy(idB, true);
+    engine.stop();
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('resumes each session with its own context after a full restart', async () => {
+    await engine.create(idA, projectPath, 'sonnet', { backend });
+    await engine.create(idB, projectPath, 'sonnet', { backend });
+
+    const obsA = await SessionObserver.open(engine, idA);
+    const obsB = await SessionObserver.open(engine, idB);
+    // The transform watcher is up once the snapshot is out; submitting earlier
+    // can put the init frame ahead of it
+    await obsA.waitFor(isHistorySnapshot());
+    await obsB.waitFor(isHistorySnapshot());
+    const idleA = obsA.waitForNext(isAgentStatus('idle'));
+    const idleB = obsB.waitForNext(isAgentStatus('idle'));
+    await engine.submit(idA, 'test', 'My favorite fruit is Apples. Remember this.');
+    await engine.submit(idB, 'test', 'My favorite fruit is Oranges. Remember this.');
+    await obsA.waitFor(isAssistantContaining('Echo: My favorite fruit is Apples'));
+    await obsB.waitFor(isAssistantContaining('Echo: My favorite fruit is Oranges'));
+    await idleA;
+    await idleB;
+    await obsA.close();
+    await obsB.close();
+
+    const resumeA = (await engine.getState(idA))?.claudeSessionId;
+    const resumeB = (await engine.getState(idB))?.claudeSessionId;
+
+    // Total process failure: FIFOs / stdin closed, Claude exits
+    engine.stop();
+    engine = new TmuxSessionEngine({ defaultBackend: backend });
+    await engine.reconcile();
+
+    const revivedA = await SessionObserver.open(engine, idA);
+    const revivedB = await SessionObserver.open(engine, idB);
+    await revivedA.waitFor(isHistorySnapshot());
+    await revivedB.waitFor(isHistorySnapshot());
+    await engine.submit(idA, 'test', '[scenario:recall] What is my favorite fruit?');
+    await engine.submit(idB, 'test', '[scenario:recall] What is my favorite fruit?');
+
+    await revivedA.waitFor(isAssistantContaining('You first said: My favorite fruit is Apples'));
+    await revivedB.waitFor(isAssistantContaining('You first said: My favorite fruit is Oranges'));
+    expect(revivedA.messages.some(isAssistantContaining('Oranges'))).toBe(false);
+    expect(revivedB.messages.some(isAssistantContaining('Apples'))).toBe(false);
+
+    // Same Claude conversation, resumed rather than restarted
+    expect((await engine.getState(idA))?.claudeSessionId).toBe(resumeA);
+    expect((await engine.getState(idB))?.claudeSessionId).toBe(resumeB);
+
+    await revivedA.close();
+    await revivedB.close();
+  });
+});
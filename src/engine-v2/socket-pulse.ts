@@ -2,7 +2,8 @@ import WebSocket from 'ws';
 
 async function testSocket() {
   const sessionId = 'pulsar-' + Math.random().toString(36).slice(2, 6);
-  const ws = new WebSocket(`http://0.0.0.0:7777/ws/chat/${sessionId}`);
+  const token = encodeURIComponent(process.env.AIMESSAGE_TOKEN ?? '');
+  const ws = new WebSocket(`http://0.0.0.0:7777/ws/chat/${sessionId}?token=${token}`);
 
   console.log(`📡 Connecting to Session: ${sessionId}`);
 
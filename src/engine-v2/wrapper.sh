@@ -1,20 +1,24 @@
 #!/bin/bash
 # wrapper.sh — tmux-hosted Claude process supervisor
-# Usage: wrapper.sh <session-dir> <model> <project-dir>
+# Usage: wrapper.sh <session-dir> <model> <project-dir> [claude-bin]
 # Runs inside tmux. tmux's only job: keep THIS alive.
 
 SESSION_DIR="$1"
 MODEL="${2:-sonnet}"
 PROJECT_DIR="${3:-/tmp}"
+CLAUDE_BIN="${4:-$HOME/.local/bin/claude}"
 FIFO="$SESSION_DIR/input.fifo"
 OUT="$SESSION_DIR/out.jsonl"
+PARTIAL="$SESSION_DIR/partial.jsonl"
 ERR="$SESSION_DIR/err.log"
+# The engine's in-process MCP server for host tools (HOST_MCP_CONFIG in HostTools.ts)
+MCP_CONFIG='{"mcpServers":{"aimessage":{"type":"sdk","name":"aimessage"}}}'
 
 # Create FIFO if it doesn't exist
 [ -p "$FIFO" ] || mkfifo "$FIFO"
 
-# Ensure output file exists
-touch "$OUT"
+# Ensure output files exist
+touch "$OUT" "$PARTIAL"
 
 # Clean environment so Claude doesn't think it's inside another Claude
 unset CLAUDE_CODE CLAUDECODE TERM_PROGRAM TERM_PROGRAM_VERSION
@@ -24,6 +28,16 @@ unset CLAUDE_CODE CLAUDECODE TERM_PROGRAM TERM_PROGRAM_VERSION
 # with its own process group and receives SIGINT normally.
 trap 'echo "[wrapper] SIGINT caught, continuing loop..." >> "$ERR"' INT
 
+# Routes Claude's stdout: partial-message frames (--include-partial-messages)
+# to partial.jsonl, which the engine empties after every turn, everything
+# else to out.jsonl. Ignores Ctrl-C so an interrupted Claude's last frames
+# still get through. grep rather than awk: mawk buffers its input.
+split_partials() {
+  trap '' INT
+  tee >(grep --line-buffered '^{"type":"stream_event"' >> "$PARTIAL") \
+    | grep --line-buffered -v '^{"type":"stream_event"' >> "$OUT"
+}
+
 RESTART_COUNT=0
 MAX_RAPID_RESTARTS=5
 RESTART_WINDOW_SECS=60
@@ -40,12 +54,22 @@ while true; do
 
   if [ "$RESTART_COUNT" -gt "$MAX_RAPID_RESTARTS" ]; then
     echo "[wrapper] Circuit breaker tripped: Claude crashed ${RESTART_COUNT} times in ${RESTART_WINDOW_SECS}s. Terminating session." >> "$ERR"
-    echo "{\"type\":\"stream_item\",\"item\":{\"kind\":\"system\",\"text\":\"[wrapper] Circuit breaker tripped: Claude crashed 5 times in 60s. Session terminated.\",\"timestamp\":\"$(date -u +%Y-%m-%dT%H:%M:%SZ)\"}}" >> "$OUT"
+    echo "{\"type\":\"host_event\",\"text\":\"[wrapper] Circuit breaker tripped: Claude crashed 5 times in 60s. Session terminated.\",\"timestamp\":\"$(date -u +%Y-%m-%dT%H:%M:%SZ)\"}" >> "$OUT"
     exit 1
   fi
   # --- End circuit breaker ---
 
-  # Check for resume ID (written by server when it sees system.init)
+  # cd to project directory so Claude has the right context
+  cd "$PROJECT_DIR"
+
+  # Wait for server to connect to FIFO (blocks until writer opens)
+  # Server updates metadata BEFORE opening FIFO, so reading after
+  # this point guarantees we see the latest model.
+  exec 3< "$FIFO"
+
+  # Check for resume ID (written by server when it sees system.init).
+  # Read after the FIFO wait, like the model: the server deletes it to clear the context.
+  RESUME_ID=""
   RESUME_FLAG=""
   if [ -f "$SESSION_DIR/resume_id" ]; then
     RESUME_ID=$(cat "$SESSION_DIR/resume_id")
@@ -54,13 +78,14 @@ while true; do
     fi
   fi
 
-  # cd to project directory so Claude has the right context
-  cd "$PROJECT_DIR"
-
-  # Wait for server to connect to FIFO (blocks until writer opens)
-  # Server updates metadata BEFORE opening FIFO, so reading after
-  # this point guarantees we see the latest model.
-  exec 3< "$FIFO"
+  # A fork resumes its parent's conversation into a new one, cut after the
+  # reply named in fork_at when there is one. The server deletes fork_at
+  # once the new conversation has started.
+  FORK_FLAGS=""
+  if [ -n "$RESUME_FLAG" ] && [ -f "$SESSION_DIR/fork_at" ]; then
+    FORK_AT=$(cat "$SESSION_DIR/fork_at")
+    FORK_FLAGS="--fork-session${FORK_AT:+ --resume-session-at $FORK_AT}"
+  fi
 
   # Re-read model from metadata (supports runtime model switching)
   # This runs AFTER the FIFO wait, so metadata is up to date.
@@ -71,25 +96,38 @@ while true; do
     fi
   fi
 
-  echo "[wrapper] Starting Claude (model=$MODEL, resume=$RESUME_ID, dir=$PROJECT_DIR)" >> "$ERR"
+  # Permission mode: 'ask' hands every tool call to the server over the
+  # stream-json control protocol instead of skipping permission checks.
+  PERMISSION_FLAG="--dangerously-skip-permissions"
+  if [ -f "$SESSION_DIR/metadata.json" ]; then
+    LIVE_PERMISSION_MODE=$(python3 -c "import json; print(json.load(open('$SESSION_DIR/metadata.json')).get('permissionMode',''))" 2>/dev/null)
+    if [ "$LIVE_PERMISSION_MODE" = "ask" ]; then
+      PERMISSION_FLAG="--permission-prompt-tool stdio"
+    fi
+  fi
+
+  echo "[wrapper] Starting Claude (model=$MODEL, resume=$RESUME_ID${FORK_FLAGS:+ (fork)}, dir=$PROJECT_DIR, permissions=${LIVE_PERMISSION_MODE:-bypass})" >> "$ERR"
 
   # Pipe FIFO data to Claude. When server closes fd, cat gets EOF, Claude exits.
-  cat <&3 | ~/.local/bin/claude -p \
+  # Its output goes through split_partials into out.jsonl and partial.jsonl.
+  cat <&3 | "$CLAUDE_BIN" -p \
     --input-format stream-json \
     --output-format stream-json \
-    --dangerously-skip-permissions \
+    $PERMISSION_FLAG \
     --verbose \
     --include-partial-messages \
+    --mcp-config "$MCP_CONFIG" \
     --model "$MODEL" \
     $RESUME_FLAG \
-    >> "$OUT" 2>>"$ERR"
+    $FORK_FLAGS \
+    2>>"$ERR" | split_partials
   exec 3<&-
 
   EXIT_CODE=$?
   echo "[wrapper] Claude exited (code=$EXIT_CODE), waiting for reconnection..." >> "$ERR"
 
-  # Write a system marker to out.jsonl so observers know Claude exited
-  echo "{\"type\":\"stream_item\",\"item\":{\"kind\":\"system\",\"text\":\"[wrapper] Claude process exited, awaiting reconnection...\",\"timestamp\":\"$(date -u +%Y-%m-%dT%H:%M:%SZ)\"}}" >> "$OUT"
+  # Write a host_event to out.jsonl; the engine sequences it into a system item
+  echo "{\"type\":\"host_event\",\"text\":\"[wrapper] Claude process exited, awaiting reconnection...\",\"timestamp\":\"$(date -u +%Y-%m-%dT%H:%M:%SZ)\"}" >> "$OUT"
 
   # Exponential backoff before retrying
   if [ "$RESTART_COUNT" -le 1 ]; then
@@ -10,6 +10,7 @@ import {
 } from "react-native";
 import { theme } from "../constants/theme";
 import type { ToolCall } from "../types/chat";
+import { getToolLabel, getToolView, toolViewText } from "../../shared/tool-call-display";
 
 /* ── Extract display info from raw tool_call ── */
 
@@ -22,6 +23,9 @@ interface FigureDisplay {
 
 function extractFigure(tool: ToolCall): FigureDisplay {
   const { name, input, result } = tool;
+  // The drawer shows the shared renderer's view as text: diff, numbered lines, output
+  const view = getToolView(tool);
+  const viewText = toolViewText(view);
 
   switch (name) {
     case "Edit": {
@@ -38,7 +42,18 @@ function extractFigure(tool: ToolCall): FigureDisplay {
         icon: "\u270E", // pencil
         title: filename,
         subtitle,
-        expandedContent: result ?? formatDiff(old, next),
+        expandedContent: viewText,
+      };
+    }
+
+    case "MultiEdit": {
+      const file = input.file_path ?? "";
+      const count = Array.isArray(input.edits) ? input.edits.length : 0;
+      return {
+        icon: "\u270E",
+        title: file.split("/").pop() ?? file,
+        subtitle: `${count} change${count === 1 ? "" : "s"}`,
+        expandedContent: viewText,
       };
     }
 
@@ -50,7 +65,7 @@ function extractFigure(tool: ToolCall): FigureDisplay {
         icon: "\u270E",
         title: filename,
         subtitle: `Created (${lines} lines)`,
-        expandedContent: result ?? input.content?.slice(0, 500),
+        expandedContent: viewText.slice(0, 2000),
       };
     }
 
@@ -60,22 +75,32 @@ function extractFigure(tool: ToolCall): FigureDisplay {
       const resultPreview = typeof result === "string"
         ? result.trim().split("\n").slice(0, 3).join("\n")
         : undefined;
+      const exitCode = view.type === "shell" ? view.exitCode : null;
       return {
         icon: ">_",
         title: cmdPreview,
-        subtitle: resultPreview?.split("\n")[0]?.slice(0, 60) ?? "",
-        expandedContent: typeof result === "string" ? result : undefined,
+        subtitle: exitCode ? `exit ${exitCode}` : resultPreview?.split("\n")[0]?.slice(0, 60) ?? "",
+        expandedContent: typeof result === "string" ? viewText : undefined,
       };
     }
 
+    case "TodoWrite":
+      return {
+        icon: "\u2611", // ballot box with check
+        title: getToolLabel(name, input),
+        subtitle: view.type === "todos" ? view.todos.find(t => t.status === "in_progress")?.activeForm ?? "" : "",
+        expandedContent: viewText,
+      };
+
     case "Agent":
+    case "Task":
     case "TaskCreate": {
       const desc = input.description ?? input.prompt?.slice(0, 60) ?? name;
       return {
         icon: "\u25B6", // play
         title: desc,
         subtitle: tool.status === "running" ? "working..." : tool.status,
-        expandedContent: input.prompt,
+        expandedContent: view.type === "agent" ? viewText : input.prompt,
       };
     }
 
@@ -96,7 +121,7 @@ function extractFigure(tool: ToolCall): FigureDisplay {
       // Fallback for unknown promoted tools
       return {
         icon: "\u2022", // bullet
-        title: name,
+        title: getToolLabel(name, input),
         subtitle: typeof result === "string" ? result.slice(0, 60) : "",
         expandedContent: typeof result === "string" ? result : undefined,
       };
@@ -104,13 +129,6 @@ function extractFigure(tool: ToolCall): FigureDisplay {
   }
 }
 
-function formatDiff(old: string, next: string): string {
-  const lines: string[] = [];
-  if (old) old.split("\n").forEach((l) => lines.push(`- ${l}`));
-  if (next) next.split("\n").forEach((l) => lines.push(`+ ${l}`));
-  return lines.join("\n");
-}
-
 /* ── Animated helpers ── */
 
 function FadeSlideIn({ children, style }: { children: React.ReactNode; style?: any }) {
@@ -1,6 +1,7 @@
 import { useRef, useEffect } from "react";
 import { View, Text, Pressable, StyleSheet, Platform } from "react-native";
 import { theme } from "../constants/theme";
+import { todoProgress, type TodoItem } from "../../shared/tool-call-display";
 
 export interface ObjectiveChild {
   name: string;
@@ -14,6 +15,17 @@ export interface ObjectiveCardData {
   lastAccessed: Date;
   status: "idle" | "thinking" | "needs-input" | "resolved" | "failed";
   children: ObjectiveChild[];
+  todos?: TodoItem[];    // the session's TodoWrite plan; shown as the children when present
+}
+
+const TODO_STATUS: Record<TodoItem["status"], ObjectiveChild["status"]> = {
+  pending: "idle",
+  in_progress: "thinking",
+  completed: "resolved",
+};
+
+export function childrenFromTodos(todos: TodoItem[]): ObjectiveChild[] {
+  return todos.map((t) => ({ name: t.content, status: TODO_STATUS[t.status] }));
 }
 
 interface ObjectiveCardProps {
@@ -25,6 +37,7 @@ function dotColor(status: ObjectiveChild["status"]): string {
   if (status === "failed") return theme.colors.failed;
   if (status === "needs-input") return theme.priority.important.dot;
   if (status === "thinking") return theme.priority.urgent.dot;
+  if (status === "resolved") return theme.colors.textPrimary;
   return theme.status.idle.dot;
 }
 
@@ -53,7 +66,9 @@ export function ObjectiveCard({ data, onPress }: ObjectiveCardProps) {
     return () => el.removeEventListener("wheel", handler);
   }, []);
 
-  const totalCount = data.children.length;
+  const children = data.todos?.length ? childrenFromTodos(data.todos) : data.children;
+  const progress = data.todos?.length ? todoProgress(data.todos) : null;
+  const totalCount = children.length;
 
   // Resolve header tint from status
   const headerTint = theme.status[data.status as keyof typeof theme.status]?.tint
@@ -70,7 +85,9 @@ export function ObjectiveCard({ data, onPress }: ObjectiveCardProps) {
         <View style={[styles.header, { backgroundColor: headerTint || "rgba(0,0,0,0.03)" }]}>
           <Text style={styles.title} numberOfLines={1}>{data.name}</Text>
           <View style={{ flex: 1 }} />
-          {totalCount > 0 && (
+          {progress ? (
+            <Text style={styles.count}>{progress.done}/{progress.total} done</Text>
+          ) : totalCount > 0 && (
             <Text style={styles.count}>{totalCount}</Text>
           )}
         </View>
@@ -79,9 +96,9 @@ export function ObjectiveCard({ data, onPress }: ObjectiveCardProps) {
         <View style={styles.body}>
           <Text style={styles.description} numberOfLines={2}>{data.description}</Text>
 
-          {data.children.length > 0 && (
+          {children.length > 0 && (
             <View style={styles.dots}>
-              {data.children.map((child, i) => (
+              {children.map((child, i) => (
                 <View
                   key={i}
                   style={[styles.dot, { backgroundColor: dotColor(child.status) }]}
@@ -0,0 +1,9 @@
+const path = require("path");
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+// Tool rendering is shared with the web client (../shared/tool-call-display.ts)
+config.watchFolders = [path.resolve(__dirname, "../shared")];
+
+module.exports = config;
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["server.test.ts", "src/**/*.test.ts", "lib/**/*.test.ts", "shared/**/*.test.ts"],
+    setupFiles: ["src/engine-v2/fake-claude/setup.ts"],
+    // Suites spawn real tmux sessions / child processes; keep them serial
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 30000,
+  },
+});